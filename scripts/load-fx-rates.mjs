@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+// Loads mid-market exchange rates from a CSV file into fx_rates, replacing
+// the rate of every pair it lists. The file needs a header row of
+// base_currency,quote_currency,mid_rate; see scripts/fx-rates.csv.
+//
+//   npm run fx-rates -- [path/to/rates.csv]
+//
+// Reads SUPABASE_URL (or VITE_SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY from
+// the environment, .env.local or .env.
+import { readFileSync } from 'node:fs';
+import { createClient } from '@supabase/supabase-js';
+
+const COLUMNS = ['base_currency', 'quote_currency', 'mid_rate'];
+
+for (const file of ['.env.local', '.env']) {
+  try {
+    process.loadEnvFile(file);
+  } catch {
+    // Optional file
+  }
+}
+
+const path = process.argv[2] ?? 'scripts/fx-rates.csv';
+
+let text;
+try {
+  text = readFileSync(path, 'utf8');
+} catch (error) {
+  console.error(`Could not read ${path}:`, error.message);
+  process.exit(1);
+}
+
+const [header, ...lines] = text
+  .split(/\r?\n/)
+  .map((line) => line.trim())
+  .filter((line) => line !== '' && !line.startsWith('#'));
+
+const columns = header?.split(',').map((column) => column.trim().toLowerCase()) ?? [];
+if (COLUMNS.some((column) => !columns.includes(column))) {
+  console.error(`${path} must start with a header row of ${COLUMNS.join(',')}`);
+  process.exit(1);
+}
+
+const rates = lines.map((line, index) => {
+  const values = Object.fromEntries(line.split(',').map((value, i) => [columns[i], value.trim()]));
+  const rate = {
+    base_currency: values.base_currency?.toUpperCase(),
+    quote_currency: values.quote_currency?.toUpperCase(),
+    mid_rate: Number(values.mid_rate),
+    updated_at: new Date().toISOString(),
+  };
+
+  if (!rate.base_currency || !rate.quote_currency || !(rate.mid_rate > 0)) {
+    console.error(`${path}, line ${index + 2}: expected a currency pair and a positive rate, got "${line}"`);
+    process.exit(1);
+  }
+
+  return rate;
+});
+
+if (rates.length === 0) {
+  console.log(`${path}: no rates to load`);
+  process.exit(0);
+}
+
+const url = process.env.SUPABASE_URL ?? process.env.VITE_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!url || !serviceRoleKey) {
+  console.error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set to load rates.');
+  process.exit(1);
+}
+
+const supabase = createClient(url, serviceRoleKey, {
+  auth: { persistSession: false },
+});
+
+const { data, error } = await supabase
+  .from('fx_rates')
+  .upsert(rates, { onConflict: 'base_currency,quote_currency' })
+  .select('base_currency, quote_currency, mid_rate');
+
+if (error) {
+  console.error('Loading rates failed:', error.message);
+  process.exit(1);
+}
+
+console.table(data);
@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+// Runs one of the back-office jobs (Postgres functions granted to the
+// service role) on demand, so they can be exercised locally without a cron
+// service.
+//
+//   npm run job -- <job> [--as-of YYYY-MM-DD]
+//
+// Reads SUPABASE_URL (or VITE_SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY from
+// the environment, .env.local or .env.
+import { createClient } from '@supabase/supabase-js';
+
+const JOBS = {
+  'scheduled-transactions': 'run_due_scheduled_transactions',
+  'overdraft-interest': 'charge_overdraft_interest',
+  'fd-maturity': 'pay_matured_fixed_deposits',
+  'savings-interest-accrual': 'accrue_savings_interest',
+  'savings-interest-posting': 'post_savings_interest',
+  'rd-instalments': 'collect_recurring_deposit_instalments',
+  'rd-maturity': 'pay_matured_recurring_deposits',
+  'monthly-fees': 'charge_monthly_fees',
+  'loan-emis': 'collect_loan_instalments',
+  'goal-contributions': 'run_savings_goal_contributions',
+};
+
+for (const file of ['.env.local', '.env']) {
+  try {
+    process.loadEnvFile(file);
+  } catch {
+    // Optional file
+  }
+}
+
+const [job, ...rest] = process.argv.slice(2);
+const asOfIndex = rest.indexOf('--as-of');
+const asOf = asOfIndex === -1 ? undefined : rest[asOfIndex + 1];
+
+if (!JOBS[job]) {
+  console.error(`Usage: npm run job -- <${Object.keys(JOBS).join('|')}> [--as-of YYYY-MM-DD]`);
+  process.exit(1);
+}
+
+const url = process.env.SUPABASE_URL ?? process.env.VITE_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!url || !serviceRoleKey) {
+  console.error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set to run jobs.');
+  process.exit(1);
+}
+
+const supabase = createClient(url, serviceRoleKey, {
+  auth: { persistSession: false },
+});
+
+const { data, error } = await supabase.rpc(JOBS[job], asOf ? { p_as_of: asOf } : {});
+
+if (error) {
+  console.error(`${job} failed:`, error.message);
+  process.exit(1);
+}
+
+if (Array.isArray(data) && data.length === 0) {
+  console.log(`${job}: nothing to do`);
+} else {
+  console.table(Array.isArray(data) ? data : [data]);
+}
@@ -4,6 +4,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/components/auth/AuthProvider";
+import { AccountProvider } from "@/components/accounts/AccountProvider";
 import { ThemeProvider } from "@/components/theme/ThemeProvider";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
@@ -11,6 +12,21 @@ import Dashboard from "./pages/Dashboard";
 import Profile from "./pages/Profile";
 import Transactions from "./pages/Transactions";
 import Settings from "./pages/Settings";
+import Beneficiaries from "./pages/Beneficiaries";
+import Scheduled from "./pages/Scheduled";
+import FixedDeposits from "./pages/FixedDeposits";
+import RecurringDeposits from "./pages/RecurringDeposits";
+import RecurringDepositDetail from "./pages/RecurringDepositDetail";
+import Exchange from "./pages/Exchange";
+import Loans from "./pages/Loans";
+import LoanDetail from "./pages/LoanDetail";
+import Bills from "./pages/Bills";
+import Payments from "./pages/Payments";
+import ScanPay from "./pages/ScanPay";
+import PayLink from "./pages/PayLink";
+import Splits from "./pages/Splits";
+import SplitGroupDetail from "./pages/SplitGroupDetail";
+import Goals from "./pages/Goals";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -19,21 +35,38 @@ const App = () => (
   <QueryClientProvider client={queryClient}>
     <ThemeProvider defaultTheme="system" storageKey="bank-theme">
       <AuthProvider>
-        <TooltipProvider>
-          <Toaster />
-          <Sonner />
-          <BrowserRouter>
-            <Routes>
-              <Route path="/" element={<Index />} />
-              <Route path="/auth" element={<Auth />} />
-              <Route path="/dashboard" element={<Dashboard />} />
-              <Route path="/profile" element={<Profile />} />
-              <Route path="/transactions" element={<Transactions />} />
-              <Route path="/settings" element={<Settings />} />
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </BrowserRouter>
-        </TooltipProvider>
+        <AccountProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <BrowserRouter>
+              <Routes>
+                <Route path="/" element={<Index />} />
+                <Route path="/auth" element={<Auth />} />
+                <Route path="/dashboard" element={<Dashboard />} />
+                <Route path="/profile" element={<Profile />} />
+                <Route path="/transactions" element={<Transactions />} />
+                <Route path="/beneficiaries" element={<Beneficiaries />} />
+                <Route path="/scheduled" element={<Scheduled />} />
+                <Route path="/fixed-deposits" element={<FixedDeposits />} />
+                <Route path="/recurring-deposits" element={<RecurringDeposits />} />
+                <Route path="/recurring-deposits/:id" element={<RecurringDepositDetail />} />
+                <Route path="/exchange" element={<Exchange />} />
+                <Route path="/loans" element={<Loans />} />
+                <Route path="/loans/:id" element={<LoanDetail />} />
+                <Route path="/bills" element={<Bills />} />
+                <Route path="/payments" element={<Payments />} />
+                <Route path="/scan" element={<ScanPay />} />
+                <Route path="/pay/:token" element={<PayLink />} />
+                <Route path="/splits" element={<Splits />} />
+                <Route path="/splits/:id" element={<SplitGroupDetail />} />
+                <Route path="/goals" element={<Goals />} />
+                <Route path="/settings" element={<Settings />} />
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </BrowserRouter>
+          </TooltipProvider>
+        </AccountProvider>
       </AuthProvider>
     </ThemeProvider>
   </QueryClientProvider>
@@ -0,0 +1,80 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/auth/AuthProvider';
+import type { Account } from '@/lib/accounts';
+
+const SELECTED_ACCOUNT_KEY = 'bank-selected-account';
+
+interface AccountContextType {
+  accounts: Account[];
+  selectedAccount: Account | null;
+  selectAccount: (accountId: string) => void;
+  refreshAccounts: () => Promise<void>;
+  loading: boolean;
+}
+
+const AccountContext = createContext<AccountContextType>({
+  accounts: [],
+  selectedAccount: null,
+  selectAccount: () => {},
+  refreshAccounts: async () => {},
+  loading: true,
+});
+
+export const useAccounts = () => {
+  const context = useContext(AccountContext);
+  if (!context) {
+    throw new Error('useAccounts must be used within an AccountProvider');
+  }
+  return context;
+};
+
+// Loads the signed-in user's accounts and remembers which one the dashboard works on
+export const AccountProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(
+    () => localStorage.getItem(SELECTED_ACCOUNT_KEY)
+  );
+  const [loading, setLoading] = useState(true);
+
+  const refreshAccounts = useCallback(async () => {
+    if (!user) {
+      setAccounts([]);
+      setLoading(false);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('accounts')
+      .select('*')
+      .eq('user_id', user.id)
+      .neq('status', 'closed')
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching accounts:', error);
+    } else {
+      setAccounts(data || []);
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    setLoading(true);
+    refreshAccounts();
+  }, [refreshAccounts]);
+
+  const selectAccount = (accountId: string) => {
+    localStorage.setItem(SELECTED_ACCOUNT_KEY, accountId);
+    setSelectedAccountId(accountId);
+  };
+
+  const selectedAccount = accounts.find((account) => account.id === selectedAccountId) ?? accounts[0] ?? null;
+
+  return (
+    <AccountContext.Provider value={{ accounts, selectedAccount, selectAccount, refreshAccounts, loading }}>
+      {children}
+    </AccountContext.Provider>
+  );
+};
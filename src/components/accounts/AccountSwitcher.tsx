@@ -0,0 +1,30 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAccounts } from '@/components/accounts/AccountProvider';
+import { getAccountLabel } from '@/lib/accounts';
+import { cn } from '@/lib/utils';
+
+interface AccountSwitcherProps {
+  className?: string;
+}
+
+export const AccountSwitcher: React.FC<AccountSwitcherProps> = ({ className }) => {
+  const { accounts, selectedAccount, selectAccount } = useAccounts();
+
+  if (!selectedAccount) return null;
+
+  return (
+    <Select value={selectedAccount.id} onValueChange={selectAccount}>
+      <SelectTrigger className={cn('w-48', className)} aria-label="Select account">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {accounts.map((account) => (
+          <SelectItem key={account.id} value={account.id}>
+            {getAccountLabel(account)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
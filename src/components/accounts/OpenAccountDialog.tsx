@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAccounts } from '@/components/accounts/AccountProvider';
+import { getAccountLabel } from '@/lib/accounts';
+import { CURRENCIES, DEFAULT_CURRENCY } from '@/lib/money';
+import { Plus } from 'lucide-react';
+
+export const OpenAccountDialog: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [accountType, setAccountType] = useState('savings');
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+  const [isSaving, setIsSaving] = useState(false);
+  const { refreshAccounts, selectAccount } = useAccounts();
+  const { toast } = useToast();
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const formData = new FormData(event.currentTarget);
+    const nickname = formData.get('accountNickname') as string;
+
+    setIsSaving(true);
+
+    const { data, error } = await supabase.rpc('open_account', {
+      p_account_type: accountType,
+      p_nickname: nickname,
+      p_currency: currency,
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Account Opened',
+        description: `${getAccountLabel(data)} (${data.account_number}) is ready to use.`,
+      });
+      await refreshAccounts();
+      selectAccount(data.id);
+      setIsOpen(false);
+    }
+
+    setIsSaving(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full">
+          <Plus className="h-4 w-4 mr-2" />
+          Open New Account
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Open New Account</DialogTitle>
+          <DialogDescription>
+            Your new account gets its own account number and starts with a zero balance.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="accountType">Account Type</Label>
+            <Select value={accountType} onValueChange={setAccountType}>
+              <SelectTrigger id="accountType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="savings">Savings Account</SelectItem>
+                <SelectItem value="current">Current Account</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="accountCurrency">Currency</Label>
+            <Select value={currency} onValueChange={setCurrency}>
+              <SelectTrigger id="accountCurrency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(CURRENCIES).map(([code, { name }]) => (
+                  <SelectItem key={code} value={code}>
+                    {name} ({code})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {currency !== DEFAULT_CURRENCY && (
+              <p className="text-sm text-muted-foreground mt-1">
+                Foreign currency accounts do not earn savings interest or fund deposits.
+              </p>
+            )}
+          </div>
+          <div>
+            <Label htmlFor="accountNickname">Nickname (Optional)</Label>
+            <Input
+              id="accountNickname"
+              name="accountNickname"
+              placeholder="e.g. Household"
+            />
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Opening...' : 'Open Account'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -8,96 +8,102 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/components/auth/AuthProvider';
-import { TrendingUp, TrendingDown } from 'lucide-react';
+import { useIdempotencyKey } from '@/hooks/use-idempotency-key';
+import { TransferForm } from '@/components/banking/TransferForm';
+import { currencySymbol, formatMoney } from '@/lib/money';
+import { spendableBalance } from '@/lib/overdraft';
+import { remainingWithdrawalToday, withdrawalsLeftToday, type WithdrawalLimits } from '@/lib/limits';
+import { TrendingUp, TrendingDown, Send } from 'lucide-react';
 
 interface BankingOperationsProps {
+  accountId: string;
+  currency: string;
   currentBalance: number;
+  overdraftLimit?: number;
   onBalanceUpdate: () => void;
 }
 
 export const BankingOperations: React.FC<BankingOperationsProps> = ({
+  accountId,
+  currency,
   currentBalance,
+  overdraftLimit = 0,
   onBalanceUpdate,
 }) => {
   const [isLoading, setIsLoading] = useState(false);
   const { user } = useAuth();
   const { toast } = useToast();
+  const depositKey = useIdempotencyKey();
+  const withdrawKey = useIdempotencyKey();
+  const [limits, setLimits] = useState<WithdrawalLimits | null>(null);
 
+  // Usage changes whenever the balance does, so refresh alongside it
+  useEffect(() => {
+    if (user) {
+      fetchLimits();
+    }
+  }, [user, accountId, currentBalance]);
+
+  const fetchLimits = async () => {
+    const { data, error } = await supabase.rpc('get_withdrawal_limits', {
+      p_account_id: accountId,
+    });
+
+    if (error) {
+      console.error('Error fetching withdrawal limits:', error);
+    } else {
+      setLimits(data?.[0] ?? null);
+    }
+  };
+
+  // Resolves to true once the transaction is posted (or was already posted under the same key)
   const handleTransaction = async (
     type: 'deposit' | 'withdraw',
     amount: number,
-    description: string
-  ) => {
-    if (!user) return;
+    description: string,
+    idempotencyKey: string
+  ): Promise<boolean> => {
+    if (!user) return false;
 
     setIsLoading(true);
 
     try {
-      // Calculate new balance
-      const newBalance = type === 'deposit' 
-        ? currentBalance + amount 
-        : currentBalance - amount;
-
-      if (type === 'withdraw' && newBalance < 0) {
-        toast({
-          title: 'Insufficient Funds',
-          description: 'You do not have sufficient balance for this withdrawal.',
-          variant: 'destructive',
-        });
-        setIsLoading(false);
-        return;
-      }
-
-      // Process transaction manually
-        const { data: currentProfile, error: fetchError } = await supabase
-          .from('profiles')
-          .select('balance')
-          .eq('user_id', user.id)
-          .single();
-
-        if (fetchError) throw fetchError;
-
-        const updatedBalance = type === 'deposit' 
-          ? currentProfile.balance + amount 
-          : currentProfile.balance - amount;
+      // Lock, validate, update the balance and record the transaction in one database call
+      const { data, error } = await supabase.rpc('post_transaction', {
+        p_account_id: accountId,
+        p_transaction_type: type,
+        p_amount: amount,
+        p_description: description,
+        p_idempotency_key: idempotencyKey,
+      });
 
-        if (type === 'withdraw' && updatedBalance < 0) {
+      if (error) {
+        if (error.message === 'Insufficient funds') {
           toast({
             title: 'Insufficient Funds',
             description: 'You do not have sufficient balance for this withdrawal.',
             variant: 'destructive',
           });
-          setIsLoading(false);
-          return;
+          return false;
         }
+        throw error;
+      }
 
-        // Update balance
-        const { error: updateError } = await supabase
-          .from('profiles')
-          .update({ balance: updatedBalance })
-          .eq('user_id', user.id);
-
-        if (updateError) throw updateError;
-
-        // Create transaction record
-        const { error: transactionInsertError } = await supabase
-          .from('transactions')
-          .insert({
-            user_id: user.id,
-            amount,
-            transaction_type: type,
-            description: description || `${type === 'deposit' ? 'Deposit' : 'Withdrawal'} transaction`,
-            balance_after: updatedBalance,
-          });
-
-        if (transactionInsertError) throw transactionInsertError;
-
-      toast({
-        title: 'Success',
-        description: `${type === 'deposit' ? 'Deposit' : 'Withdrawal'} of ₹${amount.toFixed(2)} completed successfully.`,
-      });
+      // Large withdrawals are held for review; the amount is already off the available balance
+      if (data.status === 'pending') {
+        toast({
+          title: 'Withdrawal Pending',
+          description: `Withdrawal of ${formatMoney(amount, currency)} is pending review and will be posted once approved.`,
+        });
+      } else {
+        toast({
+          title: 'Success',
+          description: `${type === 'deposit' ? 'Deposit' : 'Withdrawal'} of ${formatMoney(amount, currency)} completed successfully.`,
+        });
+      }
 
       onBalanceUpdate();
+      return true;
     } catch (error: any) {
       console.error('Transaction error:', error);
       toast({
@@ -105,6 +111,7 @@ export const BankingOperations: React.FC<BankingOperationsProps> = ({
         description: error.message || 'Transaction failed. Please try again.',
         variant: 'destructive',
       });
+      return false;
     } finally {
       setIsLoading(false);
     }
@@ -125,8 +132,12 @@ export const BankingOperations: React.FC<BankingOperationsProps> = ({
       return;
     }
 
-    await handleTransaction('deposit', amount, description);
-    (event.target as HTMLFormElement).reset();
+    const form = event.currentTarget;
+    const key = depositKey.keyFor(`${amount}|${description}`);
+    if (await handleTransaction('deposit', amount, description, key)) {
+      depositKey.complete();
+      form.reset();
+    }
   };
 
   const handleWithdrawSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
@@ -144,7 +155,7 @@ export const BankingOperations: React.FC<BankingOperationsProps> = ({
       return;
     }
 
-    if (amount > currentBalance) {
+    if (amount > spendableBalance(currentBalance, overdraftLimit)) {
       toast({
         title: 'Insufficient Funds',
         description: 'You do not have sufficient balance for this withdrawal.',
@@ -153,19 +164,34 @@ export const BankingOperations: React.FC<BankingOperationsProps> = ({
       return;
     }
 
-    await handleTransaction('withdraw', amount, description);
-    (event.target as HTMLFormElement).reset();
+    if (limits && (amount > limits.max_single_withdrawal || amount > remainingWithdrawalToday(limits))) {
+      toast({
+        title: 'Limit Exceeded',
+        description: amount > limits.max_single_withdrawal
+          ? `Withdrawals from a ${limits.account_type} account are limited to ${formatMoney(limits.max_single_withdrawal, currency)} per transaction.`
+          : `You can withdraw up to ${formatMoney(remainingWithdrawalToday(limits), currency)} more today.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const form = event.currentTarget;
+    const key = withdrawKey.keyFor(`${amount}|${description}`);
+    if (await handleTransaction('withdraw', amount, description, key)) {
+      withdrawKey.complete();
+      form.reset();
+    }
   };
 
   return (
     <Card>
       <CardHeader>
         <CardTitle>Banking Operations</CardTitle>
-        <CardDescription>Manage your deposits and withdrawals</CardDescription>
+        <CardDescription>Manage your deposits, withdrawals and transfers</CardDescription>
       </CardHeader>
       <CardContent>
         <Tabs defaultValue="deposit" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="deposit" className="flex items-center gap-2">
               <TrendingUp className="h-4 w-4" />
               Deposit
@@ -174,12 +200,16 @@ export const BankingOperations: React.FC<BankingOperationsProps> = ({
               <TrendingDown className="h-4 w-4" />
               Withdraw
             </TabsTrigger>
+            <TabsTrigger value="transfer" className="flex items-center gap-2">
+              <Send className="h-4 w-4" />
+              Transfer
+            </TabsTrigger>
           </TabsList>
           
           <TabsContent value="deposit">
             <form onSubmit={handleDepositSubmit} className="space-y-4">
               <div>
-                <Label htmlFor="depositAmount">Amount (₹)</Label>
+                <Label htmlFor="depositAmount">Amount ({currencySymbol(currency)})</Label>
                 <Input
                   id="depositAmount"
                   name="depositAmount"
@@ -209,20 +239,32 @@ export const BankingOperations: React.FC<BankingOperationsProps> = ({
           <TabsContent value="withdraw">
             <form onSubmit={handleWithdrawSubmit} className="space-y-4">
               <div>
-                <Label htmlFor="withdrawAmount">Amount (₹)</Label>
+                <Label htmlFor="withdrawAmount">Amount ({currencySymbol(currency)})</Label>
                 <Input
                   id="withdrawAmount"
                   name="withdrawAmount"
                   type="number"
                   min="0.01"
                   step="0.01"
-                  max={currentBalance}
+                  max={spendableBalance(currentBalance, overdraftLimit)}
                   required
                   placeholder="Enter withdrawal amount"
                 />
                 <p className="text-sm text-muted-foreground mt-1">
-                  Available balance: ₹{currentBalance.toFixed(2)}
+                  Available balance: {formatMoney(currentBalance, currency)}
+                  {overdraftLimit > 0 && ` (${formatMoney(spendableBalance(currentBalance, overdraftLimit), currency)} with overdraft)`}
+                  {limits && (
+                    <>
+                      {' · '}Remaining limit today: {formatMoney(remainingWithdrawalToday(limits), currency)}
+                      {' '}({withdrawalsLeftToday(limits)} withdrawals or payments left)
+                    </>
+                  )}
                 </p>
+                {limits && (
+                  <p className="text-xs text-muted-foreground">
+                    Up to {formatMoney(limits.max_single_withdrawal, currency)} per withdrawal
+                  </p>
+                )}
               </div>
               <div>
                 <Label htmlFor="withdrawDescription">Description (Optional)</Label>
@@ -239,6 +281,16 @@ export const BankingOperations: React.FC<BankingOperationsProps> = ({
               </Button>
             </form>
           </TabsContent>
+
+          <TabsContent value="transfer">
+            <TransferForm
+              accountId={accountId}
+              currency={currency}
+              currentBalance={currentBalance}
+              overdraftLimit={overdraftLimit}
+              onTransferComplete={onBalanceUpdate}
+            />
+          </TabsContent>
         </Tabs>
       </CardContent>
     </Card>
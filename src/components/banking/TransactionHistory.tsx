@@ -2,36 +2,62 @@ import React, { useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { TrendingUp, TrendingDown, Clock } from 'lucide-react';
 import { format } from 'date-fns';
+import { formatMoney } from '@/lib/money';
+import {
+  TRANSACTION_STATUSES,
+  getCounterpartyLabel,
+  getStatusColor,
+  getStatusLabel,
+  getTransactionLabel,
+  hasPostedBalance,
+  isCreditTransaction,
+} from '@/lib/transactions';
 
 interface Transaction {
   id: string;
   amount: number;
   transaction_type: string;
   description: string;
+  counterparty_name: string | null;
   balance_after: number;
+  status: string;
+  failure_reason: string | null;
   created_at: string;
 }
 
-export const TransactionHistory: React.FC = () => {
+interface TransactionHistoryProps {
+  accountId: string;
+  currency: string;
+}
+
+export const TransactionHistory: React.FC<TransactionHistoryProps> = ({ accountId, currency }) => {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState('all');
   const { user } = useAuth();
 
   useEffect(() => {
     if (user) {
       fetchTransactions();
     }
-  }, [user]);
+  }, [user, accountId, statusFilter]);
 
   const fetchTransactions = async () => {
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('transactions')
         .select('*')
-        .eq('user_id', user?.id)
+        .eq('account_id', accountId);
+
+      if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter);
+      }
+
+      const { data, error } = await query
         .order('created_at', { ascending: false })
         .limit(10);
 
@@ -47,16 +73,8 @@ export const TransactionHistory: React.FC = () => {
     }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: 'INR',
-      minimumFractionDigits: 2,
-    }).format(amount);
-  };
-
   const getTransactionIcon = (type: string) => {
-    return type === 'deposit' ? (
+    return isCreditTransaction(type) ? (
       <TrendingUp className="h-4 w-4 text-green-600" />
     ) : (
       <TrendingDown className="h-4 w-4 text-red-600" />
@@ -64,7 +82,7 @@ export const TransactionHistory: React.FC = () => {
   };
 
   const getTransactionColor = (type: string) => {
-    return type === 'deposit' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800';
+    return isCreditTransaction(type) ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800';
   };
 
   if (loading) {
@@ -85,15 +103,32 @@ export const TransactionHistory: React.FC = () => {
 
   return (
     <Card>
-      <CardHeader>
-        <CardTitle>Transaction History</CardTitle>
-        <CardDescription>Your recent transactions (last 10)</CardDescription>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Transaction History</CardTitle>
+          <CardDescription>Your recent transactions (last 10)</CardDescription>
+        </div>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-36">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {TRANSACTION_STATUSES.map((status) => (
+              <SelectItem key={status} value={status}>
+                {getStatusLabel(status)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </CardHeader>
       <CardContent>
         {transactions.length === 0 ? (
           <div className="text-center py-8">
             <Clock className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-            <p className="text-muted-foreground">No transactions yet</p>
+            <p className="text-muted-foreground">
+              {statusFilter === 'all' ? 'No transactions yet' : `No ${getStatusLabel(statusFilter).toLowerCase()} transactions`}
+            </p>
             <p className="text-sm text-muted-foreground mt-1">
               Your transaction history will appear here
             </p>
@@ -109,29 +144,44 @@ export const TransactionHistory: React.FC = () => {
                   {getTransactionIcon(transaction.transaction_type)}
                   <div>
                     <div className="flex items-center gap-2">
-                      <p className="font-medium capitalize">
-                        {transaction.transaction_type}
+                      <p className="font-medium">
+                        {getTransactionLabel(transaction.transaction_type)}
                       </p>
                       <Badge
                         variant="secondary"
                         className={getTransactionColor(transaction.transaction_type)}
                       >
-                        {transaction.transaction_type === 'deposit' ? '+' : '-'}
-                        {formatCurrency(transaction.amount)}
+                        {isCreditTransaction(transaction.transaction_type) ? '+' : '-'}
+                        {formatMoney(transaction.amount, currency)}
                       </Badge>
+                      {transaction.status !== 'posted' && (
+                        <Badge variant="outline" className={getStatusColor(transaction.status)}>
+                          {getStatusLabel(transaction.status)}
+                        </Badge>
+                      )}
                     </div>
                     <p className="text-sm text-muted-foreground">
                       {transaction.description}
                     </p>
+                    {transaction.counterparty_name && (
+                      <p className="text-sm text-muted-foreground">
+                        {getCounterpartyLabel(transaction.transaction_type, transaction.counterparty_name)}
+                      </p>
+                    )}
+                    {transaction.failure_reason && (
+                      <p className="text-sm text-red-600">{transaction.failure_reason}</p>
+                    )}
                     <p className="text-xs text-muted-foreground">
                       {format(new Date(transaction.created_at), 'MMM dd, yyyy • hh:mm a')}
                     </p>
                   </div>
                 </div>
-                <div className="text-right">
-                  <p className="text-sm text-muted-foreground">Balance After</p>
-                  <p className="font-medium">{formatCurrency(transaction.balance_after)}</p>
-                </div>
+                {hasPostedBalance(transaction.status) && (
+                  <div className="text-right">
+                    <p className="text-sm text-muted-foreground">Balance After</p>
+                    <p className="font-medium">{formatMoney(transaction.balance_after, currency)}</p>
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -0,0 +1,303 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useAccounts } from '@/components/accounts/AccountProvider';
+import { useToast } from '@/hooks/use-toast';
+import { useIdempotencyKey } from '@/hooks/use-idempotency-key';
+import {
+  Beneficiary,
+  BeneficiarySettings,
+  PayeeTransferCap,
+  getBeneficiaryStatus,
+  getPayeeTransferCap,
+} from '@/lib/beneficiaries';
+import { currencySymbol, formatMoney } from '@/lib/money';
+import { spendableBalance } from '@/lib/overdraft';
+import { getAccountLabel, maskAccountNumber } from '@/lib/accounts';
+import { format } from 'date-fns';
+import { Search, UserCheck } from 'lucide-react';
+
+// Select value for paying someone who is not a saved payee
+const NEW_RECIPIENT = 'new';
+// Select values for the customer's other accounts are prefixed so they cannot collide with payee ids
+const OWN_ACCOUNT_PREFIX = 'account:';
+
+interface Recipient {
+  account_id: string;
+  name: string;
+  account_number_masked: string;
+}
+
+interface TransferFormProps {
+  accountId: string;
+  currency: string;
+  currentBalance: number;
+  overdraftLimit?: number;
+  onTransferComplete: () => void;
+}
+
+export const TransferForm: React.FC<TransferFormProps> = ({
+  accountId,
+  currency,
+  currentBalance,
+  overdraftLimit = 0,
+  onTransferComplete,
+}) => {
+  const [payeeId, setPayeeId] = useState(NEW_RECIPIENT);
+  const [beneficiaries, setBeneficiaries] = useState<Beneficiary[]>([]);
+  const [settings, setSettings] = useState<BeneficiarySettings | null>(null);
+  const [caps, setCaps] = useState<PayeeTransferCap[]>([]);
+  const [identifier, setIdentifier] = useState('');
+  const [lookedUpRecipient, setLookedUpRecipient] = useState<Recipient | null>(null);
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const { user } = useAuth();
+  const { accounts } = useAccounts();
+  const { toast } = useToast();
+  const transferKey = useIdempotencyKey();
+
+  useEffect(() => {
+    if (user) {
+      fetchBeneficiaries();
+    }
+  }, [user]);
+
+  useEffect(() => {
+    setPayeeId(NEW_RECIPIENT);
+  }, [accountId]);
+
+  const fetchBeneficiaries = async () => {
+    const [beneficiariesResult, settingsResult, capsResult] = await Promise.all([
+      supabase.from('beneficiaries').select('*').eq('user_id', user?.id).order('nickname'),
+      supabase.from('beneficiary_settings').select('*').maybeSingle(),
+      supabase.from('payee_transfer_caps').select('*'),
+    ]);
+
+    if (beneficiariesResult.error) {
+      console.error('Error fetching beneficiaries:', beneficiariesResult.error);
+    } else {
+      setBeneficiaries(beneficiariesResult.data || []);
+    }
+    setSettings(settingsResult.data);
+    setCaps(capsResult.data || []);
+  };
+
+  // Money moves between own accounts in the same currency only
+  const ownAccounts = accounts.filter(
+    (account) => account.id !== accountId && account.status === 'active' && account.currency === currency
+  );
+  const selectedOwnAccount = payeeId.startsWith(OWN_ACCOUNT_PREFIX)
+    ? ownAccounts.find((account) => OWN_ACCOUNT_PREFIX + account.id === payeeId) ?? null
+    : null;
+  const selectedPayee = beneficiaries.find((b) => b.id === payeeId) ?? null;
+  const payeeStatus = selectedPayee ? getBeneficiaryStatus(selectedPayee, settings, caps) : null;
+  const unsavedCap = getPayeeTransferCap(caps, currency);
+
+  const recipient: Recipient | null = selectedOwnAccount
+    ? {
+        account_id: selectedOwnAccount.id,
+        name: getAccountLabel(selectedOwnAccount),
+        account_number_masked: maskAccountNumber(selectedOwnAccount.account_number),
+      }
+    : selectedPayee
+      ? {
+          account_id: selectedPayee.payee_account_id,
+          name: selectedPayee.nickname,
+          account_number_masked: selectedPayee.account_number_masked,
+        }
+      : lookedUpRecipient;
+
+  const handleLookup = async () => {
+    setIsLookingUp(true);
+    setLookedUpRecipient(null);
+
+    const { data, error } = await supabase.rpc('find_transfer_recipient', {
+      p_identifier: identifier,
+    });
+
+    if (error || !data || data.length === 0) {
+      toast({
+        title: 'Recipient Not Found',
+        description: error?.message || 'No customer matches that account number, phone number or handle.',
+        variant: 'destructive',
+      });
+    } else {
+      setLookedUpRecipient(data[0]);
+    }
+
+    setIsLookingUp(false);
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!recipient) return;
+
+    const form = event.currentTarget;
+    const formData = new FormData(form);
+    const amount = parseFloat(formData.get('transferAmount') as string);
+    const description = formData.get('transferDescription') as string;
+
+    if (!(amount > 0)) {
+      toast({
+        title: 'Invalid Amount',
+        description: 'Please enter a valid amount greater than 0.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (amount > spendableBalance(currentBalance, overdraftLimit)) {
+      toast({
+        title: 'Insufficient Funds',
+        description: 'You do not have sufficient balance for this transfer.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const { error } = await supabase.rpc('post_transfer', {
+        p_from_account_id: accountId,
+        p_to_account_id: recipient.account_id,
+        p_amount: amount,
+        p_description: description,
+        p_idempotency_key: transferKey.keyFor(`${accountId}|${recipient.account_id}|${amount}|${description}`),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: `Transfer of ${formatMoney(amount, currency)} to ${recipient.name} completed successfully.`,
+      });
+
+      transferKey.complete();
+      form.reset();
+      setIdentifier('');
+      setLookedUpRecipient(null);
+      onTransferComplete();
+    } catch (error) {
+      console.error('Transfer error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Transfer failed. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <Label htmlFor="transferPayee">Send To</Label>
+        <Select value={payeeId} onValueChange={setPayeeId}>
+          <SelectTrigger id="transferPayee">
+            <SelectValue placeholder="Select a payee" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NEW_RECIPIENT}>Someone new</SelectItem>
+            {ownAccounts.map((account) => (
+              <SelectItem key={account.id} value={OWN_ACCOUNT_PREFIX + account.id}>
+                My account: {getAccountLabel(account)}
+              </SelectItem>
+            ))}
+            {beneficiaries.map((beneficiary) => (
+              <SelectItem key={beneficiary.id} value={beneficiary.id}>
+                {beneficiary.nickname} ({beneficiary.account_number_masked})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {payeeStatus?.state === 'cooling' && (
+          <p className="text-sm text-destructive mt-1">
+            This payee can receive money from {format(payeeStatus.until, 'hh:mm a')}.
+          </p>
+        )}
+        {payeeStatus?.state === 'new' && payeeStatus.cap !== null && (
+          <p className="text-sm text-muted-foreground mt-1">
+            New payee: up to {formatMoney(payeeStatus.cap, currency)} until {format(payeeStatus.until, 'MMM dd, hh:mm a')}.
+          </p>
+        )}
+      </div>
+      {!selectedPayee && !selectedOwnAccount && (
+        <div>
+          <Label htmlFor="transferRecipient">Recipient</Label>
+          <div className="flex gap-2">
+            <Input
+              id="transferRecipient"
+              value={identifier}
+              onChange={(e) => {
+                setIdentifier(e.target.value);
+                setLookedUpRecipient(null);
+              }}
+              placeholder="Account number, phone number or handle"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleLookup}
+              disabled={!identifier.trim() || isLookingUp}
+            >
+              <Search className="h-4 w-4 mr-2" />
+              {isLookingUp ? 'Finding...' : 'Find'}
+            </Button>
+          </div>
+          {recipient && (
+            <div className="flex items-center gap-2 mt-2 p-3 border rounded-lg bg-muted/50">
+              <UserCheck className="h-4 w-4 text-green-600" />
+              <div>
+                <p className="text-sm font-medium">{recipient.name}</p>
+                <p className="text-xs font-mono text-muted-foreground">{recipient.account_number_masked}</p>
+              </div>
+            </div>
+          )}
+          {settings && unsavedCap !== null && (
+            <p className="text-sm text-muted-foreground mt-1">
+              Transfers to unsaved recipients are limited to {formatMoney(unsavedCap, currency)}{' '}
+              in any {settings.new_payee_window_hours} hours.
+            </p>
+          )}
+        </div>
+      )}
+      <div>
+        <Label htmlFor="transferAmount">Amount ({currencySymbol(currency)})</Label>
+        <Input
+          id="transferAmount"
+          name="transferAmount"
+          type="number"
+          min="0.01"
+          step="0.01"
+          max={spendableBalance(currentBalance, overdraftLimit)}
+          required
+          placeholder="Enter transfer amount"
+        />
+        <p className="text-sm text-muted-foreground mt-1">
+          Available balance: {formatMoney(currentBalance, currency)}
+          {overdraftLimit > 0 && ` (${formatMoney(spendableBalance(currentBalance, overdraftLimit), currency)} with overdraft)`}
+        </p>
+      </div>
+      <div>
+        <Label htmlFor="transferDescription">Description (Optional)</Label>
+        <Textarea
+          id="transferDescription"
+          name="transferDescription"
+          placeholder="Enter transaction description"
+          className="resize-none"
+          rows={3}
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={isLoading || !recipient || payeeStatus?.state === 'cooling'}>
+        {isLoading ? 'Processing...' : 'Send Money'}
+      </Button>
+    </form>
+  );
+};
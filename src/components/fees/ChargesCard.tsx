@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useAccounts } from '@/components/accounts/AccountProvider';
+import { ACCOUNT_TYPE_LABELS, getAccountLabel } from '@/lib/accounts';
+import { formatRate } from '@/lib/fixed-deposits';
+import { Fee, FeeSchedule, getFeeTypeLabel } from '@/lib/fees';
+import { formatMoney } from '@/lib/money';
+import { format, parseISO } from 'date-fns';
+
+// The fee schedule for the account types the customer holds, and the fees
+// levied on their accounts
+export const ChargesCard: React.FC = () => {
+  const { user } = useAuth();
+  const { accounts } = useAccounts();
+  const [schedule, setSchedule] = useState<FeeSchedule[]>([]);
+  const [gstRate, setGstRate] = useState<number | null>(null);
+  const [fees, setFees] = useState<Fee[]>([]);
+
+  useEffect(() => {
+    if (user) {
+      fetchCharges();
+    }
+  }, [user]);
+
+  const fetchCharges = async () => {
+    try {
+      const [scheduleResult, settingsResult, feesResult] = await Promise.all([
+        supabase.from('fee_schedule').select('*').order('account_type', { ascending: false }),
+        supabase.from('fee_settings').select('gst_rate').maybeSingle(),
+        supabase
+          .from('fees')
+          .select('*')
+          .eq('user_id', user?.id)
+          .order('created_at', { ascending: false })
+          .limit(24),
+      ]);
+
+      if (feesResult.error) {
+        console.error('Error fetching fees:', feesResult.error);
+      }
+
+      setSchedule(scheduleResult.data || []);
+      setGstRate(settingsResult.data?.gst_rate ?? null);
+      setFees(feesResult.data || []);
+    } catch (error) {
+      console.error('Error fetching charges:', error);
+    }
+  };
+
+  const heldTypes = new Set(accounts.map((account) => account.account_type));
+  const heldSchedule = schedule.filter((row) => heldTypes.has(row.account_type));
+  const accountLabels = Object.fromEntries(accounts.map((account) => [account.id, getAccountLabel(account)]));
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Charges</CardTitle>
+        <CardDescription>
+          Fees are levied at the start of each month for the month before
+          {gstRate !== null && `, with ${formatRate(gstRate)} GST added`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-2">
+          {heldSchedule.map((row) => (
+            <div key={row.account_type} className="p-4 border rounded-lg space-y-2 text-sm">
+              <h4 className="font-medium">{ACCOUNT_TYPE_LABELS[row.account_type] ?? row.account_type} accounts</h4>
+              <div className="flex justify-between gap-4">
+                <span className="text-muted-foreground">
+                  Average balance below {formatMoney(row.min_average_balance)}
+                </span>
+                <span>{formatMoney(row.min_balance_penalty)}</span>
+              </div>
+              <div className="flex justify-between gap-4">
+                <span className="text-muted-foreground">
+                  Each withdrawal or transfer after {row.free_transactions_per_month} a month
+                </span>
+                <span>{formatMoney(row.transaction_fee)}</span>
+              </div>
+              <div className="flex justify-between gap-4">
+                <span className="text-muted-foreground">
+                  Each SMS alert, up to {formatMoney(row.sms_alert_monthly_cap)} a month
+                </span>
+                <span>{formatMoney(row.sms_alert_fee)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <h4 className="font-medium mb-3">Fees Levied</h4>
+          {fees.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No fees have been levied on your accounts</p>
+          ) : (
+            <div className="space-y-3">
+              {fees.map((fee) => (
+                <div key={fee.id} className="flex items-start justify-between gap-4 p-3 border rounded-lg">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium">{getFeeTypeLabel(fee.fee_type)}</p>
+                      {fee.status === 'waived' && <Badge variant="outline">Waived</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {format(parseISO(fee.period_start), 'MMMM yyyy')}
+                      {accountLabels[fee.account_id] && ` • ${accountLabels[fee.account_id]}`}
+                    </p>
+                  </div>
+                  <div className="text-right text-sm">
+                    <p className="font-medium">{formatMoney(fee.amount + fee.gst)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatMoney(fee.amount)} + {formatMoney(fee.gst)} GST
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
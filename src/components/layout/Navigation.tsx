@@ -4,8 +4,9 @@ import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { ThemeToggle } from '@/components/theme/ThemeToggle';
+import { AccountSwitcher } from '@/components/accounts/AccountSwitcher';
 import { useToast } from '@/hooks/use-toast';
-import { Menu, Home, User, History, LogOut, Settings } from 'lucide-react';
+import { Menu, Home, User, History, LogOut, Settings, Users, CalendarClock, Landmark, Repeat, ArrowLeftRight, Banknote, Receipt, AtSign, Split, Target } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface NavigationProps {
@@ -35,6 +36,16 @@ export const Navigation: React.FC<NavigationProps> = ({ userName }) => {
     { label: 'Dashboard', path: '/dashboard', icon: Home },
     { label: 'Profile', path: '/profile', icon: User },
     { label: 'Transactions', path: '/transactions', icon: History },
+    { label: 'Payees', path: '/beneficiaries', icon: Users },
+    { label: 'Scheduled', path: '/scheduled', icon: CalendarClock },
+    { label: 'Deposits', path: '/fixed-deposits', icon: Landmark },
+    { label: 'Recurring', path: '/recurring-deposits', icon: Repeat },
+    { label: 'Exchange', path: '/exchange', icon: ArrowLeftRight },
+    { label: 'Loans', path: '/loans', icon: Banknote },
+    { label: 'Bills', path: '/bills', icon: Receipt },
+    { label: 'Payments', path: '/payments', icon: AtSign },
+    { label: 'Splits', path: '/splits', icon: Split },
+    { label: 'Goals', path: '/goals', icon: Target },
     { label: 'Settings', path: '/settings', icon: Settings },
   ];
 
@@ -84,6 +95,8 @@ export const Navigation: React.FC<NavigationProps> = ({ userName }) => {
                 Welcome, {userName}!
               </span>
             )}
+
+            <AccountSwitcher className="hidden lg:flex" />
             
             <ThemeToggle />
             
@@ -112,6 +125,8 @@ export const Navigation: React.FC<NavigationProps> = ({ userName }) => {
                       <p className="text-muted-foreground">{userName}</p>
                     </div>
                   )}
+
+                  <AccountSwitcher className="w-full" />
                   
                   {navItems.map((item) => (
                     <NavItem key={item.path} item={item} mobile />
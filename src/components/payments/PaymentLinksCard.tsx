@@ -0,0 +1,391 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useAccounts } from '@/components/accounts/AccountProvider';
+import { useToast } from '@/hooks/use-toast';
+import { getAccountLabel } from '@/lib/accounts';
+import { currencySymbol, formatMoney } from '@/lib/money';
+import {
+  LINK_EXPIRY_HOUR_OPTIONS,
+  PaymentLink,
+  PaymentLinkPayment,
+  PaymentLinkSettings,
+  formatExpiryHours,
+  getPaymentLinkStatus,
+  getPaymentLinkStatusLabel,
+  paymentLinkUrl,
+} from '@/lib/payments';
+import { format, parseISO } from 'date-fns';
+import { ChevronDown, ChevronUp, Copy, Link2, Plus } from 'lucide-react';
+
+export const PaymentLinksCard: React.FC = () => {
+  const [links, setLinks] = useState<PaymentLink[]>([]);
+  const [payments, setPayments] = useState<PaymentLinkPayment[]>([]);
+  const [settings, setSettings] = useState<PaymentLinkSettings | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [createForm, setCreateForm] = useState({
+    account_id: '',
+    amount: '',
+    purpose: '',
+    expiry_hours: '',
+    multi_use: false,
+  });
+  const { user } = useAuth();
+  const { accounts, selectedAccount } = useAccounts();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (user) {
+      fetchLinks();
+    }
+  }, [user]);
+
+  const fetchLinks = async () => {
+    const [linksResult, settingsResult] = await Promise.all([
+      supabase
+        .from('payment_links')
+        .select('*')
+        .eq('user_id', user?.id)
+        .order('created_at', { ascending: false })
+        .limit(50),
+      supabase.from('payment_link_settings').select('*').maybeSingle(),
+    ]);
+
+    if (linksResult.error) {
+      console.error('Error fetching payment links:', linksResult.error);
+      return;
+    }
+
+    const linkRows = linksResult.data || [];
+    setLinks(linkRows);
+    setSettings(settingsResult.data);
+
+    if (linkRows.length > 0) {
+      const { data, error } = await supabase
+        .from('payment_link_payments')
+        .select('*')
+        .in('link_id', linkRows.map((link) => link.id))
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching payment link payments:', error);
+      } else {
+        setPayments(data || []);
+      }
+    }
+  };
+
+  const activeAccounts = accounts.filter((account) => account.status === 'active');
+  const createAccountId = createForm.account_id || selectedAccount?.id || '';
+  const createAccount = activeAccounts.find((account) => account.id === createAccountId) ?? null;
+  const expiryOptions = LINK_EXPIRY_HOUR_OPTIONS.filter((hours) => !settings || hours <= settings.max_expiry_hours);
+  const expiryHours = createForm.expiry_hours || String(settings?.default_expiry_hours ?? 168);
+
+  const copyLink = async (link: PaymentLink) => {
+    try {
+      await navigator.clipboard.writeText(paymentLinkUrl(link.token));
+      toast({
+        title: 'Link Copied',
+        description: 'Share it with whoever is paying you.',
+      });
+    } catch (error) {
+      console.error('Clipboard error:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not copy the link',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleCreateSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!createAccount) return;
+
+    const amount = parseFloat(createForm.amount);
+    if (!(amount > 0)) {
+      toast({
+        title: 'Invalid Amount',
+        description: 'Please enter a valid amount greater than 0.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    const { data, error } = await supabase.rpc('create_payment_link', {
+      p_account_id: createAccount.id,
+      p_amount: amount,
+      p_purpose: createForm.purpose,
+      p_multi_use: createForm.multi_use,
+      p_expires_in_hours: parseInt(expiryHours, 10),
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setLinks((prev) => [data, ...prev]);
+      setIsCreateOpen(false);
+      setCreateForm({ ...createForm, amount: '', purpose: '', multi_use: false });
+      copyLink(data);
+    }
+
+    setIsSaving(false);
+  };
+
+  const handleRevoke = async (link: PaymentLink) => {
+    const { data, error } = await supabase.rpc('revoke_payment_link', { p_link_id: link.id });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setLinks((prev) => prev.map((l) => (l.id === data.id ? data : l)));
+      toast({
+        title: 'Link Revoked',
+        description: `The link for ${link.purpose} no longer takes payments.`,
+      });
+    }
+  };
+
+  const now = new Date();
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Payment Links</CardTitle>
+          <CardDescription>Share a link that any customer can open to pay you</CardDescription>
+        </div>
+        <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+          <DialogTrigger asChild>
+            <Button size="sm" disabled={activeAccounts.length === 0}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create Link
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Create Payment Link</DialogTitle>
+              <DialogDescription>
+                Anyone signed in with the link can pay the amount straight into your account until it expires.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleCreateSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="linkAccount">Pay into</Label>
+                <Select
+                  value={createAccountId}
+                  onValueChange={(value) => setCreateForm({ ...createForm, account_id: value })}
+                >
+                  <SelectTrigger id="linkAccount">
+                    <SelectValue placeholder="Select an account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeAccounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {getAccountLabel(account)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="linkPurpose">What is it for?</Label>
+                <Input
+                  id="linkPurpose"
+                  required
+                  maxLength={140}
+                  value={createForm.purpose}
+                  onChange={(e) => setCreateForm({ ...createForm, purpose: e.target.value })}
+                  placeholder="e.g. Concert ticket"
+                />
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div>
+                  <Label htmlFor="linkAmount">Amount ({currencySymbol(createAccount?.currency)})</Label>
+                  <Input
+                    id="linkAmount"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    required
+                    value={createForm.amount}
+                    onChange={(e) => setCreateForm({ ...createForm, amount: e.target.value })}
+                    placeholder="Enter amount"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="linkExpiry">Expires after</Label>
+                  <Select
+                    value={expiryHours}
+                    onValueChange={(value) => setCreateForm({ ...createForm, expiry_hours: value })}
+                  >
+                    <SelectTrigger id="linkExpiry">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {expiryOptions.map((hours) => (
+                        <SelectItem key={hours} value={String(hours)}>
+                          {formatExpiryHours(hours)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+                <div>
+                  <Label htmlFor="linkMultiUse">Accept more than one payment</Label>
+                  <p className="text-xs text-muted-foreground">Otherwise the link closes after its first payment</p>
+                </div>
+                <Switch
+                  id="linkMultiUse"
+                  checked={createForm.multi_use}
+                  onCheckedChange={(checked) => setCreateForm({ ...createForm, multi_use: checked })}
+                />
+              </div>
+              <DialogFooter>
+                <Button type="submit" disabled={isSaving || !createAccount}>
+                  {isSaving ? 'Creating...' : 'Create and Copy Link'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent>
+        {links.length === 0 ? (
+          <div className="text-center py-8">
+            <Link2 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No payment links yet</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {links.map((link) => {
+              const status = getPaymentLinkStatus(link, now);
+              const received = payments.filter((payment) => payment.link_id === link.id);
+              const isExpanded = expandedId === link.id;
+
+              return (
+                <div key={link.id} className="p-4 border rounded-lg space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium">{link.purpose}</p>
+                        <Badge variant={status === 'active' ? 'default' : 'secondary'}>
+                          {getPaymentLinkStatusLabel(status)}
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {formatMoney(link.amount, link.currency)} • {link.multi_use ? 'Multi-use' : 'Single use'}
+                        {status === 'active' && ` • Expires ${format(parseISO(link.expires_at), 'MMM dd, hh:mm a')}`}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-bold">
+                        {formatMoney(received.reduce((sum, payment) => sum + payment.amount, 0), link.currency)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {received.length} {received.length === 1 ? 'payment' : 'payments'}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    {status === 'active' && (
+                      <>
+                        <Button size="sm" variant="outline" onClick={() => copyLink(link)}>
+                          <Copy className="h-4 w-4 mr-2" />
+                          Copy Link
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button size="sm" variant="outline">
+                              Revoke
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Revoke this link?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Nobody will be able to pay through it. Payments already received are kept.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleRevoke(link)}>Revoke</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </>
+                    )}
+                    {received.length > 0 && (
+                      <Button size="sm" variant="ghost" onClick={() => setExpandedId(isExpanded ? null : link.id)}>
+                        {isExpanded ? <ChevronUp className="h-4 w-4 mr-2" /> : <ChevronDown className="h-4 w-4 mr-2" />}
+                        Payments
+                      </Button>
+                    )}
+                  </div>
+
+                  {isExpanded && (
+                    <div className="space-y-2 border-t pt-3">
+                      {received.map((payment) => (
+                        <div key={payment.id} className="flex items-center justify-between text-sm">
+                          <span>
+                            {payment.payer_name ?? 'A customer'}
+                            <span className="text-muted-foreground">
+                              {' '}• {format(parseISO(payment.created_at), 'MMM dd, yyyy hh:mm a')}
+                            </span>
+                          </span>
+                          <span className="font-medium">{formatMoney(payment.amount, link.currency)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { decodeQrFromSource, decodeQrImageFile } from '@/lib/qr';
+import { Camera, CameraOff, ImageUp } from 'lucide-react';
+
+// How often a camera frame is checked for a QR code
+const SCAN_INTERVAL_MS = 250;
+
+interface QrScannerProps {
+  // Called with the text of the first QR code found
+  onDecode: (text: string) => void;
+  onError: (message: string) => void;
+}
+
+export const QrScanner: React.FC<QrScannerProps> = ({ onDecode, onError }) => {
+  const [isCameraOn, setIsCameraOn] = useState(false);
+  const [isDecodingFile, setIsDecodingFile] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  const stopCamera = () => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setIsCameraOn(false);
+  };
+
+  // Release the camera when leaving the page
+  useEffect(() => stopCamera, []);
+
+  useEffect(() => {
+    if (!isCameraOn) return;
+
+    const timer = window.setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < video.HAVE_CURRENT_DATA) return;
+
+      const text = decodeQrFromSource(video, video.videoWidth, video.videoHeight);
+      if (text) {
+        stopCamera();
+        onDecode(text);
+      }
+    }, SCAN_INTERVAL_MS);
+
+    return () => window.clearInterval(timer);
+  }, [isCameraOn, onDecode]);
+
+  const startCamera = async () => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      onError('This browser cannot use the camera. Upload a photo of the QR code instead.');
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+      streamRef.current = stream;
+      setIsCameraOn(true);
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+    } catch (error) {
+      console.error('Camera error:', error);
+      stopCamera();
+      onError('Could not open the camera. Allow camera access or upload a photo of the QR code instead.');
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsDecodingFile(true);
+
+    try {
+      const text = await decodeQrImageFile(file);
+      if (text) {
+        stopCamera();
+        onDecode(text);
+      } else {
+        onError('No QR code was found in that image.');
+      }
+    } catch (error) {
+      console.error('QR decode error:', error);
+      onError('That file could not be read as an image.');
+    } finally {
+      setIsDecodingFile(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="relative aspect-square w-full max-w-sm mx-auto overflow-hidden rounded-lg border bg-muted">
+        <video
+          ref={videoRef}
+          className={isCameraOn ? 'h-full w-full object-cover' : 'hidden'}
+          muted
+          playsInline
+        />
+        {!isCameraOn && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-muted-foreground">
+            <Camera className="h-12 w-12" />
+            <p className="text-sm">Point your camera at a payment QR code</p>
+          </div>
+        )}
+      </div>
+      <div className="flex gap-2 max-w-sm mx-auto">
+        {isCameraOn ? (
+          <Button variant="outline" className="flex-1" onClick={stopCamera}>
+            <CameraOff className="h-4 w-4 mr-2" />
+            Stop Camera
+          </Button>
+        ) : (
+          <Button className="flex-1" onClick={startCamera}>
+            <Camera className="h-4 w-4 mr-2" />
+            Use Camera
+          </Button>
+        )}
+        <Button
+          variant="outline"
+          className="flex-1"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isDecodingFile}
+        >
+          <ImageUp className="h-4 w-4 mr-2" />
+          {isDecodingFile ? 'Reading...' : 'Upload Image'}
+        </Button>
+        <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleFileChange} />
+      </div>
+    </div>
+  );
+};
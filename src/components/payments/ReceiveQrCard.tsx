@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import QRCode from 'qrcode';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { Account, maskAccountNumber } from '@/lib/accounts';
+import { currencySymbol } from '@/lib/money';
+import { PaymentHandle } from '@/lib/payments';
+import { buildPaymentQrPayload } from '@/lib/qr';
+import { Download, QrCode, ScanLine } from 'lucide-react';
+
+interface ReceiveQrCardProps {
+  account: Account;
+  name: string;
+}
+
+export const ReceiveQrCard: React.FC<ReceiveQrCardProps> = ({ account, name }) => {
+  const [handle, setHandle] = useState<PaymentHandle | null>(null);
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      fetchHandle();
+    }
+  }, [user]);
+
+  const fetchHandle = async () => {
+    const { data, error } = await supabase
+      .from('payment_handles')
+      .select('*')
+      .eq('user_id', user?.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching payment handle:', error);
+    } else {
+      setHandle(data);
+    }
+  };
+
+  // The handle only identifies the account it receives into; other accounts are paid by number
+  const receivesViaHandle = handle?.account_id === account.id;
+  const parsedAmount = parseFloat(amount);
+  const payload = buildPaymentQrPayload({
+    handle: receivesViaHandle ? handle.handle : undefined,
+    accountNumber: receivesViaHandle ? undefined : account.account_number,
+    name,
+    amount: parsedAmount > 0 ? Math.round(parsedAmount * 100) / 100 : undefined,
+    currency: account.currency,
+    note: note.trim() || undefined,
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    QRCode.toDataURL(payload, { width: 240, margin: 1, errorCorrectionLevel: 'M' })
+      .then((url) => {
+        if (!cancelled) setQrDataUrl(url);
+      })
+      .catch((error) => console.error('Error generating QR code:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [payload]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <QrCode className="h-5 w-5" />
+          Receive with QR
+        </CardTitle>
+        <CardDescription>
+          {receivesViaHandle
+            ? `Pays ${handle.handle}`
+            : `Pays account ${maskAccountNumber(account.account_number)}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex justify-center">
+          {qrDataUrl ? (
+            <img src={qrDataUrl} alt="Payment QR code" className="h-48 w-48 rounded-lg border bg-white p-2" />
+          ) : (
+            <div className="h-48 w-48 rounded-lg border bg-muted" />
+          )}
+        </div>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <Label htmlFor="qrAmount">Amount ({currencySymbol(account.currency)})</Label>
+            <Input
+              id="qrAmount"
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="Any amount"
+            />
+          </div>
+          <div>
+            <Label htmlFor="qrNote">Note</Label>
+            <Input
+              id="qrNote"
+              maxLength={80}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex-1" asChild disabled={!qrDataUrl}>
+            <a href={qrDataUrl ?? undefined} download={`payment-qr-${account.account_number.slice(-4)}.png`}>
+              <Download className="h-4 w-4 mr-2" />
+              Download
+            </a>
+          </Button>
+          <Button className="flex-1" asChild>
+            <Link to="/scan">
+              <ScanLine className="h-4 w-4 mr-2" />
+              Scan to Pay
+            </Link>
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
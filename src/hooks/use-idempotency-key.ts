@@ -0,0 +1,31 @@
+import { useCallback, useRef } from 'react';
+
+interface PendingKey {
+  fingerprint: string;
+  key: string;
+}
+
+/**
+ * Hands out idempotency keys for a money-moving form.
+ *
+ * Submitting the same values again (a double click or a retry after a network
+ * error) reuses the pending key so the server returns the original transaction
+ * instead of posting a second one. Call `complete` once the submission succeeds
+ * so the next submission gets a fresh key.
+ */
+export function useIdempotencyKey() {
+  const pending = useRef<PendingKey | null>(null);
+
+  const keyFor = useCallback((fingerprint: string) => {
+    if (!pending.current || pending.current.fingerprint !== fingerprint) {
+      pending.current = { fingerprint, key: crypto.randomUUID() };
+    }
+    return pending.current.key;
+  }, []);
+
+  const complete = useCallback(() => {
+    pending.current = null;
+  }, []);
+
+  return { keyFor, complete };
+}
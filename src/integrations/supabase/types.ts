@@ -14,75 +14,3291 @@ export type Database = {
   }
   public: {
     Tables: {
-      profiles: {
+      accounts: {
         Row: {
+          account_number: string
           account_type: string
-          balance: number
+          available_balance: number
           created_at: string
+          currency: string
           id: string
-          name: string
-          phone: string
+          ledger_balance: number
+          nickname: string | null
+          overdraft_limit: number
+          set_aside_balance: number
+          status: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          account_number?: string
           account_type: string
-          balance?: number
+          available_balance?: number
           created_at?: string
+          currency?: string
           id?: string
-          name: string
-          phone: string
+          ledger_balance?: number
+          nickname?: string | null
+          overdraft_limit?: number
+          set_aside_balance?: number
+          status?: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          account_number?: string
           account_type?: string
-          balance?: number
+          available_balance?: number
+          created_at?: string
+          currency?: string
+          id?: string
+          ledger_balance?: number
+          nickname?: string | null
+          overdraft_limit?: number
+          set_aside_balance?: number
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      beneficiaries: {
+        Row: {
+          account_number_masked: string
+          active_from: string
+          created_at: string
+          currency: string
+          id: string
+          nickname: string
+          payee_account_id: string
+          payee_name: string
+          payee_user_id: string
+          removed_at: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_number_masked: string
+          active_from: string
+          created_at?: string
+          currency: string
+          id?: string
+          nickname: string
+          payee_account_id: string
+          payee_name: string
+          payee_user_id: string
+          removed_at?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_number_masked?: string
+          active_from?: string
+          created_at?: string
+          currency?: string
+          id?: string
+          nickname?: string
+          payee_account_id?: string
+          payee_name?: string
+          payee_user_id?: string
+          removed_at?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "beneficiaries_payee_account_id_fkey"
+            columns: ["payee_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      beneficiary_settings: {
+        Row: {
+          cooling_period_minutes: number
+          id: boolean
+          new_payee_window_hours: number
+          updated_at: string
+        }
+        Insert: {
+          cooling_period_minutes?: number
+          id?: boolean
+          new_payee_window_hours?: number
+          updated_at?: string
+        }
+        Update: {
+          cooling_period_minutes?: number
+          id?: boolean
+          new_payee_window_hours?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      bill_payments: {
+        Row: {
+          account_id: string
+          amount: number
+          bill_number: string
+          biller_id: string
+          billing_period: string
+          consumer_number: string
+          created_at: string
+          due_date: string
+          id: string
+          receipt_number: string
+          saved_biller_id: string | null
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          amount: number
+          bill_number: string
+          biller_id: string
+          billing_period: string
+          consumer_number: string
+          created_at?: string
+          due_date: string
+          id?: string
+          receipt_number?: string
+          saved_biller_id?: string | null
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          amount?: number
+          bill_number?: string
+          biller_id?: string
+          billing_period?: string
+          consumer_number?: string
+          created_at?: string
+          due_date?: string
+          id?: string
+          receipt_number?: string
+          saved_biller_id?: string | null
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bill_payments_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bill_payments_biller_id_fkey"
+            columns: ["biller_id"]
+            isOneToOne: false
+            referencedRelation: "billers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bill_payments_saved_biller_id_fkey"
+            columns: ["saved_biller_id"]
+            isOneToOne: false
+            referencedRelation: "saved_billers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bill_payments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      billers: {
+        Row: {
+          active: boolean
+          category: string
+          code: string
+          consumer_number_label: string
+          consumer_number_pattern: string
+          created_at: string
+          due_day: number
+          id: string
+          max_bill_amount: number
+          min_bill_amount: number
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          category: string
+          code: string
+          consumer_number_label: string
+          consumer_number_pattern: string
+          created_at?: string
+          due_day?: number
+          id?: string
+          max_bill_amount: number
+          min_bill_amount: number
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          category?: string
+          code?: string
+          consumer_number_label?: string
+          consumer_number_pattern?: string
           created_at?: string
+          due_day?: number
           id?: string
+          max_bill_amount?: number
+          min_bill_amount?: number
           name?: string
-          phone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      collect_request_settings: {
+        Row: {
+          default_expiry_hours: number
+          id: boolean
+          max_expiry_hours: number
+          updated_at: string
+        }
+        Insert: {
+          default_expiry_hours?: number
+          id?: boolean
+          max_expiry_hours?: number
+          updated_at?: string
+        }
+        Update: {
+          default_expiry_hours?: number
+          id?: boolean
+          max_expiry_hours?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      collect_requests: {
+        Row: {
+          amount: number
+          created_at: string
+          currency: string
+          expires_at: string
+          id: string
+          note: string | null
+          payer_handle: string
+          payer_name: string | null
+          payer_user_id: string
+          requester_account_id: string
+          requester_handle: string | null
+          requester_name: string | null
+          requester_user_id: string
+          responded_at: string | null
+          status: string
+          transaction_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          currency: string
+          expires_at: string
+          id?: string
+          note?: string | null
+          payer_handle: string
+          payer_name?: string | null
+          payer_user_id: string
+          requester_account_id: string
+          requester_handle?: string | null
+          requester_name?: string | null
+          requester_user_id: string
+          responded_at?: string | null
+          status?: string
+          transaction_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          currency?: string
+          expires_at?: string
+          id?: string
+          note?: string | null
+          payer_handle?: string
+          payer_name?: string | null
+          payer_user_id?: string
+          requester_account_id?: string
+          requester_handle?: string | null
+          requester_name?: string | null
+          requester_user_id?: string
+          responded_at?: string | null
+          status?: string
+          transaction_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collect_requests_requester_account_id_fkey"
+            columns: ["requester_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "collect_requests_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      disputes: {
+        Row: {
+          created_at: string
+          id: string
+          reason: string
+          resolution: string | null
+          resolution_note: string | null
+          resolved_at: string | null
+          reversal_transaction_id: string | null
+          status: string
+          transaction_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          reason: string
+          resolution?: string | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          reversal_transaction_id?: string | null
+          status?: string
+          transaction_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          reason?: string
+          resolution?: string | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          reversal_transaction_id?: string | null
+          status?: string
+          transaction_id?: string
           updated_at?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "disputes_reversal_transaction_id_fkey"
+            columns: ["reversal_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "disputes_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: true
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fee_schedule: {
+        Row: {
+          account_type: string
+          free_transactions_per_month: number
+          min_average_balance: number
+          min_balance_penalty: number
+          sms_alert_fee: number
+          sms_alert_monthly_cap: number
+          transaction_fee: number
+          updated_at: string
+        }
+        Insert: {
+          account_type: string
+          free_transactions_per_month: number
+          min_average_balance: number
+          min_balance_penalty: number
+          sms_alert_fee: number
+          sms_alert_monthly_cap: number
+          transaction_fee: number
+          updated_at?: string
+        }
+        Update: {
+          account_type?: string
+          free_transactions_per_month?: number
+          min_average_balance?: number
+          min_balance_penalty?: number
+          sms_alert_fee?: number
+          sms_alert_monthly_cap?: number
+          transaction_fee?: number
+          updated_at?: string
+        }
         Relationships: []
       }
-      transactions: {
+      fee_settings: {
+        Row: {
+          gst_rate: number
+          id: boolean
+          updated_at: string
+        }
+        Insert: {
+          gst_rate?: number
+          id?: boolean
+          updated_at?: string
+        }
+        Update: {
+          gst_rate?: number
+          id?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      fees: {
         Row: {
+          account_id: string
           amount: number
-          balance_after: number
           created_at: string
-          description: string | null
+          description: string
+          fee_type: string
+          gst: number
           id: string
-          transaction_type: string
+          period_end: string
+          period_start: string
+          quantity: number | null
+          status: string
+          transaction_id: string | null
           user_id: string
         }
         Insert: {
+          account_id: string
           amount: number
-          balance_after: number
           created_at?: string
-          description?: string | null
+          description: string
+          fee_type: string
+          gst: number
           id?: string
-          transaction_type: string
+          period_end: string
+          period_start: string
+          quantity?: number | null
+          status: string
+          transaction_id?: string | null
           user_id: string
         }
         Update: {
+          account_id?: string
           amount?: number
-          balance_after?: number
           created_at?: string
-          description?: string | null
+          description?: string
+          fee_type?: string
+          gst?: number
           id?: string
-          transaction_type?: string
+          period_end?: string
+          period_start?: string
+          quantity?: number | null
+          status?: string
+          transaction_id?: string | null
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "fees_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fees_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fixed_deposit_rates: {
+        Row: {
+          annual_rate: number
+          id: string
+          max_days: number
+          min_days: number
+          updated_at: string
+        }
+        Insert: {
+          annual_rate: number
+          id?: string
+          max_days: number
+          min_days: number
+          updated_at?: string
+        }
+        Update: {
+          annual_rate?: number
+          id?: string
+          max_days?: number
+          min_days?: number
+          updated_at?: string
+        }
         Relationships: []
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      [_ in never]: never
+      fixed_deposit_settings: {
+        Row: {
+          id: boolean
+          min_principal: number
+          premature_penalty_rate: number
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          min_principal?: number
+          premature_penalty_rate?: number
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          min_principal?: number
+          premature_penalty_rate?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      fixed_deposits: {
+        Row: {
+          account_id: string
+          annual_rate: number
+          closed_on: string | null
+          created_at: string
+          deposit_number: string
+          id: string
+          interest_paid: number | null
+          maturity_amount: number
+          maturity_date: string
+          open_transaction_id: string
+          opened_on: string
+          payout_transaction_id: string | null
+          principal: number
+          status: string
+          tenure_days: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          annual_rate: number
+          closed_on?: string | null
+          created_at?: string
+          deposit_number?: string
+          id?: string
+          interest_paid?: number | null
+          maturity_amount: number
+          maturity_date: string
+          open_transaction_id: string
+          opened_on?: string
+          payout_transaction_id?: string | null
+          principal: number
+          status?: string
+          tenure_days: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          annual_rate?: number
+          closed_on?: string | null
+          created_at?: string
+          deposit_number?: string
+          id?: string
+          interest_paid?: number | null
+          maturity_amount?: number
+          maturity_date?: string
+          open_transaction_id?: string
+          opened_on?: string
+          payout_transaction_id?: string | null
+          principal?: number
+          status?: string
+          tenure_days?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fixed_deposits_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fixed_deposits_open_transaction_id_fkey"
+            columns: ["open_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fixed_deposits_payout_transaction_id_fkey"
+            columns: ["payout_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fx_quotes: {
+        Row: {
+          created_at: string
+          expires_at: string
+          from_account_id: string
+          from_amount: number
+          from_currency: string
+          id: string
+          mid_rate: number
+          rate: number
+          spread: number
+          status: string
+          to_account_id: string
+          to_amount: number
+          to_currency: string
+          transaction_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          from_account_id: string
+          from_amount: number
+          from_currency: string
+          id?: string
+          mid_rate: number
+          rate: number
+          spread: number
+          status?: string
+          to_account_id: string
+          to_amount: number
+          to_currency: string
+          transaction_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          from_account_id?: string
+          from_amount?: number
+          from_currency?: string
+          id?: string
+          mid_rate?: number
+          rate?: number
+          spread?: number
+          status?: string
+          to_account_id?: string
+          to_amount?: number
+          to_currency?: string
+          transaction_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fx_quotes_from_account_id_fkey"
+            columns: ["from_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fx_quotes_to_account_id_fkey"
+            columns: ["to_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fx_quotes_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fx_rates: {
+        Row: {
+          base_currency: string
+          id: string
+          mid_rate: number
+          quote_currency: string
+          updated_at: string
+        }
+        Insert: {
+          base_currency: string
+          id?: string
+          mid_rate: number
+          quote_currency: string
+          updated_at?: string
+        }
+        Update: {
+          base_currency?: string
+          id?: string
+          mid_rate?: number
+          quote_currency?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      fx_settings: {
+        Row: {
+          id: boolean
+          quote_validity_seconds: number
+          spread: number
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          quote_validity_seconds?: number
+          spread?: number
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          quote_validity_seconds?: number
+          spread?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      interest_accruals: {
+        Row: {
+          account_id: string
+          accrual_date: string
+          balance: number
+          created_at: string
+          id: string
+          interest: number
+          transaction_id: string | null
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          accrual_date: string
+          balance: number
+          created_at?: string
+          id?: string
+          interest: number
+          transaction_id?: string | null
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          accrual_date?: string
+          balance?: number
+          created_at?: string
+          id?: string
+          interest?: number
+          transaction_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interest_accruals_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interest_accruals_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      journal_entries: {
+        Row: {
+          created_at: string
+          description: string | null
+          entry_type: string
+          id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          entry_type: string
+          id?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          entry_type?: string
+          id?: string
+        }
+        Relationships: []
+      }
+      journal_lines: {
+        Row: {
+          created_at: string
+          credit: number
+          debit: number
+          id: string
+          journal_entry_id: string
+          ledger_account_id: string
+        }
+        Insert: {
+          created_at?: string
+          credit?: number
+          debit?: number
+          id?: string
+          journal_entry_id: string
+          ledger_account_id: string
+        }
+        Update: {
+          created_at?: string
+          credit?: number
+          debit?: number
+          id?: string
+          journal_entry_id?: string
+          ledger_account_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "journal_lines_journal_entry_id_fkey"
+            columns: ["journal_entry_id"]
+            isOneToOne: false
+            referencedRelation: "journal_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "journal_lines_ledger_account_id_fkey"
+            columns: ["ledger_account_id"]
+            isOneToOne: false
+            referencedRelation: "ledger_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledger_accounts: {
+        Row: {
+          account_class: string
+          account_id: string | null
+          code: string
+          created_at: string
+          id: string
+          name: string
+          user_id: string | null
+        }
+        Insert: {
+          account_class: string
+          account_id?: string | null
+          code: string
+          created_at?: string
+          id?: string
+          name: string
+          user_id?: string | null
+        }
+        Update: {
+          account_class?: string
+          account_id?: string | null
+          code?: string
+          created_at?: string
+          id?: string
+          name?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_accounts_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: true
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      loan_instalments: {
+        Row: {
+          amount: number
+          closing_principal: number
+          created_at: string
+          due_date: string
+          id: string
+          instalment_number: number
+          interest: number
+          last_error: string | null
+          loan_id: string
+          paid_on: string | null
+          principal: number
+          status: string
+          transaction_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          closing_principal: number
+          created_at?: string
+          due_date: string
+          id?: string
+          instalment_number: number
+          interest: number
+          last_error?: string | null
+          loan_id: string
+          paid_on?: string | null
+          principal: number
+          status?: string
+          transaction_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          closing_principal?: number
+          created_at?: string
+          due_date?: string
+          id?: string
+          instalment_number?: number
+          interest?: number
+          last_error?: string | null
+          loan_id?: string
+          paid_on?: string | null
+          principal?: number
+          status?: string
+          transaction_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loan_instalments_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "loans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_instalments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      loan_prepayments: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          loan_id: string
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          loan_id: string
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          loan_id?: string
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loan_prepayments_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "loans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_prepayments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      loan_settings: {
+        Row: {
+          annual_rate: number
+          id: boolean
+          max_amount: number
+          max_months: number
+          min_amount: number
+          min_months: number
+          updated_at: string
+        }
+        Insert: {
+          annual_rate?: number
+          id?: boolean
+          max_amount?: number
+          max_months?: number
+          min_amount?: number
+          min_months?: number
+          updated_at?: string
+        }
+        Update: {
+          annual_rate?: number
+          id?: boolean
+          max_amount?: number
+          max_months?: number
+          min_amount?: number
+          min_months?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      loans: {
+        Row: {
+          account_id: string
+          annual_rate: number
+          closed_on: string | null
+          created_at: string
+          disbursed_on: string
+          disbursement_transaction_id: string | null
+          emi: number
+          id: string
+          loan_number: string
+          months: number
+          outstanding_principal: number
+          principal: number
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          annual_rate: number
+          closed_on?: string | null
+          created_at?: string
+          disbursed_on?: string
+          disbursement_transaction_id?: string | null
+          emi: number
+          id?: string
+          loan_number?: string
+          months: number
+          outstanding_principal: number
+          principal: number
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          annual_rate?: number
+          closed_on?: string | null
+          created_at?: string
+          disbursed_on?: string
+          disbursement_transaction_id?: string | null
+          emi?: number
+          id?: string
+          loan_number?: string
+          months?: number
+          outstanding_principal?: number
+          principal?: number
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loans_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_disbursement_transaction_id_fkey"
+            columns: ["disbursement_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      overdraft_settings: {
+        Row: {
+          annual_interest_rate: number
+          id: boolean
+          updated_at: string
+        }
+        Insert: {
+          annual_interest_rate?: number
+          id?: boolean
+          updated_at?: string
+        }
+        Update: {
+          annual_interest_rate?: number
+          id?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      payee_transfer_caps: {
+        Row: {
+          currency: string
+          new_payee_transfer_cap: number
+          updated_at: string
+        }
+        Insert: {
+          currency: string
+          new_payee_transfer_cap: number
+          updated_at?: string
+        }
+        Update: {
+          currency?: string
+          new_payee_transfer_cap?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      payment_handles: {
+        Row: {
+          account_id: string
+          created_at: string
+          handle: string
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          created_at?: string
+          handle: string
+          id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          created_at?: string
+          handle?: string
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_handles_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_link_payments: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          link_id: string
+          payer_name: string | null
+          payer_user_id: string
+          transaction_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          link_id: string
+          payer_name?: string | null
+          payer_user_id: string
+          transaction_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          link_id?: string
+          payer_name?: string | null
+          payer_user_id?: string
+          transaction_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_link_payments_link_id_fkey"
+            columns: ["link_id"]
+            isOneToOne: false
+            referencedRelation: "payment_links"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_link_payments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_link_settings: {
+        Row: {
+          default_expiry_hours: number
+          id: boolean
+          max_expiry_hours: number
+          updated_at: string
+        }
+        Insert: {
+          default_expiry_hours?: number
+          id?: boolean
+          max_expiry_hours?: number
+          updated_at?: string
+        }
+        Update: {
+          default_expiry_hours?: number
+          id?: boolean
+          max_expiry_hours?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      payment_links: {
+        Row: {
+          account_id: string
+          amount: number
+          created_at: string
+          currency: string
+          expires_at: string
+          id: string
+          multi_use: boolean
+          purpose: string
+          revoked_at: string | null
+          status: string
+          token: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          amount: number
+          created_at?: string
+          currency: string
+          expires_at: string
+          id?: string
+          multi_use?: boolean
+          purpose: string
+          revoked_at?: string | null
+          status?: string
+          token?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          amount?: number
+          created_at?: string
+          currency?: string
+          expires_at?: string
+          id?: string
+          multi_use?: boolean
+          purpose?: string
+          revoked_at?: string | null
+          status?: string
+          token?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_links_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          phone: string
+          sms_alerts: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          phone: string
+          sms_alerts?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          phone?: string
+          sms_alerts?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      recurring_deposit_instalments: {
+        Row: {
+          created_at: string
+          due_date: string
+          id: string
+          instalment_number: number
+          last_error: string | null
+          paid_on: string | null
+          penalty: number
+          recurring_deposit_id: string
+          status: string
+          transaction_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          due_date: string
+          id?: string
+          instalment_number: number
+          last_error?: string | null
+          paid_on?: string | null
+          penalty?: number
+          recurring_deposit_id: string
+          status?: string
+          transaction_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          due_date?: string
+          id?: string
+          instalment_number?: number
+          last_error?: string | null
+          paid_on?: string | null
+          penalty?: number
+          recurring_deposit_id?: string
+          status?: string
+          transaction_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_deposit_instalments_recurring_deposit_id_fkey"
+            columns: ["recurring_deposit_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_deposits"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_deposit_instalments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_deposit_rates: {
+        Row: {
+          annual_rate: number
+          id: string
+          max_months: number
+          min_months: number
+          updated_at: string
+        }
+        Insert: {
+          annual_rate: number
+          id?: string
+          max_months: number
+          min_months: number
+          updated_at?: string
+        }
+        Update: {
+          annual_rate?: number
+          id?: string
+          max_months?: number
+          min_months?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      recurring_deposit_settings: {
+        Row: {
+          id: boolean
+          min_instalment: number
+          missed_instalment_penalty_rate: number
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          min_instalment?: number
+          missed_instalment_penalty_rate?: number
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          min_instalment?: number
+          missed_instalment_penalty_rate?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      recurring_deposits: {
+        Row: {
+          account_id: string
+          annual_rate: number
+          created_at: string
+          deposit_number: string
+          expected_maturity_amount: number
+          id: string
+          instalment_amount: number
+          interest_paid: number | null
+          maturity_date: string
+          months: number
+          opened_on: string
+          payout_transaction_id: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          annual_rate: number
+          created_at?: string
+          deposit_number?: string
+          expected_maturity_amount: number
+          id?: string
+          instalment_amount: number
+          interest_paid?: number | null
+          maturity_date: string
+          months: number
+          opened_on?: string
+          payout_transaction_id?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          annual_rate?: number
+          created_at?: string
+          deposit_number?: string
+          expected_maturity_amount?: number
+          id?: string
+          instalment_amount?: number
+          interest_paid?: number | null
+          maturity_date?: string
+          months?: number
+          opened_on?: string
+          payout_transaction_id?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_deposits_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_deposits_payout_transaction_id_fkey"
+            columns: ["payout_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_billers: {
+        Row: {
+          biller_id: string
+          consumer_number: string
+          created_at: string
+          id: string
+          nickname: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          biller_id: string
+          consumer_number: string
+          created_at?: string
+          id?: string
+          nickname: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          biller_id?: string
+          consumer_number?: string
+          created_at?: string
+          id?: string
+          nickname?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_billers_biller_id_fkey"
+            columns: ["biller_id"]
+            isOneToOne: false
+            referencedRelation: "billers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      savings_goal_movements: {
+        Row: {
+          amount: number
+          created_at: string
+          goal_id: string
+          id: string
+          source: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          goal_id: string
+          id?: string
+          source?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          goal_id?: string
+          id?: string
+          source?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "savings_goal_movements_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "savings_goals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      savings_goals: {
+        Row: {
+          account_id: string
+          closed_at: string | null
+          created_at: string
+          id: string
+          last_contribution_error: string | null
+          name: string
+          next_contribution_on: string | null
+          saved_amount: number
+          status: string
+          target_amount: number
+          target_date: string
+          updated_at: string
+          user_id: string
+          weekly_amount: number | null
+        }
+        Insert: {
+          account_id: string
+          closed_at?: string | null
+          created_at?: string
+          id?: string
+          last_contribution_error?: string | null
+          name: string
+          next_contribution_on?: string | null
+          saved_amount?: number
+          status?: string
+          target_amount: number
+          target_date: string
+          updated_at?: string
+          user_id: string
+          weekly_amount?: number | null
+        }
+        Update: {
+          account_id?: string
+          closed_at?: string | null
+          created_at?: string
+          id?: string
+          last_contribution_error?: string | null
+          name?: string
+          next_contribution_on?: string | null
+          saved_amount?: number
+          status?: string
+          target_amount?: number
+          target_date?: string
+          updated_at?: string
+          user_id?: string
+          weekly_amount?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "savings_goals_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      savings_interest_settings: {
+        Row: {
+          id: boolean
+          posting_frequency: string
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          posting_frequency?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          posting_frequency?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      savings_interest_tiers: {
+        Row: {
+          annual_rate: number
+          id: string
+          min_balance: number
+          updated_at: string
+        }
+        Insert: {
+          annual_rate: number
+          id?: string
+          min_balance: number
+          updated_at?: string
+        }
+        Update: {
+          annual_rate?: number
+          id?: string
+          min_balance?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      scheduled_transaction_runs: {
+        Row: {
+          created_at: string
+          error: string | null
+          id: string
+          run_date: string
+          scheduled_transaction_id: string
+          status: string
+          transaction_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          id?: string
+          run_date: string
+          scheduled_transaction_id: string
+          status: string
+          transaction_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          id?: string
+          run_date?: string
+          scheduled_transaction_id?: string
+          status?: string
+          transaction_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_transaction_runs_scheduled_transaction_id_fkey"
+            columns: ["scheduled_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "scheduled_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_transaction_runs_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scheduled_transactions: {
+        Row: {
+          account_id: string
+          amount: number
+          consecutive_failures: number
+          created_at: string
+          day_of_month: number | null
+          day_of_week: number | null
+          description: string | null
+          end_date: string | null
+          frequency: string
+          id: string
+          last_error: string | null
+          last_run_at: string | null
+          max_runs: number | null
+          next_run_date: string | null
+          recipient_account_id: string | null
+          recipient_name: string | null
+          recipient_user_id: string | null
+          runs_count: number
+          start_date: string
+          status: string
+          transaction_type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          amount: number
+          consecutive_failures?: number
+          created_at?: string
+          day_of_month?: number | null
+          day_of_week?: number | null
+          description?: string | null
+          end_date?: string | null
+          frequency: string
+          id?: string
+          last_error?: string | null
+          last_run_at?: string | null
+          max_runs?: number | null
+          next_run_date?: string | null
+          recipient_account_id?: string | null
+          recipient_name?: string | null
+          recipient_user_id?: string | null
+          runs_count?: number
+          start_date: string
+          status?: string
+          transaction_type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          amount?: number
+          consecutive_failures?: number
+          created_at?: string
+          day_of_month?: number | null
+          day_of_week?: number | null
+          description?: string | null
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          last_error?: string | null
+          last_run_at?: string | null
+          max_runs?: number | null
+          next_run_date?: string | null
+          recipient_account_id?: string | null
+          recipient_name?: string | null
+          recipient_user_id?: string | null
+          runs_count?: number
+          start_date?: string
+          status?: string
+          transaction_type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_transactions_recipient_account_id_fkey"
+            columns: ["recipient_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      split_expense_shares: {
+        Row: {
+          amount: number
+          expense_id: string
+          id: string
+          percentage: number | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          expense_id: string
+          id?: string
+          percentage?: number | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          expense_id?: string
+          id?: string
+          percentage?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "split_expense_shares_expense_id_fkey"
+            columns: ["expense_id"]
+            isOneToOne: false
+            referencedRelation: "split_expenses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      split_expenses: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string
+          description: string
+          group_id: string
+          id: string
+          paid_by_user_id: string
+          split_type: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by: string
+          description: string
+          group_id: string
+          id?: string
+          paid_by_user_id: string
+          split_type: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string
+          description?: string
+          group_id?: string
+          id?: string
+          paid_by_user_id?: string
+          split_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "split_expenses_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "split_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      split_group_members: {
+        Row: {
+          added_by: string
+          created_at: string
+          group_id: string
+          handle: string
+          id: string
+          name: string | null
+          user_id: string
+        }
+        Insert: {
+          added_by: string
+          created_at?: string
+          group_id: string
+          handle: string
+          id?: string
+          name?: string | null
+          user_id: string
+        }
+        Update: {
+          added_by?: string
+          created_at?: string
+          group_id?: string
+          handle?: string
+          id?: string
+          name?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "split_group_members_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "split_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      split_groups: {
+        Row: {
+          created_at: string
+          created_by: string
+          currency: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          currency?: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          currency?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      split_settlements: {
+        Row: {
+          amount: number
+          collect_request_id: string
+          created_at: string
+          from_user_id: string
+          group_id: string
+          id: string
+          to_user_id: string
+        }
+        Insert: {
+          amount: number
+          collect_request_id: string
+          created_at?: string
+          from_user_id: string
+          group_id: string
+          id?: string
+          to_user_id: string
+        }
+        Update: {
+          amount?: number
+          collect_request_id?: string
+          created_at?: string
+          from_user_id?: string
+          group_id?: string
+          id?: string
+          to_user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "split_settlements_collect_request_id_fkey"
+            columns: ["collect_request_id"]
+            isOneToOne: true
+            referencedRelation: "collect_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "split_settlements_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "split_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_limits: {
+        Row: {
+          account_type: string
+          currency: string
+          daily_withdrawal_amount: number
+          daily_withdrawal_count: number
+          max_single_withdrawal: number
+          monthly_withdrawal_amount: number
+          monthly_withdrawal_count: number
+          updated_at: string
+        }
+        Insert: {
+          account_type: string
+          currency: string
+          daily_withdrawal_amount: number
+          daily_withdrawal_count: number
+          max_single_withdrawal: number
+          monthly_withdrawal_amount: number
+          monthly_withdrawal_count: number
+          updated_at?: string
+        }
+        Update: {
+          account_type?: string
+          currency?: string
+          daily_withdrawal_amount?: number
+          daily_withdrawal_count?: number
+          max_single_withdrawal?: number
+          monthly_withdrawal_amount?: number
+          monthly_withdrawal_count?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      transaction_settings: {
+        Row: {
+          id: boolean
+          pending_withdrawal_threshold: number
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          pending_withdrawal_threshold?: number
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          pending_withdrawal_threshold?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      transactions: {
+        Row: {
+          account_id: string
+          amount: number
+          balance_after: number
+          counterparty_account_id: string | null
+          counterparty_name: string | null
+          counterparty_user_id: string | null
+          created_at: string
+          description: string | null
+          failure_reason: string | null
+          id: string
+          idempotency_key: string | null
+          journal_entry_id: string | null
+          related_transaction_id: string | null
+          reverses_transaction_id: string | null
+          status: string
+          status_changed_at: string
+          transaction_type: string
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          amount: number
+          balance_after: number
+          counterparty_account_id?: string | null
+          counterparty_name?: string | null
+          counterparty_user_id?: string | null
+          created_at?: string
+          description?: string | null
+          failure_reason?: string | null
+          id?: string
+          idempotency_key?: string | null
+          journal_entry_id?: string | null
+          related_transaction_id?: string | null
+          reverses_transaction_id?: string | null
+          status?: string
+          status_changed_at?: string
+          transaction_type: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          amount?: number
+          balance_after?: number
+          counterparty_account_id?: string | null
+          counterparty_name?: string | null
+          counterparty_user_id?: string | null
+          created_at?: string
+          description?: string | null
+          failure_reason?: string | null
+          id?: string
+          idempotency_key?: string | null
+          journal_entry_id?: string | null
+          related_transaction_id?: string | null
+          reverses_transaction_id?: string | null
+          status?: string
+          status_changed_at?: string
+          transaction_type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_counterparty_account_id_fkey"
+            columns: ["counterparty_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_journal_entry_id_fkey"
+            columns: ["journal_entry_id"]
+            isOneToOne: false
+            referencedRelation: "journal_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_related_transaction_id_fkey"
+            columns: ["related_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_reverses_transaction_id_fkey"
+            columns: ["reverses_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      accrue_savings_interest: {
+        Args: {
+          p_as_of?: string
+        }
+        Returns: {
+          account_id: string
+          balance: number
+          interest: number
+        }[]
+      }
+      add_beneficiary: {
+        Args: {
+          p_identifier: string
+          p_nickname: string
+        }
+        Returns: {
+          account_number_masked: string
+          active_from: string
+          created_at: string
+          currency: string
+          id: string
+          nickname: string
+          payee_account_id: string
+          payee_name: string
+          payee_user_id: string
+          removed_at: string | null
+          updated_at: string
+          user_id: string
+        }
+      }
+      add_split_expense: {
+        Args: {
+          p_amount: number
+          p_description: string
+          p_group_id: string
+          p_member_ids: string[]
+          p_paid_by_user_id: string
+          p_split_type: string
+          p_values?: number[]
+        }
+        Returns: {
+          amount: number
+          created_at: string
+          created_by: string
+          description: string
+          group_id: string
+          id: string
+          paid_by_user_id: string
+          split_type: string
+        }
+      }
+      add_split_group_member: {
+        Args: {
+          p_group_id: string
+          p_handle: string
+        }
+        Returns: {
+          added_by: string
+          created_at: string
+          group_id: string
+          handle: string
+          id: string
+          name: string | null
+          user_id: string
+        }
+      }
+      apply_for_loan: {
+        Args: {
+          p_account_id: string
+          p_amount: number
+          p_idempotency_key?: string
+          p_months: number
+        }
+        Returns: {
+          account_id: string
+          annual_rate: number
+          closed_on: string | null
+          created_at: string
+          disbursed_on: string
+          disbursement_transaction_id: string | null
+          emi: number
+          id: string
+          loan_number: string
+          months: number
+          outstanding_principal: number
+          principal: number
+          status: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      approve_collect_request: {
+        Args: {
+          p_account_id: string
+          p_idempotency_key?: string
+          p_request_id: string
+        }
+        Returns: {
+          amount: number
+          created_at: string
+          currency: string
+          expires_at: string
+          id: string
+          note: string | null
+          payer_handle: string
+          payer_name: string | null
+          payer_user_id: string
+          requester_account_id: string
+          requester_handle: string | null
+          requester_name: string | null
+          requester_user_id: string
+          responded_at: string | null
+          status: string
+          transaction_id: string | null
+          updated_at: string
+        }
+      }
+      cancel_collect_request: {
+        Args: {
+          p_request_id: string
+        }
+        Returns: {
+          amount: number
+          created_at: string
+          currency: string
+          expires_at: string
+          id: string
+          note: string | null
+          payer_handle: string
+          payer_name: string | null
+          payer_user_id: string
+          requester_account_id: string
+          requester_handle: string | null
+          requester_name: string | null
+          requester_user_id: string
+          responded_at: string | null
+          status: string
+          transaction_id: string | null
+          updated_at: string
+        }
+      }
+      charge_monthly_fees: {
+        Args: {
+          p_as_of?: string
+        }
+        Returns: {
+          account_id: string
+          amount: number
+          fee_type: string
+          gst: number
+          transaction_id: string
+        }[]
+      }
+      charge_overdraft_interest: {
+        Args: {
+          p_as_of?: string
+        }
+        Returns: {
+          account_id: string
+          interest: number
+          overdrawn_amount: number
+          transaction_id: string
+        }[]
+      }
+      claim_payment_handle: {
+        Args: {
+          p_account_id: string
+          p_handle: string
+        }
+        Returns: {
+          account_id: string
+          created_at: string
+          handle: string
+          id: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      close_fixed_deposit: {
+        Args: {
+          p_fixed_deposit_id: string
+        }
+        Returns: {
+          account_id: string
+          annual_rate: number
+          closed_on: string | null
+          created_at: string
+          deposit_number: string
+          id: string
+          interest_paid: number | null
+          maturity_amount: number
+          maturity_date: string
+          open_transaction_id: string
+          opened_on: string
+          payout_transaction_id: string | null
+          principal: number
+          status: string
+          tenure_days: number
+          updated_at: string
+          user_id: string
+        }
+      }
+      close_savings_goal: {
+        Args: {
+          p_goal_id: string
+        }
+        Returns: {
+          account_id: string
+          closed_at: string | null
+          created_at: string
+          id: string
+          last_contribution_error: string | null
+          name: string
+          next_contribution_on: string | null
+          saved_amount: number
+          status: string
+          target_amount: number
+          target_date: string
+          updated_at: string
+          user_id: string
+          weekly_amount: number | null
+        }
+      }
+      collect_loan_instalments: {
+        Args: {
+          p_as_of?: string
+        }
+        Returns: {
+          due_date: string
+          error: string
+          instalment_id: string
+          loan_id: string
+          status: string
+          transaction_id: string
+        }[]
+      }
+      collect_recurring_deposit_instalments: {
+        Args: {
+          p_as_of?: string
+        }
+        Returns: {
+          due_date: string
+          error: string
+          instalment_id: string
+          recurring_deposit_id: string
+          status: string
+          transaction_id: string
+        }[]
+      }
+      create_collect_request: {
+        Args: {
+          p_account_id: string
+          p_amount: number
+          p_expires_in_hours?: number
+          p_note?: string
+          p_payer_handle: string
+        }
+        Returns: {
+          amount: number
+          created_at: string
+          currency: string
+          expires_at: string
+          id: string
+          note: string | null
+          payer_handle: string
+          payer_name: string | null
+          payer_user_id: string
+          requester_account_id: string
+          requester_handle: string | null
+          requester_name: string | null
+          requester_user_id: string
+          responded_at: string | null
+          status: string
+          transaction_id: string | null
+          updated_at: string
+        }
+      }
+      create_fx_quote: {
+        Args: {
+          p_amount: number
+          p_from_account_id: string
+          p_to_account_id: string
+        }
+        Returns: {
+          created_at: string
+          expires_at: string
+          from_account_id: string
+          from_amount: number
+          from_currency: string
+          id: string
+          mid_rate: number
+          rate: number
+          spread: number
+          status: string
+          to_account_id: string
+          to_amount: number
+          to_currency: string
+          transaction_id: string | null
+          updated_at: string
+          user_id: string
+        }
+      }
+      create_payment_link: {
+        Args: {
+          p_account_id: string
+          p_amount: number
+          p_expires_in_hours?: number
+          p_multi_use?: boolean
+          p_purpose: string
+        }
+        Returns: {
+          account_id: string
+          amount: number
+          created_at: string
+          currency: string
+          expires_at: string
+          id: string
+          multi_use: boolean
+          purpose: string
+          revoked_at: string | null
+          status: string
+          token: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      create_savings_goal: {
+        Args: {
+          p_account_id: string
+          p_name: string
+          p_target_amount: number
+          p_target_date: string
+          p_weekly_amount?: number
+        }
+        Returns: {
+          account_id: string
+          closed_at: string | null
+          created_at: string
+          id: string
+          last_contribution_error: string | null
+          name: string
+          next_contribution_on: string | null
+          saved_amount: number
+          status: string
+          target_amount: number
+          target_date: string
+          updated_at: string
+          user_id: string
+          weekly_amount: number | null
+        }
+      }
+      create_scheduled_transaction: {
+        Args: {
+          p_account_id: string
+          p_amount: number
+          p_day_of_month?: number
+          p_day_of_week?: number
+          p_description?: string
+          p_end_date?: string
+          p_frequency: string
+          p_max_runs?: number
+          p_recipient_account_id?: string
+          p_start_date: string
+          p_transaction_type: string
+        }
+        Returns: {
+          account_id: string
+          amount: number
+          consecutive_failures: number
+          created_at: string
+          day_of_month: number | null
+          day_of_week: number | null
+          description: string | null
+          end_date: string | null
+          frequency: string
+          id: string
+          last_error: string | null
+          last_run_at: string | null
+          max_runs: number | null
+          next_run_date: string | null
+          recipient_account_id: string | null
+          recipient_name: string | null
+          recipient_user_id: string | null
+          runs_count: number
+          start_date: string
+          status: string
+          transaction_type: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      create_split_group: {
+        Args: {
+          p_currency?: string
+          p_name: string
+        }
+        Returns: {
+          created_at: string
+          created_by: string
+          currency: string
+          id: string
+          name: string
+          updated_at: string
+        }
+      }
+      decline_collect_request: {
+        Args: {
+          p_request_id: string
+        }
+        Returns: {
+          amount: number
+          created_at: string
+          currency: string
+          expires_at: string
+          id: string
+          note: string | null
+          payer_handle: string
+          payer_name: string | null
+          payer_user_id: string
+          requester_account_id: string
+          requester_handle: string | null
+          requester_name: string | null
+          requester_user_id: string
+          responded_at: string | null
+          status: string
+          transaction_id: string | null
+          updated_at: string
+        }
+      }
+      delete_split_expense: {
+        Args: {
+          p_expense_id: string
+        }
+        Returns: undefined
+      }
+      execute_fx_quote: {
+        Args: {
+          p_quote_id: string
+        }
+        Returns: {
+          account_id: string
+          amount: number
+          balance_after: number
+          counterparty_account_id: string | null
+          counterparty_name: string | null
+          counterparty_user_id: string | null
+          created_at: string
+          description: string | null
+          failure_reason: string | null
+          id: string
+          idempotency_key: string | null
+          journal_entry_id: string | null
+          related_transaction_id: string | null
+          reverses_transaction_id: string | null
+          status: string
+          status_changed_at: string
+          transaction_type: string
+          user_id: string
+        }
+      }
+      fail_pending_transaction: {
+        Args: {
+          p_reason: string
+          p_transaction_id: string
+        }
+        Returns: {
+          account_id: string
+          amount: number
+          balance_after: number
+          counterparty_account_id: string | null
+          counterparty_name: string | null
+          counterparty_user_id: string | null
+          created_at: string
+          description: string | null
+          failure_reason: string | null
+          id: string
+          idempotency_key: string | null
+          journal_entry_id: string | null
+          related_transaction_id: string | null
+          reverses_transaction_id: string | null
+          status: string
+          status_changed_at: string
+          transaction_type: string
+          user_id: string
+        }
+      }
+      fetch_bill: {
+        Args: {
+          p_saved_biller_id: string
+        }
+        Returns: {
+          amount: number
+          bill_number: string
+          billing_period: string
+          due_date: string
+          paid: boolean
+        }[]
+      }
+      find_transfer_recipient: {
+        Args: {
+          p_identifier: string
+        }
+        Returns: {
+          account_id: string
+          account_number_masked: string
+          name: string
+          user_id: string
+        }[]
+      }
+      get_interest_earned: {
+        Args: {
+          p_account_id: string
+        }
+        Returns: {
+          month_to_date: number
+          year_to_date: number
+        }[]
+      }
+      get_payment_link: {
+        Args: {
+          p_token: string
+        }
+        Returns: {
+          amount: number
+          creator_handle: string
+          creator_name: string
+          currency: string
+          expires_at: string
+          id: string
+          multi_use: boolean
+          own_link: boolean
+          paid_by_me: boolean
+          purpose: string
+          status: string
+        }[]
+      }
+      get_split_group_balances: {
+        Args: {
+          p_group_id: string
+        }
+        Returns: {
+          balance: number
+          handle: string
+          name: string
+          paid: number
+          requested_in: number
+          requested_out: number
+          share: number
+          unrequested: number
+          user_id: string
+        }[]
+      }
+      get_split_settlements: {
+        Args: {
+          p_group_id: string
+        }
+        Returns: {
+          amount: number
+          created_at: string
+          expires_at: string
+          from_user_id: string
+          id: string
+          status: string
+          to_user_id: string
+        }[]
+      }
+      get_withdrawal_limits: {
+        Args: {
+          p_account_id: string
+        }
+        Returns: {
+          account_type: string
+          daily_amount_limit: number
+          daily_amount_used: number
+          daily_count_limit: number
+          daily_count_used: number
+          max_single_withdrawal: number
+          monthly_amount_limit: number
+          monthly_amount_used: number
+          monthly_count_limit: number
+          monthly_count_used: number
+        }[]
+      }
+      is_split_group_member: {
+        Args: {
+          p_group_id: string
+        }
+        Returns: boolean
+      }
+      open_account: {
+        Args: {
+          p_account_type: string
+          p_currency?: string
+          p_nickname?: string
+        }
+        Returns: {
+          account_number: string
+          account_type: string
+          available_balance: number
+          created_at: string
+          currency: string
+          id: string
+          ledger_balance: number
+          nickname: string | null
+          overdraft_limit: number
+          set_aside_balance: number
+          status: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      open_fixed_deposit: {
+        Args: {
+          p_account_id: string
+          p_amount: number
+          p_idempotency_key?: string
+          p_tenure_days: number
+        }
+        Returns: {
+          account_id: string
+          annual_rate: number
+          closed_on: string | null
+          created_at: string
+          deposit_number: string
+          id: string
+          interest_paid: number | null
+          maturity_amount: number
+          maturity_date: string
+          open_transaction_id: string
+          opened_on: string
+          payout_transaction_id: string | null
+          principal: number
+          status: string
+          tenure_days: number
+          updated_at: string
+          user_id: string
+        }
+      }
+      open_recurring_deposit: {
+        Args: {
+          p_account_id: string
+          p_idempotency_key?: string
+          p_instalment_amount: number
+          p_months: number
+        }
+        Returns: {
+          account_id: string
+          annual_rate: number
+          created_at: string
+          deposit_number: string
+          expected_maturity_amount: number
+          id: string
+          instalment_amount: number
+          interest_paid: number | null
+          maturity_date: string
+          months: number
+          opened_on: string
+          payout_transaction_id: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      pay_bill: {
+        Args: {
+          p_account_id: string
+          p_amount: number
+          p_idempotency_key?: string
+          p_saved_biller_id: string
+        }
+        Returns: {
+          account_id: string
+          amount: number
+          bill_number: string
+          biller_id: string
+          billing_period: string
+          consumer_number: string
+          created_at: string
+          due_date: string
+          id: string
+          receipt_number: string
+          saved_biller_id: string | null
+          transaction_id: string
+          user_id: string
+        }
+      }
+      pay_matured_fixed_deposits: {
+        Args: {
+          p_as_of?: string
+        }
+        Returns: {
+          account_id: string
+          fixed_deposit_id: string
+          payout: number
+          transaction_id: string
+        }[]
+      }
+      pay_matured_recurring_deposits: {
+        Args: {
+          p_as_of?: string
+        }
+        Returns: {
+          account_id: string
+          payout: number
+          recurring_deposit_id: string
+          transaction_id: string
+        }[]
+      }
+      pay_payment_link: {
+        Args: {
+          p_account_id: string
+          p_idempotency_key?: string
+          p_token: string
+        }
+        Returns: {
+          amount: number
+          created_at: string
+          id: string
+          link_id: string
+          payer_name: string | null
+          payer_user_id: string
+          transaction_id: string
+        }
+      }
+      post_savings_interest: {
+        Args: {
+          p_as_of?: string
+        }
+        Returns: {
+          account_id: string
+          interest: number
+          period_end: string
+          transaction_id: string
+        }[]
+      }
+      post_transaction: {
+        Args: {
+          p_account_id: string
+          p_amount: number
+          p_description?: string
+          p_idempotency_key?: string
+          p_transaction_type: string
+        }
+        Returns: {
+          account_id: string
+          amount: number
+          balance_after: number
+          counterparty_account_id: string | null
+          counterparty_name: string | null
+          counterparty_user_id: string | null
+          created_at: string
+          description: string | null
+          failure_reason: string | null
+          id: string
+          idempotency_key: string | null
+          journal_entry_id: string | null
+          related_transaction_id: string | null
+          reverses_transaction_id: string | null
+          status: string
+          status_changed_at: string
+          transaction_type: string
+          user_id: string
+        }
+      }
+      post_transfer: {
+        Args: {
+          p_amount: number
+          p_description?: string
+          p_from_account_id: string
+          p_idempotency_key?: string
+          p_to_account_id: string
+        }
+        Returns: {
+          account_id: string
+          amount: number
+          balance_after: number
+          counterparty_account_id: string | null
+          counterparty_name: string | null
+          counterparty_user_id: string | null
+          created_at: string
+          description: string | null
+          failure_reason: string | null
+          id: string
+          idempotency_key: string | null
+          journal_entry_id: string | null
+          related_transaction_id: string | null
+          reverses_transaction_id: string | null
+          status: string
+          status_changed_at: string
+          transaction_type: string
+          user_id: string
+        }
+      }
+      prepay_loan: {
+        Args: {
+          p_amount: number
+          p_idempotency_key?: string
+          p_loan_id: string
+        }
+        Returns: {
+          account_id: string
+          annual_rate: number
+          closed_on: string | null
+          created_at: string
+          disbursed_on: string
+          disbursement_transaction_id: string | null
+          emi: number
+          id: string
+          loan_number: string
+          months: number
+          outstanding_principal: number
+          principal: number
+          status: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      raise_dispute: {
+        Args: {
+          p_reason: string
+          p_transaction_id: string
+        }
+        Returns: {
+          created_at: string
+          id: string
+          reason: string
+          resolution: string | null
+          resolution_note: string | null
+          resolved_at: string | null
+          reversal_transaction_id: string | null
+          status: string
+          transaction_id: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      remove_beneficiary: {
+        Args: {
+          p_beneficiary_id: string
+        }
+        Returns: {
+          account_number_masked: string
+          active_from: string
+          created_at: string
+          currency: string
+          id: string
+          nickname: string
+          payee_account_id: string
+          payee_name: string
+          payee_user_id: string
+          removed_at: string | null
+          updated_at: string
+          user_id: string
+        }
+      }
+      request_split_settlement: {
+        Args: {
+          p_account_id: string
+          p_amount: number
+          p_debtor_user_id: string
+          p_group_id: string
+        }
+        Returns: {
+          amount: number
+          collect_request_id: string
+          created_at: string
+          from_user_id: string
+          group_id: string
+          id: string
+          to_user_id: string
+        }
+      }
+      resolve_dispute: {
+        Args: {
+          p_dispute_id: string
+          p_note?: string
+          p_resolution: string
+        }
+        Returns: {
+          created_at: string
+          id: string
+          reason: string
+          resolution: string | null
+          resolution_note: string | null
+          resolved_at: string | null
+          reversal_transaction_id: string | null
+          status: string
+          transaction_id: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      reverse_transaction: {
+        Args: {
+          p_reason?: string
+          p_transaction_id: string
+        }
+        Returns: {
+          account_id: string
+          amount: number
+          balance_after: number
+          counterparty_account_id: string | null
+          counterparty_name: string | null
+          counterparty_user_id: string | null
+          created_at: string
+          description: string | null
+          failure_reason: string | null
+          id: string
+          idempotency_key: string | null
+          journal_entry_id: string | null
+          related_transaction_id: string | null
+          reverses_transaction_id: string | null
+          status: string
+          status_changed_at: string
+          transaction_type: string
+          user_id: string
+        }
+      }
+      review_dispute: {
+        Args: {
+          p_dispute_id: string
+        }
+        Returns: {
+          created_at: string
+          id: string
+          reason: string
+          resolution: string | null
+          resolution_note: string | null
+          resolved_at: string | null
+          reversal_transaction_id: string | null
+          status: string
+          transaction_id: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      revoke_payment_link: {
+        Args: {
+          p_link_id: string
+        }
+        Returns: {
+          account_id: string
+          amount: number
+          created_at: string
+          currency: string
+          expires_at: string
+          id: string
+          multi_use: boolean
+          purpose: string
+          revoked_at: string | null
+          status: string
+          token: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      run_due_scheduled_transactions: {
+        Args: {
+          p_as_of?: string
+        }
+        Returns: {
+          error: string
+          run_date: string
+          scheduled_transaction_id: string
+          status: string
+          transaction_id: string
+        }[]
+      }
+      run_savings_goal_contributions: {
+        Args: {
+          p_as_of?: string
+        }
+        Returns: {
+          amount: number
+          contribution_date: string
+          error: string
+          goal_id: string
+          status: string
+        }[]
+      }
+      save_biller: {
+        Args: {
+          p_biller_id: string
+          p_consumer_number: string
+          p_nickname?: string
+        }
+        Returns: {
+          biller_id: string
+          consumer_number: string
+          created_at: string
+          id: string
+          nickname: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      set_overdraft_limit: {
+        Args: {
+          p_account_id: string
+          p_limit: number
+        }
+        Returns: {
+          account_number: string
+          account_type: string
+          available_balance: number
+          created_at: string
+          currency: string
+          id: string
+          ledger_balance: number
+          nickname: string | null
+          overdraft_limit: number
+          set_aside_balance: number
+          status: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      set_savings_goal_weekly_amount: {
+        Args: {
+          p_goal_id: string
+          p_weekly_amount?: number
+        }
+        Returns: {
+          account_id: string
+          closed_at: string | null
+          created_at: string
+          id: string
+          last_contribution_error: string | null
+          name: string
+          next_contribution_on: string | null
+          saved_amount: number
+          status: string
+          target_amount: number
+          target_date: string
+          updated_at: string
+          user_id: string
+          weekly_amount: number | null
+        }
+      }
+      settle_pending_transaction: {
+        Args: {
+          p_transaction_id: string
+        }
+        Returns: {
+          account_id: string
+          amount: number
+          balance_after: number
+          counterparty_account_id: string | null
+          counterparty_name: string | null
+          counterparty_user_id: string | null
+          created_at: string
+          description: string | null
+          failure_reason: string | null
+          id: string
+          idempotency_key: string | null
+          journal_entry_id: string | null
+          related_transaction_id: string | null
+          reverses_transaction_id: string | null
+          status: string
+          status_changed_at: string
+          transaction_type: string
+          user_id: string
+        }
+      }
+      transfer_savings_goal: {
+        Args: {
+          p_amount: number
+          p_goal_id: string
+        }
+        Returns: {
+          account_id: string
+          closed_at: string | null
+          created_at: string
+          id: string
+          last_contribution_error: string | null
+          name: string
+          next_contribution_on: string | null
+          saved_amount: number
+          status: string
+          target_amount: number
+          target_date: string
+          updated_at: string
+          user_id: string
+          weekly_amount: number | null
+        }
+      }
+      update_scheduled_transaction_status: {
+        Args: {
+          p_id: string
+          p_status: string
+        }
+        Returns: {
+          account_id: string
+          amount: number
+          consecutive_failures: number
+          created_at: string
+          day_of_month: number | null
+          day_of_week: number | null
+          description: string | null
+          end_date: string | null
+          frequency: string
+          id: string
+          last_error: string | null
+          last_run_at: string | null
+          max_runs: number | null
+          next_run_date: string | null
+          recipient_account_id: string | null
+          recipient_name: string | null
+          recipient_user_id: string | null
+          runs_count: number
+          start_date: string
+          status: string
+          transaction_type: string
+          updated_at: string
+          user_id: string
+        }
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,21 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { DEFAULT_CURRENCY } from '@/lib/money';
+
+export type Account = Tables<'accounts'>;
+
+export const ACCOUNT_TYPE_LABELS: Record<string, string> = {
+  savings: 'Savings',
+  current: 'Current',
+};
+
+export const maskAccountNumber = (accountNumber: string) => `••${accountNumber.slice(-4)}`;
+
+// "Holiday fund" or, without a nickname, "Savings ••1234"; foreign currency
+// accounts add their currency, as in "Savings ••1234 (USD)"
+export const getAccountLabel = (
+  account: Pick<Account, 'nickname' | 'account_type' | 'account_number'> & { currency?: string }
+) => {
+  const label =
+    account.nickname ?? `${ACCOUNT_TYPE_LABELS[account.account_type] ?? account.account_type} ${maskAccountNumber(account.account_number)}`;
+  return account.currency && account.currency !== DEFAULT_CURRENCY ? `${label} (${account.currency})` : label;
+};
@@ -0,0 +1,38 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Beneficiary = Tables<'beneficiaries'>;
+export type BeneficiarySettings = Tables<'beneficiary_settings'>;
+export type PayeeTransferCap = Tables<'payee_transfer_caps'>;
+
+export type BeneficiaryStatus =
+  | { state: 'cooling'; until: Date }
+  | { state: 'new'; until: Date; cap: number | null }
+  | { state: 'active' };
+
+// The most a new payee or unsaved recipient in this currency can be sent
+export const getPayeeTransferCap = (caps: PayeeTransferCap[], currency: string): number | null =>
+  caps.find((cap) => cap.currency === currency)?.new_payee_transfer_cap ?? null;
+
+// Where a saved payee is in its cooling period / reduced-cap window
+export const getBeneficiaryStatus = (
+  beneficiary: Beneficiary,
+  settings: BeneficiarySettings | null,
+  caps: PayeeTransferCap[],
+  now: Date = new Date()
+): BeneficiaryStatus => {
+  const activeFrom = new Date(beneficiary.active_from);
+  if (now < activeFrom) {
+    return { state: 'cooling', until: activeFrom };
+  }
+
+  if (settings) {
+    const windowEnds = new Date(
+      new Date(beneficiary.created_at).getTime() + settings.new_payee_window_hours * 60 * 60 * 1000
+    );
+    if (now < windowEnds) {
+      return { state: 'new', until: windowEnds, cap: getPayeeTransferCap(caps, beneficiary.currency) };
+    }
+  }
+
+  return { state: 'active' };
+};
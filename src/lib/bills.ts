@@ -0,0 +1,14 @@
+import type { Database, Tables } from '@/integrations/supabase/types';
+
+export type Biller = Tables<'billers'>;
+export type SavedBiller = Tables<'saved_billers'>;
+export type BillPayment = Tables<'bill_payments'>;
+export type FetchedBill = Database['public']['Functions']['fetch_bill']['Returns'][number];
+
+const BILLER_CATEGORY_LABELS: Record<string, string> = {
+  electricity: 'Electricity',
+  mobile: 'Mobile postpaid',
+  broadband: 'Broadband',
+};
+
+export const getBillerCategoryLabel = (category: string) => BILLER_CATEGORY_LABELS[category] ?? category;
@@ -0,0 +1,12 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Fee = Tables<'fees'>;
+export type FeeSchedule = Tables<'fee_schedule'>;
+
+const FEE_TYPE_LABELS: Record<string, string> = {
+  min_balance: 'Minimum balance charge',
+  transaction: 'Transaction charges',
+  sms_alert: 'SMS alert charges',
+};
+
+export const getFeeTypeLabel = (type: string) => FEE_TYPE_LABELS[type] ?? type;
@@ -0,0 +1,52 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type FixedDeposit = Tables<'fixed_deposits'>;
+export type FixedDepositRate = Tables<'fixed_deposit_rates'>;
+
+export const TENURE_OPTIONS = [
+  { days: 30, label: '30 days' },
+  { days: 90, label: '3 months' },
+  { days: 180, label: '6 months' },
+  { days: 365, label: '1 year' },
+  { days: 730, label: '2 years' },
+  { days: 1095, label: '3 years' },
+  { days: 1825, label: '5 years' },
+];
+
+const FIXED_DEPOSIT_STATUS_LABELS: Record<string, string> = {
+  active: 'Active',
+  matured: 'Matured',
+  closed_early: 'Closed early',
+};
+
+export const getFixedDepositStatusLabel = (status: string) => FIXED_DEPOSIT_STATUS_LABELS[status] ?? status;
+
+// The slab rate for a tenure, or null when no slab covers it
+export const rateForTenure = (rates: FixedDepositRate[], days: number) =>
+  rates.find((rate) => days >= rate.min_days && days <= rate.max_days)?.annual_rate ?? null;
+
+// Mirrors fixed_deposit_maturity_amount in the database: simple interest under
+// 180 days, quarterly compounding from then on
+export const maturityAmount = (principal: number, annualRate: number, days: number) => {
+  const amount = days < 180
+    ? principal * (1 + (annualRate * days) / 365)
+    : principal * Math.pow(1 + annualRate / 4, (4 * days) / 365);
+  return Math.round(amount * 100) / 100;
+};
+
+export const formatRate = (annualRate: number) => `${(annualRate * 100).toFixed(2)}%`;
+
+// Mirrors close_fixed_deposit: the slab rate for the days held, capped at the
+// booked rate and reduced by the penalty. Returns principal plus interest.
+export const prematurePayout = (
+  deposit: Pick<FixedDeposit, 'principal' | 'annual_rate' | 'opened_on'>,
+  rates: FixedDepositRate[],
+  penaltyRate: number,
+  today = new Date()
+) => {
+  const heldDays = differenceInCalendarDays(today, parseISO(deposit.opened_on));
+  const slabRate = rateForTenure(rates, heldDays);
+  const rate = Math.max(Math.min(slabRate ?? 0, deposit.annual_rate) - penaltyRate, 0);
+  return rate > 0 ? maturityAmount(deposit.principal, rate, heldDays) : deposit.principal;
+};
@@ -0,0 +1,14 @@
+import { parseISO } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type FxRate = Tables<'fx_rates'>;
+export type FxQuote = Tables<'fx_quotes'>;
+export type FxSettings = Tables<'fx_settings'>;
+
+// "1 USD = 82.4175 INR"; six significant figures keep small rates like INR to USD readable
+export const formatFxRate = (rate: number, fromCurrency: string, toCurrency: string) =>
+  `1 ${fromCurrency} = ${Number(rate.toPrecision(6))} ${toCurrency}`;
+
+// Whole seconds left before a quote can no longer be executed
+export const quoteSecondsLeft = (quote: Pick<FxQuote, 'expires_at'>, now: number) =>
+  Math.max(0, Math.ceil((parseISO(quote.expires_at).getTime() - now) / 1000));
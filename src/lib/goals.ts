@@ -0,0 +1,31 @@
+import { addDays, differenceInCalendarDays, parseISO } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type SavingsGoal = Tables<'savings_goals'>;
+export type SavingsGoalMovement = Tables<'savings_goal_movements'>;
+
+// Shorter histories would make a single top-up look like a weekly habit
+const MIN_HISTORY_DAYS = 7;
+
+export const goalProgress = (goal: Pick<SavingsGoal, 'saved_amount' | 'target_amount'>) =>
+  Math.min(100, (goal.saved_amount / goal.target_amount) * 100);
+
+// Projects when a goal reaches its target if money keeps arriving at the
+// average daily rate since its first movement. Returns null when nothing has
+// been saved yet, so there is no rate to project from.
+export const projectedCompletionDate = (
+  goal: Pick<SavingsGoal, 'saved_amount' | 'target_amount'>,
+  movements: Pick<SavingsGoalMovement, 'created_at'>[],
+  today: Date = new Date()
+) => {
+  if (goal.saved_amount >= goal.target_amount) return today;
+  if (goal.saved_amount <= 0 || movements.length === 0) return null;
+
+  const firstMovement = movements.reduce((earliest, movement) =>
+    movement.created_at < earliest.created_at ? movement : earliest
+  );
+  const days = Math.max(MIN_HISTORY_DAYS, differenceInCalendarDays(today, parseISO(firstMovement.created_at)));
+  const dailyRate = goal.saved_amount / days;
+
+  return addDays(today, Math.ceil((goal.target_amount - goal.saved_amount) / dailyRate));
+};
@@ -0,0 +1,22 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type WithdrawalLimits = Database['public']['Functions']['get_withdrawal_limits']['Returns'][number];
+
+// How much can still be withdrawn today, honouring both the daily and the monthly total
+export const remainingWithdrawalToday = (limits: WithdrawalLimits) =>
+  Math.max(
+    0,
+    Math.min(
+      limits.daily_amount_limit - limits.daily_amount_used,
+      limits.monthly_amount_limit - limits.monthly_amount_used
+    )
+  );
+
+export const withdrawalsLeftToday = (limits: WithdrawalLimits) =>
+  Math.max(
+    0,
+    Math.min(
+      limits.daily_count_limit - limits.daily_count_used,
+      limits.monthly_count_limit - limits.monthly_count_used
+    )
+  );
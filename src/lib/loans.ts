@@ -0,0 +1,51 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Loan = Tables<'loans'>;
+export type LoanInstalment = Tables<'loan_instalments'>;
+export type LoanPrepayment = Tables<'loan_prepayments'>;
+export type LoanSettings = Tables<'loan_settings'>;
+
+export const TENURE_MONTH_OPTIONS = [6, 12, 18, 24, 36, 48, 60];
+
+const LOAN_STATUS_LABELS: Record<string, string> = {
+  active: 'Active',
+  closed: 'Closed',
+};
+
+const EMI_STATUS_LABELS: Record<string, string> = {
+  upcoming: 'Upcoming',
+  paid: 'Paid',
+  overdue: 'Overdue',
+};
+
+export const getLoanStatusLabel = (status: string) => LOAN_STATUS_LABELS[status] ?? status;
+
+export const getEmiStatusLabel = (status: string) => EMI_STATUS_LABELS[status] ?? status;
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+// Mirrors loan_emi in the database: the monthly instalment that repays the
+// principal over the tenure with interest compounded monthly
+export const loanEmi = (principal: number, annualRate: number, months: number) => {
+  if (annualRate === 0) return roundMoney(principal / months);
+  const monthlyRate = annualRate / 12;
+  const growth = Math.pow(1 + monthlyRate, months);
+  return roundMoney((principal * monthlyRate * growth) / (growth - 1));
+};
+
+// Mirrors build_loan_schedule: each EMI pays the month's interest on what is
+// outstanding and the rest off the principal; the last clears what is left
+export const amortizationSchedule = (principal: number, annualRate: number, months: number) => {
+  const emi = loanEmi(principal, annualRate, months);
+  const rows = [];
+  let balance = principal;
+
+  for (let n = 1; n <= months; n++) {
+    const interest = roundMoney((balance * annualRate) / 12);
+    const repaid = n === months ? balance : Math.min(balance, roundMoney(emi - interest));
+    balance = roundMoney(balance - repaid);
+    rows.push({ number: n, amount: roundMoney(repaid + interest), principal: repaid, interest, closingPrincipal: balance });
+  }
+
+  return rows;
+};
@@ -0,0 +1,33 @@
+// Amounts are formatted in the locale that is conventional for their
+// currency unless a locale is given, so rupees group as 1,23,456.00 and
+// dollars as 123,456.00.
+export const CURRENCIES: Record<string, { name: string; locale: string }> = {
+  INR: { name: 'Indian Rupee', locale: 'en-IN' },
+  USD: { name: 'US Dollar', locale: 'en-US' },
+  EUR: { name: 'Euro', locale: 'en-IE' },
+};
+
+export const DEFAULT_CURRENCY = 'INR';
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+const getFormatter = (currency: string, locale = CURRENCIES[currency]?.locale ?? CURRENCIES[DEFAULT_CURRENCY].locale) => {
+  const key = `${locale}|${currency}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 2,
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+};
+
+export const formatMoney = (amount: number, currency = DEFAULT_CURRENCY, locale?: string) =>
+  getFormatter(currency, locale).format(amount);
+
+// "₹", "$" or "€", for labelling amount inputs
+export const currencySymbol = (currency = DEFAULT_CURRENCY) =>
+  getFormatter(currency).formatToParts(0).find((part) => part.type === 'currency')?.value ?? currency;
@@ -0,0 +1,8 @@
+// How much more a customer can borrow: the full limit while in credit, less
+// the overdrawn amount once the balance is negative
+export const overdraftHeadroom = (availableBalance: number, overdraftLimit: number) =>
+  Math.max(0, overdraftLimit + Math.min(availableBalance, 0));
+
+// The most a customer can withdraw or send right now
+export const spendableBalance = (availableBalance: number, overdraftLimit: number) =>
+  Math.max(0, availableBalance + overdraftLimit);
@@ -0,0 +1,66 @@
+import { parseISO } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type PaymentHandle = Tables<'payment_handles'>;
+export type CollectRequest = Tables<'collect_requests'>;
+export type CollectRequestSettings = Tables<'collect_request_settings'>;
+export type PaymentLink = Tables<'payment_links'>;
+export type PaymentLinkPayment = Tables<'payment_link_payments'>;
+export type PaymentLinkSettings = Tables<'payment_link_settings'>;
+
+// Every handle ends in this; customers only choose the part before it
+export const HANDLE_SUFFIX = '@buddy';
+
+export const EXPIRY_HOUR_OPTIONS = [1, 6, 24, 72, 168];
+
+export const LINK_EXPIRY_HOUR_OPTIONS = [24, 72, 168, 336, 720];
+
+export type CollectRequestStatus = 'pending' | 'approved' | 'declined' | 'cancelled' | 'expired';
+
+const COLLECT_STATUS_LABELS: Record<CollectRequestStatus, string> = {
+  pending: 'Pending',
+  approved: 'Paid',
+  declined: 'Declined',
+  cancelled: 'Cancelled',
+  expired: 'Expired',
+};
+
+// A pending request past its expiry can no longer be acted on, so it is shown as expired
+export const getCollectRequestStatus = (
+  request: Pick<CollectRequest, 'status' | 'expires_at'>,
+  now: Date = new Date()
+): CollectRequestStatus => {
+  if (request.status === 'pending' && parseISO(request.expires_at) <= now) {
+    return 'expired';
+  }
+  return request.status as CollectRequestStatus;
+};
+
+export const getCollectStatusLabel = (status: CollectRequestStatus) => COLLECT_STATUS_LABELS[status] ?? status;
+
+export const formatExpiryHours = (hours: number) =>
+  hours % 24 === 0 ? `${hours / 24} ${hours === 24 ? 'day' : 'days'}` : `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+
+export type PaymentLinkStatus = 'active' | 'paid' | 'revoked' | 'expired';
+
+const LINK_STATUS_LABELS: Record<PaymentLinkStatus, string> = {
+  active: 'Active',
+  paid: 'Paid',
+  revoked: 'Revoked',
+  expired: 'Expired',
+};
+
+// Like collect requests, an active link past its expiry takes no more payments
+export const getPaymentLinkStatus = (
+  link: Pick<PaymentLink, 'status' | 'expires_at'>,
+  now: Date = new Date()
+): PaymentLinkStatus => {
+  if (link.status === 'active' && parseISO(link.expires_at) <= now) {
+    return 'expired';
+  }
+  return link.status as PaymentLinkStatus;
+};
+
+export const getPaymentLinkStatusLabel = (status: PaymentLinkStatus) => LINK_STATUS_LABELS[status] ?? status;
+
+export const paymentLinkUrl = (token: string) => `${window.location.origin}/pay/${token}`;
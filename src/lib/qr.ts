@@ -0,0 +1,90 @@
+import jsQR from 'jsqr';
+import { CURRENCIES, DEFAULT_CURRENCY } from '@/lib/money';
+
+// Payment QR codes hold a URI such as
+// buddy://pay?pa=asha@buddy&pn=Asha%20Rao&am=250.00&cu=INR&tn=Coffee
+// (see "Payment QR codes" in the README for the full format)
+export const PAYMENT_QR_PREFIX = 'buddy://pay';
+
+const MAX_NOTE_LENGTH = 80;
+
+export interface PaymentQrPayload {
+  // Exactly one of handle and accountNumber is set
+  handle?: string;
+  accountNumber?: string;
+  name?: string;
+  // A fixed amount the payer cannot change
+  amount?: number;
+  currency: string;
+  note?: string;
+}
+
+export const buildPaymentQrPayload = (payload: PaymentQrPayload) => {
+  const params = new URLSearchParams();
+  if (payload.handle) {
+    params.set('pa', payload.handle);
+  } else if (payload.accountNumber) {
+    params.set('ac', payload.accountNumber);
+  }
+  if (payload.name) params.set('pn', payload.name);
+  if (payload.amount) params.set('am', payload.amount.toFixed(2));
+  params.set('cu', payload.currency);
+  if (payload.note) params.set('tn', payload.note.slice(0, MAX_NOTE_LENGTH));
+  return `${PAYMENT_QR_PREFIX}?${params.toString()}`;
+};
+
+// The payment details in a scanned QR code, or null if it is not a valid payment QR
+export const parsePaymentQrPayload = (text: string): PaymentQrPayload | null => {
+  const trimmed = text.trim();
+  if (!trimmed.toLowerCase().startsWith(`${PAYMENT_QR_PREFIX}?`)) return null;
+
+  const params = new URLSearchParams(trimmed.slice(PAYMENT_QR_PREFIX.length + 1));
+  const handle = params.get('pa')?.trim().toLowerCase() || undefined;
+  const accountNumber = params.get('ac')?.replace(/\D/g, '') || undefined;
+  if (!handle === !accountNumber) return null;
+
+  const amountText = params.get('am')?.trim();
+  if (amountText && !/^\d+(\.\d{1,2})?$/.test(amountText)) return null;
+  const amount = amountText ? Number(amountText) : undefined;
+  if (amount !== undefined && !(amount > 0)) return null;
+
+  const currency = (params.get('cu')?.trim() || DEFAULT_CURRENCY).toUpperCase();
+  if (!CURRENCIES[currency]) return null;
+
+  return {
+    handle,
+    accountNumber,
+    name: params.get('pn')?.trim() || undefined,
+    amount,
+    currency,
+    note: params.get('tn')?.trim().slice(0, MAX_NOTE_LENGTH) || undefined,
+  };
+};
+
+// Large photos are scaled down before decoding; QR codes stay readable and
+// decoding stays fast
+const MAX_DECODE_SIZE = 1024;
+
+// The text in the QR code in an image, video frame or canvas, or null if there is none
+export const decodeQrFromSource = (source: CanvasImageSource, width: number, height: number) => {
+  const scale = Math.min(1, MAX_DECODE_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context || canvas.width === 0 || canvas.height === 0) return null;
+
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const image = context.getImageData(0, 0, canvas.width, canvas.height);
+  return jsQR(image.data, image.width, image.height)?.data ?? null;
+};
+
+export const decodeQrImageFile = async (file: File) => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    return decodeQrFromSource(bitmap, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,40 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type RecurringDeposit = Tables<'recurring_deposits'>;
+export type RecurringDepositInstalment = Tables<'recurring_deposit_instalments'>;
+export type RecurringDepositRate = Tables<'recurring_deposit_rates'>;
+
+export const MONTH_OPTIONS = [6, 12, 18, 24, 36, 60];
+
+const RECURRING_DEPOSIT_STATUS_LABELS: Record<string, string> = {
+  active: 'Active',
+  matured: 'Matured',
+};
+
+const INSTALMENT_STATUS_LABELS: Record<string, string> = {
+  upcoming: 'Upcoming',
+  paid: 'Paid',
+  missed: 'Missed',
+};
+
+export const getRecurringDepositStatusLabel = (status: string) => RECURRING_DEPOSIT_STATUS_LABELS[status] ?? status;
+
+export const getInstalmentStatusLabel = (status: string) => INSTALMENT_STATUS_LABELS[status] ?? status;
+
+// The slab rate for a number of instalments, or null when no slab covers it
+export const rateForMonths = (rates: RecurringDepositRate[], months: number) =>
+  rates.find((rate) => months >= rate.min_months && months <= rate.max_months)?.annual_rate ?? null;
+
+// Mirrors recurring_deposit_instalment_value in the database: an instalment
+// compounds quarterly for the months it is held before maturity
+export const instalmentMaturityValue = (amount: number, annualRate: number, monthsHeld: number) =>
+  Math.round(amount * Math.pow(1 + annualRate / 4, monthsHeld / 3) * 100) / 100;
+
+// What the deposit pays at maturity when every instalment is paid on time
+export const expectedMaturityAmount = (instalment: number, annualRate: number, months: number) => {
+  let total = 0;
+  for (let n = 1; n <= months; n++) {
+    total += instalmentMaturityValue(instalment, annualRate, months - n + 1);
+  }
+  return Math.round(total * 100) / 100;
+};
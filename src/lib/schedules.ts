@@ -0,0 +1,64 @@
+import { addDays, addMonths, format, getDaysInMonth, parseISO, startOfMonth } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ScheduledTransaction = Tables<'scheduled_transactions'>;
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Mirrors scheduled_transaction_next_date in the database
+export const nextRunDate = (
+  frequency: string,
+  dayOfWeek: number | null,
+  dayOfMonth: number | null,
+  after: Date
+): Date | null => {
+  switch (frequency) {
+    case 'daily':
+      return addDays(after, 1);
+    case 'weekly': {
+      const next = addDays(after, 1);
+      return addDays(next, ((dayOfWeek ?? 0) - next.getDay() + 7) % 7);
+    }
+    case 'monthly': {
+      let month = startOfMonth(after);
+      for (;;) {
+        const candidate = addDays(month, Math.min(dayOfMonth ?? 1, getDaysInMonth(month)) - 1);
+        if (candidate > after) return candidate;
+        month = addMonths(month, 1);
+      }
+    }
+    default:
+      return null;
+  }
+};
+
+// The next few dates an active instruction will run on, honouring its end date and run count
+export const upcomingRuns = (schedule: ScheduledTransaction, count = 3): Date[] => {
+  if (schedule.status !== 'active' || !schedule.next_run_date) return [];
+
+  const runs: Date[] = [];
+  const endDate = schedule.end_date ? parseISO(schedule.end_date) : null;
+  let remaining = schedule.max_runs === null ? Infinity : schedule.max_runs - schedule.runs_count;
+  let date: Date | null = parseISO(schedule.next_run_date);
+
+  while (date && runs.length < count && remaining > 0 && (!endDate || date <= endDate)) {
+    runs.push(date);
+    remaining -= 1;
+    date = nextRunDate(schedule.frequency, schedule.day_of_week, schedule.day_of_month, date);
+  }
+
+  return runs;
+};
+
+export const describeFrequency = (schedule: ScheduledTransaction) => {
+  switch (schedule.frequency) {
+    case 'daily':
+      return 'Every day';
+    case 'weekly':
+      return `Every ${WEEKDAYS[schedule.day_of_week ?? 0]}`;
+    case 'monthly':
+      return `Monthly on day ${schedule.day_of_month}`;
+    default:
+      return `Once on ${format(parseISO(schedule.start_date), 'MMM dd, yyyy')}`;
+  }
+};
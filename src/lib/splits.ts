@@ -0,0 +1,66 @@
+import type { Database, Tables } from '@/integrations/supabase/types';
+
+export type SplitGroup = Tables<'split_groups'>;
+export type SplitGroupMember = Tables<'split_group_members'>;
+export type SplitExpense = Tables<'split_expenses'>;
+export type SplitExpenseShare = Tables<'split_expense_shares'>;
+export type SplitMemberBalance = Database['public']['Functions']['get_split_group_balances']['Returns'][number];
+export type SplitSettlement = Database['public']['Functions']['get_split_settlements']['Returns'][number];
+
+export type SplitType = 'equal' | 'percentage' | 'exact';
+
+const SPLIT_TYPE_LABELS: Record<SplitType, string> = {
+  equal: 'Split equally',
+  percentage: 'By percentage',
+  exact: 'Exact amounts',
+};
+
+export const getSplitTypeLabel = (splitType: string) => SPLIT_TYPE_LABELS[splitType as SplitType] ?? splitType;
+
+export interface SuggestedPayment {
+  fromUserId: string;
+  toUserId: string;
+  amount: number;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// Simplifies the group's unrequested balances into as few payments as it can:
+// the member owing most pays the member owed most, as much as either allows,
+// until everyone is square. Each member makes or receives payments, never both.
+export const simplifyDebts = (balances: Pick<SplitMemberBalance, 'user_id' | 'unrequested'>[]): SuggestedPayment[] => {
+  const creditors = balances
+    .filter((balance) => toCents(balance.unrequested) > 0)
+    .map((balance) => ({ userId: balance.user_id, cents: toCents(balance.unrequested) }));
+  const debtors = balances
+    .filter((balance) => toCents(balance.unrequested) < 0)
+    .map((balance) => ({ userId: balance.user_id, cents: -toCents(balance.unrequested) }));
+  const payments: SuggestedPayment[] = [];
+
+  while (creditors.length > 0 && debtors.length > 0) {
+    creditors.sort((a, b) => b.cents - a.cents);
+    debtors.sort((a, b) => b.cents - a.cents);
+
+    const creditor = creditors[0];
+    const debtor = debtors[0];
+    const cents = Math.min(creditor.cents, debtor.cents);
+
+    payments.push({ fromUserId: debtor.userId, toUserId: creditor.userId, amount: cents / 100 });
+    creditor.cents -= cents;
+    debtor.cents -= cents;
+
+    if (creditor.cents === 0) creditors.shift();
+    if (debtor.cents === 0) debtors.shift();
+  }
+
+  return payments;
+};
+
+// Mirrors add_split_expense: equal shares in cents with the leftover cents
+// going to the first members
+export const equalShares = (amount: number, count: number) => {
+  const cents = toCents(amount);
+  return Array.from({ length: count }, (_, index) =>
+    (Math.floor(cents / count) + (index < cents % count ? 1 : 0)) / 100
+  );
+};
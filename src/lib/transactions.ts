@@ -0,0 +1,76 @@
+const TRANSACTION_TYPE_LABELS: Record<string, string> = {
+  deposit: 'Deposit',
+  withdraw: 'Withdrawal',
+  transfer_in: 'Transfer received',
+  transfer_out: 'Transfer sent',
+  reversal_in: 'Reversal credit',
+  reversal_out: 'Reversal debit',
+  overdraft_interest: 'Overdraft interest',
+  fd_open: 'Fixed deposit opened',
+  fd_payout: 'Fixed deposit payout',
+  interest: 'Interest credit',
+  rd_instalment: 'Recurring deposit instalment',
+  rd_penalty: 'Recurring deposit penalty',
+  rd_payout: 'Recurring deposit payout',
+  fee: 'Fee',
+  fx_out: 'Currency conversion out',
+  fx_in: 'Currency conversion in',
+  loan_disbursal: 'Loan disbursal',
+  loan_emi: 'Loan EMI',
+  loan_prepayment: 'Loan prepayment',
+  bill_payment: 'Bill payment',
+};
+
+const CREDIT_TRANSACTION_TYPES = ['deposit', 'transfer_in', 'reversal_in', 'fd_payout', 'interest', 'rd_payout', 'fx_in', 'loan_disbursal'];
+
+// Reversal rows offset an earlier transaction and cannot be disputed themselves
+export const isReversalTransaction = (type: string) => type === 'reversal_in' || type === 'reversal_out';
+
+const TERM_DEPOSIT_TRANSACTION_TYPES = ['fd_open', 'fd_payout', 'rd_instalment', 'rd_penalty', 'rd_payout'];
+
+// Fixed and recurring deposit movements are settled by the deposit itself, never by a reversal
+export const isTermDepositTransaction = (type: string) => TERM_DEPOSIT_TRANSACTION_TYPES.includes(type);
+
+// The two legs of a conversion are separate ledger entries in different currencies, so neither is reversed alone
+export const isCurrencyConversionTransaction = (type: string) => type === 'fx_out' || type === 'fx_in';
+
+const LOAN_TRANSACTION_TYPES = ['loan_disbursal', 'loan_emi', 'loan_prepayment'];
+
+// Loan movements also move the loan's schedule, so they are never reversed
+export const isLoanTransaction = (type: string) => LOAN_TRANSACTION_TYPES.includes(type);
+
+// Whether a transaction type adds money to the account
+export const isCreditTransaction = (type: string) => CREDIT_TRANSACTION_TYPES.includes(type);
+
+export const getTransactionLabel = (type: string) => TRANSACTION_TYPE_LABELS[type] ?? type;
+
+// "to Jane Doe" / "from Jane Doe" for transfer legs, otherwise null
+export const getCounterpartyLabel = (type: string, counterpartyName: string | null) => {
+  if (!counterpartyName) return null;
+  return `${isCreditTransaction(type) ? 'from' : 'to'} ${counterpartyName}`;
+};
+
+export const TRANSACTION_STATUSES = ['pending', 'posted', 'failed', 'reversed'] as const;
+
+export type TransactionStatus = (typeof TRANSACTION_STATUSES)[number];
+
+const TRANSACTION_STATUS_LABELS: Record<string, string> = {
+  pending: 'Pending',
+  posted: 'Posted',
+  failed: 'Failed',
+  reversed: 'Reversed',
+};
+
+const TRANSACTION_STATUS_COLORS: Record<string, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  posted: 'bg-blue-100 text-blue-800',
+  failed: 'bg-gray-200 text-gray-700',
+  reversed: 'bg-purple-100 text-purple-800',
+};
+
+export const getStatusLabel = (status: string) => TRANSACTION_STATUS_LABELS[status] ?? status;
+
+export const getStatusColor = (status: string) => TRANSACTION_STATUS_COLORS[status] ?? '';
+
+// Only posted transactions have moved money; pending and failed rows show no balance effect
+export const hasPostedBalance = (status: string) => status === 'posted' || status === 'reversed';
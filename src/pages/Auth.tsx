@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,19 +10,24 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { useEffect } from 'react';
+import { currencySymbol } from '@/lib/money';
 
 const Auth = () => {
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
   const navigate = useNavigate();
+  const location = useLocation();
   const { user } = useAuth();
 
+  // Pages that send signed-out visitors here pass their own path so they can come back after sign in
+  const redirectTo = (location.state as { from?: string } | null)?.from ?? '/dashboard';
+
   // Redirect if already authenticated
   useEffect(() => {
     if (user) {
-      navigate('/dashboard');
+      navigate(redirectTo);
     }
-  }, [user, navigate]);
+  }, [user, navigate, redirectTo]);
 
   const handleSignIn = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
@@ -48,7 +53,7 @@ const Auth = () => {
         title: 'Success',
         description: 'Logged in successfully!',
       });
-      navigate('/dashboard');
+      navigate(redirectTo);
     }
 
     setIsLoading(false);
@@ -187,14 +192,14 @@ const Auth = () => {
                   </Select>
                 </div>
                 <div>
-                  <Label htmlFor="signup-initial-balance">Initial Balance (₹)</Label>
+                  <Label htmlFor="signup-initial-balance">Opening Deposit ({currencySymbol()})</Label>
                   <Input
                     id="signup-initial-balance"
                     name="initialBalance"
                     type="number"
                     min="0"
                     step="0.01"
-                    placeholder="Enter initial balance"
+                    placeholder="Enter opening deposit amount"
                     defaultValue="0"
                   />
                 </div>
@@ -0,0 +1,388 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { Navigation } from '@/components/layout/Navigation';
+import { LoadingState } from '@/components/ui/loading-spinner';
+import { Beneficiary, BeneficiarySettings, PayeeTransferCap, getBeneficiaryStatus } from '@/lib/beneficiaries';
+import { formatMoney } from '@/lib/money';
+import { format } from 'date-fns';
+import { Users, UserPlus, Edit3, Save, X, Trash2 } from 'lucide-react';
+
+interface Profile {
+  name: string;
+}
+
+const Beneficiaries = () => {
+  const { user, loading } = useAuth();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [beneficiaries, setBeneficiaries] = useState<Beneficiary[]>([]);
+  const [settings, setSettings] = useState<BeneficiarySettings | null>(null);
+  const [caps, setCaps] = useState<PayeeTransferCap[]>([]);
+  const [beneficiariesLoading, setBeneficiariesLoading] = useState(true);
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editNickname, setEditNickname] = useState('');
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  // Fetch data
+  useEffect(() => {
+    if (user) {
+      fetchProfile();
+      fetchBeneficiaries();
+      fetchSettings();
+    }
+  }, [user]);
+
+  const fetchProfile = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('name')
+        .eq('user_id', user?.id)
+        .single();
+
+      if (!error && data) {
+        setProfile(data);
+      }
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+    }
+  };
+
+  const fetchSettings = async () => {
+    const [settingsResult, capsResult] = await Promise.all([
+      supabase.from('beneficiary_settings').select('*').maybeSingle(),
+      supabase.from('payee_transfer_caps').select('*').order('currency'),
+    ]);
+
+    if (settingsResult.error || capsResult.error) {
+      console.error('Error fetching beneficiary settings:', settingsResult.error ?? capsResult.error);
+    } else {
+      setSettings(settingsResult.data);
+      setCaps(capsResult.data || []);
+    }
+  };
+
+  const fetchBeneficiaries = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('beneficiaries')
+        .select('*')
+        .eq('user_id', user?.id)
+        .order('nickname');
+
+      if (error) {
+        console.error('Error fetching beneficiaries:', error);
+        toast({
+          title: 'Error',
+          description: 'Failed to load payees',
+          variant: 'destructive',
+        });
+      } else {
+        setBeneficiaries(data || []);
+      }
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setBeneficiariesLoading(false);
+    }
+  };
+
+  const handleAddSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const formData = new FormData(event.currentTarget);
+    const identifier = formData.get('payeeIdentifier') as string;
+    const nickname = formData.get('payeeNickname') as string;
+
+    setIsSaving(true);
+
+    const { data, error } = await supabase.rpc('add_beneficiary', {
+      p_identifier: identifier,
+      p_nickname: nickname,
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Payee Added',
+        description: `${data.nickname} can receive transfers from ${format(new Date(data.active_from), 'hh:mm a')}.`,
+      });
+      setIsAddOpen(false);
+      fetchBeneficiaries();
+    }
+
+    setIsSaving(false);
+  };
+
+  const handleSaveNickname = async (beneficiary: Beneficiary) => {
+    const { error } = await supabase
+      .from('beneficiaries')
+      .update({ nickname: editNickname })
+      .eq('id', beneficiary.id);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to update payee',
+        variant: 'destructive',
+      });
+    } else {
+      setBeneficiaries((prev) =>
+        prev.map((b) => (b.id === beneficiary.id ? { ...b, nickname: editNickname } : b))
+      );
+      setEditingId(null);
+    }
+  };
+
+  const handleDelete = async (beneficiary: Beneficiary) => {
+    const { error } = await supabase.rpc('remove_beneficiary', {
+      p_beneficiary_id: beneficiary.id,
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete payee',
+        variant: 'destructive',
+      });
+    } else {
+      setBeneficiaries((prev) => prev.filter((b) => b.id !== beneficiary.id));
+      toast({
+        title: 'Payee Deleted',
+        description: `${beneficiary.nickname} has been removed.`,
+      });
+    }
+  };
+
+  // Caps are per currency, in the currency of the payee's account
+  const capSummary = caps.map((cap) => formatMoney(cap.new_payee_transfer_cap, cap.currency)).join(' / ');
+
+  const renderStatus = (beneficiary: Beneficiary) => {
+    const status = getBeneficiaryStatus(beneficiary, settings, caps);
+
+    if (status.state === 'cooling') {
+      return (
+        <Badge variant="secondary">Cooling period until {format(status.until, 'hh:mm a')}</Badge>
+      );
+    }
+
+    if (status.state === 'new' && status.cap !== null) {
+      return (
+        <Badge variant="outline">
+          Limit {formatMoney(status.cap, beneficiary.currency)} until {format(status.until, 'MMM dd, hh:mm a')}
+        </Badge>
+      );
+    }
+
+    return <Badge>Active</Badge>;
+  };
+
+  if (loading || beneficiariesLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation userName={profile?.name} />
+        <LoadingState>
+          <p className="text-muted-foreground">Loading your payees...</p>
+        </LoadingState>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation userName={profile?.name} />
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-3">
+            <Users className="h-8 w-8 text-primary" />
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Payees</h1>
+              <p className="text-muted-foreground">Manage the people you send money to</p>
+            </div>
+          </div>
+
+          <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <UserPlus className="h-4 w-4 mr-2" />
+                Add Payee
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Add Payee</DialogTitle>
+                <DialogDescription>
+                  {settings
+                    ? `New payees can receive money after ${settings.cooling_period_minutes} minutes, up to ${capSummary} in the first ${settings.new_payee_window_hours} hours.`
+                    : 'New payees have a short cooling period before they can receive money.'}
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleAddSubmit} className="space-y-4">
+                <div>
+                  <Label htmlFor="payeeIdentifier">Account or Phone Number</Label>
+                  <Input
+                    id="payeeIdentifier"
+                    name="payeeIdentifier"
+                    required
+                    placeholder="Enter account number or phone number"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="payeeNickname">Nickname</Label>
+                  <Input
+                    id="payeeNickname"
+                    name="payeeNickname"
+                    placeholder="e.g. Landlord"
+                  />
+                </div>
+                <DialogFooter>
+                  <Button type="submit" disabled={isSaving}>
+                    {isSaving ? 'Adding...' : 'Add Payee'}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Saved Payees</CardTitle>
+            <CardDescription>
+              Saved payees can be selected from the Transfer tab on your dashboard
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {beneficiaries.length === 0 ? (
+              <div className="text-center py-8">
+                <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">No payees yet</p>
+                <p className="text-sm text-muted-foreground mt-1">
+                  Add a payee to send money to them quickly
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {beneficiaries.map((beneficiary) => (
+                  <div
+                    key={beneficiary.id}
+                    className="flex items-center justify-between p-4 border rounded-lg hover:bg-muted/50 transition-colors"
+                  >
+                    <div className="space-y-1">
+                      {editingId === beneficiary.id ? (
+                        <Input
+                          value={editNickname}
+                          onChange={(e) => setEditNickname(e.target.value)}
+                          placeholder="Enter a nickname"
+                        />
+                      ) : (
+                        <p className="font-medium">{beneficiary.nickname}</p>
+                      )}
+                      <p className="text-sm text-muted-foreground">
+                        {beneficiary.payee_name} • <span className="font-mono">{beneficiary.account_number_masked}</span>
+                      </p>
+                      {renderStatus(beneficiary)}
+                    </div>
+                    <div className="flex gap-2">
+                      {editingId === beneficiary.id ? (
+                        <>
+                          <Button
+                            size="sm"
+                            onClick={() => handleSaveNickname(beneficiary)}
+                            disabled={!editNickname.trim()}
+                          >
+                            <Save className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => {
+                            setEditingId(beneficiary.id);
+                            setEditNickname(beneficiary.nickname);
+                          }}
+                        >
+                          <Edit3 className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button size="sm" variant="outline">
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete {beneficiary.nickname}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Adding this payee again will not restart its cooling period or new-payee limit.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(beneficiary)}>
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Beneficiaries;
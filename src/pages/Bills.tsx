@@ -0,0 +1,598 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useAccounts } from '@/components/accounts/AccountProvider';
+import { useToast } from '@/hooks/use-toast';
+import { useIdempotencyKey } from '@/hooks/use-idempotency-key';
+import { Navigation } from '@/components/layout/Navigation';
+import { LoadingState } from '@/components/ui/loading-spinner';
+import { getAccountLabel } from '@/lib/accounts';
+import { DEFAULT_CURRENCY, formatMoney } from '@/lib/money';
+import { BillPayment, Biller, FetchedBill, SavedBiller, getBillerCategoryLabel } from '@/lib/bills';
+import { format, isSameMonth, parseISO } from 'date-fns';
+import { Plus, Receipt, RefreshCw, Trash2 } from 'lucide-react';
+
+interface Profile {
+  name: string;
+}
+
+const Bills = () => {
+  const { user, loading } = useAuth();
+  const { accounts, selectedAccount, refreshAccounts } = useAccounts();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [billers, setBillers] = useState<Biller[]>([]);
+  const [savedBillers, setSavedBillers] = useState<SavedBiller[]>([]);
+  const [payments, setPayments] = useState<BillPayment[]>([]);
+  const [bills, setBills] = useState<Record<string, FetchedBill>>({});
+  const [fetchingId, setFetchingId] = useState<string | null>(null);
+  const [billsLoading, setBillsLoading] = useState(true);
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [addForm, setAddForm] = useState({
+    biller_id: '',
+    consumer_number: '',
+    nickname: '',
+  });
+  const [paying, setPaying] = useState<SavedBiller | null>(null);
+  const [payAccountId, setPayAccountId] = useState('');
+  const [receipt, setReceipt] = useState<BillPayment | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const payKey = useIdempotencyKey();
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  // Fetch data
+  useEffect(() => {
+    if (user) {
+      fetchProfile();
+      fetchBillers();
+    }
+  }, [user]);
+
+  const fetchProfile = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('name')
+        .eq('user_id', user?.id)
+        .single();
+
+      if (!error && data) {
+        setProfile(data);
+      }
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+    }
+  };
+
+  const fetchBillers = async () => {
+    try {
+      const [billersResult, savedResult, paymentsResult] = await Promise.all([
+        supabase.from('billers').select('*').eq('active', true).order('name'),
+        supabase
+          .from('saved_billers')
+          .select('*')
+          .eq('user_id', user?.id)
+          .order('nickname'),
+        supabase
+          .from('bill_payments')
+          .select('*')
+          .eq('user_id', user?.id)
+          .order('created_at', { ascending: false })
+          .limit(50),
+      ]);
+
+      if (savedResult.error) {
+        console.error('Error fetching saved billers:', savedResult.error);
+        toast({
+          title: 'Error',
+          description: 'Failed to load your billers',
+          variant: 'destructive',
+        });
+      } else {
+        setSavedBillers(savedResult.data || []);
+      }
+
+      setBillers(billersResult.data || []);
+      setPayments(paymentsResult.data || []);
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setBillsLoading(false);
+    }
+  };
+
+  const fetchBill = async (saved: SavedBiller) => {
+    setFetchingId(saved.id);
+
+    const { data, error } = await supabase.rpc('fetch_bill', { p_saved_biller_id: saved.id });
+
+    if (error || !data?.[0]) {
+      toast({
+        title: 'Error',
+        description: error?.message ?? 'The biller did not return a bill',
+        variant: 'destructive',
+      });
+    } else {
+      setBills((prev) => ({ ...prev, [saved.id]: data[0] }));
+    }
+
+    setFetchingId(null);
+  };
+
+  // Bills are in rupees, so only rupee accounts can pay them
+  const payAccounts = accounts.filter(
+    (account) => account.status === 'active' && account.currency === DEFAULT_CURRENCY
+  );
+  const payFromId = payAccountId || selectedAccount?.id || '';
+  const payAccount = payAccounts.find((account) => account.id === payFromId) ?? null;
+  const accountLabels = Object.fromEntries(accounts.map((account) => [account.id, getAccountLabel(account)]));
+  const billersById = Object.fromEntries(billers.map((biller) => [biller.id, biller]));
+  const addBiller = billersById[addForm.biller_id];
+  const payingBill = paying ? bills[paying.id] : undefined;
+
+  const handleAddSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!addBiller) return;
+
+    setIsSaving(true);
+
+    const { data, error } = await supabase.rpc('save_biller', {
+      p_biller_id: addBiller.id,
+      p_consumer_number: addForm.consumer_number,
+      p_nickname: addForm.nickname,
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Biller Added',
+        description: `${data.nickname} has been saved. Fetch the bill to pay it.`,
+      });
+      setIsAddOpen(false);
+      setAddForm({ biller_id: '', consumer_number: '', nickname: '' });
+      setSavedBillers((prev) => [...prev, data].sort((a, b) => a.nickname.localeCompare(b.nickname)));
+    }
+
+    setIsSaving(false);
+  };
+
+  const handleDelete = async (saved: SavedBiller) => {
+    const { error } = await supabase
+      .from('saved_billers')
+      .delete()
+      .eq('id', saved.id);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to remove biller',
+        variant: 'destructive',
+      });
+    } else {
+      setSavedBillers((prev) => prev.filter((s) => s.id !== saved.id));
+      toast({
+        title: 'Biller Removed',
+        description: `${saved.nickname} has been removed.`,
+      });
+    }
+  };
+
+  const handlePaySubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!paying || !payingBill || !payAccount) return;
+
+    setIsSaving(true);
+
+    const { data, error } = await supabase.rpc('pay_bill', {
+      p_saved_biller_id: paying.id,
+      p_account_id: payAccount.id,
+      p_amount: payingBill.amount,
+      p_idempotency_key: payKey.keyFor(`${paying.id}|${payAccount.id}|${payingBill.bill_number}`),
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Bill Paid',
+        description: `${formatMoney(data.amount)} paid to ${billersById[data.biller_id]?.name ?? 'the biller'}.`,
+      });
+      payKey.complete();
+      setBills((prev) => ({ ...prev, [paying.id]: { ...payingBill, paid: true } }));
+      setPayments((prev) => [data, ...prev]);
+      setPaying(null);
+      setReceipt(data);
+      refreshAccounts();
+    }
+
+    setIsSaving(false);
+  };
+
+  if (loading || billsLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation userName={profile?.name} />
+        <LoadingState>
+          <p className="text-muted-foreground">Loading your bills...</p>
+        </LoadingState>
+      </div>
+    );
+  }
+
+  const now = new Date();
+  const paidThisMonth = payments.filter((payment) => isSameMonth(parseISO(payment.created_at), now));
+  const dueBills = savedBillers.filter((saved) => bills[saved.id] && !bills[saved.id].paid);
+  const receiptBiller = receipt ? billersById[receipt.biller_id] : undefined;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation userName={profile?.name} />
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-3">
+            <Receipt className="h-8 w-8 text-primary" />
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Bill Payments</h1>
+              <p className="text-muted-foreground">Pay your electricity, mobile and broadband bills</p>
+            </div>
+          </div>
+
+          <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
+            <DialogTrigger asChild>
+              <Button disabled={billers.length === 0}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Biller
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Add Biller</DialogTitle>
+                <DialogDescription>
+                  Save the number your biller knows you by. You can fetch and pay the latest bill at any time.
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleAddSubmit} className="space-y-4">
+                <div>
+                  <Label htmlFor="billerId">Biller</Label>
+                  <Select
+                    value={addForm.biller_id}
+                    onValueChange={(value) => setAddForm({ ...addForm, biller_id: value })}
+                  >
+                    <SelectTrigger id="billerId">
+                      <SelectValue placeholder="Select a biller" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {billers.map((biller) => (
+                        <SelectItem key={biller.id} value={biller.id}>
+                          {biller.name} ({getBillerCategoryLabel(biller.category)})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="consumerNumber">{addBiller?.consumer_number_label ?? 'Consumer number'}</Label>
+                  <Input
+                    id="consumerNumber"
+                    required
+                    value={addForm.consumer_number}
+                    onChange={(e) => setAddForm({ ...addForm, consumer_number: e.target.value })}
+                    placeholder={`Enter your ${(addBiller?.consumer_number_label ?? 'consumer number').toLowerCase()}`}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="billerNickname">Nickname</Label>
+                  <Input
+                    id="billerNickname"
+                    value={addForm.nickname}
+                    onChange={(e) => setAddForm({ ...addForm, nickname: e.target.value })}
+                    placeholder="e.g. Home electricity"
+                  />
+                </div>
+                <DialogFooter>
+                  <Button type="submit" disabled={isSaving || !addBiller}>
+                    {isSaving ? 'Adding...' : 'Add Biller'}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {/* Summary Cards */}
+        <div className="grid gap-6 md:grid-cols-3 mb-8">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Saved Billers</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{savedBillers.length}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Bills Due</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {formatMoney(dueBills.reduce((sum, saved) => sum + bills[saved.id].amount, 0))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {dueBills.length} fetched {dueBills.length === 1 ? 'bill' : 'bills'} unpaid
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Paid This Month</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {formatMoney(paidThisMonth.reduce((sum, payment) => sum + payment.amount, 0))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {paidThisMonth.length} {paidThisMonth.length === 1 ? 'bill' : 'bills'}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          {/* Saved billers */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Your Billers</CardTitle>
+              <CardDescription>Fetch the latest bill to see what is due</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {savedBillers.length === 0 ? (
+                <div className="text-center py-8">
+                  <Receipt className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground">No billers yet</p>
+                  <p className="text-sm text-muted-foreground mt-1">Add a biller to pay your bills from here</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {savedBillers.map((saved) => {
+                    const biller = billersById[saved.biller_id];
+                    const bill = bills[saved.id];
+
+                    return (
+                      <div key={saved.id} className="p-4 border rounded-lg space-y-3">
+                        <div className="flex items-start justify-between gap-4">
+                          <div>
+                            <p className="font-medium">{saved.nickname}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {biller?.name ?? 'Unavailable biller'} •{' '}
+                              <span className="font-mono">{saved.consumer_number}</span>
+                            </p>
+                          </div>
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => fetchBill(saved)}
+                              disabled={!biller || fetchingId === saved.id}
+                            >
+                              <RefreshCw className={`h-4 w-4 mr-2 ${fetchingId === saved.id ? 'animate-spin' : ''}`} />
+                              Fetch Bill
+                            </Button>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button size="sm" variant="outline">
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Remove {saved.nickname}?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Receipts for bills you have already paid are kept.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => handleDelete(saved)}>Remove</AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </div>
+                        </div>
+
+                        {bill && (
+                          <div className="flex items-center justify-between gap-4 p-3 rounded-lg bg-muted/50">
+                            <div className="text-sm">
+                              <p>
+                                <span className="text-muted-foreground">{bill.billing_period} bill • </span>
+                                <span className="font-mono">{bill.bill_number}</span>
+                              </p>
+                              <p className="text-muted-foreground">
+                                Due {format(parseISO(bill.due_date), 'MMM dd, yyyy')}
+                              </p>
+                            </div>
+                            <div className="flex items-center gap-3">
+                              <p className="text-lg font-bold">{formatMoney(bill.amount)}</p>
+                              {bill.paid ? (
+                                <Badge variant="secondary">Paid</Badge>
+                              ) : (
+                                <Button size="sm" onClick={() => setPaying(saved)} disabled={payAccounts.length === 0}>
+                                  Pay
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* History */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Bill History</CardTitle>
+              <CardDescription>Select a payment to see its receipt</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {payments.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">No bills paid yet</p>
+              ) : (
+                <div className="space-y-2">
+                  {payments.map((payment) => (
+                    <button
+                      key={payment.id}
+                      type="button"
+                      onClick={() => setReceipt(payment)}
+                      className="w-full flex items-center justify-between gap-2 p-3 border rounded-lg text-left hover:bg-muted/50 transition-colors"
+                    >
+                      <div>
+                        <p className="text-sm font-medium">{billersById[payment.biller_id]?.name ?? 'Biller'}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {payment.billing_period} • {format(parseISO(payment.created_at), 'MMM dd, yyyy')}
+                        </p>
+                      </div>
+                      <p className="text-sm font-medium">{formatMoney(payment.amount)}</p>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Pay dialog */}
+      <Dialog open={paying !== null} onOpenChange={(open) => !open && setPaying(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Pay {paying?.nickname}</DialogTitle>
+            <DialogDescription>
+              The bill is paid straight away and the biller is told it has been settled.
+            </DialogDescription>
+          </DialogHeader>
+          {paying && payingBill && (
+            <form onSubmit={handlePaySubmit} className="space-y-4">
+              <div className="p-3 border rounded-lg bg-muted/50 space-y-1 text-sm">
+                <p>
+                  <span className="text-muted-foreground">Biller: </span>
+                  {billersById[paying.biller_id]?.name}
+                </p>
+                <p>
+                  <span className="text-muted-foreground">Bill: </span>
+                  {payingBill.billing_period} • <span className="font-mono">{payingBill.bill_number}</span>
+                </p>
+                <p>
+                  <span className="text-muted-foreground">Amount: </span>
+                  <span className="font-medium">{formatMoney(payingBill.amount)}</span>
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="payAccount">Pay from</Label>
+                <Select value={payFromId} onValueChange={setPayAccountId}>
+                  <SelectTrigger id="payAccount">
+                    <SelectValue placeholder="Select an account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {payAccounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {getAccountLabel(account)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <DialogFooter>
+                <Button type="submit" disabled={isSaving || !payAccount}>
+                  {isSaving ? 'Paying...' : `Pay ${formatMoney(payingBill.amount)}`}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Receipt dialog */}
+      <Dialog open={receipt !== null} onOpenChange={(open) => !open && setReceipt(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Payment Receipt</DialogTitle>
+            <DialogDescription>Keep the receipt number in case you need to contact your biller.</DialogDescription>
+          </DialogHeader>
+          {receipt && (
+            <div className="space-y-3 text-sm">
+              {[
+                ['Receipt number', receipt.receipt_number],
+                ['Biller', receiptBiller?.name ?? 'Biller'],
+                [receiptBiller?.consumer_number_label ?? 'Consumer number', receipt.consumer_number],
+                ['Bill number', receipt.bill_number],
+                ['Billing period', receipt.billing_period],
+                ['Due date', format(parseISO(receipt.due_date), 'MMM dd, yyyy')],
+                ['Paid from', accountLabels[receipt.account_id] ?? 'Closed account'],
+                ['Paid on', format(parseISO(receipt.created_at), 'MMM dd, yyyy hh:mm a')],
+              ].map(([label, value]) => (
+                <div key={label} className="flex items-center justify-between gap-4">
+                  <span className="text-muted-foreground">{label}</span>
+                  <span className="font-medium text-right">{value}</span>
+                </div>
+              ))}
+              <div className="flex items-center justify-between gap-4 pt-3 border-t">
+                <span className="text-muted-foreground">Amount paid</span>
+                <span className="text-lg font-bold">{formatMoney(receipt.amount)}</span>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Bills;
@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -8,21 +8,33 @@ import { useToast } from '@/hooks/use-toast';
 import { BankingOperations } from '@/components/banking/BankingOperations';
 import { TransactionHistory } from '@/components/banking/TransactionHistory';
 import { Navigation } from '@/components/layout/Navigation';
+import { useAccounts } from '@/components/accounts/AccountProvider';
+import { AccountSwitcher } from '@/components/accounts/AccountSwitcher';
+import { OpenAccountDialog } from '@/components/accounts/OpenAccountDialog';
+import { ReceiveQrCard } from '@/components/payments/ReceiveQrCard';
 import { LoadingState } from '@/components/ui/loading-spinner';
-import { IndianRupee, TrendingUp, TrendingDown, PiggyBank } from 'lucide-react';
+import { TrendingUp, TrendingDown, PiggyBank, Percent } from 'lucide-react';
+import { CURRENCIES, formatMoney } from '@/lib/money';
+import { overdraftHeadroom } from '@/lib/overdraft';
+import { cn } from '@/lib/utils';
 
 interface Profile {
   id: string;
   name: string;
   phone: string;
-  account_type: string;
-  balance: number;
+}
+
+interface InterestEarned {
+  month_to_date: number;
+  year_to_date: number;
 }
 
 const Dashboard = () => {
   const { user, loading } = useAuth();
+  const { selectedAccount: account, refreshAccounts, loading: accountsLoading } = useAccounts();
   const [profile, setProfile] = useState<Profile | null>(null);
   const [profileLoading, setProfileLoading] = useState(true);
+  const [interestEarned, setInterestEarned] = useState<InterestEarned | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
 
@@ -40,6 +52,27 @@ const Dashboard = () => {
     }
   }, [user]);
 
+  // Accruals only change overnight, so refetch when switching accounts
+  useEffect(() => {
+    if (account?.account_type === 'savings') {
+      fetchInterestEarned(account.id);
+    } else {
+      setInterestEarned(null);
+    }
+  }, [account?.id, account?.account_type]);
+
+  const fetchInterestEarned = async (accountId: string) => {
+    const { data, error } = await supabase.rpc('get_interest_earned', {
+      p_account_id: accountId,
+    });
+
+    if (error) {
+      console.error('Error fetching interest earned:', error);
+    } else {
+      setInterestEarned(data?.[0] ?? null);
+    }
+  };
+
   const fetchProfile = async () => {
     try {
       const { data, error } = await supabase
@@ -78,15 +111,7 @@ const Dashboard = () => {
     }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: 'INR',
-      minimumFractionDigits: 2,
-    }).format(amount);
-  };
-
-  if (loading || profileLoading) {
+  if (loading || profileLoading || accountsLoading) {
     return (
       <div className="min-h-screen bg-background">
         <Navigation />
@@ -97,7 +122,7 @@ const Dashboard = () => {
     );
   }
 
-  if (!profile) {
+  if (!profile || !account) {
     return (
       <div className="min-h-screen bg-background">
         <Navigation />
@@ -121,32 +146,56 @@ const Dashboard = () => {
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Welcome Message */}
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-foreground">
-            Welcome back, {profile.name}! 👋
-          </h1>
-          <p className="text-muted-foreground mt-2">
-            Here's your account summary for today
-          </p>
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">
+              Welcome back, {profile.name}! 👋
+            </h1>
+            <p className="text-muted-foreground mt-2">
+              Here's your account summary for today
+            </p>
+          </div>
+          <AccountSwitcher />
         </div>
 
         {/* Account Summary Cards */}
-        <div className="grid gap-6 md:grid-cols-3 mb-8">
+        <div className={cn('grid gap-6 md:grid-cols-3 mb-8', interestEarned && 'lg:grid-cols-4')}>
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">Current Balance</CardTitle>
               <PiggyBank className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="flex items-center gap-2">
-                <IndianRupee className="h-5 w-5 text-primary" />
-                <div className="text-2xl font-bold text-primary">
-                  {formatCurrency(profile.balance).replace('₹', '')}
-                </div>
+              <div className="text-2xl font-bold text-primary">
+                {formatMoney(account.ledger_balance, account.currency)}
               </div>
               <p className="text-xs text-muted-foreground mt-1">
-                {profile.account_type} account
+                {account.account_type} account
               </p>
+              {account.set_aside_balance > 0 ? (
+                <div className="grid grid-cols-2 gap-2 mt-3 pt-3 border-t">
+                  <div>
+                    <p className="text-xs text-muted-foreground">Free balance</p>
+                    <p className="text-sm font-semibold">{formatMoney(account.available_balance, account.currency)}</p>
+                  </div>
+                  <Link to="/goals" className="hover:underline">
+                    <p className="text-xs text-muted-foreground">Set aside in goals</p>
+                    <p className="text-sm font-semibold">{formatMoney(account.set_aside_balance, account.currency)}</p>
+                  </Link>
+                </div>
+              ) : (
+                account.available_balance !== account.ledger_balance && (
+                  <p className="text-xs text-muted-foreground">
+                    Available: {formatMoney(account.available_balance, account.currency)}
+                  </p>
+                )
+              )}
+              {account.overdraft_limit > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Overdraft headroom: {formatMoney(overdraftHeadroom(account.available_balance, account.overdraft_limit), account.currency)}
+                  {' '}of {formatMoney(account.overdraft_limit, account.currency)}
+                </p>
+              )}
             </CardContent>
           </Card>
 
@@ -157,7 +206,7 @@ const Dashboard = () => {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-green-600">
-                {formatCurrency(profile.balance)}
+                {formatMoney(account.ledger_balance, account.currency)}
               </div>
               <p className="text-xs text-muted-foreground mt-1">
                 This month
@@ -172,18 +221,35 @@ const Dashboard = () => {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-red-600">
-                {formatCurrency(0)}
+                {formatMoney(0, account.currency)}
               </div>
               <p className="text-xs text-muted-foreground mt-1">
                 This month
               </p>
             </CardContent>
           </Card>
+
+          {interestEarned && (
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Interest Earned</CardTitle>
+                <Percent className="h-4 w-4 text-green-600" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-green-600">
+                  {formatMoney(interestEarned.month_to_date, account.currency)}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  This month • {formatMoney(interestEarned.year_to_date, account.currency)} this year
+                </p>
+              </CardContent>
+            </Card>
+          )}
         </div>
 
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
           {/* Account Details */}
-          <div className="lg:col-span-1">
+          <div className="lg:col-span-1 space-y-6">
             <Card>
               <CardHeader>
                 <CardTitle>Account Details</CardTitle>
@@ -196,34 +262,48 @@ const Dashboard = () => {
                 </div>
                 <div>
                   <p className="text-sm text-muted-foreground">Account Type</p>
-                  <p className="text-lg font-medium capitalize">{profile.account_type}</p>
+                  <p className="text-lg font-medium capitalize">{account.account_type}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Currency</p>
+                  <p className="text-lg font-medium">{CURRENCIES[account.currency]?.name ?? account.currency}</p>
                 </div>
                 <div>
                   <p className="text-sm text-muted-foreground">Phone</p>
                   <p className="text-lg font-medium">{profile.phone}</p>
                 </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Account Number</p>
+                  <p className="text-lg font-mono font-medium">{account.account_number}</p>
+                </div>
                 <div>
                   <p className="text-sm text-muted-foreground">Account ID</p>
                   <p className="text-sm font-mono text-muted-foreground">
-                    {profile.id.slice(0, 8)}...
+                    {account.id.slice(0, 8)}...
                   </p>
                 </div>
+                <OpenAccountDialog />
               </CardContent>
             </Card>
+
+            <ReceiveQrCard account={account} name={profile.name} />
           </div>
 
           {/* Banking Operations */}
           <div className="lg:col-span-2">
             <BankingOperations 
-              currentBalance={profile.balance} 
-              onBalanceUpdate={fetchProfile}
+              accountId={account.id}
+              currency={account.currency}
+              currentBalance={account.available_balance} 
+              overdraftLimit={account.overdraft_limit}
+              onBalanceUpdate={refreshAccounts}
             />
           </div>
         </div>
 
         {/* Transaction History */}
         <div className="mt-8">
-          <TransactionHistory />
+          <TransactionHistory accountId={account.id} currency={account.currency} />
         </div>
       </div>
     </div>
@@ -0,0 +1,439 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useAccounts } from '@/components/accounts/AccountProvider';
+import { useToast } from '@/hooks/use-toast';
+import { Navigation } from '@/components/layout/Navigation';
+import { LoadingState } from '@/components/ui/loading-spinner';
+import { getAccountLabel } from '@/lib/accounts';
+import { formatRate } from '@/lib/fixed-deposits';
+import { FxQuote, FxRate, FxSettings, formatFxRate, quoteSecondsLeft } from '@/lib/fx';
+import { currencySymbol, formatMoney } from '@/lib/money';
+import { spendableBalance } from '@/lib/overdraft';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeftRight, ArrowRight, Clock } from 'lucide-react';
+
+interface Profile {
+  name: string;
+}
+
+const Exchange = () => {
+  const { user, loading } = useAuth();
+  const { accounts, selectedAccount, refreshAccounts } = useAccounts();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [rates, setRates] = useState<FxRate[]>([]);
+  const [settings, setSettings] = useState<FxSettings | null>(null);
+  const [conversions, setConversions] = useState<FxQuote[]>([]);
+  const [ratesLoading, setRatesLoading] = useState(true);
+  const [form, setForm] = useState({
+    from_account_id: '',
+    to_account_id: '',
+    amount: '',
+  });
+  const [quote, setQuote] = useState<FxQuote | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [isQuoting, setIsQuoting] = useState(false);
+  const [isConverting, setIsConverting] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  // Fetch data
+  useEffect(() => {
+    if (user) {
+      fetchProfile();
+      fetchRates();
+    }
+  }, [user]);
+
+  // Tick once a second while a quote is on screen so its expiry counts down
+  useEffect(() => {
+    if (!quote) return;
+
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [quote]);
+
+  const fetchProfile = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('name')
+        .eq('user_id', user?.id)
+        .single();
+
+      if (!error && data) {
+        setProfile(data);
+      }
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+    }
+  };
+
+  const fetchRates = async () => {
+    try {
+      const [ratesResult, settingsResult, conversionsResult] = await Promise.all([
+        supabase.from('fx_rates').select('*').order('base_currency').order('quote_currency'),
+        supabase.from('fx_settings').select('*').maybeSingle(),
+        supabase
+          .from('fx_quotes')
+          .select('*')
+          .eq('user_id', user?.id)
+          .eq('status', 'executed')
+          .order('created_at', { ascending: false })
+          .limit(10),
+      ]);
+
+      if (ratesResult.error) {
+        console.error('Error fetching exchange rates:', ratesResult.error);
+        toast({
+          title: 'Error',
+          description: 'Failed to load exchange rates',
+          variant: 'destructive',
+        });
+      } else {
+        setRates(ratesResult.data || []);
+      }
+
+      setSettings(settingsResult.data);
+      setConversions(conversionsResult.data || []);
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setRatesLoading(false);
+    }
+  };
+
+  const activeAccounts = accounts.filter((account) => account.status === 'active');
+  const fromAccountId = form.from_account_id || selectedAccount?.id || '';
+  const fromAccount = activeAccounts.find((account) => account.id === fromAccountId) ?? null;
+  // Same-currency moves are ordinary transfers, so only other currencies are offered
+  const toAccounts = activeAccounts.filter((account) => fromAccount && account.currency !== fromAccount.currency);
+  const toAccount = toAccounts.find((account) => account.id === form.to_account_id) ?? null;
+  const accountLabels = Object.fromEntries(accounts.map((account) => [account.id, getAccountLabel(account)]));
+
+  const secondsLeft = quote ? quoteSecondsLeft(quote, now) : 0;
+
+  // Any change to the request invalidates the quote on screen
+  const updateForm = (changes: Partial<typeof form>) => {
+    setForm({ ...form, ...changes });
+    setQuote(null);
+  };
+
+  const handleQuoteSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!fromAccount || !toAccount) return;
+
+    const amount = parseFloat(form.amount);
+
+    if (!(amount > 0)) {
+      toast({
+        title: 'Invalid Amount',
+        description: 'Please enter a valid amount greater than 0.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (amount > spendableBalance(fromAccount.available_balance, fromAccount.overdraft_limit)) {
+      toast({
+        title: 'Insufficient Funds',
+        description: 'The selected account does not have enough available balance for this conversion.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsQuoting(true);
+
+    const { data, error } = await supabase.rpc('create_fx_quote', {
+      p_from_account_id: fromAccount.id,
+      p_to_account_id: toAccount.id,
+      p_amount: amount,
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setQuote(data);
+    }
+
+    setIsQuoting(false);
+  };
+
+  const handleConvert = async () => {
+    if (!quote) return;
+
+    setIsConverting(true);
+
+    const { error } = await supabase.rpc('execute_fx_quote', {
+      p_quote_id: quote.id,
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Conversion Complete',
+        description: `${formatMoney(quote.from_amount, quote.from_currency)} was converted to ${formatMoney(quote.to_amount, quote.to_currency)}.`,
+      });
+      setQuote(null);
+      setForm({ ...form, amount: '' });
+      fetchRates();
+      refreshAccounts();
+    }
+
+    setIsConverting(false);
+  };
+
+  if (loading || ratesLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation userName={profile?.name} />
+        <LoadingState>
+          <p className="text-muted-foreground">Loading exchange rates...</p>
+        </LoadingState>
+      </div>
+    );
+  }
+
+  const hasForeignAccounts = new Set(activeAccounts.map((account) => account.currency)).size > 1;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation userName={profile?.name} />
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center gap-3 mb-8">
+          <ArrowLeftRight className="h-8 w-8 text-primary" />
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Currency Exchange</h1>
+            <p className="text-muted-foreground">Move money between your accounts in different currencies</p>
+          </div>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          {/* Convert */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Convert</CardTitle>
+              <CardDescription>
+                Get a quote, then convert before it expires
+                {settings && ` (quotes are held for ${settings.quote_validity_seconds} seconds)`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!hasForeignAccounts ? (
+                <div className="text-center py-8">
+                  <ArrowLeftRight className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground">You need accounts in two different currencies</p>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Open an account in another currency from your dashboard to convert money into it
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <form onSubmit={handleQuoteSubmit} className="space-y-4">
+                    <div className="grid gap-4 sm:grid-cols-2">
+                      <div>
+                        <Label htmlFor="exchangeFrom">From Account</Label>
+                        <Select
+                          value={fromAccountId}
+                          onValueChange={(value) => updateForm({ from_account_id: value, to_account_id: '' })}
+                        >
+                          <SelectTrigger id="exchangeFrom">
+                            <SelectValue placeholder="Select an account" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {activeAccounts.map((account) => (
+                              <SelectItem key={account.id} value={account.id}>
+                                {getAccountLabel(account)} • {account.currency}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {fromAccount && (
+                          <p className="text-sm text-muted-foreground mt-1">
+                            Available balance: {formatMoney(fromAccount.available_balance, fromAccount.currency)}
+                            {fromAccount.overdraft_limit > 0 &&
+                              ` (${formatMoney(
+                                spendableBalance(fromAccount.available_balance, fromAccount.overdraft_limit),
+                                fromAccount.currency
+                              )} with overdraft)`}
+                          </p>
+                        )}
+                      </div>
+                      <div>
+                        <Label htmlFor="exchangeTo">To Account</Label>
+                        <Select
+                          value={form.to_account_id}
+                          onValueChange={(value) => updateForm({ to_account_id: value })}
+                        >
+                          <SelectTrigger id="exchangeTo">
+                            <SelectValue placeholder="Select an account" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {toAccounts.map((account) => (
+                              <SelectItem key={account.id} value={account.id}>
+                                {getAccountLabel(account)} • {account.currency}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="exchangeAmount">
+                        Amount{fromAccount && ` (${currencySymbol(fromAccount.currency)})`}
+                      </Label>
+                      <Input
+                        id="exchangeAmount"
+                        type="number"
+                        min="0.01"
+                        step="0.01"
+                        required
+                        value={form.amount}
+                        onChange={(e) => updateForm({ amount: e.target.value })}
+                        placeholder="Enter amount to convert"
+                      />
+                    </div>
+
+                    {!quote && (
+                      <Button type="submit" className="w-full" disabled={isQuoting || !fromAccount || !toAccount}>
+                        {isQuoting ? 'Getting quote...' : 'Get Quote'}
+                      </Button>
+                    )}
+                  </form>
+
+                  {quote && (
+                    <div className="p-4 border rounded-lg bg-muted/50 space-y-3">
+                      <div className="flex items-center justify-between gap-4">
+                        <div className="text-lg font-bold">
+                          {formatMoney(quote.from_amount, quote.from_currency)}
+                          <ArrowRight className="h-4 w-4 inline mx-2 text-muted-foreground" />
+                          <span className="text-green-600">{formatMoney(quote.to_amount, quote.to_currency)}</span>
+                        </div>
+                        <div
+                          className={`flex items-center gap-1 text-sm ${secondsLeft === 0 ? 'text-destructive' : 'text-muted-foreground'}`}
+                        >
+                          <Clock className="h-4 w-4" />
+                          {secondsLeft > 0 ? `Expires in ${secondsLeft}s` : 'Expired'}
+                        </div>
+                      </div>
+                      <div className="space-y-1 text-sm">
+                        <p>
+                          <span className="text-muted-foreground">Your rate: </span>
+                          {formatFxRate(quote.rate, quote.from_currency, quote.to_currency)}
+                        </p>
+                        <p>
+                          <span className="text-muted-foreground">Mid-market rate: </span>
+                          {formatFxRate(quote.mid_rate, quote.from_currency, quote.to_currency)}
+                        </p>
+                        <p>
+                          <span className="text-muted-foreground">Spread: </span>
+                          {formatRate(quote.spread)}
+                        </p>
+                      </div>
+                      {secondsLeft > 0 ? (
+                        <Button className="w-full" onClick={handleConvert} disabled={isConverting}>
+                          {isConverting ? 'Converting...' : 'Convert Now'}
+                        </Button>
+                      ) : (
+                        <Button className="w-full" variant="outline" onClick={() => setQuote(null)}>
+                          Get a New Quote
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Rates */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Exchange Rates</CardTitle>
+              <CardDescription>Mid-market rates before the spread</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {rates.map((rate) => (
+                <div key={rate.id} className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {rate.base_currency} / {rate.quote_currency}
+                  </span>
+                  <span className="font-medium">{formatFxRate(rate.mid_rate, rate.base_currency, rate.quote_currency)}</span>
+                </div>
+              ))}
+              {settings && (
+                <p className="text-xs text-muted-foreground pt-2 border-t">
+                  Conversions are priced {formatRate(settings.spread)} below the mid-market rate.
+                  {rates.length > 0 &&
+                    ` Rates last updated ${format(parseISO(rates[0].updated_at), 'MMM dd, yyyy hh:mm a')}.`}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Recent conversions */}
+        {conversions.length > 0 && (
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Recent Conversions</CardTitle>
+              <CardDescription>Each conversion appears in both accounts' transaction history</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {conversions.map((conversion) => (
+                  <div key={conversion.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+                    <div>
+                      <p className="font-medium">
+                        {accountLabels[conversion.from_account_id]} → {accountLabels[conversion.to_account_id]}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {format(parseISO(conversion.updated_at), 'MMM dd, yyyy hh:mm a')} •{' '}
+                        {formatFxRate(conversion.rate, conversion.from_currency, conversion.to_currency)}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-medium">{formatMoney(conversion.to_amount, conversion.to_currency)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        for {formatMoney(conversion.from_amount, conversion.from_currency)}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Exchange;
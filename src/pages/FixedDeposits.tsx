@@ -0,0 +1,514 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useAccounts } from '@/components/accounts/AccountProvider';
+import { useToast } from '@/hooks/use-toast';
+import { useIdempotencyKey } from '@/hooks/use-idempotency-key';
+import { Navigation } from '@/components/layout/Navigation';
+import { LoadingState } from '@/components/ui/loading-spinner';
+import { getAccountLabel } from '@/lib/accounts';
+import {
+  FixedDeposit,
+  FixedDepositRate,
+  TENURE_OPTIONS,
+  formatRate,
+  getFixedDepositStatusLabel,
+  maturityAmount,
+  prematurePayout,
+  rateForTenure,
+} from '@/lib/fixed-deposits';
+import { DEFAULT_CURRENCY, currencySymbol, formatMoney } from '@/lib/money';
+import { addDays, format, parseISO } from 'date-fns';
+import { Landmark, Plus } from 'lucide-react';
+
+interface Profile {
+  name: string;
+}
+
+interface FixedDepositSettings {
+  min_principal: number;
+  premature_penalty_rate: number;
+}
+
+const FixedDeposits = () => {
+  const { user, loading } = useAuth();
+  const { accounts, selectedAccount, refreshAccounts } = useAccounts();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [deposits, setDeposits] = useState<FixedDeposit[]>([]);
+  const [rates, setRates] = useState<FixedDepositRate[]>([]);
+  const [settings, setSettings] = useState<FixedDepositSettings | null>(null);
+  const [depositsLoading, setDepositsLoading] = useState(true);
+  const [isOpenDialogOpen, setIsOpenDialogOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [openForm, setOpenForm] = useState({
+    account_id: '',
+    amount: '',
+    tenure_days: '365',
+  });
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const openKey = useIdempotencyKey();
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  // Fetch data
+  useEffect(() => {
+    if (user) {
+      fetchProfile();
+      fetchDeposits();
+    }
+  }, [user]);
+
+  const fetchProfile = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('name')
+        .eq('user_id', user?.id)
+        .single();
+
+      if (!error && data) {
+        setProfile(data);
+      }
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+    }
+  };
+
+  const fetchDeposits = async () => {
+    try {
+      const [depositsResult, ratesResult, settingsResult] = await Promise.all([
+        supabase
+          .from('fixed_deposits')
+          .select('*')
+          .eq('user_id', user?.id)
+          .order('created_at', { ascending: false }),
+        supabase.from('fixed_deposit_rates').select('*').order('min_days'),
+        supabase.from('fixed_deposit_settings').select('min_principal, premature_penalty_rate').maybeSingle(),
+      ]);
+
+      if (depositsResult.error) {
+        console.error('Error fetching fixed deposits:', depositsResult.error);
+        toast({
+          title: 'Error',
+          description: 'Failed to load fixed deposits',
+          variant: 'destructive',
+        });
+      } else {
+        setDeposits(depositsResult.data || []);
+      }
+
+      setRates(ratesResult.data || []);
+      setSettings(settingsResult.data);
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setDepositsLoading(false);
+    }
+  };
+
+  // Deposits are priced in rupees, so only rupee accounts can fund them
+  const fundingAccounts = accounts.filter(
+    (account) => account.status === 'active' && account.currency === DEFAULT_CURRENCY
+  );
+  const fundingAccountId = openForm.account_id || selectedAccount?.id || '';
+  const fundingAccount = fundingAccounts.find((account) => account.id === fundingAccountId) ?? null;
+  const accountLabels = Object.fromEntries(accounts.map((account) => [account.id, getAccountLabel(account)]));
+
+  const amount = parseFloat(openForm.amount);
+  const tenureDays = parseInt(openForm.tenure_days, 10);
+  const rate = rateForTenure(rates, tenureDays);
+  const preview = amount > 0 && rate !== null
+    ? { rate, maturityAmount: maturityAmount(amount, rate, tenureDays), maturityDate: addDays(new Date(), tenureDays) }
+    : null;
+
+  const handleOpenSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!fundingAccount) return;
+
+    if (settings && !(amount >= settings.min_principal)) {
+      toast({
+        title: 'Invalid Amount',
+        description: `Fixed deposits start at ${formatMoney(settings.min_principal)}.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (amount > fundingAccount.available_balance) {
+      toast({
+        title: 'Insufficient Funds',
+        description: 'The selected account does not have enough available balance for this deposit.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    const { error } = await supabase.rpc('open_fixed_deposit', {
+      p_account_id: fundingAccount.id,
+      p_amount: amount,
+      p_tenure_days: tenureDays,
+      p_idempotency_key: openKey.keyFor(`${fundingAccount.id}|${amount}|${tenureDays}`),
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Fixed Deposit Opened',
+        description: `${formatMoney(amount)} has been moved from ${getAccountLabel(fundingAccount)}.`,
+      });
+      openKey.complete();
+      setIsOpenDialogOpen(false);
+      setOpenForm({ ...openForm, amount: '' });
+      fetchDeposits();
+      refreshAccounts();
+    }
+
+    setIsSaving(false);
+  };
+
+  const handleClose = async (deposit: FixedDeposit) => {
+    const { data, error } = await supabase.rpc('close_fixed_deposit', {
+      p_fixed_deposit_id: deposit.id,
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Fixed Deposit Closed',
+        description: `${formatMoney(data.principal + (data.interest_paid ?? 0))} has been paid to ${accountLabels[data.account_id] ?? 'your account'}.`,
+      });
+      fetchDeposits();
+      refreshAccounts();
+    }
+  };
+
+  const getStatusVariant = (status: string) => {
+    switch (status) {
+      case 'active':
+        return 'default';
+      case 'closed_early':
+        return 'outline';
+      default:
+        return 'secondary';
+    }
+  };
+
+  if (loading || depositsLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation userName={profile?.name} />
+        <LoadingState>
+          <p className="text-muted-foreground">Loading your fixed deposits...</p>
+        </LoadingState>
+      </div>
+    );
+  }
+
+  const activeDeposits = deposits.filter((deposit) => deposit.status === 'active');
+  const totalPrincipal = activeDeposits.reduce((sum, deposit) => sum + deposit.principal, 0);
+  const totalAtMaturity = activeDeposits.reduce((sum, deposit) => sum + deposit.maturity_amount, 0);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation userName={profile?.name} />
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-3">
+            <Landmark className="h-8 w-8 text-primary" />
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Fixed Deposits</h1>
+              <p className="text-muted-foreground">Lock in a rate for a fixed term</p>
+            </div>
+          </div>
+
+          <Dialog open={isOpenDialogOpen} onOpenChange={setIsOpenDialogOpen}>
+            <DialogTrigger asChild>
+              <Button disabled={fundingAccounts.length === 0}>
+                <Plus className="h-4 w-4 mr-2" />
+                Open Deposit
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Open a Fixed Deposit</DialogTitle>
+                <DialogDescription>
+                  The amount is moved from the account you choose, and the deposit is paid back into it at maturity.
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleOpenSubmit} className="space-y-4">
+                <div>
+                  <Label htmlFor="depositAccount">From Account</Label>
+                  <Select
+                    value={fundingAccountId}
+                    onValueChange={(value) => setOpenForm({ ...openForm, account_id: value })}
+                  >
+                    <SelectTrigger id="depositAccount">
+                      <SelectValue placeholder="Select an account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {fundingAccounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {getAccountLabel(account)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {fundingAccount && (
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Available balance: {formatMoney(fundingAccount.available_balance)}
+                    </p>
+                  )}
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div>
+                    <Label htmlFor="depositAmount">Amount ({currencySymbol()})</Label>
+                    <Input
+                      id="depositAmount"
+                      type="number"
+                      min={settings?.min_principal ?? 1}
+                      step="0.01"
+                      required
+                      value={openForm.amount}
+                      onChange={(e) => setOpenForm({ ...openForm, amount: e.target.value })}
+                      placeholder="Enter amount"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="depositTenure">Tenure</Label>
+                    <Select
+                      value={openForm.tenure_days}
+                      onValueChange={(value) => setOpenForm({ ...openForm, tenure_days: value })}
+                    >
+                      <SelectTrigger id="depositTenure">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TENURE_OPTIONS.map((option) => (
+                          <SelectItem key={option.days} value={String(option.days)}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {preview && (
+                  <div className="p-3 border rounded-lg bg-muted/50 space-y-1 text-sm">
+                    <p>
+                      <span className="text-muted-foreground">Interest rate: </span>
+                      {formatRate(preview.rate)} a year
+                    </p>
+                    <p>
+                      <span className="text-muted-foreground">Maturity value: </span>
+                      <span className="font-medium">{formatMoney(preview.maturityAmount)}</span>
+                    </p>
+                    <p>
+                      <span className="text-muted-foreground">Matures on: </span>
+                      {format(preview.maturityDate, 'MMM dd, yyyy')}
+                    </p>
+                  </div>
+                )}
+
+                <DialogFooter>
+                  <Button type="submit" disabled={isSaving || !fundingAccount || !preview}>
+                    {isSaving ? 'Opening...' : 'Open Deposit'}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {/* Summary Cards */}
+        <div className="grid gap-6 md:grid-cols-3 mb-8">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Active Deposits</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{activeDeposits.length}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Total Invested</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatMoney(totalPrincipal)}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Value at Maturity</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-green-600">{formatMoney(totalAtMaturity)}</div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          {/* Deposits */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Your Deposits</CardTitle>
+              <CardDescription>Matured deposits are paid into their linked account automatically</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {deposits.length === 0 ? (
+                <div className="text-center py-8">
+                  <Landmark className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground">No fixed deposits yet</p>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Open a deposit to start earning a fixed rate
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {deposits.map((deposit) => (
+                    <div key={deposit.id} className="p-4 border rounded-lg space-y-2">
+                      <div className="flex items-start justify-between gap-4">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium font-mono">{deposit.deposit_number}</p>
+                            <Badge variant={getStatusVariant(deposit.status)}>
+                              {getFixedDepositStatusLabel(deposit.status)}
+                            </Badge>
+                          </div>
+                          <p className="text-sm text-muted-foreground">
+                            {formatRate(deposit.annual_rate)} for {deposit.tenure_days} days
+                            {accountLabels[deposit.account_id] && ` • linked to ${accountLabels[deposit.account_id]}`}
+                          </p>
+                        </div>
+                        <p className="text-lg font-bold">{formatMoney(deposit.principal)}</p>
+                      </div>
+
+                      {deposit.status === 'active' ? (
+                        <div className="flex items-center justify-between gap-4">
+                          <p className="text-sm">
+                            <span className="text-muted-foreground">Matures </span>
+                            {format(parseISO(deposit.maturity_date), 'MMM dd, yyyy')}
+                            <span className="text-muted-foreground"> at </span>
+                            {formatMoney(deposit.maturity_amount)}
+                          </p>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button size="sm" variant="outline">
+                                Close Early
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Close {deposit.deposit_number} early?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Closing before maturity earns a reduced rate. You will receive about{' '}
+                                  {formatMoney(prematurePayout(deposit, rates, settings?.premature_penalty_rate ?? 0))}{' '}
+                                  instead of {formatMoney(deposit.maturity_amount)} at maturity.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Keep Deposit</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleClose(deposit)}>
+                                  Close Deposit
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      ) : (
+                        <p className="text-sm">
+                          <span className="text-muted-foreground">Paid out </span>
+                          {formatMoney(deposit.principal + (deposit.interest_paid ?? 0))}
+                          {deposit.closed_on && (
+                            <span className="text-muted-foreground">
+                              {' '}on {format(parseISO(deposit.closed_on), 'MMM dd, yyyy')}
+                            </span>
+                          )}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Rates */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Interest Rates</CardTitle>
+              <CardDescription>Annual rates by tenure</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {rates.map((slab) => (
+                <div key={slab.id} className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {slab.min_days} – {slab.max_days} days
+                  </span>
+                  <span className="font-medium">{formatRate(slab.annual_rate)}</span>
+                </div>
+              ))}
+              {settings && (
+                <p className="text-xs text-muted-foreground pt-2 border-t">
+                  Minimum deposit {formatMoney(settings.min_principal)}. Closing early earns the rate for the
+                  time held, less {formatRate(settings.premature_penalty_rate)}.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FixedDeposits;
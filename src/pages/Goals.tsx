@@ -0,0 +1,628 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useAccounts } from '@/components/accounts/AccountProvider';
+import { useToast } from '@/hooks/use-toast';
+import { Navigation } from '@/components/layout/Navigation';
+import { LoadingState } from '@/components/ui/loading-spinner';
+import { getAccountLabel } from '@/lib/accounts';
+import { currencySymbol, formatMoney } from '@/lib/money';
+import { SavingsGoal, SavingsGoalMovement, goalProgress, projectedCompletionDate } from '@/lib/goals';
+import { addDays, format, parseISO } from 'date-fns';
+import { Plus, Repeat, Target } from 'lucide-react';
+
+interface Profile {
+  name: string;
+}
+
+type MoveDirection = 'in' | 'out';
+
+const Goals = () => {
+  const { user, loading } = useAuth();
+  const { accounts, selectedAccount, refreshAccounts } = useAccounts();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [goals, setGoals] = useState<SavingsGoal[]>([]);
+  const [movements, setMovements] = useState<SavingsGoalMovement[]>([]);
+  const [goalsLoading, setGoalsLoading] = useState(true);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [createForm, setCreateForm] = useState({
+    account_id: '',
+    name: '',
+    target_amount: '',
+    target_date: '',
+    weekly_amount: '',
+  });
+  const [moveTarget, setMoveTarget] = useState<{ goal: SavingsGoal; direction: MoveDirection } | null>(null);
+  const [moveAmount, setMoveAmount] = useState('');
+  const [weeklyGoal, setWeeklyGoal] = useState<SavingsGoal | null>(null);
+  const [weeklyAmount, setWeeklyAmount] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  // Fetch data
+  useEffect(() => {
+    if (user) {
+      fetchProfile();
+      fetchGoals();
+    }
+  }, [user]);
+
+  const fetchProfile = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('name')
+        .eq('user_id', user?.id)
+        .single();
+
+      if (!error && data) {
+        setProfile(data);
+      }
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+    }
+  };
+
+  const fetchGoals = async () => {
+    try {
+      const [goalsResult, movementsResult] = await Promise.all([
+        supabase
+          .from('savings_goals')
+          .select('*')
+          .eq('user_id', user?.id)
+          .eq('status', 'active')
+          .order('target_date'),
+        supabase
+          .from('savings_goal_movements')
+          .select('*')
+          .eq('user_id', user?.id)
+          .order('created_at', { ascending: false }),
+      ]);
+
+      if (goalsResult.error) throw goalsResult.error;
+      if (movementsResult.error) throw movementsResult.error;
+
+      setGoals(goalsResult.data || []);
+      setMovements(movementsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching savings goals:', error);
+    } finally {
+      setGoalsLoading(false);
+    }
+  };
+
+  const showError = (message: string) => {
+    toast({
+      title: 'Error',
+      description: message,
+      variant: 'destructive',
+    });
+  };
+
+  const activeAccounts = accounts.filter((account) => account.status === 'active');
+  const createAccountId = createForm.account_id || selectedAccount?.id || '';
+  const createAccount = activeAccounts.find((account) => account.id === createAccountId) ?? null;
+  const goalAccount = (goal: SavingsGoal) => accounts.find((account) => account.id === goal.account_id);
+  const goalCurrency = (goal: SavingsGoal) => goalAccount(goal)?.currency;
+
+  const handleCreateSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!createAccount) return;
+
+    const targetAmount = parseFloat(createForm.target_amount);
+    const weekly = createForm.weekly_amount ? parseFloat(createForm.weekly_amount) : undefined;
+
+    if (!(targetAmount > 0) || (weekly !== undefined && !(weekly > 0))) {
+      toast({
+        title: 'Invalid Amount',
+        description: 'Please enter amounts greater than 0.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    const { data, error } = await supabase.rpc('create_savings_goal', {
+      p_account_id: createAccount.id,
+      p_name: createForm.name,
+      p_target_amount: targetAmount,
+      p_target_date: createForm.target_date,
+      p_weekly_amount: weekly,
+    });
+
+    if (error) {
+      showError(error.message);
+    } else {
+      toast({
+        title: 'Goal Created',
+        description: `Move money into ${data.name} to start saving.`,
+      });
+      setIsCreateOpen(false);
+      setCreateForm({ ...createForm, name: '', target_amount: '', target_date: '', weekly_amount: '' });
+      fetchGoals();
+    }
+
+    setIsSaving(false);
+  };
+
+  const openMoveDialog = (goal: SavingsGoal, direction: MoveDirection) => {
+    setMoveAmount('');
+    setMoveTarget({ goal, direction });
+  };
+
+  const handleMoveSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!moveTarget) return;
+
+    const { goal, direction } = moveTarget;
+    const amount = parseFloat(moveAmount);
+    if (!(amount > 0)) {
+      toast({
+        title: 'Invalid Amount',
+        description: 'Please enter a valid amount greater than 0.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    const { error } = await supabase.rpc('transfer_savings_goal', {
+      p_goal_id: goal.id,
+      p_amount: direction === 'in' ? amount : -amount,
+    });
+
+    if (error) {
+      showError(error.message);
+    } else {
+      toast({
+        title: direction === 'in' ? 'Money Set Aside' : 'Money Released',
+        description:
+          direction === 'in'
+            ? `${formatMoney(amount, goalCurrency(goal))} moved into ${goal.name}.`
+            : `${formatMoney(amount, goalCurrency(goal))} moved back to your free balance.`,
+      });
+      setMoveTarget(null);
+      refreshAccounts();
+      fetchGoals();
+    }
+
+    setIsSaving(false);
+  };
+
+  const openWeeklyDialog = (goal: SavingsGoal) => {
+    setWeeklyAmount(goal.weekly_amount ? goal.weekly_amount.toFixed(2) : '');
+    setWeeklyGoal(goal);
+  };
+
+  const saveWeeklyAmount = async (amount: number | undefined) => {
+    if (!weeklyGoal) return;
+    setIsSaving(true);
+
+    const { error } = await supabase.rpc('set_savings_goal_weekly_amount', {
+      p_goal_id: weeklyGoal.id,
+      p_weekly_amount: amount,
+    });
+
+    if (error) {
+      showError(error.message);
+    } else {
+      toast({
+        title: amount ? 'Weekly Saving On' : 'Weekly Saving Off',
+        description: amount
+          ? `${formatMoney(amount, goalCurrency(weeklyGoal))} moves into ${weeklyGoal.name} every week.`
+          : `${weeklyGoal.name} no longer tops itself up.`,
+      });
+      setWeeklyGoal(null);
+      fetchGoals();
+    }
+
+    setIsSaving(false);
+  };
+
+  const handleWeeklySubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const amount = parseFloat(weeklyAmount);
+
+    if (!(amount > 0)) {
+      toast({
+        title: 'Invalid Amount',
+        description: 'Please enter a valid amount greater than 0.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    saveWeeklyAmount(amount);
+  };
+
+  const handleClose = async (goal: SavingsGoal) => {
+    const { error } = await supabase.rpc('close_savings_goal', { p_goal_id: goal.id });
+
+    if (error) {
+      showError(error.message);
+    } else {
+      toast({
+        title: 'Goal Closed',
+        description: `${formatMoney(goal.saved_amount, goalCurrency(goal))} moved back to your free balance.`,
+      });
+      refreshAccounts();
+      fetchGoals();
+    }
+  };
+
+  if (loading || goalsLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation userName={profile?.name} />
+        <LoadingState>
+          <p className="text-muted-foreground">Loading your goals...</p>
+        </LoadingState>
+      </div>
+    );
+  }
+
+  const today = new Date();
+  const moveGoalAccount = moveTarget ? goalAccount(moveTarget.goal) : undefined;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation userName={profile?.name} />
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-3">
+            <Target className="h-8 w-8 text-primary" />
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Savings Goals</h1>
+              <p className="text-muted-foreground">Set money aside for the things you are saving towards</p>
+            </div>
+          </div>
+
+          <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+            <DialogTrigger asChild>
+              <Button disabled={activeAccounts.length === 0}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Goal
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Create a Savings Goal</DialogTitle>
+                <DialogDescription>
+                  Money in a goal stays in your account but is kept out of your free balance, so it cannot be
+                  spent by accident.
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleCreateSubmit} className="space-y-4">
+                <div>
+                  <Label htmlFor="goalName">Name</Label>
+                  <Input
+                    id="goalName"
+                    required
+                    maxLength={60}
+                    value={createForm.name}
+                    onChange={(e) => setCreateForm({ ...createForm, name: e.target.value })}
+                    placeholder="e.g. New laptop"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="goalAccount">Account</Label>
+                  <Select
+                    value={createAccountId}
+                    onValueChange={(value) => setCreateForm({ ...createForm, account_id: value })}
+                  >
+                    <SelectTrigger id="goalAccount">
+                      <SelectValue placeholder="Select an account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {activeAccounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {getAccountLabel(account)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div>
+                    <Label htmlFor="goalTarget">Target ({currencySymbol(createAccount?.currency)})</Label>
+                    <Input
+                      id="goalTarget"
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      required
+                      value={createForm.target_amount}
+                      onChange={(e) => setCreateForm({ ...createForm, target_amount: e.target.value })}
+                      placeholder="Enter amount"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="goalDate">Target date</Label>
+                    <Input
+                      id="goalDate"
+                      type="date"
+                      required
+                      min={format(addDays(today, 1), 'yyyy-MM-dd')}
+                      value={createForm.target_date}
+                      onChange={(e) => setCreateForm({ ...createForm, target_date: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="goalWeekly">
+                    Save automatically every week ({currencySymbol(createAccount?.currency)})
+                  </Label>
+                  <Input
+                    id="goalWeekly"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={createForm.weekly_amount}
+                    onChange={(e) => setCreateForm({ ...createForm, weekly_amount: e.target.value })}
+                    placeholder="Optional"
+                  />
+                </div>
+                <DialogFooter>
+                  <Button type="submit" disabled={isSaving || !createAccount}>
+                    {isSaving ? 'Creating...' : 'Create Goal'}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {goals.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <Target className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No savings goals yet</p>
+              <p className="text-sm text-muted-foreground mt-1">Create a goal to start setting money aside</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2">
+            {goals.map((goal) => {
+              const currency = goalCurrency(goal);
+              const account = goalAccount(goal);
+              const goalMovements = movements.filter((movement) => movement.goal_id === goal.id);
+              const projected = projectedCompletionDate(goal, goalMovements, today);
+              const targetDate = parseISO(goal.target_date);
+              const reached = goal.saved_amount >= goal.target_amount;
+
+              return (
+                <Card key={goal.id}>
+                  <CardHeader>
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="space-y-1.5">
+                        <CardTitle>{goal.name}</CardTitle>
+                        <CardDescription>
+                          {account ? getAccountLabel(account) : 'Account'} • by {format(targetDate, 'MMM dd, yyyy')}
+                        </CardDescription>
+                      </div>
+                      {reached ? (
+                        <Badge>Reached</Badge>
+                      ) : (
+                        goal.weekly_amount && (
+                          <Badge variant="outline">
+                            <Repeat className="h-3 w-3 mr-1" />
+                            {formatMoney(goal.weekly_amount, currency)}/week
+                          </Badge>
+                        )
+                      )}
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                      <Progress value={goalProgress(goal)} />
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="font-medium">
+                          {formatMoney(goal.saved_amount, currency)} of {formatMoney(goal.target_amount, currency)}
+                        </span>
+                        <span className="text-muted-foreground">{Math.floor(goalProgress(goal))}%</span>
+                      </div>
+                    </div>
+
+                    {!reached && (
+                      <p className="text-sm text-muted-foreground">
+                        {projected === null
+                          ? 'Add money to see when you will reach this goal.'
+                          : projected <= targetDate
+                            ? `On track to reach it by ${format(projected, 'MMM dd, yyyy')}.`
+                            : `At this pace you will reach it by ${format(projected, 'MMM dd, yyyy')}, after the target date.`}
+                      </p>
+                    )}
+                    {goal.weekly_amount && goal.next_contribution_on && !reached && (
+                      <p className="text-xs text-muted-foreground">
+                        Next weekly saving on {format(parseISO(goal.next_contribution_on), 'MMM dd, yyyy')}
+                      </p>
+                    )}
+                    {goal.last_contribution_error && (
+                      <p className="text-xs text-destructive">
+                        Last weekly saving was skipped: {goal.last_contribution_error}
+                      </p>
+                    )}
+
+                    <div className="flex flex-wrap gap-2">
+                      <Button size="sm" onClick={() => openMoveDialog(goal, 'in')}>
+                        Add Money
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={goal.saved_amount <= 0}
+                        onClick={() => openMoveDialog(goal, 'out')}
+                      >
+                        Withdraw
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => openWeeklyDialog(goal)}>
+                        Weekly Saving
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button size="sm" variant="ghost">
+                            Close Goal
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Close {goal.name}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              The {formatMoney(goal.saved_amount, currency)} set aside moves back to your free
+                              balance and weekly saving stops.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleClose(goal)}>Close Goal</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+
+                    {goalMovements.length > 0 && (
+                      <div className="space-y-1 border-t pt-3">
+                        {goalMovements.slice(0, 3).map((movement) => (
+                          <div key={movement.id} className="flex items-center justify-between text-xs">
+                            <span className="text-muted-foreground">
+                              {format(parseISO(movement.created_at), 'MMM dd, yyyy')}
+                              {movement.source === 'weekly' && ' • weekly saving'}
+                            </span>
+                            <span className={movement.amount > 0 ? 'text-green-600' : 'text-red-600'}>
+                              {movement.amount > 0 ? '+' : '−'}
+                              {formatMoney(Math.abs(movement.amount), currency)}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Move money */}
+      <Dialog open={!!moveTarget} onOpenChange={(open) => !open && setMoveTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{moveTarget?.direction === 'in' ? 'Add Money' : 'Withdraw Money'}</DialogTitle>
+            <DialogDescription>
+              {moveTarget?.direction === 'in'
+                ? `Set money aside from your free balance of ${formatMoney(
+                    moveGoalAccount?.available_balance ?? 0,
+                    moveGoalAccount?.currency
+                  )}.`
+                : `Move money from ${moveTarget?.goal.name} back to your free balance.`}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleMoveSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="moveAmount">Amount ({currencySymbol(moveGoalAccount?.currency)})</Label>
+              <Input
+                id="moveAmount"
+                type="number"
+                min="0.01"
+                max={moveTarget?.direction === 'out' ? moveTarget.goal.saved_amount : undefined}
+                step="0.01"
+                required
+                value={moveAmount}
+                onChange={(e) => setMoveAmount(e.target.value)}
+                placeholder="Enter amount"
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? 'Moving...' : moveTarget?.direction === 'in' ? 'Set Aside' : 'Withdraw'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Weekly saving */}
+      <Dialog open={!!weeklyGoal} onOpenChange={(open) => !open && setWeeklyGoal(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Weekly Saving</DialogTitle>
+            <DialogDescription>
+              Move a fixed amount into {weeklyGoal?.name} every week, starting a week from today. A week your free
+              balance cannot cover is skipped.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleWeeklySubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="weeklyAmount">
+                Amount each week ({currencySymbol(weeklyGoal ? goalCurrency(weeklyGoal) : undefined)})
+              </Label>
+              <Input
+                id="weeklyAmount"
+                type="number"
+                min="0.01"
+                step="0.01"
+                required
+                value={weeklyAmount}
+                onChange={(e) => setWeeklyAmount(e.target.value)}
+                placeholder="Enter amount"
+              />
+            </div>
+            <DialogFooter className="gap-2">
+              {weeklyGoal?.weekly_amount && (
+                <Button type="button" variant="outline" disabled={isSaving} onClick={() => saveWeeklyAmount(undefined)}>
+                  Turn Off
+                </Button>
+              )}
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Goals;
@@ -0,0 +1,430 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useAccounts } from '@/components/accounts/AccountProvider';
+import { useToast } from '@/hooks/use-toast';
+import { useIdempotencyKey } from '@/hooks/use-idempotency-key';
+import { Navigation } from '@/components/layout/Navigation';
+import { LoadingState } from '@/components/ui/loading-spinner';
+import { getAccountLabel } from '@/lib/accounts';
+import { formatRate } from '@/lib/fixed-deposits';
+import { currencySymbol, formatMoney } from '@/lib/money';
+import { Loan, LoanInstalment, LoanPrepayment, getEmiStatusLabel, getLoanStatusLabel } from '@/lib/loans';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { Banknote, ChevronLeft } from 'lucide-react';
+
+interface Profile {
+  name: string;
+}
+
+const LoanDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, loading } = useAuth();
+  const { accounts, refreshAccounts } = useAccounts();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loan, setLoan] = useState<Loan | null>(null);
+  const [instalments, setInstalments] = useState<LoanInstalment[]>([]);
+  const [prepayments, setPrepayments] = useState<LoanPrepayment[]>([]);
+  const [loanLoading, setLoanLoading] = useState(true);
+  const [isPrepayDialogOpen, setIsPrepayDialogOpen] = useState(false);
+  const [prepayAmount, setPrepayAmount] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const prepayKey = useIdempotencyKey();
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  // Fetch data
+  useEffect(() => {
+    if (user && id) {
+      fetchProfile();
+      fetchLoan();
+    }
+  }, [user, id]);
+
+  const fetchProfile = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('name')
+        .eq('user_id', user?.id)
+        .single();
+
+      if (!error && data) {
+        setProfile(data);
+      }
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+    }
+  };
+
+  const fetchLoan = async () => {
+    try {
+      const [loanResult, instalmentsResult, prepaymentsResult] = await Promise.all([
+        supabase.from('loans').select('*').eq('id', id).maybeSingle(),
+        supabase.from('loan_instalments').select('*').eq('loan_id', id).order('instalment_number'),
+        supabase.from('loan_prepayments').select('*').eq('loan_id', id).order('created_at'),
+      ]);
+
+      if (loanResult.error || instalmentsResult.error) {
+        console.error('Error fetching loan:', loanResult.error ?? instalmentsResult.error);
+        toast({
+          title: 'Error',
+          description: 'Failed to load loan',
+          variant: 'destructive',
+        });
+      } else {
+        setLoan(loanResult.data);
+        setInstalments(instalmentsResult.data || []);
+      }
+
+      setPrepayments(prepaymentsResult.data || []);
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setLoanLoading(false);
+    }
+  };
+
+  const getEmiStatusVariant = (status: string) => {
+    switch (status) {
+      case 'paid':
+        return 'default';
+      case 'overdue':
+        return 'destructive';
+      default:
+        return 'outline';
+    }
+  };
+
+  if (loading || loanLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation userName={profile?.name} />
+        <LoadingState>
+          <p className="text-muted-foreground">Loading loan...</p>
+        </LoadingState>
+      </div>
+    );
+  }
+
+  if (!loan) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation userName={profile?.name} />
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 text-center">
+          <Banknote className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground mb-4">Loan not found</p>
+          <Button asChild variant="outline">
+            <Link to="/loans">Back to Loans</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const account = accounts.find((candidate) => candidate.id === loan.account_id);
+  const paidInstalments = instalments.filter((instalment) => instalment.status === 'paid');
+  const overdueInstalments = instalments.filter((instalment) => instalment.status === 'overdue');
+  const nextInstalment = instalments.find((instalment) => instalment.status !== 'paid');
+  const interestPaid = paidInstalments.reduce((sum, instalment) => sum + instalment.interest, 0);
+  const interestRemaining = instalments
+    .filter((instalment) => instalment.status !== 'paid')
+    .reduce((sum, instalment) => sum + instalment.interest, 0);
+  const today = new Date();
+
+  const handlePrepaySubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const amount = parseFloat(prepayAmount);
+
+    if (!(amount > 0) || amount > loan.outstanding_principal) {
+      toast({
+        title: 'Invalid Amount',
+        description: `Enter an amount up to the outstanding ${formatMoney(loan.outstanding_principal)}.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (account && amount > account.available_balance) {
+      toast({
+        title: 'Insufficient Funds',
+        description: 'The loan account does not have enough available balance for this prepayment.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    const { data, error } = await supabase.rpc('prepay_loan', {
+      p_loan_id: loan.id,
+      p_amount: amount,
+      p_idempotency_key: prepayKey.keyFor(`${loan.id}|${amount}`),
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: data.status === 'closed' ? 'Loan Closed' : 'Prepayment Received',
+        description:
+          data.status === 'closed'
+            ? `${loan.loan_number} has been repaid in full.`
+            : `${formatMoney(amount)} has been paid off the principal; your EMI stays the same and the loan ends sooner.`,
+      });
+      prepayKey.complete();
+      setIsPrepayDialogOpen(false);
+      setPrepayAmount('');
+      fetchLoan();
+      refreshAccounts();
+    }
+
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation userName={profile?.name} />
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <Link to="/loans" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-4">
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Loans
+          </Link>
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <Banknote className="h-8 w-8 text-primary" />
+              <div>
+                <div className="flex items-center gap-2">
+                  <h1 className="text-3xl font-bold text-foreground font-mono">{loan.loan_number}</h1>
+                  <Badge variant={loan.status === 'active' ? 'default' : 'secondary'}>
+                    {getLoanStatusLabel(loan.status)}
+                  </Badge>
+                </div>
+                <p className="text-muted-foreground">
+                  {formatMoney(loan.principal)} at {formatRate(loan.annual_rate)} for {loan.months} months
+                  {account && ` • repaid from ${getAccountLabel(account)}`}
+                </p>
+              </div>
+            </div>
+
+            {loan.status === 'active' && (
+              <Dialog open={isPrepayDialogOpen} onOpenChange={setIsPrepayDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button variant="outline" disabled={overdueInstalments.length > 0}>
+                    Prepay
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Prepay {loan.loan_number}</DialogTitle>
+                    <DialogDescription>
+                      A prepayment comes off the principal straight away. Your EMI stays the same and the
+                      remaining schedule is shortened; prepaying everything outstanding closes the loan.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <form onSubmit={handlePrepaySubmit} className="space-y-4">
+                    <div>
+                      <Label htmlFor="prepayAmount">Amount ({currencySymbol()})</Label>
+                      <Input
+                        id="prepayAmount"
+                        type="number"
+                        min="0.01"
+                        max={loan.outstanding_principal}
+                        step="0.01"
+                        required
+                        value={prepayAmount}
+                        onChange={(e) => setPrepayAmount(e.target.value)}
+                        placeholder="Enter amount"
+                      />
+                      <div className="flex items-center justify-between mt-1">
+                        <p className="text-sm text-muted-foreground">
+                          Outstanding: {formatMoney(loan.outstanding_principal)}
+                        </p>
+                        <Button
+                          type="button"
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0"
+                          onClick={() => setPrepayAmount(String(loan.outstanding_principal))}
+                        >
+                          Pay in full
+                        </Button>
+                      </div>
+                      {account && (
+                        <p className="text-sm text-muted-foreground">
+                          Available balance: {formatMoney(account.available_balance)}
+                        </p>
+                      )}
+                    </div>
+                    <DialogFooter>
+                      <Button type="submit" disabled={isSaving}>
+                        {isSaving ? 'Paying...' : 'Prepay'}
+                      </Button>
+                    </DialogFooter>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            )}
+          </div>
+          {overdueInstalments.length > 0 && (
+            <p className="text-sm text-destructive mt-4">
+              {overdueInstalments.length} overdue {overdueInstalments.length === 1 ? 'EMI' : 'EMIs'} will be
+              retried daily; add funds to {account ? getAccountLabel(account) : 'the loan account'} to clear them.
+              Prepayment is available once they are paid.
+            </p>
+          )}
+        </div>
+
+        {/* Summary Cards */}
+        <div className="grid gap-6 md:grid-cols-3 mb-8">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Outstanding Principal</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatMoney(loan.outstanding_principal)}</div>
+              <p className="text-xs text-muted-foreground">
+                {formatMoney(loan.principal - loan.outstanding_principal)} repaid
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Monthly EMI</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatMoney(loan.emi)}</div>
+              <p className="text-xs text-muted-foreground">
+                {nextInstalment
+                  ? `next due ${format(parseISO(nextInstalment.due_date), 'MMM dd, yyyy')}`
+                  : loan.closed_on && `closed on ${format(parseISO(loan.closed_on), 'MMM dd, yyyy')}`}
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Interest Paid</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatMoney(interestPaid)}</div>
+              {loan.status === 'active' && (
+                <p className="text-xs text-muted-foreground">{formatMoney(interestRemaining)} still to pay</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Schedule */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Repayment Schedule</CardTitle>
+            <CardDescription>
+              {paidInstalments.length} of {instalments.length} EMIs paid. Each EMI covers the month's interest on
+              the outstanding principal; the rest repays principal.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              <div className="hidden sm:grid grid-cols-6 gap-4 px-3 text-xs font-medium text-muted-foreground">
+                <span className="col-span-2">EMI</span>
+                <span className="text-right">Principal</span>
+                <span className="text-right">Interest</span>
+                <span className="text-right">Amount</span>
+                <span className="text-right">Balance After</span>
+              </div>
+              {instalments.map((instalment) => (
+                <div
+                  key={instalment.id}
+                  className="grid grid-cols-2 sm:grid-cols-6 items-center gap-4 p-3 border rounded-lg"
+                >
+                  <div className="col-span-2">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium">EMI {instalment.instalment_number}</p>
+                      <Badge variant={getEmiStatusVariant(instalment.status)}>
+                        {getEmiStatusLabel(instalment.status)}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Due {format(parseISO(instalment.due_date), 'MMM dd, yyyy')}
+                      {instalment.paid_on && ` • paid ${format(parseISO(instalment.paid_on), 'MMM dd, yyyy')}`}
+                      {instalment.status === 'overdue' &&
+                        ` • ${differenceInCalendarDays(today, parseISO(instalment.due_date))} days overdue`}
+                    </p>
+                    {instalment.status === 'overdue' && instalment.last_error && (
+                      <p className="text-sm text-destructive">{instalment.last_error}</p>
+                    )}
+                  </div>
+                  <p className="text-sm sm:text-right">
+                    <span className="sm:hidden text-muted-foreground">Principal: </span>
+                    {formatMoney(instalment.principal)}
+                  </p>
+                  <p className="text-sm sm:text-right">
+                    <span className="sm:hidden text-muted-foreground">Interest: </span>
+                    {formatMoney(instalment.interest)}
+                  </p>
+                  <p className="font-medium sm:text-right">{formatMoney(instalment.amount)}</p>
+                  <p className="text-sm text-muted-foreground sm:text-right">
+                    {formatMoney(instalment.closing_principal)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Prepayments */}
+        {prepayments.length > 0 && (
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Prepayments</CardTitle>
+              <CardDescription>Paid off the principal outside the schedule</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {prepayments.map((prepayment) => (
+                  <div key={prepayment.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+                    <p className="text-sm text-muted-foreground">
+                      {format(parseISO(prepayment.created_at), 'MMM dd, yyyy hh:mm a')}
+                    </p>
+                    <p className="font-medium">{formatMoney(prepayment.amount)}</p>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LoanDetail;
@@ -0,0 +1,475 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useAccounts } from '@/components/accounts/AccountProvider';
+import { useToast } from '@/hooks/use-toast';
+import { useIdempotencyKey } from '@/hooks/use-idempotency-key';
+import { Navigation } from '@/components/layout/Navigation';
+import { LoadingState } from '@/components/ui/loading-spinner';
+import { getAccountLabel } from '@/lib/accounts';
+import { formatRate } from '@/lib/fixed-deposits';
+import { DEFAULT_CURRENCY, currencySymbol, formatMoney } from '@/lib/money';
+import {
+  Loan,
+  LoanInstalment,
+  LoanSettings,
+  TENURE_MONTH_OPTIONS,
+  amortizationSchedule,
+  getLoanStatusLabel,
+} from '@/lib/loans';
+import { addMonths, format, parseISO } from 'date-fns';
+import { Banknote, ChevronRight, Plus } from 'lucide-react';
+
+interface Profile {
+  name: string;
+}
+
+type InstalmentSummary = Pick<LoanInstalment, 'loan_id' | 'status' | 'due_date' | 'amount'>;
+
+const Loans = () => {
+  const { user, loading } = useAuth();
+  const { accounts, selectedAccount, refreshAccounts } = useAccounts();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loans, setLoans] = useState<Loan[]>([]);
+  const [instalments, setInstalments] = useState<InstalmentSummary[]>([]);
+  const [settings, setSettings] = useState<LoanSettings | null>(null);
+  const [loansLoading, setLoansLoading] = useState(true);
+  const [isApplyDialogOpen, setIsApplyDialogOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [applyForm, setApplyForm] = useState({
+    account_id: '',
+    amount: '',
+    months: '12',
+  });
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const applyKey = useIdempotencyKey();
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  // Fetch data
+  useEffect(() => {
+    if (user) {
+      fetchProfile();
+      fetchLoans();
+    }
+  }, [user]);
+
+  const fetchProfile = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('name')
+        .eq('user_id', user?.id)
+        .single();
+
+      if (!error && data) {
+        setProfile(data);
+      }
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+    }
+  };
+
+  const fetchLoans = async () => {
+    try {
+      const [loansResult, instalmentsResult, settingsResult] = await Promise.all([
+        supabase
+          .from('loans')
+          .select('*')
+          .eq('user_id', user?.id)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('loan_instalments')
+          .select('loan_id, status, due_date, amount')
+          .eq('user_id', user?.id)
+          .neq('status', 'paid')
+          .order('due_date'),
+        supabase.from('loan_settings').select('*').maybeSingle(),
+      ]);
+
+      if (loansResult.error) {
+        console.error('Error fetching loans:', loansResult.error);
+        toast({
+          title: 'Error',
+          description: 'Failed to load loans',
+          variant: 'destructive',
+        });
+      } else {
+        setLoans(loansResult.data || []);
+      }
+
+      setInstalments(instalmentsResult.data || []);
+      setSettings(settingsResult.data);
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setLoansLoading(false);
+    }
+  };
+
+  // Loans are in rupees, so only rupee accounts can receive and repay them
+  const loanAccounts = accounts.filter(
+    (account) => account.status === 'active' && account.currency === DEFAULT_CURRENCY
+  );
+  const loanAccountId = applyForm.account_id || selectedAccount?.id || '';
+  const loanAccount = loanAccounts.find((account) => account.id === loanAccountId) ?? null;
+  const accountLabels = Object.fromEntries(accounts.map((account) => [account.id, getAccountLabel(account)]));
+  const tenureOptions = TENURE_MONTH_OPTIONS.filter(
+    (months) => !settings || (months >= settings.min_months && months <= settings.max_months)
+  );
+
+  const amount = parseFloat(applyForm.amount);
+  const months = parseInt(applyForm.months, 10);
+  const schedule = amount > 0 && settings ? amortizationSchedule(amount, settings.annual_rate, months) : null;
+  const preview = schedule
+    ? {
+        emi: schedule[0].amount,
+        totalInterest: schedule.reduce((sum, row) => sum + row.interest, 0),
+        firstDueDate: addMonths(new Date(), 1),
+      }
+    : null;
+
+  const handleApplySubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!loanAccount || !settings) return;
+
+    if (!(amount >= settings.min_amount && amount <= settings.max_amount)) {
+      toast({
+        title: 'Invalid Amount',
+        description: `Loans are available from ${formatMoney(settings.min_amount)} to ${formatMoney(settings.max_amount)}.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    const { data, error } = await supabase.rpc('apply_for_loan', {
+      p_account_id: loanAccount.id,
+      p_amount: amount,
+      p_months: months,
+      p_idempotency_key: applyKey.keyFor(`${loanAccount.id}|${amount}|${months}`),
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Loan Disbursed',
+        description: `${formatMoney(amount)} has been credited to ${getAccountLabel(loanAccount)}.`,
+      });
+      applyKey.complete();
+      setIsApplyDialogOpen(false);
+      setApplyForm({ ...applyForm, amount: '' });
+      refreshAccounts();
+      navigate(`/loans/${data.id}`);
+    }
+
+    setIsSaving(false);
+  };
+
+  if (loading || loansLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation userName={profile?.name} />
+        <LoadingState>
+          <p className="text-muted-foreground">Loading your loans...</p>
+        </LoadingState>
+      </div>
+    );
+  }
+
+  const activeLoans = loans.filter((loan) => loan.status === 'active');
+  const totalOutstanding = activeLoans.reduce((sum, loan) => sum + loan.outstanding_principal, 0);
+  const monthlyEmis = activeLoans.reduce((sum, loan) => sum + loan.emi, 0);
+  const overdue = instalments.filter((instalment) => instalment.status === 'overdue');
+  const nextInstalment = (loanId: string) => instalments.find((instalment) => instalment.loan_id === loanId);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation userName={profile?.name} />
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-3">
+            <Banknote className="h-8 w-8 text-primary" />
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Loans</h1>
+              <p className="text-muted-foreground">Borrow now and repay in monthly instalments</p>
+            </div>
+          </div>
+
+          <Dialog open={isApplyDialogOpen} onOpenChange={setIsApplyDialogOpen}>
+            <DialogTrigger asChild>
+              <Button disabled={loanAccounts.length === 0 || !settings}>
+                <Plus className="h-4 w-4 mr-2" />
+                Apply for Loan
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Apply for a Personal Loan</DialogTitle>
+                <DialogDescription>
+                  The loan is credited to your account straight away. EMIs are debited from the same account
+                  every month, starting a month from today.
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleApplySubmit} className="space-y-4">
+                <div>
+                  <Label htmlFor="loanAccount">Account</Label>
+                  <Select
+                    value={loanAccountId}
+                    onValueChange={(value) => setApplyForm({ ...applyForm, account_id: value })}
+                  >
+                    <SelectTrigger id="loanAccount">
+                      <SelectValue placeholder="Select an account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {loanAccounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {getAccountLabel(account)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div>
+                    <Label htmlFor="loanAmount">Amount ({currencySymbol()})</Label>
+                    <Input
+                      id="loanAmount"
+                      type="number"
+                      min={settings?.min_amount ?? 1}
+                      max={settings?.max_amount}
+                      step="0.01"
+                      required
+                      value={applyForm.amount}
+                      onChange={(e) => setApplyForm({ ...applyForm, amount: e.target.value })}
+                      placeholder="Enter amount"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="loanMonths">Tenure</Label>
+                    <Select
+                      value={applyForm.months}
+                      onValueChange={(value) => setApplyForm({ ...applyForm, months: value })}
+                    >
+                      <SelectTrigger id="loanMonths">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {tenureOptions.map((option) => (
+                          <SelectItem key={option} value={String(option)}>
+                            {option} months
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {preview && settings && (
+                  <div className="p-3 border rounded-lg bg-muted/50 space-y-1 text-sm">
+                    <p>
+                      <span className="text-muted-foreground">Interest rate: </span>
+                      {formatRate(settings.annual_rate)} a year
+                    </p>
+                    <p>
+                      <span className="text-muted-foreground">Monthly EMI: </span>
+                      <span className="font-medium">{formatMoney(preview.emi)}</span>
+                    </p>
+                    <p>
+                      <span className="text-muted-foreground">Total interest: </span>
+                      {formatMoney(preview.totalInterest)}
+                    </p>
+                    <p>
+                      <span className="text-muted-foreground">First EMI on: </span>
+                      {format(preview.firstDueDate, 'MMM dd, yyyy')}
+                    </p>
+                  </div>
+                )}
+
+                <DialogFooter>
+                  <Button type="submit" disabled={isSaving || !loanAccount || !preview}>
+                    {isSaving ? 'Applying...' : 'Apply'}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {/* Summary Cards */}
+        <div className="grid gap-6 md:grid-cols-3 mb-8">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Outstanding Principal</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatMoney(totalOutstanding)}</div>
+              <p className="text-xs text-muted-foreground">{activeLoans.length} active {activeLoans.length === 1 ? 'loan' : 'loans'}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Monthly EMIs</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatMoney(monthlyEmis)}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Overdue EMIs</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${overdue.length > 0 ? 'text-destructive' : ''}`}>
+                {overdue.length}
+              </div>
+              {overdue.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {formatMoney(overdue.reduce((sum, instalment) => sum + instalment.amount, 0))} to pay
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          {/* Loans */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Your Loans</CardTitle>
+              <CardDescription>Open a loan to see its repayment schedule</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loans.length === 0 ? (
+                <div className="text-center py-8">
+                  <Banknote className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground">No loans yet</p>
+                  <p className="text-sm text-muted-foreground mt-1">Apply for a loan to get started</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {loans.map((loan) => {
+                    const next = nextInstalment(loan.id);
+                    const loanOverdue = overdue.filter((instalment) => instalment.loan_id === loan.id).length;
+
+                    return (
+                      <Link
+                        key={loan.id}
+                        to={`/loans/${loan.id}`}
+                        className="block p-4 border rounded-lg space-y-2 hover:bg-muted/50 transition-colors"
+                      >
+                        <div className="flex items-start justify-between gap-4">
+                          <div>
+                            <div className="flex items-center gap-2">
+                              <p className="font-medium font-mono">{loan.loan_number}</p>
+                              <Badge variant={loan.status === 'active' ? 'default' : 'secondary'}>
+                                {getLoanStatusLabel(loan.status)}
+                              </Badge>
+                              {loanOverdue > 0 && <Badge variant="destructive">{loanOverdue} overdue</Badge>}
+                            </div>
+                            <p className="text-sm text-muted-foreground">
+                              {formatMoney(loan.principal)} at {formatRate(loan.annual_rate)} for {loan.months} months
+                              {accountLabels[loan.account_id] && ` • ${accountLabels[loan.account_id]}`}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <div className="text-right">
+                              <p className="text-lg font-bold">{formatMoney(loan.outstanding_principal)}</p>
+                              <p className="text-xs text-muted-foreground">outstanding</p>
+                            </div>
+                            <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                          </div>
+                        </div>
+
+                        {loan.status === 'active' && next ? (
+                          <p className="text-sm">
+                            <span className="text-muted-foreground">EMI {formatMoney(loan.emi)} • Next due </span>
+                            {format(parseISO(next.due_date), 'MMM dd, yyyy')}
+                          </p>
+                        ) : (
+                          loan.closed_on && (
+                            <p className="text-sm text-muted-foreground">
+                              Closed on {format(parseISO(loan.closed_on), 'MMM dd, yyyy')}
+                            </p>
+                          )
+                        )}
+                      </Link>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Terms */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Loan Terms</CardTitle>
+              <CardDescription>Personal loans from your rupee accounts</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {settings && (
+                <>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">Interest rate</span>
+                    <span className="font-medium">{formatRate(settings.annual_rate)} a year</span>
+                  </div>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">Amount</span>
+                    <span className="font-medium">
+                      {formatMoney(settings.min_amount)} – {formatMoney(settings.max_amount)}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">Tenure</span>
+                    <span className="font-medium">
+                      {settings.min_months} – {settings.max_months} months
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground pt-2 border-t">
+                    You can borrow up to {formatMoney(settings.max_amount)} across all your loans. An EMI the
+                    account cannot cover is marked overdue and retried daily. Prepay at any time without charge
+                    to finish sooner.
+                  </p>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Loans;
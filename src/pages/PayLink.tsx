@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useAccounts } from '@/components/accounts/AccountProvider';
+import { useToast } from '@/hooks/use-toast';
+import { useIdempotencyKey } from '@/hooks/use-idempotency-key';
+import { Navigation } from '@/components/layout/Navigation';
+import { LoadingState } from '@/components/ui/loading-spinner';
+import { getAccountLabel } from '@/lib/accounts';
+import { formatMoney } from '@/lib/money';
+import { PaymentLinkStatus, getPaymentLinkStatusLabel } from '@/lib/payments';
+import { format, parseISO } from 'date-fns';
+import { CheckCircle, Link2, UserCheck } from 'lucide-react';
+
+interface Profile {
+  name: string;
+}
+
+type PublicPaymentLink = Database['public']['Functions']['get_payment_link']['Returns'][number];
+
+const PayLink = () => {
+  const { token } = useParams<{ token: string }>();
+  const { user, loading } = useAuth();
+  const { accounts, selectedAccount, refreshAccounts } = useAccounts();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [link, setLink] = useState<PublicPaymentLink | null>(null);
+  const [isFetching, setIsFetching] = useState(true);
+  const [payFromAccountId, setPayFromAccountId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { toast } = useToast();
+  const payKey = useIdempotencyKey();
+
+  // Redirect if not authenticated, coming back here after sign in
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth', { state: { from: location.pathname } });
+    }
+  }, [user, loading, navigate, location.pathname]);
+
+  // Fetch data
+  useEffect(() => {
+    if (user && token) {
+      fetchData();
+    }
+  }, [user, token]);
+
+  const fetchData = async () => {
+    try {
+      const [profileResult, linkResult] = await Promise.all([
+        supabase.from('profiles').select('name').eq('user_id', user?.id).single(),
+        supabase.rpc('get_payment_link', { p_token: token ?? '' }),
+      ]);
+
+      if (!profileResult.error && profileResult.data) {
+        setProfile(profileResult.data);
+      }
+
+      if (linkResult.error) {
+        console.error('Error fetching payment link:', linkResult.error);
+      } else {
+        setLink(linkResult.data?.[0] ?? null);
+      }
+    } catch (error) {
+      console.error('Error fetching payment link:', error);
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  // Transfers stay within one currency, so only accounts in the link's currency can pay it
+  const payAccounts = link
+    ? accounts.filter((account) => account.status === 'active' && account.currency === link.currency)
+    : [];
+  const payFromId =
+    payFromAccountId ||
+    (payAccounts.find((account) => account.id === selectedAccount?.id) ?? payAccounts[0])?.id ||
+    '';
+  const payAccount = payAccounts.find((account) => account.id === payFromId) ?? null;
+
+  const handlePay = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!link || !token || !payAccount) return;
+
+    setIsSaving(true);
+
+    const { error } = await supabase.rpc('pay_payment_link', {
+      p_token: token,
+      p_account_id: payAccount.id,
+      p_idempotency_key: payKey.keyFor(`${token}|${payAccount.id}`),
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Payment Sent',
+        description: `${formatMoney(link.amount, link.currency)} paid to ${link.creator_name}.`,
+      });
+      payKey.complete();
+      refreshAccounts();
+      navigate('/dashboard');
+    }
+
+    setIsSaving(false);
+  };
+
+  if (loading || (user && isFetching)) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation userName={profile?.name} />
+        <LoadingState>
+          <p className="text-muted-foreground">Loading...</p>
+        </LoadingState>
+      </div>
+    );
+  }
+
+  const status = link?.status as PaymentLinkStatus | undefined;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation userName={profile?.name} />
+
+      <div className="max-w-xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center gap-3 mb-8">
+          <Link2 className="h-8 w-8 text-primary" />
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Payment Link</h1>
+            <p className="text-muted-foreground">Pay a request shared with you as a link</p>
+          </div>
+        </div>
+
+        {!link ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <Link2 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground mb-4">This payment link does not exist.</p>
+              <Button asChild variant="outline">
+                <Link to="/dashboard">Back to Dashboard</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1.5">
+                  <CardTitle>{link.purpose}</CardTitle>
+                  <CardDescription>
+                    {status === 'active'
+                      ? `Open until ${format(parseISO(link.expires_at), 'MMM dd, yyyy hh:mm a')}`
+                      : 'This link no longer takes payments'}
+                  </CardDescription>
+                </div>
+                {status && (
+                  <Badge variant={status === 'active' ? 'default' : 'secondary'}>
+                    {getPaymentLinkStatusLabel(status)}
+                  </Badge>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handlePay} className="space-y-4">
+                <div className="flex items-center justify-between gap-4 p-3 border rounded-lg bg-muted/50">
+                  <div className="flex items-center gap-2">
+                    <UserCheck className="h-4 w-4 text-green-600" />
+                    <div>
+                      <p className="text-sm font-medium">{link.creator_name}</p>
+                      {link.creator_handle && (
+                        <p className="text-xs text-muted-foreground">{link.creator_handle}</p>
+                      )}
+                    </div>
+                  </div>
+                  <p className="text-xl font-bold">{formatMoney(link.amount, link.currency)}</p>
+                </div>
+
+                {link.paid_by_me && (
+                  <div className="flex items-center gap-2 text-sm text-green-600">
+                    <CheckCircle className="h-4 w-4" />
+                    <p>You have already paid this link.</p>
+                  </div>
+                )}
+
+                {link.own_link ? (
+                  <p className="text-sm text-muted-foreground">
+                    This is your own link. Share it with whoever is paying you; payments received show under{' '}
+                    <Link to="/payments" className="underline">
+                      Payments
+                    </Link>
+                    .
+                  </p>
+                ) : (
+                  status === 'active' &&
+                  !(link.paid_by_me && !link.multi_use) && (
+                    <>
+                      <div>
+                        <Label htmlFor="payLinkAccount">Pay from</Label>
+                        <Select value={payFromId} onValueChange={setPayFromAccountId}>
+                          <SelectTrigger id="payLinkAccount">
+                            <SelectValue placeholder="Select an account" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {payAccounts.map((account) => (
+                              <SelectItem key={account.id} value={account.id}>
+                                {getAccountLabel(account)} • {formatMoney(account.available_balance, account.currency)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {payAccounts.length === 0 && (
+                          <p className="text-sm text-destructive mt-1">
+                            You need an active {link.currency} account to pay this link.
+                          </p>
+                        )}
+                      </div>
+
+                      <Button type="submit" className="w-full" disabled={isSaving || !payAccount}>
+                        {isSaving ? 'Paying...' : `Pay ${formatMoney(link.amount, link.currency)}`}
+                      </Button>
+                    </>
+                  )
+                )}
+              </form>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PayLink;
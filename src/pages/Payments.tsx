@@ -0,0 +1,688 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useAccounts } from '@/components/accounts/AccountProvider';
+import { useToast } from '@/hooks/use-toast';
+import { useIdempotencyKey } from '@/hooks/use-idempotency-key';
+import { Navigation } from '@/components/layout/Navigation';
+import { LoadingState } from '@/components/ui/loading-spinner';
+import { PaymentLinksCard } from '@/components/payments/PaymentLinksCard';
+import { getAccountLabel } from '@/lib/accounts';
+import { currencySymbol, formatMoney } from '@/lib/money';
+import {
+  CollectRequest,
+  CollectRequestSettings,
+  CollectRequestStatus,
+  EXPIRY_HOUR_OPTIONS,
+  HANDLE_SUFFIX,
+  PaymentHandle,
+  formatExpiryHours,
+  getCollectRequestStatus,
+  getCollectStatusLabel,
+} from '@/lib/payments';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+import { ArrowDownLeft, ArrowUpRight, AtSign, Check, Inbox, Send, X } from 'lucide-react';
+
+interface Profile {
+  name: string;
+}
+
+const getStatusVariant = (status: CollectRequestStatus) => {
+  if (status === 'approved') return 'default';
+  if (status === 'pending') return 'outline';
+  if (status === 'declined') return 'destructive';
+  return 'secondary';
+};
+
+const Payments = () => {
+  const { user, loading } = useAuth();
+  const { accounts, selectedAccount, refreshAccounts } = useAccounts();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [handle, setHandle] = useState<PaymentHandle | null>(null);
+  const [requests, setRequests] = useState<CollectRequest[]>([]);
+  const [settings, setSettings] = useState<CollectRequestSettings | null>(null);
+  const [paymentsLoading, setPaymentsLoading] = useState(true);
+  const [handleForm, setHandleForm] = useState({ name: '', account_id: '' });
+  const [isEditingHandle, setIsEditingHandle] = useState(false);
+  const [isRequestOpen, setIsRequestOpen] = useState(false);
+  const [requestForm, setRequestForm] = useState({
+    account_id: '',
+    payer_handle: '',
+    amount: '',
+    note: '',
+    expiry_hours: '',
+  });
+  const [approving, setApproving] = useState<CollectRequest | null>(null);
+  const [approveAccountId, setApproveAccountId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const approveKey = useIdempotencyKey();
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  // Fetch data
+  useEffect(() => {
+    if (user) {
+      fetchProfile();
+      fetchPayments();
+    }
+  }, [user]);
+
+  const fetchProfile = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('name')
+        .eq('user_id', user?.id)
+        .single();
+
+      if (!error && data) {
+        setProfile(data);
+      }
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+    }
+  };
+
+  const fetchPayments = async () => {
+    try {
+      const [handleResult, requestsResult, settingsResult] = await Promise.all([
+        supabase.from('payment_handles').select('*').eq('user_id', user?.id).maybeSingle(),
+        supabase
+          .from('collect_requests')
+          .select('*')
+          .or(`requester_user_id.eq.${user?.id},payer_user_id.eq.${user?.id}`)
+          .order('created_at', { ascending: false })
+          .limit(100),
+        supabase.from('collect_request_settings').select('*').maybeSingle(),
+      ]);
+
+      if (requestsResult.error) {
+        console.error('Error fetching collect requests:', requestsResult.error);
+        toast({
+          title: 'Error',
+          description: 'Failed to load payment requests',
+          variant: 'destructive',
+        });
+      } else {
+        setRequests(requestsResult.data || []);
+      }
+
+      setHandle(handleResult.data);
+      setSettings(settingsResult.data);
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setPaymentsLoading(false);
+    }
+  };
+
+  const activeAccounts = accounts.filter((account) => account.status === 'active');
+  const accountLabels = Object.fromEntries(accounts.map((account) => [account.id, getAccountLabel(account)]));
+  const handleAccountId = handleForm.account_id || handle?.account_id || selectedAccount?.id || '';
+  const requestAccountId = requestForm.account_id || handle?.account_id || selectedAccount?.id || '';
+  const requestAccount = activeAccounts.find((account) => account.id === requestAccountId) ?? null;
+  const expiryOptions = EXPIRY_HOUR_OPTIONS.filter((hours) => !settings || hours <= settings.max_expiry_hours);
+  const expiryHours = requestForm.expiry_hours || String(settings?.default_expiry_hours ?? 24);
+  // Requests are paid through an ordinary transfer, so only accounts in the request's currency can pay them
+  const approveAccounts = approving
+    ? activeAccounts.filter((account) => account.currency === approving.currency)
+    : [];
+  const approveFromId =
+    approveAccountId ||
+    (approveAccounts.find((account) => account.id === selectedAccount?.id) ?? approveAccounts[0])?.id ||
+    '';
+  const approveAccount = approveAccounts.find((account) => account.id === approveFromId) ?? null;
+
+  const updateRequest = (updated: CollectRequest) => {
+    setRequests((prev) => prev.map((request) => (request.id === updated.id ? updated : request)));
+  };
+
+  const handleClaimSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    setIsSaving(true);
+
+    const { data, error } = await supabase.rpc('claim_payment_handle', {
+      p_handle: handleForm.name,
+      p_account_id: handleAccountId,
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: handle ? 'Handle Updated' : 'Handle Claimed',
+        description: `Money sent to ${data.handle} goes to ${accountLabels[data.account_id] ?? 'your account'}.`,
+      });
+      setHandle(data);
+      setHandleForm({ name: '', account_id: '' });
+      setIsEditingHandle(false);
+    }
+
+    setIsSaving(false);
+  };
+
+  const handleRequestSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!requestAccount) return;
+
+    const amount = parseFloat(requestForm.amount);
+    if (!(amount > 0)) {
+      toast({
+        title: 'Invalid Amount',
+        description: 'Please enter a valid amount greater than 0.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    const { data, error } = await supabase.rpc('create_collect_request', {
+      p_account_id: requestAccount.id,
+      p_payer_handle: requestForm.payer_handle,
+      p_amount: amount,
+      p_note: requestForm.note,
+      p_expires_in_hours: parseInt(expiryHours, 10),
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Request Sent',
+        description: `${data.payer_name ?? data.payer_handle} has been asked to pay ${formatMoney(data.amount, data.currency)}.`,
+      });
+      setRequests((prev) => [data, ...prev]);
+      setIsRequestOpen(false);
+      setRequestForm({ ...requestForm, payer_handle: '', amount: '', note: '' });
+    }
+
+    setIsSaving(false);
+  };
+
+  const handleApproveSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!approving || !approveAccount) return;
+
+    setIsSaving(true);
+
+    const { data, error } = await supabase.rpc('approve_collect_request', {
+      p_request_id: approving.id,
+      p_account_id: approveAccount.id,
+      p_idempotency_key: approveKey.keyFor(`${approving.id}|${approveAccount.id}`),
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Request Paid',
+        description: `${formatMoney(data.amount, data.currency)} sent to ${data.requester_name ?? data.requester_handle ?? 'the requester'}.`,
+      });
+      approveKey.complete();
+      updateRequest(data);
+      setApproving(null);
+      setApproveAccountId('');
+      refreshAccounts();
+    }
+
+    setIsSaving(false);
+  };
+
+  const handleRespond = async (request: CollectRequest, action: 'decline_collect_request' | 'cancel_collect_request') => {
+    const { data, error } = await supabase.rpc(action, { p_request_id: request.id });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      updateRequest(data);
+      toast({
+        title: action === 'decline_collect_request' ? 'Request Declined' : 'Request Cancelled',
+        description: `The request for ${formatMoney(data.amount, data.currency)} is closed.`,
+      });
+    }
+  };
+
+  if (loading || paymentsLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation userName={profile?.name} />
+        <LoadingState>
+          <p className="text-muted-foreground">Loading your payments...</p>
+        </LoadingState>
+      </div>
+    );
+  }
+
+  const now = new Date();
+  const inbox = requests.filter(
+    (request) => request.payer_user_id === user?.id && getCollectRequestStatus(request, now) === 'pending'
+  );
+  const awaitingOthers = requests.filter(
+    (request) => request.requester_user_id === user?.id && getCollectRequestStatus(request, now) === 'pending'
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation userName={profile?.name} />
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-3">
+            <AtSign className="h-8 w-8 text-primary" />
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Payments</h1>
+              <p className="text-muted-foreground">Your handle and requests for money</p>
+            </div>
+          </div>
+
+          <Dialog open={isRequestOpen} onOpenChange={setIsRequestOpen}>
+            <DialogTrigger asChild>
+              <Button disabled={activeAccounts.length === 0}>
+                <ArrowDownLeft className="h-4 w-4 mr-2" />
+                Request Money
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Request Money</DialogTitle>
+                <DialogDescription>
+                  The customer behind the handle sees your request in their inbox and can pay or decline it
+                  until it expires.
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleRequestSubmit} className="space-y-4">
+                <div>
+                  <Label htmlFor="payerHandle">From</Label>
+                  <Input
+                    id="payerHandle"
+                    required
+                    value={requestForm.payer_handle}
+                    onChange={(e) => setRequestForm({ ...requestForm, payer_handle: e.target.value })}
+                    placeholder={`name${HANDLE_SUFFIX}`}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="requestAccount">Pay into</Label>
+                  <Select
+                    value={requestAccountId}
+                    onValueChange={(value) => setRequestForm({ ...requestForm, account_id: value })}
+                  >
+                    <SelectTrigger id="requestAccount">
+                      <SelectValue placeholder="Select an account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {activeAccounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {getAccountLabel(account)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div>
+                    <Label htmlFor="requestAmount">Amount ({currencySymbol(requestAccount?.currency)})</Label>
+                    <Input
+                      id="requestAmount"
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      required
+                      value={requestForm.amount}
+                      onChange={(e) => setRequestForm({ ...requestForm, amount: e.target.value })}
+                      placeholder="Enter amount"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="requestExpiry">Expires after</Label>
+                    <Select
+                      value={expiryHours}
+                      onValueChange={(value) => setRequestForm({ ...requestForm, expiry_hours: value })}
+                    >
+                      <SelectTrigger id="requestExpiry">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {expiryOptions.map((hours) => (
+                          <SelectItem key={hours} value={String(hours)}>
+                            {formatExpiryHours(hours)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="requestNote">Note (Optional)</Label>
+                  <Textarea
+                    id="requestNote"
+                    value={requestForm.note}
+                    onChange={(e) => setRequestForm({ ...requestForm, note: e.target.value })}
+                    placeholder="e.g. Movie tickets"
+                    className="resize-none"
+                    rows={2}
+                  />
+                </div>
+                <DialogFooter>
+                  <Button type="submit" disabled={isSaving || !requestAccount}>
+                    {isSaving ? 'Sending...' : 'Send Request'}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <div className="lg:col-span-2 space-y-6">
+            {/* Inbox */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Inbox</CardTitle>
+                <CardDescription>Requests for money from other customers</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {inbox.length === 0 ? (
+                  <div className="text-center py-8">
+                    <Inbox className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                    <p className="text-muted-foreground">Nothing to pay</p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {inbox.map((request) => (
+                      <div key={request.id} className="flex items-center justify-between gap-4 p-4 border rounded-lg">
+                        <div>
+                          <p className="font-medium">{request.requester_name ?? request.requester_handle}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {request.requester_handle && `${request.requester_handle} • `}
+                            {request.note ?? 'No note'}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            Expires {formatDistanceToNow(parseISO(request.expires_at), { addSuffix: true })}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <p className="text-lg font-bold mr-2">{formatMoney(request.amount, request.currency)}</p>
+                          <Button size="sm" onClick={() => setApproving(request)}>
+                            <Check className="h-4 w-4 mr-1" />
+                            Pay
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleRespond(request, 'decline_collect_request')}
+                          >
+                            <X className="h-4 w-4 mr-1" />
+                            Decline
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* History */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Request History</CardTitle>
+                <CardDescription>Requests you have sent and received</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {requests.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-8">No requests yet</p>
+                ) : (
+                  <div className="space-y-2">
+                    {requests.map((request) => {
+                      const sent = request.requester_user_id === user?.id;
+                      const status = getCollectRequestStatus(request, now);
+
+                      return (
+                        <div key={request.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+                          <div className="flex items-center gap-3">
+                            {sent ? (
+                              <ArrowDownLeft className="h-4 w-4 text-green-600" />
+                            ) : (
+                              <ArrowUpRight className="h-4 w-4 text-red-600" />
+                            )}
+                            <div>
+                              <p className="text-sm font-medium">
+                                {sent
+                                  ? `Requested from ${request.payer_name ?? request.payer_handle}`
+                                  : `Requested by ${request.requester_name ?? request.requester_handle}`}
+                              </p>
+                              <p className="text-xs text-muted-foreground">
+                                {format(parseISO(request.created_at), 'MMM dd, yyyy hh:mm a')}
+                                {request.note && ` • ${request.note}`}
+                              </p>
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <p className="text-sm font-medium">{formatMoney(request.amount, request.currency)}</p>
+                            <Badge variant={getStatusVariant(status)}>{getCollectStatusLabel(status)}</Badge>
+                            {sent && status === 'pending' && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => handleRespond(request, 'cancel_collect_request')}
+                              >
+                                Cancel
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Payment links */}
+            <PaymentLinksCard />
+          </div>
+
+          <div className="space-y-6">
+            {/* Handle */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Your Handle</CardTitle>
+                <CardDescription>Others can pay you or request money using your handle</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {handle && !isEditingHandle ? (
+                  <div className="space-y-3">
+                    <p className="text-xl font-bold font-mono">{handle.handle}</p>
+                    <p className="text-sm text-muted-foreground">
+                      Receives into {accountLabels[handle.account_id] ?? 'a closed account'}
+                    </p>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setHandleForm({ name: handle.handle.replace(HANDLE_SUFFIX, ''), account_id: handle.account_id });
+                        setIsEditingHandle(true);
+                      }}
+                    >
+                      Change
+                    </Button>
+                  </div>
+                ) : (
+                  <form onSubmit={handleClaimSubmit} className="space-y-4">
+                    <div>
+                      <Label htmlFor="handleName">Handle</Label>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          id="handleName"
+                          required
+                          value={handleForm.name}
+                          onChange={(e) => setHandleForm({ ...handleForm, name: e.target.value })}
+                          placeholder="yourname"
+                        />
+                        <span className="text-sm text-muted-foreground font-mono">{HANDLE_SUFFIX}</span>
+                      </div>
+                    </div>
+                    <div>
+                      <Label htmlFor="handleAccount">Receive into</Label>
+                      <Select
+                        value={handleAccountId}
+                        onValueChange={(value) => setHandleForm({ ...handleForm, account_id: value })}
+                      >
+                        <SelectTrigger id="handleAccount">
+                          <SelectValue placeholder="Select an account" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {activeAccounts.map((account) => (
+                            <SelectItem key={account.id} value={account.id}>
+                              {getAccountLabel(account)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button type="submit" disabled={isSaving || !handleAccountId}>
+                        {isSaving ? 'Saving...' : handle ? 'Save' : 'Claim Handle'}
+                      </Button>
+                      {handle && (
+                        <Button type="button" variant="outline" onClick={() => setIsEditingHandle(false)}>
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+                  </form>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Pending */}
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Awaiting Payment</CardTitle>
+                <Send className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{awaitingOthers.length}</div>
+                <p className="text-xs text-muted-foreground">
+                  {awaitingOthers.length === 1 ? 'request' : 'requests'} you sent that are still open
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+
+      {/* Approve dialog */}
+      <Dialog
+        open={approving !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setApproving(null);
+            setApproveAccountId('');
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Pay Request</DialogTitle>
+            <DialogDescription>
+              The money is sent as a transfer, so the usual limits for new recipients apply.
+            </DialogDescription>
+          </DialogHeader>
+          {approving && (
+            <form onSubmit={handleApproveSubmit} className="space-y-4">
+              <div className="p-3 border rounded-lg bg-muted/50 space-y-1 text-sm">
+                <p>
+                  <span className="text-muted-foreground">To: </span>
+                  {approving.requester_name ?? approving.requester_handle}
+                  {approving.requester_handle && ` (${approving.requester_handle})`}
+                </p>
+                {approving.note && (
+                  <p>
+                    <span className="text-muted-foreground">For: </span>
+                    {approving.note}
+                  </p>
+                )}
+                <p>
+                  <span className="text-muted-foreground">Amount: </span>
+                  <span className="font-medium">{formatMoney(approving.amount, approving.currency)}</span>
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="approveAccount">Pay from</Label>
+                <Select value={approveFromId} onValueChange={setApproveAccountId}>
+                  <SelectTrigger id="approveAccount">
+                    <SelectValue placeholder="Select an account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {approveAccounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {getAccountLabel(account)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {approveAccounts.length === 0 && (
+                  <p className="text-sm text-destructive mt-1">
+                    You need an active {approving.currency} account to pay this request.
+                  </p>
+                )}
+              </div>
+              <DialogFooter>
+                <Button type="submit" disabled={isSaving || !approveAccount}>
+                  {isSaving ? 'Paying...' : `Pay ${formatMoney(approving.amount, approving.currency)}`}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Payments;
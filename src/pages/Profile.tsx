@@ -5,30 +5,34 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
 import { useAuth } from '@/components/auth/AuthProvider';
+import { useAccounts } from '@/components/accounts/AccountProvider';
+import { OpenAccountDialog } from '@/components/accounts/OpenAccountDialog';
+import { ChargesCard } from '@/components/fees/ChargesCard';
 import { useToast } from '@/hooks/use-toast';
 import { Navigation } from '@/components/layout/Navigation';
 import { LoadingState } from '@/components/ui/loading-spinner';
+import { ACCOUNT_TYPE_LABELS } from '@/lib/accounts';
+import { formatMoney } from '@/lib/money';
 import { User, Edit3, Save, X } from 'lucide-react';
 
 interface Profile {
   id: string;
   name: string;
   phone: string;
-  account_type: string;
-  balance: number;
+  created_at: string;
 }
 
 const Profile = () => {
   const { user, loading } = useAuth();
+  const { accounts } = useAccounts();
   const [profile, setProfile] = useState<Profile | null>(null);
   const [profileLoading, setProfileLoading] = useState(true);
   const [isEditing, setIsEditing] = useState(false);
   const [editForm, setEditForm] = useState({
     name: '',
-    phone: '',
-    account_type: ''
+    phone: ''
   });
   const navigate = useNavigate();
   const { toast } = useToast();
@@ -66,8 +70,7 @@ const Profile = () => {
         setProfile(data);
         setEditForm({
           name: data.name,
-          phone: data.phone,
-          account_type: data.account_type
+          phone: data.phone
         });
       }
     } catch (error) {
@@ -85,8 +88,7 @@ const Profile = () => {
         .from('profiles')
         .update({
           name: editForm.name,
-          phone: editForm.phone,
-          account_type: editForm.account_type
+          phone: editForm.phone
         })
         .eq('user_id', user?.id);
 
@@ -118,8 +120,7 @@ const Profile = () => {
     if (profile) {
       setEditForm({
         name: profile.name,
-        phone: profile.phone,
-        account_type: profile.account_type
+        phone: profile.phone
       });
     }
     setIsEditing(false);
@@ -225,27 +226,6 @@ const Profile = () => {
                   <p className="text-lg font-medium">{profile.phone}</p>
                 )}
               </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="account_type">Account Type</Label>
-                {isEditing ? (
-                  <Select
-                    value={editForm.account_type}
-                    onValueChange={(value) => setEditForm({ ...editForm, account_type: value })}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select account type" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="savings">Savings Account</SelectItem>
-                      <SelectItem value="current">Current Account</SelectItem>
-                      <SelectItem value="fixed">Fixed Deposit</SelectItem>
-                    </SelectContent>
-                  </Select>
-                ) : (
-                  <p className="text-lg font-medium capitalize">{profile.account_type} Account</p>
-                )}
-              </div>
             </CardContent>
           </Card>
 
@@ -259,31 +239,16 @@ const Profile = () => {
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-2">
-                <Label>Account ID</Label>
+                <Label>Customer ID</Label>
                 <p className="text-sm font-mono bg-muted p-2 rounded">
                   {profile.id}
                 </p>
               </div>
 
-              <div className="space-y-2">
-                <Label>Current Balance</Label>
-                <p className="text-2xl font-bold text-primary">
-                  ₹{profile.balance.toLocaleString('en-IN', { minimumFractionDigits: 2 })}
-                </p>
-              </div>
-
-              <div className="space-y-2">
-                <Label>Account Status</Label>
-                <div className="flex items-center gap-2">
-                  <div className="h-2 w-2 bg-green-500 rounded-full"></div>
-                  <span className="text-sm text-green-600 font-medium">Active</span>
-                </div>
-              </div>
-
               <div className="space-y-2">
                 <Label>Member Since</Label>
                 <p className="text-sm text-muted-foreground">
-                  {new Date().toLocaleDateString('en-IN', { 
+                  {new Date(profile.created_at).toLocaleDateString('en-IN', { 
                     year: 'numeric', 
                     month: 'long', 
                     day: 'numeric' 
@@ -294,6 +259,43 @@ const Profile = () => {
           </Card>
         </div>
 
+        {/* Accounts */}
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Your Accounts</CardTitle>
+            <CardDescription>
+              Every account you hold with us
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {accounts.map((account) => (
+              <div key={account.id} className="flex items-center justify-between p-4 border rounded-lg">
+                <div>
+                  <h4 className="font-medium">
+                    {account.nickname ?? `${ACCOUNT_TYPE_LABELS[account.account_type]} Account`}
+                  </h4>
+                  <p className="text-sm font-mono text-muted-foreground">{account.account_number}</p>
+                  <Badge variant="outline" className="mt-1 capitalize">
+                    {account.status}
+                  </Badge>
+                </div>
+                <div className="text-right">
+                  <p className="text-lg font-bold text-primary">
+                    {formatMoney(account.ledger_balance, account.currency)}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Available {formatMoney(account.available_balance, account.currency)}
+                  </p>
+                </div>
+              </div>
+            ))}
+            <OpenAccountDialog />
+          </CardContent>
+        </Card>
+
+        {/* Charges */}
+        <ChargesCard />
+
         {/* Security Section */}
         <Card className="mt-6">
           <CardHeader>
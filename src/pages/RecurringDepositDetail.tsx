@@ -0,0 +1,262 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useAccounts } from '@/components/accounts/AccountProvider';
+import { useToast } from '@/hooks/use-toast';
+import { Navigation } from '@/components/layout/Navigation';
+import { LoadingState } from '@/components/ui/loading-spinner';
+import { getAccountLabel } from '@/lib/accounts';
+import { formatRate } from '@/lib/fixed-deposits';
+import { formatMoney } from '@/lib/money';
+import {
+  RecurringDeposit,
+  RecurringDepositInstalment,
+  getInstalmentStatusLabel,
+  getRecurringDepositStatusLabel,
+} from '@/lib/recurring-deposits';
+import { format, parseISO } from 'date-fns';
+import { ChevronLeft, Repeat } from 'lucide-react';
+
+interface Profile {
+  name: string;
+}
+
+const RecurringDepositDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, loading } = useAuth();
+  const { accounts } = useAccounts();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [deposit, setDeposit] = useState<RecurringDeposit | null>(null);
+  const [instalments, setInstalments] = useState<RecurringDepositInstalment[]>([]);
+  const [depositLoading, setDepositLoading] = useState(true);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  // Fetch data
+  useEffect(() => {
+    if (user && id) {
+      fetchProfile();
+      fetchDeposit();
+    }
+  }, [user, id]);
+
+  const fetchProfile = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('name')
+        .eq('user_id', user?.id)
+        .single();
+
+      if (!error && data) {
+        setProfile(data);
+      }
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+    }
+  };
+
+  const fetchDeposit = async () => {
+    try {
+      const [depositResult, instalmentsResult] = await Promise.all([
+        supabase.from('recurring_deposits').select('*').eq('id', id).maybeSingle(),
+        supabase
+          .from('recurring_deposit_instalments')
+          .select('*')
+          .eq('recurring_deposit_id', id)
+          .order('instalment_number'),
+      ]);
+
+      if (depositResult.error || instalmentsResult.error) {
+        console.error('Error fetching recurring deposit:', depositResult.error ?? instalmentsResult.error);
+        toast({
+          title: 'Error',
+          description: 'Failed to load recurring deposit',
+          variant: 'destructive',
+        });
+      } else {
+        setDeposit(depositResult.data);
+        setInstalments(instalmentsResult.data || []);
+      }
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setDepositLoading(false);
+    }
+  };
+
+  const getInstalmentStatusVariant = (status: string) => {
+    switch (status) {
+      case 'paid':
+        return 'default';
+      case 'missed':
+        return 'destructive';
+      default:
+        return 'outline';
+    }
+  };
+
+  if (loading || depositLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation userName={profile?.name} />
+        <LoadingState>
+          <p className="text-muted-foreground">Loading recurring deposit...</p>
+        </LoadingState>
+      </div>
+    );
+  }
+
+  if (!deposit) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation userName={profile?.name} />
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 text-center">
+          <Repeat className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground mb-4">Recurring deposit not found</p>
+          <Button asChild variant="outline">
+            <Link to="/recurring-deposits">Back to Recurring Deposits</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const account = accounts.find((candidate) => candidate.id === deposit.account_id);
+  const paidInstalments = instalments.filter((instalment) => instalment.status === 'paid');
+  const totalDeposited = paidInstalments.length * deposit.instalment_amount;
+  const totalPenalties = paidInstalments.reduce((sum, instalment) => sum + instalment.penalty, 0);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation userName={profile?.name} />
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            to="/recurring-deposits"
+            className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-4"
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Recurring Deposits
+          </Link>
+          <div className="flex items-center gap-3">
+            <Repeat className="h-8 w-8 text-primary" />
+            <div>
+              <div className="flex items-center gap-2">
+                <h1 className="text-3xl font-bold text-foreground font-mono">{deposit.deposit_number}</h1>
+                <Badge variant={deposit.status === 'active' ? 'default' : 'secondary'}>
+                  {getRecurringDepositStatusLabel(deposit.status)}
+                </Badge>
+              </div>
+              <p className="text-muted-foreground">
+                {formatMoney(deposit.instalment_amount)} a month for {deposit.months} months at{' '}
+                {formatRate(deposit.annual_rate)}
+                {account && ` • linked to ${getAccountLabel(account)}`}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Summary Cards */}
+        <div className="grid gap-6 md:grid-cols-3 mb-8">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Instalments Paid</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {paidInstalments.length} of {deposit.months}
+              </div>
+              {totalPenalties > 0 && (
+                <p className="text-xs text-muted-foreground">{formatMoney(totalPenalties)} in late penalties</p>
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Deposited</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatMoney(totalDeposited)}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">
+                {deposit.status === 'active' ? 'Value at Maturity' : 'Paid Out'}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-green-600">
+                {deposit.status === 'active'
+                  ? formatMoney(deposit.expected_maturity_amount)
+                  : formatMoney(totalDeposited + (deposit.interest_paid ?? 0))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {deposit.status === 'active' ? 'if every instalment is paid, on ' : 'on '}
+                {format(parseISO(deposit.maturity_date), 'MMM dd, yyyy')}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Instalments */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Instalments</CardTitle>
+            <CardDescription>
+              Due instalments are debited automatically; a missed one is retried with a late penalty
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {instalments.map((instalment) => (
+                <div
+                  key={instalment.id}
+                  className="flex items-center justify-between gap-4 p-3 border rounded-lg"
+                >
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium">Instalment {instalment.instalment_number}</p>
+                      <Badge variant={getInstalmentStatusVariant(instalment.status)}>
+                        {getInstalmentStatusLabel(instalment.status)}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Due {format(parseISO(instalment.due_date), 'MMM dd, yyyy')}
+                      {instalment.paid_on && ` • paid ${format(parseISO(instalment.paid_on), 'MMM dd, yyyy')}`}
+                    </p>
+                    {instalment.status === 'missed' && instalment.last_error && (
+                      <p className="text-sm text-destructive">{instalment.last_error}</p>
+                    )}
+                  </div>
+                  <div className="text-right">
+                    <p className="font-medium">{formatMoney(deposit.instalment_amount)}</p>
+                    {instalment.penalty > 0 && (
+                      <p className="text-xs text-muted-foreground">+ {formatMoney(instalment.penalty)} penalty</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default RecurringDepositDetail;
@@ -0,0 +1,486 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useAccounts } from '@/components/accounts/AccountProvider';
+import { useToast } from '@/hooks/use-toast';
+import { useIdempotencyKey } from '@/hooks/use-idempotency-key';
+import { Navigation } from '@/components/layout/Navigation';
+import { LoadingState } from '@/components/ui/loading-spinner';
+import { getAccountLabel } from '@/lib/accounts';
+import { formatRate } from '@/lib/fixed-deposits';
+import { DEFAULT_CURRENCY, currencySymbol, formatMoney } from '@/lib/money';
+import {
+  MONTH_OPTIONS,
+  RecurringDeposit,
+  RecurringDepositInstalment,
+  RecurringDepositRate,
+  expectedMaturityAmount,
+  getRecurringDepositStatusLabel,
+  rateForMonths,
+} from '@/lib/recurring-deposits';
+import { addMonths, format, parseISO } from 'date-fns';
+import { ChevronRight, Plus, Repeat } from 'lucide-react';
+
+interface Profile {
+  name: string;
+}
+
+interface RecurringDepositSettings {
+  min_instalment: number;
+  missed_instalment_penalty_rate: number;
+}
+
+type InstalmentSummary = Pick<RecurringDepositInstalment, 'recurring_deposit_id' | 'status'>;
+
+const RecurringDeposits = () => {
+  const { user, loading } = useAuth();
+  const { accounts, selectedAccount, refreshAccounts } = useAccounts();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [deposits, setDeposits] = useState<RecurringDeposit[]>([]);
+  const [instalments, setInstalments] = useState<InstalmentSummary[]>([]);
+  const [rates, setRates] = useState<RecurringDepositRate[]>([]);
+  const [settings, setSettings] = useState<RecurringDepositSettings | null>(null);
+  const [depositsLoading, setDepositsLoading] = useState(true);
+  const [isOpenDialogOpen, setIsOpenDialogOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [openForm, setOpenForm] = useState({
+    account_id: '',
+    amount: '',
+    months: '12',
+  });
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const openKey = useIdempotencyKey();
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  // Fetch data
+  useEffect(() => {
+    if (user) {
+      fetchProfile();
+      fetchDeposits();
+    }
+  }, [user]);
+
+  const fetchProfile = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('name')
+        .eq('user_id', user?.id)
+        .single();
+
+      if (!error && data) {
+        setProfile(data);
+      }
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+    }
+  };
+
+  const fetchDeposits = async () => {
+    try {
+      const [depositsResult, instalmentsResult, ratesResult, settingsResult] = await Promise.all([
+        supabase
+          .from('recurring_deposits')
+          .select('*')
+          .eq('user_id', user?.id)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('recurring_deposit_instalments')
+          .select('recurring_deposit_id, status')
+          .eq('user_id', user?.id),
+        supabase.from('recurring_deposit_rates').select('*').order('min_months'),
+        supabase
+          .from('recurring_deposit_settings')
+          .select('min_instalment, missed_instalment_penalty_rate')
+          .maybeSingle(),
+      ]);
+
+      if (depositsResult.error) {
+        console.error('Error fetching recurring deposits:', depositsResult.error);
+        toast({
+          title: 'Error',
+          description: 'Failed to load recurring deposits',
+          variant: 'destructive',
+        });
+      } else {
+        setDeposits(depositsResult.data || []);
+      }
+
+      setInstalments(instalmentsResult.data || []);
+      setRates(ratesResult.data || []);
+      setSettings(settingsResult.data);
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setDepositsLoading(false);
+    }
+  };
+
+  // Deposits are priced in rupees, so only rupee accounts can fund them
+  const fundingAccounts = accounts.filter(
+    (account) => account.status === 'active' && account.currency === DEFAULT_CURRENCY
+  );
+  const fundingAccountId = openForm.account_id || selectedAccount?.id || '';
+  const fundingAccount = fundingAccounts.find((account) => account.id === fundingAccountId) ?? null;
+  const accountLabels = Object.fromEntries(accounts.map((account) => [account.id, getAccountLabel(account)]));
+
+  const amount = parseFloat(openForm.amount);
+  const months = parseInt(openForm.months, 10);
+  const rate = rateForMonths(rates, months);
+  const preview = amount > 0 && rate !== null
+    ? {
+        rate,
+        totalDeposited: amount * months,
+        maturityAmount: expectedMaturityAmount(amount, rate, months),
+        maturityDate: addMonths(new Date(), months),
+      }
+    : null;
+
+  const handleOpenSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!fundingAccount) return;
+
+    if (settings && !(amount >= settings.min_instalment)) {
+      toast({
+        title: 'Invalid Amount',
+        description: `Recurring deposit instalments start at ${formatMoney(settings.min_instalment)}.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (amount > fundingAccount.available_balance) {
+      toast({
+        title: 'Insufficient Funds',
+        description: 'The selected account does not have enough available balance for the first instalment.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    const { error } = await supabase.rpc('open_recurring_deposit', {
+      p_account_id: fundingAccount.id,
+      p_instalment_amount: amount,
+      p_months: months,
+      p_idempotency_key: openKey.keyFor(`${fundingAccount.id}|${amount}|${months}`),
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Recurring Deposit Opened',
+        description: `The first instalment of ${formatMoney(amount)} has been debited from ${getAccountLabel(fundingAccount)}.`,
+      });
+      openKey.complete();
+      setIsOpenDialogOpen(false);
+      setOpenForm({ ...openForm, amount: '' });
+      fetchDeposits();
+      refreshAccounts();
+    }
+
+    setIsSaving(false);
+  };
+
+  const countInstalments = (depositId: string, status: string) =>
+    instalments.filter((instalment) => instalment.recurring_deposit_id === depositId && instalment.status === status)
+      .length;
+
+  if (loading || depositsLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation userName={profile?.name} />
+        <LoadingState>
+          <p className="text-muted-foreground">Loading your recurring deposits...</p>
+        </LoadingState>
+      </div>
+    );
+  }
+
+  const activeDeposits = deposits.filter((deposit) => deposit.status === 'active');
+  const monthlyCommitment = activeDeposits.reduce((sum, deposit) => sum + deposit.instalment_amount, 0);
+  const totalDeposited = activeDeposits.reduce(
+    (sum, deposit) => sum + deposit.instalment_amount * countInstalments(deposit.id, 'paid'),
+    0
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation userName={profile?.name} />
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-3">
+            <Repeat className="h-8 w-8 text-primary" />
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Recurring Deposits</h1>
+              <p className="text-muted-foreground">Save a fixed amount every month</p>
+            </div>
+          </div>
+
+          <Dialog open={isOpenDialogOpen} onOpenChange={setIsOpenDialogOpen}>
+            <DialogTrigger asChild>
+              <Button disabled={fundingAccounts.length === 0}>
+                <Plus className="h-4 w-4 mr-2" />
+                Open Deposit
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Open a Recurring Deposit</DialogTitle>
+                <DialogDescription>
+                  The first instalment is debited today and the rest on the same day of each month. The deposit
+                  is paid back into the same account at maturity.
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleOpenSubmit} className="space-y-4">
+                <div>
+                  <Label htmlFor="recurringAccount">From Account</Label>
+                  <Select
+                    value={fundingAccountId}
+                    onValueChange={(value) => setOpenForm({ ...openForm, account_id: value })}
+                  >
+                    <SelectTrigger id="recurringAccount">
+                      <SelectValue placeholder="Select an account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {fundingAccounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {getAccountLabel(account)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {fundingAccount && (
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Available balance: {formatMoney(fundingAccount.available_balance)}
+                    </p>
+                  )}
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div>
+                    <Label htmlFor="recurringAmount">Monthly Instalment ({currencySymbol()})</Label>
+                    <Input
+                      id="recurringAmount"
+                      type="number"
+                      min={settings?.min_instalment ?? 1}
+                      step="0.01"
+                      required
+                      value={openForm.amount}
+                      onChange={(e) => setOpenForm({ ...openForm, amount: e.target.value })}
+                      placeholder="Enter amount"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="recurringMonths">Duration</Label>
+                    <Select
+                      value={openForm.months}
+                      onValueChange={(value) => setOpenForm({ ...openForm, months: value })}
+                    >
+                      <SelectTrigger id="recurringMonths">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {MONTH_OPTIONS.map((option) => (
+                          <SelectItem key={option} value={String(option)}>
+                            {option} months
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {preview && (
+                  <div className="p-3 border rounded-lg bg-muted/50 space-y-1 text-sm">
+                    <p>
+                      <span className="text-muted-foreground">Interest rate: </span>
+                      {formatRate(preview.rate)} a year
+                    </p>
+                    <p>
+                      <span className="text-muted-foreground">You deposit: </span>
+                      {formatMoney(preview.totalDeposited)}
+                    </p>
+                    <p>
+                      <span className="text-muted-foreground">Maturity value: </span>
+                      <span className="font-medium">{formatMoney(preview.maturityAmount)}</span>
+                    </p>
+                    <p>
+                      <span className="text-muted-foreground">Matures on: </span>
+                      {format(preview.maturityDate, 'MMM dd, yyyy')}
+                    </p>
+                  </div>
+                )}
+
+                <DialogFooter>
+                  <Button type="submit" disabled={isSaving || !fundingAccount || !preview}>
+                    {isSaving ? 'Opening...' : 'Open Deposit'}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {/* Summary Cards */}
+        <div className="grid gap-6 md:grid-cols-3 mb-8">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Active Deposits</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{activeDeposits.length}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Monthly Instalments</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatMoney(monthlyCommitment)}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Deposited So Far</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-green-600">{formatMoney(totalDeposited)}</div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          {/* Deposits */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Your Deposits</CardTitle>
+              <CardDescription>Open a deposit to see its instalment schedule</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {deposits.length === 0 ? (
+                <div className="text-center py-8">
+                  <Repeat className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground">No recurring deposits yet</p>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Open a deposit to start saving every month
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {deposits.map((deposit) => {
+                    const paid = countInstalments(deposit.id, 'paid');
+                    const missed = countInstalments(deposit.id, 'missed');
+
+                    return (
+                      <Link
+                        key={deposit.id}
+                        to={`/recurring-deposits/${deposit.id}`}
+                        className="block p-4 border rounded-lg space-y-2 hover:bg-muted/50 transition-colors"
+                      >
+                        <div className="flex items-start justify-between gap-4">
+                          <div>
+                            <div className="flex items-center gap-2">
+                              <p className="font-medium font-mono">{deposit.deposit_number}</p>
+                              <Badge variant={deposit.status === 'active' ? 'default' : 'secondary'}>
+                                {getRecurringDepositStatusLabel(deposit.status)}
+                              </Badge>
+                              {missed > 0 && <Badge variant="destructive">{missed} missed</Badge>}
+                            </div>
+                            <p className="text-sm text-muted-foreground">
+                              {formatRate(deposit.annual_rate)} for {deposit.months} months
+                              {accountLabels[deposit.account_id] && ` • linked to ${accountLabels[deposit.account_id]}`}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <div className="text-right">
+                              <p className="text-lg font-bold">{formatMoney(deposit.instalment_amount)}</p>
+                              <p className="text-xs text-muted-foreground">a month</p>
+                            </div>
+                            <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                          </div>
+                        </div>
+
+                        {deposit.status === 'active' ? (
+                          <p className="text-sm">
+                            <span className="text-muted-foreground">{paid} of {deposit.months} paid • Matures </span>
+                            {format(parseISO(deposit.maturity_date), 'MMM dd, yyyy')}
+                          </p>
+                        ) : (
+                          <p className="text-sm">
+                            <span className="text-muted-foreground">Paid out with </span>
+                            {formatMoney(deposit.interest_paid ?? 0)}
+                            <span className="text-muted-foreground"> interest</span>
+                          </p>
+                        )}
+                      </Link>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Rates */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Interest Rates</CardTitle>
+              <CardDescription>Annual rates by duration</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {rates.map((slab) => (
+                <div key={slab.id} className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {slab.min_months} – {slab.max_months} months
+                  </span>
+                  <span className="font-medium">{formatRate(slab.annual_rate)}</span>
+                </div>
+              ))}
+              {settings && (
+                <p className="text-xs text-muted-foreground pt-2 border-t">
+                  Minimum instalment {formatMoney(settings.min_instalment)}. An instalment the account cannot
+                  cover on its due date is retried daily and charged a{' '}
+                  {formatRate(settings.missed_instalment_penalty_rate)} late penalty; instalments still unpaid at
+                  maturity earn nothing.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecurringDeposits;
@@ -0,0 +1,307 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useAccounts } from '@/components/accounts/AccountProvider';
+import { useToast } from '@/hooks/use-toast';
+import { useIdempotencyKey } from '@/hooks/use-idempotency-key';
+import { Navigation } from '@/components/layout/Navigation';
+import { LoadingState } from '@/components/ui/loading-spinner';
+import { QrScanner } from '@/components/payments/QrScanner';
+import { getAccountLabel } from '@/lib/accounts';
+import { currencySymbol, formatMoney } from '@/lib/money';
+import { PaymentQrPayload, parsePaymentQrPayload } from '@/lib/qr';
+import { AlertTriangle, ScanLine, UserCheck } from 'lucide-react';
+
+interface Profile {
+  name: string;
+}
+
+interface Recipient {
+  account_id: string;
+  name: string;
+  account_number_masked: string;
+}
+
+const ScanPay = () => {
+  const { user, loading } = useAuth();
+  const { accounts, selectedAccount, refreshAccounts } = useAccounts();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [payload, setPayload] = useState<PaymentQrPayload | null>(null);
+  const [recipient, setRecipient] = useState<Recipient | null>(null);
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [payForm, setPayForm] = useState({ account_id: '', amount: '', note: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const payKey = useIdempotencyKey();
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  // Fetch data
+  useEffect(() => {
+    if (user) {
+      fetchProfile();
+    }
+  }, [user]);
+
+  const fetchProfile = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('name')
+        .eq('user_id', user?.id)
+        .single();
+
+      if (!error && data) {
+        setProfile(data);
+      }
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+    }
+  };
+
+  const showError = useCallback(
+    (message: string) => {
+      toast({
+        title: 'Error',
+        description: message,
+        variant: 'destructive',
+      });
+    },
+    [toast]
+  );
+
+  const handleDecode = useCallback(
+    async (text: string) => {
+      const decoded = parsePaymentQrPayload(text);
+      if (!decoded) {
+        showError('That QR code is not a payment QR code.');
+        return;
+      }
+
+      setIsLookingUp(true);
+
+      // Pay whoever the bank finds for the handle or account number, never the name printed in the QR
+      const { data, error } = await supabase.rpc('find_transfer_recipient', {
+        p_identifier: decoded.handle ?? decoded.accountNumber ?? '',
+      });
+
+      if (error || !data || data.length === 0) {
+        showError(error?.message || 'No customer matches this QR code.');
+      } else {
+        setPayload(decoded);
+        setRecipient(data[0]);
+        setPayForm({
+          account_id: '',
+          amount: decoded.amount ? decoded.amount.toFixed(2) : '',
+          note: decoded.note ?? '',
+        });
+      }
+
+      setIsLookingUp(false);
+    },
+    [showError]
+  );
+
+  const resetScan = () => {
+    setPayload(null);
+    setRecipient(null);
+  };
+
+  // Transfers stay within one currency, so only accounts in the QR's currency can pay it
+  const payAccounts = payload
+    ? accounts.filter((account) => account.status === 'active' && account.currency === payload.currency)
+    : [];
+  const payFromId =
+    payForm.account_id ||
+    (payAccounts.find((account) => account.id === selectedAccount?.id) ?? payAccounts[0])?.id ||
+    '';
+  const payAccount = payAccounts.find((account) => account.id === payFromId) ?? null;
+  const nameMismatch =
+    payload?.name && recipient && payload.name.toLowerCase() !== recipient.name.toLowerCase();
+
+  const handlePaySubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!payload || !recipient || !payAccount) return;
+
+    const amount = parseFloat(payForm.amount);
+    if (!(amount > 0)) {
+      toast({
+        title: 'Invalid Amount',
+        description: 'Please enter a valid amount greater than 0.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    const { error } = await supabase.rpc('post_transfer', {
+      p_from_account_id: payAccount.id,
+      p_to_account_id: recipient.account_id,
+      p_amount: amount,
+      p_description: payForm.note,
+      p_idempotency_key: payKey.keyFor(`${payAccount.id}|${recipient.account_id}|${amount}|${payForm.note}`),
+    });
+
+    if (error) {
+      showError(error.message);
+    } else {
+      toast({
+        title: 'Payment Sent',
+        description: `${formatMoney(amount, payload.currency)} paid to ${recipient.name}.`,
+      });
+      payKey.complete();
+      refreshAccounts();
+      navigate('/dashboard');
+    }
+
+    setIsSaving(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation userName={profile?.name} />
+        <LoadingState>
+          <p className="text-muted-foreground">Loading...</p>
+        </LoadingState>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation userName={profile?.name} />
+
+      <div className="max-w-xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center gap-3 mb-8">
+          <ScanLine className="h-8 w-8 text-primary" />
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Scan to Pay</h1>
+            <p className="text-muted-foreground">Pay any customer's payment QR code</p>
+          </div>
+        </div>
+
+        {!payload || !recipient ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>Scan a QR Code</CardTitle>
+              <CardDescription>
+                {isLookingUp ? 'Finding the recipient...' : 'Use your camera or upload a photo or screenshot'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <QrScanner onDecode={handleDecode} onError={showError} />
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Confirm Payment</CardTitle>
+              <CardDescription>Check who you are paying before you confirm</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handlePaySubmit} className="space-y-4">
+                <div className="flex items-center gap-2 p-3 border rounded-lg bg-muted/50">
+                  <UserCheck className="h-4 w-4 text-green-600" />
+                  <div>
+                    <p className="text-sm font-medium">{recipient.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {payload.handle ?? <span className="font-mono">{recipient.account_number_masked}</span>}
+                    </p>
+                  </div>
+                </div>
+                {nameMismatch && (
+                  <div className="flex items-start gap-2 text-sm text-destructive">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                    <p>
+                      The QR code names this recipient "{payload.name}", but the account belongs to {recipient.name}.
+                      Only pay if you expected that.
+                    </p>
+                  </div>
+                )}
+
+                <div>
+                  <Label htmlFor="scanPayAccount">Pay from</Label>
+                  <Select
+                    value={payFromId}
+                    onValueChange={(value) => setPayForm({ ...payForm, account_id: value })}
+                  >
+                    <SelectTrigger id="scanPayAccount">
+                      <SelectValue placeholder="Select an account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {payAccounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {getAccountLabel(account)} • {formatMoney(account.available_balance, account.currency)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {payAccounts.length === 0 && (
+                    <p className="text-sm text-destructive mt-1">
+                      You need an active {payload.currency} account to pay this QR code.
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <Label htmlFor="scanPayAmount">Amount ({currencySymbol(payload.currency)})</Label>
+                  <Input
+                    id="scanPayAmount"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    required
+                    readOnly={payload.amount !== undefined}
+                    value={payForm.amount}
+                    onChange={(e) => setPayForm({ ...payForm, amount: e.target.value })}
+                    placeholder="Enter amount"
+                  />
+                  {payload.amount !== undefined && (
+                    <p className="text-sm text-muted-foreground mt-1">This QR code is for a fixed amount.</p>
+                  )}
+                </div>
+
+                <div>
+                  <Label htmlFor="scanPayNote">Note</Label>
+                  <Input
+                    id="scanPayNote"
+                    maxLength={80}
+                    value={payForm.note}
+                    onChange={(e) => setPayForm({ ...payForm, note: e.target.value })}
+                    placeholder="Optional"
+                  />
+                </div>
+
+                <div className="flex gap-2">
+                  <Button type="button" variant="outline" className="flex-1" onClick={resetScan}>
+                    Scan Again
+                  </Button>
+                  <Button type="submit" className="flex-1" disabled={isSaving || !payAccount}>
+                    {isSaving ? 'Paying...' : 'Pay'}
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScanPay;
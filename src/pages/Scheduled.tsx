@@ -0,0 +1,555 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useAccounts } from '@/components/accounts/AccountProvider';
+import { useToast } from '@/hooks/use-toast';
+import { Navigation } from '@/components/layout/Navigation';
+import { LoadingState } from '@/components/ui/loading-spinner';
+import { Beneficiary } from '@/lib/beneficiaries';
+import { getAccountLabel } from '@/lib/accounts';
+import { currencySymbol, formatMoney } from '@/lib/money';
+import { ScheduledTransaction, WEEKDAYS, describeFrequency, upcomingRuns } from '@/lib/schedules';
+import { format, parseISO } from 'date-fns';
+import { CalendarClock, Plus, Pause, Play, XCircle, AlertTriangle } from 'lucide-react';
+
+interface Profile {
+  name: string;
+}
+
+interface ScheduledRun {
+  id: string;
+  scheduled_transaction_id: string;
+  run_date: string;
+  status: string;
+  error: string | null;
+}
+
+const Scheduled = () => {
+  const { user, loading } = useAuth();
+  const { accounts, selectedAccount } = useAccounts();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [schedules, setSchedules] = useState<ScheduledTransaction[]>([]);
+  const [runs, setRuns] = useState<ScheduledRun[]>([]);
+  const [beneficiaries, setBeneficiaries] = useState<Beneficiary[]>([]);
+  const [schedulesLoading, setSchedulesLoading] = useState(true);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [createForm, setCreateForm] = useState({
+    transaction_type: 'withdraw',
+    payee_account_id: '',
+    frequency: 'once',
+    day_of_week: '1',
+    day_of_month: '1',
+  });
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  // Fetch data
+  useEffect(() => {
+    if (user) {
+      fetchProfile();
+      fetchSchedules();
+      fetchBeneficiaries();
+    }
+  }, [user]);
+
+  const fetchProfile = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('name')
+        .eq('user_id', user?.id)
+        .single();
+
+      if (!error && data) {
+        setProfile(data);
+      }
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+    }
+  };
+
+  const fetchBeneficiaries = async () => {
+    const { data, error } = await supabase
+      .from('beneficiaries')
+      .select('*')
+      .eq('user_id', user?.id)
+      .order('nickname');
+
+    if (error) {
+      console.error('Error fetching beneficiaries:', error);
+    } else {
+      setBeneficiaries(data || []);
+    }
+  };
+
+  const fetchSchedules = async () => {
+    try {
+      const [schedulesResult, runsResult] = await Promise.all([
+        supabase
+          .from('scheduled_transactions')
+          .select('*')
+          .eq('user_id', user?.id)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('scheduled_transaction_runs')
+          .select('id, scheduled_transaction_id, run_date, status, error')
+          .eq('user_id', user?.id)
+          .order('created_at', { ascending: false })
+          .limit(10),
+      ]);
+
+      if (schedulesResult.error) {
+        console.error('Error fetching scheduled transactions:', schedulesResult.error);
+        toast({
+          title: 'Error',
+          description: 'Failed to load scheduled transactions',
+          variant: 'destructive',
+        });
+      } else {
+        setSchedules(schedulesResult.data || []);
+      }
+
+      if (!runsResult.error) {
+        setRuns(runsResult.data || []);
+      }
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setSchedulesLoading(false);
+    }
+  };
+
+  const accountLabels = Object.fromEntries(accounts.map((account) => [account.id, getAccountLabel(account)]));
+  const accountCurrencies = Object.fromEntries(accounts.map((account) => [account.id, account.currency]));
+
+  const handleCreateSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const formData = new FormData(event.currentTarget);
+    const amount = parseFloat(formData.get('scheduleAmount') as string);
+    const description = formData.get('scheduleDescription') as string;
+    const startDate = formData.get('scheduleStartDate') as string;
+    const endDate = (formData.get('scheduleEndDate') as string) || undefined;
+    const maxRuns = parseInt(formData.get('scheduleMaxRuns') as string, 10) || undefined;
+
+    if (!(amount > 0)) {
+      toast({
+        title: 'Invalid Amount',
+        description: 'Please enter a valid amount greater than 0.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const isTransfer = createForm.transaction_type === 'transfer_out';
+    if (isTransfer && !createForm.payee_account_id) {
+      toast({
+        title: 'Select a Payee',
+        description: 'Scheduled transfers can only be made to saved payees.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (!selectedAccount) return;
+
+    setIsSaving(true);
+
+    const { error } = await supabase.rpc('create_scheduled_transaction', {
+      p_account_id: selectedAccount.id,
+      p_transaction_type: createForm.transaction_type,
+      p_amount: amount,
+      p_frequency: createForm.frequency,
+      p_start_date: startDate,
+      p_description: description,
+      p_recipient_account_id: isTransfer ? createForm.payee_account_id : undefined,
+      p_day_of_week: createForm.frequency === 'weekly' ? parseInt(createForm.day_of_week, 10) : undefined,
+      p_day_of_month: createForm.frequency === 'monthly' ? parseInt(createForm.day_of_month, 10) : undefined,
+      p_end_date: createForm.frequency === 'once' ? undefined : endDate,
+      p_max_runs: createForm.frequency === 'once' ? undefined : maxRuns,
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Scheduled',
+        description: 'Your standing instruction has been set up.',
+      });
+      setIsCreateOpen(false);
+      fetchSchedules();
+    }
+
+    setIsSaving(false);
+  };
+
+  const handleStatusChange = async (schedule: ScheduledTransaction, status: string) => {
+    const { error } = await supabase.rpc('update_scheduled_transaction_status', {
+      p_id: schedule.id,
+      p_status: status,
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      fetchSchedules();
+    }
+  };
+
+  const getStatusVariant = (status: string) => {
+    switch (status) {
+      case 'active':
+        return 'default';
+      case 'failed':
+        return 'destructive';
+      default:
+        return 'secondary';
+    }
+  };
+
+  if (loading || schedulesLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation userName={profile?.name} />
+        <LoadingState>
+          <p className="text-muted-foreground">Loading your scheduled transactions...</p>
+        </LoadingState>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation userName={profile?.name} />
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-3">
+            <CalendarClock className="h-8 w-8 text-primary" />
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Scheduled Transactions</h1>
+              <p className="text-muted-foreground">Future-dated and recurring payments</p>
+            </div>
+          </div>
+
+          <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                New Instruction
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>New Standing Instruction</DialogTitle>
+                <DialogDescription>
+                  Runs are posted from {selectedAccount ? getAccountLabel(selectedAccount) : 'your account'} on the
+                  scheduled date. If funds are short the run is skipped.
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleCreateSubmit} className="space-y-4">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div>
+                    <Label htmlFor="scheduleType">Type</Label>
+                    <Select
+                      value={createForm.transaction_type}
+                      onValueChange={(value) => setCreateForm({ ...createForm, transaction_type: value })}
+                    >
+                      <SelectTrigger id="scheduleType">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="withdraw">Withdrawal</SelectItem>
+                        <SelectItem value="transfer_out">Transfer to payee</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="scheduleAmount">Amount ({currencySymbol(selectedAccount?.currency)})</Label>
+                    <Input
+                      id="scheduleAmount"
+                      name="scheduleAmount"
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      required
+                      placeholder="Enter amount"
+                    />
+                  </div>
+                </div>
+
+                {createForm.transaction_type === 'transfer_out' && (
+                  <div>
+                    <Label htmlFor="schedulePayee">Payee</Label>
+                    <Select
+                      value={createForm.payee_account_id}
+                      onValueChange={(value) => setCreateForm({ ...createForm, payee_account_id: value })}
+                    >
+                      <SelectTrigger id="schedulePayee">
+                        <SelectValue placeholder="Select a saved payee" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {beneficiaries.map((beneficiary) => (
+                          <SelectItem key={beneficiary.id} value={beneficiary.payee_account_id}>
+                            {beneficiary.nickname} ({beneficiary.account_number_masked})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div>
+                    <Label htmlFor="scheduleFrequency">Repeat</Label>
+                    <Select
+                      value={createForm.frequency}
+                      onValueChange={(value) => setCreateForm({ ...createForm, frequency: value })}
+                    >
+                      <SelectTrigger id="scheduleFrequency">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="once">Once</SelectItem>
+                        <SelectItem value="daily">Daily</SelectItem>
+                        <SelectItem value="weekly">Weekly</SelectItem>
+                        <SelectItem value="monthly">Monthly</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="scheduleStartDate">
+                      {createForm.frequency === 'once' ? 'Date' : 'Starting'}
+                    </Label>
+                    <Input
+                      id="scheduleStartDate"
+                      name="scheduleStartDate"
+                      type="date"
+                      required
+                      min={format(new Date(), 'yyyy-MM-dd')}
+                      defaultValue={format(new Date(), 'yyyy-MM-dd')}
+                    />
+                  </div>
+                </div>
+
+                {createForm.frequency === 'weekly' && (
+                  <div>
+                    <Label htmlFor="scheduleDayOfWeek">On</Label>
+                    <Select
+                      value={createForm.day_of_week}
+                      onValueChange={(value) => setCreateForm({ ...createForm, day_of_week: value })}
+                    >
+                      <SelectTrigger id="scheduleDayOfWeek">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WEEKDAYS.map((day, index) => (
+                          <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {createForm.frequency === 'monthly' && (
+                  <div>
+                    <Label htmlFor="scheduleDayOfMonth">Day of Month</Label>
+                    <Input
+                      id="scheduleDayOfMonth"
+                      type="number"
+                      min="1"
+                      max="31"
+                      value={createForm.day_of_month}
+                      onChange={(e) => setCreateForm({ ...createForm, day_of_month: e.target.value })}
+                    />
+                  </div>
+                )}
+
+                {createForm.frequency !== 'once' && (
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div>
+                      <Label htmlFor="scheduleEndDate">End Date (Optional)</Label>
+                      <Input id="scheduleEndDate" name="scheduleEndDate" type="date" />
+                    </div>
+                    <div>
+                      <Label htmlFor="scheduleMaxRuns">Number of Payments (Optional)</Label>
+                      <Input id="scheduleMaxRuns" name="scheduleMaxRuns" type="number" min="1" step="1" />
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <Label htmlFor="scheduleDescription">Description (Optional)</Label>
+                  <Input
+                    id="scheduleDescription"
+                    name="scheduleDescription"
+                    placeholder="e.g. Rent"
+                  />
+                </div>
+
+                <DialogFooter>
+                  <Button type="submit" disabled={isSaving}>
+                    {isSaving ? 'Saving...' : 'Schedule'}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          {/* Instructions */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Standing Instructions</CardTitle>
+              <CardDescription>Upcoming runs for each instruction</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {schedules.length === 0 ? (
+                <div className="text-center py-8">
+                  <CalendarClock className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground">No scheduled transactions</p>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Schedule a future or recurring payment to see it here
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {schedules.map((schedule) => {
+                    const nextRuns = upcomingRuns(schedule);
+                    return (
+                      <div key={schedule.id} className="p-4 border rounded-lg space-y-2">
+                        <div className="flex items-start justify-between gap-4">
+                          <div>
+                            <div className="flex items-center gap-2">
+                              <p className="font-medium">
+                                {schedule.transaction_type === 'transfer_out'
+                                  ? `Transfer to ${schedule.recipient_name}`
+                                  : 'Withdrawal'}
+                              </p>
+                              <Badge variant={getStatusVariant(schedule.status)} className="capitalize">
+                                {schedule.status}
+                              </Badge>
+                            </div>
+                            <p className="text-sm text-muted-foreground">
+                              {describeFrequency(schedule)}
+                              {accountLabels[schedule.account_id] && ` • from ${accountLabels[schedule.account_id]}`}
+                              {schedule.description && ` • ${schedule.description}`}
+                            </p>
+                          </div>
+                          <p className="text-lg font-bold">{formatMoney(schedule.amount, accountCurrencies[schedule.account_id])}</p>
+                        </div>
+
+                        {schedule.max_runs !== null && schedule.frequency !== 'once' && (
+                          <p className="text-sm text-muted-foreground">
+                            {schedule.runs_count} of {schedule.max_runs} payments made
+                          </p>
+                        )}
+
+                        {nextRuns.length > 0 && (
+                          <p className="text-sm">
+                            <span className="text-muted-foreground">Next: </span>
+                            {nextRuns.map((date) => format(date, 'MMM dd, yyyy')).join(' • ')}
+                          </p>
+                        )}
+
+                        {schedule.last_error && (
+                          <p className="flex items-center gap-1 text-sm text-destructive">
+                            <AlertTriangle className="h-4 w-4" />
+                            Last run failed: {schedule.last_error}
+                          </p>
+                        )}
+
+                        <div className="flex gap-2">
+                          {schedule.status === 'active' && (
+                            <Button size="sm" variant="outline" onClick={() => handleStatusChange(schedule, 'paused')}>
+                              <Pause className="h-4 w-4 mr-2" />
+                              Pause
+                            </Button>
+                          )}
+                          {(schedule.status === 'paused' || schedule.status === 'failed') && (
+                            <Button size="sm" variant="outline" onClick={() => handleStatusChange(schedule, 'active')}>
+                              <Play className="h-4 w-4 mr-2" />
+                              Resume
+                            </Button>
+                          )}
+                          {['active', 'paused', 'failed'].includes(schedule.status) && (
+                            <Button size="sm" variant="outline" onClick={() => handleStatusChange(schedule, 'cancelled')}>
+                              <XCircle className="h-4 w-4 mr-2" />
+                              Cancel
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Run history */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Recent Runs</CardTitle>
+              <CardDescription>The last 10 executions</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {runs.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">No runs yet</p>
+              ) : (
+                <div className="space-y-3">
+                  {runs.map((run) => (
+                    <div key={run.id} className="flex items-start justify-between gap-2 text-sm">
+                      <div>
+                        <p>{format(parseISO(run.run_date), 'MMM dd, yyyy')}</p>
+                        {run.error && <p className="text-xs text-muted-foreground">{run.error}</p>}
+                      </div>
+                      <Badge variant={run.status === 'succeeded' ? 'default' : 'destructive'} className="capitalize">
+                        {run.status}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Scheduled;
@@ -24,6 +24,7 @@ import {
 
 interface Profile {
   name: string;
+  sms_alerts: boolean;
 }
 
 const Settings = () => {
@@ -57,12 +58,13 @@ const Settings = () => {
     try {
       const { data, error } = await supabase
         .from('profiles')
-        .select('name')
+        .select('name, sms_alerts')
         .eq('user_id', user?.id)
         .single();
 
       if (!error && data) {
         setProfile(data);
+        setNotifications(prev => ({ ...prev, sms: data.sms_alerts }));
       }
     } catch (error) {
       console.error('Error fetching profile:', error);
@@ -71,7 +73,24 @@ const Settings = () => {
     }
   };
 
-  const handleNotificationChange = (key: keyof typeof notifications, value: boolean) => {
+  const handleNotificationChange = async (key: keyof typeof notifications, value: boolean) => {
+    // SMS alerts are charged for, so that preference is kept on the profile
+    if (key === 'sms') {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ sms_alerts: value })
+        .eq('user_id', user?.id);
+
+      if (error) {
+        toast({
+          title: 'Error',
+          description: 'Failed to update SMS notifications',
+          variant: 'destructive',
+        });
+        return;
+      }
+    }
+
     setNotifications(prev => ({ ...prev, [key]: value }));
     toast({
       title: 'Settings Updated',
@@ -182,7 +201,7 @@ const Settings = () => {
                   <div>
                     <Label className="text-base font-medium">SMS Notifications</Label>
                     <p className="text-sm text-muted-foreground">
-                      Receive transaction alerts via SMS
+                      Receive transaction alerts via SMS (charged per alert)
                     </p>
                   </div>
                 </div>
@@ -0,0 +1,814 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useAccounts } from '@/components/accounts/AccountProvider';
+import { useToast } from '@/hooks/use-toast';
+import { Navigation } from '@/components/layout/Navigation';
+import { LoadingState } from '@/components/ui/loading-spinner';
+import { getAccountLabel } from '@/lib/accounts';
+import { currencySymbol, formatMoney } from '@/lib/money';
+import { HANDLE_SUFFIX, getCollectRequestStatus, getCollectStatusLabel } from '@/lib/payments';
+import {
+  SplitExpense,
+  SplitExpenseShare,
+  SplitGroup,
+  SplitMemberBalance,
+  SplitSettlement,
+  SplitType,
+  SuggestedPayment,
+  equalShares,
+  getSplitTypeLabel,
+  simplifyDebts,
+} from '@/lib/splits';
+import { format, parseISO } from 'date-fns';
+import { ArrowRight, Plus, Receipt, Split, Trash2, UserPlus, Users } from 'lucide-react';
+
+interface Profile {
+  name: string;
+}
+
+const emptyExpenseForm = {
+  description: '',
+  amount: '',
+  paid_by_user_id: '',
+  split_type: 'equal' as SplitType,
+  member_ids: [] as string[],
+  values: {} as Record<string, string>,
+};
+
+const SplitGroupDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, loading } = useAuth();
+  const { accounts, selectedAccount } = useAccounts();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [group, setGroup] = useState<SplitGroup | null>(null);
+  const [balances, setBalances] = useState<SplitMemberBalance[]>([]);
+  const [expenses, setExpenses] = useState<SplitExpense[]>([]);
+  const [shares, setShares] = useState<SplitExpenseShare[]>([]);
+  const [settlements, setSettlements] = useState<SplitSettlement[]>([]);
+  const [groupLoading, setGroupLoading] = useState(true);
+  const [isMemberOpen, setIsMemberOpen] = useState(false);
+  const [memberHandle, setMemberHandle] = useState('');
+  const [isExpenseOpen, setIsExpenseOpen] = useState(false);
+  const [expenseForm, setExpenseForm] = useState(emptyExpenseForm);
+  const [settleTarget, setSettleTarget] = useState<SuggestedPayment | null>(null);
+  const [settleForm, setSettleForm] = useState({ account_id: '', amount: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  // Fetch data
+  useEffect(() => {
+    if (user && id) {
+      fetchProfile();
+      fetchGroup();
+    }
+  }, [user, id]);
+
+  const fetchProfile = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('name')
+        .eq('user_id', user?.id)
+        .single();
+
+      if (!error && data) {
+        setProfile(data);
+      }
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+    }
+  };
+
+  const fetchGroup = async () => {
+    if (!id) return;
+
+    try {
+      const [groupResult, balancesResult, expensesResult, settlementsResult] = await Promise.all([
+        supabase.from('split_groups').select('*').eq('id', id).maybeSingle(),
+        supabase.rpc('get_split_group_balances', { p_group_id: id }),
+        supabase
+          .from('split_expenses')
+          .select('*')
+          .eq('group_id', id)
+          .order('created_at', { ascending: false }),
+        supabase.rpc('get_split_settlements', { p_group_id: id }),
+      ]);
+
+      if (groupResult.error) throw groupResult.error;
+
+      const expenseRows = expensesResult.data || [];
+      setGroup(groupResult.data);
+      setBalances(balancesResult.data || []);
+      setExpenses(expenseRows);
+      setSettlements(settlementsResult.data || []);
+
+      if (expenseRows.length > 0) {
+        const { data, error } = await supabase
+          .from('split_expense_shares')
+          .select('*')
+          .in('expense_id', expenseRows.map((expense) => expense.id));
+
+        if (error) throw error;
+        setShares(data || []);
+      } else {
+        setShares([]);
+      }
+    } catch (error) {
+      console.error('Error fetching split group:', error);
+    } finally {
+      setGroupLoading(false);
+    }
+  };
+
+  const showError = (message: string) => {
+    toast({
+      title: 'Error',
+      description: message,
+      variant: 'destructive',
+    });
+  };
+
+  const memberName = (userId: string) =>
+    userId === user?.id ? 'You' : balances.find((balance) => balance.user_id === userId)?.name ?? 'A member';
+
+  const handleAddMember = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!id) return;
+    setIsSaving(true);
+
+    const { data, error } = await supabase.rpc('add_split_group_member', {
+      p_group_id: id,
+      p_handle: memberHandle,
+    });
+
+    if (error) {
+      showError(error.message);
+    } else {
+      toast({
+        title: 'Member Added',
+        description: `${data.name ?? data.handle} is now in ${group?.name}.`,
+      });
+      setIsMemberOpen(false);
+      setMemberHandle('');
+      fetchGroup();
+    }
+
+    setIsSaving(false);
+  };
+
+  const openExpenseDialog = (open: boolean) => {
+    if (open) {
+      setExpenseForm({
+        ...emptyExpenseForm,
+        paid_by_user_id: user?.id ?? '',
+        member_ids: balances.map((balance) => balance.user_id),
+      });
+    }
+    setIsExpenseOpen(open);
+  };
+
+  // Keep the members in the group's order so values line up with the preview
+  const toggleExpenseMember = (userId: string, checked: boolean) => {
+    const memberIds = checked ? [...expenseForm.member_ids, userId] : expenseForm.member_ids;
+    setExpenseForm({
+      ...expenseForm,
+      member_ids: balances
+        .map((balance) => balance.user_id)
+        .filter((memberId) => memberId !== userId || checked)
+        .filter((memberId) => memberIds.includes(memberId)),
+    });
+  };
+
+  const expenseAmount = parseFloat(expenseForm.amount) || 0;
+  const valuesTotal = expenseForm.member_ids.reduce(
+    (sum, memberId) => sum + (parseFloat(expenseForm.values[memberId]) || 0),
+    0
+  );
+  const equalPreview = equalShares(expenseAmount, expenseForm.member_ids.length || 1);
+
+  const handleAddExpense = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!id) return;
+
+    if (!(expenseAmount > 0)) {
+      toast({
+        title: 'Invalid Amount',
+        description: 'Please enter a valid amount greater than 0.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (expenseForm.member_ids.length === 0) {
+      showError('Choose who shares the expense.');
+      return;
+    }
+
+    setIsSaving(true);
+
+    const { error } = await supabase.rpc('add_split_expense', {
+      p_group_id: id,
+      p_description: expenseForm.description,
+      p_amount: expenseAmount,
+      p_paid_by_user_id: expenseForm.paid_by_user_id,
+      p_split_type: expenseForm.split_type,
+      p_member_ids: expenseForm.member_ids,
+      p_values:
+        expenseForm.split_type === 'equal'
+          ? undefined
+          : expenseForm.member_ids.map((memberId) => parseFloat(expenseForm.values[memberId]) || 0),
+    });
+
+    if (error) {
+      showError(error.message);
+    } else {
+      toast({
+        title: 'Expense Added',
+        description: `${expenseForm.description} for ${formatMoney(expenseAmount, group?.currency)} was split.`,
+      });
+      setIsExpenseOpen(false);
+      fetchGroup();
+    }
+
+    setIsSaving(false);
+  };
+
+  const handleDeleteExpense = async (expense: SplitExpense) => {
+    const { error } = await supabase.rpc('delete_split_expense', { p_expense_id: expense.id });
+
+    if (error) {
+      showError(error.message);
+    } else {
+      toast({
+        title: 'Expense Removed',
+        description: `${expense.description} no longer counts towards the group's balances.`,
+      });
+      fetchGroup();
+    }
+  };
+
+  // Only accounts in the group's currency can receive a settlement
+  const settleAccounts = group
+    ? accounts.filter((account) => account.status === 'active' && account.currency === group.currency)
+    : [];
+  const settleAccountId =
+    settleForm.account_id ||
+    (settleAccounts.find((account) => account.id === selectedAccount?.id) ?? settleAccounts[0])?.id ||
+    '';
+
+  const openSettleDialog = (payment: SuggestedPayment) => {
+    setSettleForm({ account_id: '', amount: payment.amount.toFixed(2) });
+    setSettleTarget(payment);
+  };
+
+  const handleSettle = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!id || !settleTarget) return;
+
+    const amount = parseFloat(settleForm.amount);
+    if (!(amount > 0) || amount > settleTarget.amount) {
+      toast({
+        title: 'Invalid Amount',
+        description: `Enter an amount up to ${formatMoney(settleTarget.amount, group?.currency)}.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    const { error } = await supabase.rpc('request_split_settlement', {
+      p_group_id: id,
+      p_debtor_user_id: settleTarget.fromUserId,
+      p_account_id: settleAccountId,
+      p_amount: amount,
+    });
+
+    if (error) {
+      showError(error.message);
+    } else {
+      toast({
+        title: 'Request Sent',
+        description: `${memberName(settleTarget.fromUserId)} has been asked to pay ${formatMoney(amount, group?.currency)}.`,
+      });
+      setSettleTarget(null);
+      fetchGroup();
+    }
+
+    setIsSaving(false);
+  };
+
+  if (loading || groupLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation userName={profile?.name} />
+        <LoadingState>
+          <p className="text-muted-foreground">Loading group...</p>
+        </LoadingState>
+      </div>
+    );
+  }
+
+  if (!group) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation userName={profile?.name} />
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 text-center">
+          <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground mb-4">Group not found</p>
+          <Button asChild variant="outline">
+            <Link to="/splits">Back to Split Bills</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const suggestedPayments = simplifyDebts(balances);
+  const now = new Date();
+  const pendingSettlements = settlements.filter(
+    (settlement) => getCollectRequestStatus(settlement, now) === 'pending'
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation userName={profile?.name} />
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-3">
+            <Split className="h-8 w-8 text-primary" />
+            <div>
+              <div className="flex items-center gap-2">
+                <h1 className="text-3xl font-bold text-foreground">{group.name}</h1>
+                <Badge variant="outline">{group.currency}</Badge>
+              </div>
+              <p className="text-muted-foreground">
+                <Link to="/splits" className="hover:underline">
+                  Split Bills
+                </Link>{' '}
+                • {balances.length} {balances.length === 1 ? 'member' : 'members'}
+              </p>
+            </div>
+          </div>
+
+          <Dialog open={isExpenseOpen} onOpenChange={openExpenseDialog}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Expense
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Add an Expense</DialogTitle>
+                <DialogDescription>Record what someone paid and who shares it.</DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleAddExpense} className="space-y-4">
+                <div>
+                  <Label htmlFor="expenseDescription">Description</Label>
+                  <Input
+                    id="expenseDescription"
+                    required
+                    maxLength={80}
+                    value={expenseForm.description}
+                    onChange={(e) => setExpenseForm({ ...expenseForm, description: e.target.value })}
+                    placeholder="e.g. Dinner at Olive"
+                  />
+                </div>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div>
+                    <Label htmlFor="expenseAmount">Amount ({currencySymbol(group.currency)})</Label>
+                    <Input
+                      id="expenseAmount"
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      required
+                      value={expenseForm.amount}
+                      onChange={(e) => setExpenseForm({ ...expenseForm, amount: e.target.value })}
+                      placeholder="Enter amount"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="expensePaidBy">Paid by</Label>
+                    <Select
+                      value={expenseForm.paid_by_user_id}
+                      onValueChange={(value) => setExpenseForm({ ...expenseForm, paid_by_user_id: value })}
+                    >
+                      <SelectTrigger id="expensePaidBy">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {balances.map((balance) => (
+                          <SelectItem key={balance.user_id} value={balance.user_id}>
+                            {memberName(balance.user_id)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="expenseSplitType">Split</Label>
+                  <Select
+                    value={expenseForm.split_type}
+                    onValueChange={(value) => setExpenseForm({ ...expenseForm, split_type: value as SplitType })}
+                  >
+                    <SelectTrigger id="expenseSplitType">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(['equal', 'percentage', 'exact'] as SplitType[]).map((splitType) => (
+                        <SelectItem key={splitType} value={splitType}>
+                          {getSplitTypeLabel(splitType)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Shared between</Label>
+                  {balances.map((balance) => {
+                    const index = expenseForm.member_ids.indexOf(balance.user_id);
+                    const included = index >= 0;
+
+                    return (
+                      <div key={balance.user_id} className="flex items-center gap-3">
+                        <Checkbox
+                          id={`share-${balance.user_id}`}
+                          checked={included}
+                          onCheckedChange={(checked) => toggleExpenseMember(balance.user_id, checked === true)}
+                        />
+                        <Label htmlFor={`share-${balance.user_id}`} className="flex-1 font-normal">
+                          {memberName(balance.user_id)}
+                        </Label>
+                        {included && expenseForm.split_type === 'equal' && (
+                          <span className="text-sm text-muted-foreground">
+                            {formatMoney(equalPreview[index], group.currency)}
+                          </span>
+                        )}
+                        {included && expenseForm.split_type !== 'equal' && (
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            required
+                            className="w-28"
+                            aria-label={`Share for ${memberName(balance.user_id)}`}
+                            value={expenseForm.values[balance.user_id] ?? ''}
+                            onChange={(e) =>
+                              setExpenseForm({
+                                ...expenseForm,
+                                values: { ...expenseForm.values, [balance.user_id]: e.target.value },
+                              })
+                            }
+                            placeholder={expenseForm.split_type === 'percentage' ? '%' : currencySymbol(group.currency)}
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                  {expenseForm.split_type === 'percentage' && (
+                    <p className="text-sm text-muted-foreground">
+                      {Math.round(valuesTotal * 100) / 100}% of 100% assigned
+                    </p>
+                  )}
+                  {expenseForm.split_type === 'exact' && (
+                    <p className="text-sm text-muted-foreground">
+                      {formatMoney(valuesTotal, group.currency)} of {formatMoney(expenseAmount, group.currency)}{' '}
+                      assigned
+                    </p>
+                  )}
+                </div>
+
+                <DialogFooter>
+                  <Button type="submit" disabled={isSaving}>
+                    {isSaving ? 'Saving...' : 'Add Expense'}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <div className="lg:col-span-2 space-y-6">
+            {/* Who owes whom */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Who Owes Whom</CardTitle>
+                <CardDescription>The fewest payments that square everyone up</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {suggestedPayments.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">
+                    {pendingSettlements.length > 0
+                      ? 'Everything left is waiting on a settle-up request.'
+                      : 'Everyone is settled up.'}
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    {suggestedPayments.map((payment) => (
+                      <div
+                        key={`${payment.fromUserId}-${payment.toUserId}`}
+                        className="flex items-center justify-between gap-4 p-3 border rounded-lg"
+                      >
+                        <div className="flex items-center gap-2 text-sm">
+                          <span className="font-medium">{memberName(payment.fromUserId)}</span>
+                          <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                          <span className="font-medium">{memberName(payment.toUserId)}</span>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <span className="font-bold">{formatMoney(payment.amount, group.currency)}</span>
+                          {payment.toUserId === user?.id && (
+                            <Button size="sm" onClick={() => openSettleDialog(payment)}>
+                              Settle Up
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Expenses */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Expenses</CardTitle>
+                <CardDescription>Everything recorded in this group</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {expenses.length === 0 ? (
+                  <div className="text-center py-8">
+                    <Receipt className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                    <p className="text-muted-foreground">No expenses yet</p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {expenses.map((expense) => {
+                      const expenseShares = shares.filter((share) => share.expense_id === expense.id);
+
+                      return (
+                        <div key={expense.id} className="p-4 border rounded-lg space-y-2">
+                          <div className="flex items-start justify-between gap-4">
+                            <div>
+                              <p className="font-medium">{expense.description}</p>
+                              <p className="text-sm text-muted-foreground">
+                                {memberName(expense.paid_by_user_id)} paid •{' '}
+                                {getSplitTypeLabel(expense.split_type)} •{' '}
+                                {format(parseISO(expense.created_at), 'MMM dd, yyyy')}
+                              </p>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <p className="font-bold">{formatMoney(expense.amount, group.currency)}</p>
+                              {expense.created_by === user?.id && (
+                                <AlertDialog>
+                                  <AlertDialogTrigger asChild>
+                                    <Button size="icon" variant="ghost" aria-label="Remove expense">
+                                      <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                  </AlertDialogTrigger>
+                                  <AlertDialogContent>
+                                    <AlertDialogHeader>
+                                      <AlertDialogTitle>Remove this expense?</AlertDialogTitle>
+                                      <AlertDialogDescription>
+                                        {expense.description} will no longer count towards anyone's balance.
+                                        Settlements already paid are kept.
+                                      </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <AlertDialogFooter>
+                                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                      <AlertDialogAction onClick={() => handleDeleteExpense(expense)}>
+                                        Remove
+                                      </AlertDialogAction>
+                                    </AlertDialogFooter>
+                                  </AlertDialogContent>
+                                </AlertDialog>
+                              )}
+                            </div>
+                          </div>
+                          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                            {expenseShares.map((share) => (
+                              <span key={share.id}>
+                                {memberName(share.user_id)} {formatMoney(share.amount, group.currency)}
+                                {share.percentage !== null && ` (${share.percentage}%)`}
+                              </span>
+                            ))}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Settlements */}
+            {settlements.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Settlements</CardTitle>
+                  <CardDescription>Settle-up requests sent in this group</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3">
+                    {settlements.map((settlement) => {
+                      const status = getCollectRequestStatus(settlement, now);
+
+                      return (
+                        <div key={settlement.id} className="flex items-center justify-between gap-4 text-sm">
+                          <div>
+                            <p>
+                              {memberName(settlement.from_user_id)} to {memberName(settlement.to_user_id)}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {format(parseISO(settlement.created_at), 'MMM dd, yyyy hh:mm a')}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{formatMoney(settlement.amount, group.currency)}</span>
+                            <Badge variant={status === 'approved' ? 'default' : 'secondary'}>
+                              {getCollectStatusLabel(status)}
+                            </Badge>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          <div className="space-y-6">
+            {/* Balances */}
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle>Balances</CardTitle>
+                  <CardDescription>Paid minus share, after settlements</CardDescription>
+                </div>
+                <Dialog open={isMemberOpen} onOpenChange={setIsMemberOpen}>
+                  <DialogTrigger asChild>
+                    <Button size="sm" variant="outline">
+                      <UserPlus className="h-4 w-4 mr-2" />
+                      Add
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent>
+                    <DialogHeader>
+                      <DialogTitle>Add a Member</DialogTitle>
+                      <DialogDescription>Add a friend by their payment handle.</DialogDescription>
+                    </DialogHeader>
+                    <form onSubmit={handleAddMember} className="space-y-4">
+                      <div>
+                        <Label htmlFor="memberHandle">Handle</Label>
+                        <Input
+                          id="memberHandle"
+                          required
+                          value={memberHandle}
+                          onChange={(e) => setMemberHandle(e.target.value)}
+                          placeholder={`e.g. asha${HANDLE_SUFFIX}`}
+                        />
+                      </div>
+                      <DialogFooter>
+                        <Button type="submit" disabled={isSaving}>
+                          {isSaving ? 'Adding...' : 'Add Member'}
+                        </Button>
+                      </DialogFooter>
+                    </form>
+                  </DialogContent>
+                </Dialog>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {balances.map((balance) => (
+                  <div key={balance.user_id} className="flex items-center justify-between gap-4">
+                    <div>
+                      <p className="text-sm font-medium">{memberName(balance.user_id)}</p>
+                      <p className="text-xs text-muted-foreground">{balance.handle}</p>
+                    </div>
+                    <div className="text-right">
+                      <p
+                        className={`text-sm font-bold ${
+                          balance.balance > 0 ? 'text-green-600' : balance.balance < 0 ? 'text-red-600' : ''
+                        }`}
+                      >
+                        {balance.balance > 0 ? '+' : balance.balance < 0 ? '−' : ''}
+                        {formatMoney(Math.abs(balance.balance), group.currency)}
+                      </p>
+                      {(balance.requested_in > 0 || balance.requested_out > 0) && (
+                        <p className="text-xs text-muted-foreground">
+                          {formatMoney(balance.requested_in + balance.requested_out, group.currency)} requested
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+
+      {/* Settle up */}
+      <Dialog open={!!settleTarget} onOpenChange={(open) => !open && setSettleTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Settle Up</DialogTitle>
+            <DialogDescription>
+              {settleTarget &&
+                `${memberName(settleTarget.fromUserId)} gets a collect request to pay you. It counts towards the group once they approve it.`}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSettle} className="space-y-4">
+            <div>
+              <Label htmlFor="settleAccount">Receive into</Label>
+              <Select
+                value={settleAccountId}
+                onValueChange={(value) => setSettleForm({ ...settleForm, account_id: value })}
+              >
+                <SelectTrigger id="settleAccount">
+                  <SelectValue placeholder="Select an account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {settleAccounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {getAccountLabel(account)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {settleAccounts.length === 0 && (
+                <p className="text-sm text-destructive mt-1">
+                  You need an active {group.currency} account to receive this settlement.
+                </p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="settleAmount">Amount ({currencySymbol(group.currency)})</Label>
+              <Input
+                id="settleAmount"
+                type="number"
+                min="0.01"
+                max={settleTarget?.amount}
+                step="0.01"
+                required
+                value={settleForm.amount}
+                onChange={(e) => setSettleForm({ ...settleForm, amount: e.target.value })}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={isSaving || !settleAccountId}>
+                {isSaving ? 'Sending...' : 'Send Request'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SplitGroupDetail;
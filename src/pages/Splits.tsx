@@ -0,0 +1,281 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { Navigation } from '@/components/layout/Navigation';
+import { LoadingState } from '@/components/ui/loading-spinner';
+import { CURRENCIES, DEFAULT_CURRENCY, formatMoney } from '@/lib/money';
+import { SplitGroup, SplitMemberBalance } from '@/lib/splits';
+import { ChevronRight, Plus, Split, Users } from 'lucide-react';
+
+interface Profile {
+  name: string;
+}
+
+interface GroupSummary {
+  group: SplitGroup;
+  members: number;
+  myBalance: number;
+}
+
+const Splits = () => {
+  const { user, loading } = useAuth();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [groups, setGroups] = useState<GroupSummary[]>([]);
+  const [hasHandle, setHasHandle] = useState(false);
+  const [groupsLoading, setGroupsLoading] = useState(true);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [createForm, setCreateForm] = useState({ name: '', currency: DEFAULT_CURRENCY });
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  // Fetch data
+  useEffect(() => {
+    if (user) {
+      fetchProfile();
+      fetchGroups();
+    }
+  }, [user]);
+
+  const fetchProfile = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('name')
+        .eq('user_id', user?.id)
+        .single();
+
+      if (!error && data) {
+        setProfile(data);
+      }
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+    }
+  };
+
+  const fetchGroups = async () => {
+    try {
+      const [groupsResult, handleResult] = await Promise.all([
+        supabase.from('split_groups').select('*').order('created_at', { ascending: false }),
+        supabase.from('payment_handles').select('handle').eq('user_id', user?.id).maybeSingle(),
+      ]);
+
+      if (groupsResult.error) throw groupsResult.error;
+      setHasHandle(!!handleResult.data);
+
+      const summaries = await Promise.all(
+        (groupsResult.data || []).map(async (group) => {
+          const { data } = await supabase.rpc('get_split_group_balances', { p_group_id: group.id });
+          const balances: SplitMemberBalance[] = data || [];
+          return {
+            group,
+            members: balances.length,
+            myBalance: balances.find((balance) => balance.user_id === user?.id)?.balance ?? 0,
+          };
+        })
+      );
+
+      setGroups(summaries);
+    } catch (error) {
+      console.error('Error fetching split groups:', error);
+    } finally {
+      setGroupsLoading(false);
+    }
+  };
+
+  const handleCreateSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSaving(true);
+
+    const { data, error } = await supabase.rpc('create_split_group', {
+      p_name: createForm.name,
+      p_currency: createForm.currency,
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setIsCreateOpen(false);
+      navigate(`/splits/${data.id}`);
+    }
+
+    setIsSaving(false);
+  };
+
+  if (loading || groupsLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation userName={profile?.name} />
+        <LoadingState>
+          <p className="text-muted-foreground">Loading your groups...</p>
+        </LoadingState>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation userName={profile?.name} />
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-3">
+            <Split className="h-8 w-8 text-primary" />
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Split Bills</h1>
+              <p className="text-muted-foreground">Share expenses with friends and settle up in one tap</p>
+            </div>
+          </div>
+
+          <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+            <DialogTrigger asChild>
+              <Button disabled={!hasHandle}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Group
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Start a Group</DialogTitle>
+                <DialogDescription>
+                  Add friends by their payment handle once the group is created. Everything in a group is
+                  shared and settled in one currency.
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleCreateSubmit} className="space-y-4">
+                <div>
+                  <Label htmlFor="groupName">Name</Label>
+                  <Input
+                    id="groupName"
+                    required
+                    maxLength={60}
+                    value={createForm.name}
+                    onChange={(e) => setCreateForm({ ...createForm, name: e.target.value })}
+                    placeholder="e.g. Flat 4B rent"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="groupCurrency">Currency</Label>
+                  <Select
+                    value={createForm.currency}
+                    onValueChange={(value) => setCreateForm({ ...createForm, currency: value })}
+                  >
+                    <SelectTrigger id="groupCurrency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(CURRENCIES).map(([code, { name }]) => (
+                        <SelectItem key={code} value={code}>
+                          {code} – {name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <DialogFooter>
+                  <Button type="submit" disabled={isSaving}>
+                    {isSaving ? 'Creating...' : 'Create Group'}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {!hasHandle && (
+          <Card className="mb-6">
+            <CardContent className="py-4 text-sm">
+              Groups settle up with collect requests, so you need a payment handle first.{' '}
+              <Link to="/payments" className="underline">
+                Claim one on the Payments page
+              </Link>
+              .
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Your Groups</CardTitle>
+            <CardDescription>Open a group to add expenses and see who owes whom</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {groups.length === 0 ? (
+              <div className="text-center py-8">
+                <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">No groups yet</p>
+                <p className="text-sm text-muted-foreground mt-1">Start a group or ask a friend to add you</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {groups.map(({ group, members, myBalance }) => (
+                  <Link
+                    key={group.id}
+                    to={`/splits/${group.id}`}
+                    className="flex items-center justify-between gap-4 p-4 border rounded-lg hover:bg-muted/50 transition-colors"
+                  >
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium">{group.name}</p>
+                        <Badge variant="outline">{group.currency}</Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {members} {members === 1 ? 'member' : 'members'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <div className="text-right">
+                        <p
+                          className={`font-bold ${
+                            myBalance > 0 ? 'text-green-600' : myBalance < 0 ? 'text-red-600' : ''
+                          }`}
+                        >
+                          {formatMoney(Math.abs(myBalance), group.currency)}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {myBalance > 0 ? 'you are owed' : myBalance < 0 ? 'you owe' : 'settled up'}
+                        </p>
+                      </div>
+                      <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Splits;
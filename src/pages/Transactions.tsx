@@ -3,30 +3,80 @@ import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
 import { useAuth } from '@/components/auth/AuthProvider';
+import { useAccounts } from '@/components/accounts/AccountProvider';
+import { AccountSwitcher } from '@/components/accounts/AccountSwitcher';
 import { useToast } from '@/hooks/use-toast';
 import { Navigation } from '@/components/layout/Navigation';
 import { LoadingState } from '@/components/ui/loading-spinner';
-import { ArrowUpRight, ArrowDownLeft, History, IndianRupee } from 'lucide-react';
+import { ArrowUpRight, ArrowDownLeft, History, Flag } from 'lucide-react';
+import { formatMoney } from '@/lib/money';
+import {
+  TRANSACTION_STATUSES,
+  getCounterpartyLabel,
+  getStatusColor,
+  getStatusLabel,
+  getTransactionLabel,
+  hasPostedBalance,
+  isCreditTransaction,
+  isCurrencyConversionTransaction,
+  isLoanTransaction,
+  isReversalTransaction,
+  isTermDepositTransaction,
+} from '@/lib/transactions';
 
 interface Transaction {
   id: string;
   amount: number;
   transaction_type: string;
   description: string | null;
+  counterparty_name: string | null;
   balance_after: number;
+  reverses_transaction_id: string | null;
+  status: string;
+  failure_reason: string | null;
   created_at: string;
 }
 
+interface Dispute {
+  id: string;
+  transaction_id: string;
+  status: string;
+  resolution: string | null;
+}
+
+const DISPUTE_STATUS_LABELS: Record<string, string> = {
+  open: 'Dispute open',
+  under_review: 'Dispute under review',
+  resolved: 'Dispute resolved',
+};
+
 interface Profile {
   name: string;
 }
 
 const Transactions = () => {
   const { user, loading } = useAuth();
+  const { selectedAccount } = useAccounts();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [transactionsLoading, setTransactionsLoading] = useState(true);
+  const [disputes, setDisputes] = useState<Record<string, Dispute>>({});
+  const [disputeTarget, setDisputeTarget] = useState<Transaction | null>(null);
+  const [isSubmittingDispute, setIsSubmittingDispute] = useState(false);
+  const [statusFilter, setStatusFilter] = useState('all');
   const navigate = useNavigate();
   const { toast } = useToast();
 
@@ -40,11 +90,17 @@ const Transactions = () => {
   // Fetch data
   useEffect(() => {
     if (user) {
-      fetchTransactions();
       fetchProfile();
+      fetchDisputes();
     }
   }, [user]);
 
+  useEffect(() => {
+    if (selectedAccount) {
+      fetchTransactions();
+    }
+  }, [selectedAccount?.id]);
+
   const fetchProfile = async () => {
     try {
       const { data, error } = await supabase
@@ -61,12 +117,87 @@ const Transactions = () => {
     }
   };
 
+  const fetchDisputes = async () => {
+    const { data, error } = await supabase
+      .from('disputes')
+      .select('id, transaction_id, status, resolution')
+      .eq('user_id', user?.id);
+
+    if (error) {
+      console.error('Error fetching disputes:', error);
+    } else {
+      setDisputes(Object.fromEntries((data || []).map((dispute) => [dispute.transaction_id, dispute])));
+    }
+  };
+
+  const handleDisputeSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!disputeTarget) return;
+
+    const formData = new FormData(event.currentTarget);
+    const reason = formData.get('disputeReason') as string;
+
+    setIsSubmittingDispute(true);
+
+    const { error } = await supabase.rpc('raise_dispute', {
+      p_transaction_id: disputeTarget.id,
+      p_reason: reason,
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Dispute Raised',
+        description: 'We will review this transaction and get back to you.',
+      });
+      setDisputeTarget(null);
+      fetchDisputes();
+    }
+
+    setIsSubmittingDispute(false);
+  };
+
+  const renderDisputeStatus = (transaction: Transaction) => {
+    const dispute = disputes[transaction.id];
+
+    if (dispute) {
+      return (
+        <Badge variant={dispute.status === 'resolved' ? 'secondary' : 'outline'} className="mt-1">
+          {DISPUTE_STATUS_LABELS[dispute.status] ?? dispute.status}
+          {dispute.resolution && ` (${dispute.resolution})`}
+        </Badge>
+      );
+    }
+
+    if (
+      isReversalTransaction(transaction.transaction_type) ||
+      isTermDepositTransaction(transaction.transaction_type) ||
+      isCurrencyConversionTransaction(transaction.transaction_type) ||
+      isLoanTransaction(transaction.transaction_type) ||
+      transaction.status !== 'posted'
+    ) {
+      return null;
+    }
+
+    return (
+      <Button variant="ghost" size="sm" className="mt-1" onClick={() => setDisputeTarget(transaction)}>
+        <Flag className="h-4 w-4 mr-2" />
+        Dispute
+      </Button>
+    );
+  };
+
   const fetchTransactions = async () => {
     try {
       const { data, error } = await supabase
         .from('transactions')
         .select('*')
-        .eq('user_id', user?.id)
+        .eq('account_id', selectedAccount?.id)
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -86,16 +217,8 @@ const Transactions = () => {
     }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: 'INR',
-      minimumFractionDigits: 2,
-    }).format(amount);
-  };
-
   const getTransactionIcon = (type: string) => {
-    return type === 'deposit' ? (
+    return isCreditTransaction(type) ? (
       <ArrowDownLeft className="h-4 w-4 text-green-600" />
     ) : (
       <ArrowUpRight className="h-4 w-4 text-red-600" />
@@ -103,13 +226,17 @@ const Transactions = () => {
   };
 
   const getTransactionColor = (type: string) => {
-    return type === 'deposit' ? 'text-green-600' : 'text-red-600';
+    return isCreditTransaction(type) ? 'text-green-600' : 'text-red-600';
   };
 
   const getBadgeVariant = (type: string) => {
-    return type === 'deposit' ? 'default' : 'secondary';
+    return isCreditTransaction(type) ? 'default' : 'secondary';
   };
 
+  const visibleTransactions = statusFilter === 'all'
+    ? transactions
+    : transactions.filter((transaction) => transaction.status === statusFilter);
+
   if (loading || transactionsLoading) {
     return (
       <div className="min-h-screen bg-background">
@@ -127,14 +254,17 @@ const Transactions = () => {
 
       <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Header */}
-        <div className="flex items-center gap-3 mb-8">
-          <History className="h-8 w-8 text-primary" />
-          <div>
-            <h1 className="text-3xl font-bold text-foreground">Transaction History</h1>
-            <p className="text-muted-foreground">
-              View all your banking transactions in one place
-            </p>
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between mb-8">
+          <div className="flex items-center gap-3">
+            <History className="h-8 w-8 text-primary" />
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Transaction History</h1>
+              <p className="text-muted-foreground">
+                View all your banking transactions in one place
+              </p>
+            </div>
           </div>
+          <AccountSwitcher />
         </div>
 
         {/* Summary Cards */}
@@ -185,11 +315,26 @@ const Transactions = () => {
 
         {/* Transactions Table */}
         <Card>
-          <CardHeader>
-            <CardTitle>Recent Transactions</CardTitle>
-            <CardDescription>
-              Your complete transaction history
-            </CardDescription>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Recent Transactions</CardTitle>
+              <CardDescription>
+                Your complete transaction history
+              </CardDescription>
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {TRANSACTION_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {getStatusLabel(status)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </CardHeader>
           <CardContent>
             {transactions.length === 0 ? (
@@ -202,9 +347,13 @@ const Transactions = () => {
                   Your transaction history will appear here once you make your first deposit or withdrawal.
                 </p>
               </div>
+            ) : visibleTransactions.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                No {getStatusLabel(statusFilter).toLowerCase()} transactions
+              </p>
             ) : (
               <div className="space-y-4">
-                {transactions.map((transaction) => (
+                {visibleTransactions.map((transaction) => (
                   <div
                     key={transaction.id}
                     className="flex items-center justify-between p-4 border rounded-lg hover:bg-muted/50 transition-colors"
@@ -215,16 +364,32 @@ const Transactions = () => {
                       </div>
                       <div>
                         <div className="flex items-center gap-2 mb-1">
-                          <h4 className="font-medium capitalize">
-                            {transaction.transaction_type}
+                          <h4 className="font-medium">
+                            {getTransactionLabel(transaction.transaction_type)}
                           </h4>
                           <Badge variant={getBadgeVariant(transaction.transaction_type)}>
-                            {transaction.transaction_type}
+                            {isCreditTransaction(transaction.transaction_type) ? 'credit' : 'debit'}
+                          </Badge>
+                          <Badge variant="outline" className={getStatusColor(transaction.status)}>
+                            {getStatusLabel(transaction.status)}
                           </Badge>
                         </div>
                         <p className="text-sm text-muted-foreground">
-                          {transaction.description || `${transaction.transaction_type} transaction`}
+                          {transaction.description || `${getTransactionLabel(transaction.transaction_type)} transaction`}
                         </p>
+                        {transaction.counterparty_name && (
+                          <p className="text-sm text-muted-foreground">
+                            {getCounterpartyLabel(transaction.transaction_type, transaction.counterparty_name)}
+                          </p>
+                        )}
+                        {transaction.reverses_transaction_id && (
+                          <p className="text-sm text-muted-foreground">
+                            Offsets an earlier transaction
+                          </p>
+                        )}
+                        {transaction.failure_reason && (
+                          <p className="text-sm text-red-600">{transaction.failure_reason}</p>
+                        )}
                         <p className="text-xs text-muted-foreground">
                           {new Date(transaction.created_at).toLocaleDateString('en-IN', {
                             year: 'numeric',
@@ -238,13 +403,15 @@ const Transactions = () => {
                     </div>
                     <div className="text-right">
                       <div className={`text-lg font-bold ${getTransactionColor(transaction.transaction_type)}`}>
-                        {transaction.transaction_type === 'deposit' ? '+' : '-'}
-                        {formatCurrency(Math.abs(transaction.amount)).replace('₹', '')}
-                        <IndianRupee className="inline h-4 w-4 ml-1" />
+                        {isCreditTransaction(transaction.transaction_type) ? '+' : '-'}
+                        {formatMoney(Math.abs(transaction.amount), selectedAccount?.currency)}
                       </div>
-                      <p className="text-sm text-muted-foreground">
-                        Balance: {formatCurrency(transaction.balance_after)}
-                      </p>
+                      {hasPostedBalance(transaction.status) && (
+                        <p className="text-sm text-muted-foreground">
+                          Balance: {formatMoney(transaction.balance_after, selectedAccount?.currency)}
+                        </p>
+                      )}
+                      {renderDisputeStatus(transaction)}
                     </div>
                   </div>
                 ))}
@@ -253,6 +420,44 @@ const Transactions = () => {
           </CardContent>
         </Card>
       </div>
+
+      <Dialog open={!!disputeTarget} onOpenChange={(open) => !open && setDisputeTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Dispute Transaction</DialogTitle>
+            <DialogDescription>
+              {disputeTarget && (
+                <>
+                  {getTransactionLabel(disputeTarget.transaction_type)} of {formatMoney(disputeTarget.amount, selectedAccount?.currency)} on{' '}
+                  {new Date(disputeTarget.created_at).toLocaleDateString('en-IN', {
+                    year: 'numeric',
+                    month: 'long',
+                    day: 'numeric',
+                  })}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleDisputeSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="disputeReason">What went wrong?</Label>
+              <Textarea
+                id="disputeReason"
+                name="disputeReason"
+                required
+                placeholder="Describe the problem with this transaction"
+                className="resize-none"
+                rows={4}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={isSubmittingDispute}>
+                {isSubmittingDispute ? 'Submitting...' : 'Raise Dispute'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
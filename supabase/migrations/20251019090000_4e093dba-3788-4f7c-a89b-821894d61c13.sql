@@ -0,0 +1,70 @@
+-- Create function to post a deposit or withdrawal atomically.
+-- The profile row is locked for the duration of the call so concurrent
+-- postings from several tabs are serialised, and the balance update and the
+-- transaction row either both commit or both roll back.
+CREATE OR REPLACE FUNCTION public.post_transaction(
+  p_transaction_type TEXT,
+  p_amount DECIMAL,
+  p_description TEXT DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+  v_balance DECIMAL(12,2);
+  v_transaction public.transactions;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_transaction_type IS NULL OR p_transaction_type NOT IN ('deposit', 'withdraw') THEN
+    RAISE EXCEPTION 'Unsupported transaction type: %', p_transaction_type USING ERRCODE = '22023';
+  END IF;
+
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT balance INTO v_balance
+  FROM public.profiles
+  WHERE user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_transaction_type = 'withdraw' THEN
+    IF v_balance < v_amount THEN
+      RAISE EXCEPTION 'Insufficient funds' USING ERRCODE = 'P0001';
+    END IF;
+    v_balance := v_balance - v_amount;
+  ELSE
+    v_balance := v_balance + v_amount;
+  END IF;
+
+  UPDATE public.profiles
+  SET balance = v_balance
+  WHERE user_id = v_user_id;
+
+  INSERT INTO public.transactions (user_id, amount, transaction_type, description, balance_after)
+  VALUES (
+    v_user_id,
+    v_amount,
+    p_transaction_type,
+    COALESCE(
+      NULLIF(btrim(p_description), ''),
+      CASE WHEN p_transaction_type = 'deposit' THEN 'Deposit transaction' ELSE 'Withdrawal transaction' END
+    ),
+    v_balance
+  )
+  RETURNING * INTO v_transaction;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only signed-in users may post transactions
+REVOKE EXECUTE ON FUNCTION public.post_transaction(TEXT, DECIMAL, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.post_transaction(TEXT, DECIMAL, TEXT) TO authenticated;
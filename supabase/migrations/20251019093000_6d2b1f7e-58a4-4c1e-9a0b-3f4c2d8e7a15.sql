@@ -0,0 +1,121 @@
+-- Balances may only change through privileged database functions.
+-- Signed-in users keep write access to their own profile details, but the
+-- balance column and the transactions table are no longer writable from the client.
+REVOKE INSERT, UPDATE ON public.profiles FROM anon, authenticated;
+GRANT INSERT (user_id, name, phone, account_type) ON public.profiles TO authenticated;
+GRANT UPDATE (name, phone, account_type) ON public.profiles TO authenticated;
+
+DROP POLICY "Users can update their own profile" ON public.profiles;
+
+CREATE POLICY "Users can update their own profile details"
+ON public.profiles
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY "Users can create their own transactions" ON public.transactions;
+
+REVOKE INSERT, UPDATE, DELETE ON public.transactions FROM anon, authenticated;
+
+-- Create internal function that applies a deposit or withdrawal to a user's balance.
+-- It is not executable by clients; callers are responsible for authorising p_user_id.
+CREATE OR REPLACE FUNCTION public.apply_transaction(
+  p_user_id UUID,
+  p_transaction_type TEXT,
+  p_amount DECIMAL,
+  p_description TEXT DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+  v_balance DECIMAL(12,2);
+  v_transaction public.transactions;
+BEGIN
+  IF p_transaction_type IS NULL OR p_transaction_type NOT IN ('deposit', 'withdraw') THEN
+    RAISE EXCEPTION 'Unsupported transaction type: %', p_transaction_type USING ERRCODE = '22023';
+  END IF;
+
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT balance INTO v_balance
+  FROM public.profiles
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_transaction_type = 'withdraw' THEN
+    IF v_balance < v_amount THEN
+      RAISE EXCEPTION 'Insufficient funds' USING ERRCODE = 'P0001';
+    END IF;
+    v_balance := v_balance - v_amount;
+  ELSE
+    v_balance := v_balance + v_amount;
+  END IF;
+
+  UPDATE public.profiles
+  SET balance = v_balance
+  WHERE user_id = p_user_id;
+
+  INSERT INTO public.transactions (user_id, amount, transaction_type, description, balance_after)
+  VALUES (
+    p_user_id,
+    v_amount,
+    p_transaction_type,
+    COALESCE(
+      NULLIF(btrim(p_description), ''),
+      CASE WHEN p_transaction_type = 'deposit' THEN 'Deposit transaction' ELSE 'Withdrawal transaction' END
+    ),
+    v_balance
+  )
+  RETURNING * INTO v_transaction;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.apply_transaction(UUID, TEXT, DECIMAL, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Post a deposit or withdrawal for the signed-in user
+CREATE OR REPLACE FUNCTION public.post_transaction(
+  p_transaction_type TEXT,
+  p_amount DECIMAL,
+  p_description TEXT DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN public.apply_transaction(auth.uid(), p_transaction_type, p_amount, p_description);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create the profile with a zero balance and post any opening balance as a deposit
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_opening_balance DECIMAL(12,2);
+BEGIN
+  INSERT INTO public.profiles (user_id, name, phone, account_type)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data ->> 'name', 'User'),
+    COALESCE(NEW.raw_user_meta_data ->> 'phone', ''),
+    COALESCE(NEW.raw_user_meta_data ->> 'account_type', 'savings')
+  );
+
+  v_opening_balance := COALESCE(round((NEW.raw_user_meta_data ->> 'initial_balance')::decimal, 2), 0.00);
+
+  IF v_opening_balance > 0 THEN
+    PERFORM public.apply_transaction(NEW.id, 'deposit', v_opening_balance, 'Opening deposit');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,107 @@
+-- Store the client-generated idempotency key with each transaction so a
+-- replayed request returns the original row instead of posting again
+ALTER TABLE public.transactions ADD COLUMN idempotency_key UUID;
+
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_user_id_idempotency_key_key UNIQUE (user_id, idempotency_key);
+
+DROP FUNCTION public.post_transaction(TEXT, DECIMAL, TEXT);
+DROP FUNCTION public.apply_transaction(UUID, TEXT, DECIMAL, TEXT);
+
+-- Recreate internal posting function with idempotency support
+CREATE OR REPLACE FUNCTION public.apply_transaction(
+  p_user_id UUID,
+  p_transaction_type TEXT,
+  p_amount DECIMAL,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+  v_balance DECIMAL(12,2);
+  v_transaction public.transactions;
+BEGIN
+  IF p_transaction_type IS NULL OR p_transaction_type NOT IN ('deposit', 'withdraw') THEN
+    RAISE EXCEPTION 'Unsupported transaction type: %', p_transaction_type USING ERRCODE = '22023';
+  END IF;
+
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT balance INTO v_balance
+  FROM public.profiles
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- The profile lock serialises replays, so this lookup cannot race a concurrent post
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_transaction
+    FROM public.transactions
+    WHERE user_id = p_user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_transaction.transaction_type <> p_transaction_type OR v_transaction.amount <> v_amount THEN
+        RAISE EXCEPTION 'Idempotency key was already used for a different request' USING ERRCODE = '22023';
+      END IF;
+      RETURN v_transaction;
+    END IF;
+  END IF;
+
+  IF p_transaction_type = 'withdraw' THEN
+    IF v_balance < v_amount THEN
+      RAISE EXCEPTION 'Insufficient funds' USING ERRCODE = 'P0001';
+    END IF;
+    v_balance := v_balance - v_amount;
+  ELSE
+    v_balance := v_balance + v_amount;
+  END IF;
+
+  UPDATE public.profiles
+  SET balance = v_balance
+  WHERE user_id = p_user_id;
+
+  INSERT INTO public.transactions (user_id, amount, transaction_type, description, balance_after, idempotency_key)
+  VALUES (
+    p_user_id,
+    v_amount,
+    p_transaction_type,
+    COALESCE(
+      NULLIF(btrim(p_description), ''),
+      CASE WHEN p_transaction_type = 'deposit' THEN 'Deposit transaction' ELSE 'Withdrawal transaction' END
+    ),
+    v_balance,
+    p_idempotency_key
+  )
+  RETURNING * INTO v_transaction;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.apply_transaction(UUID, TEXT, DECIMAL, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Post a deposit or withdrawal for the signed-in user
+CREATE OR REPLACE FUNCTION public.post_transaction(
+  p_transaction_type TEXT,
+  p_amount DECIMAL,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN public.apply_transaction(auth.uid(), p_transaction_type, p_amount, p_description, p_idempotency_key);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.post_transaction(TEXT, DECIMAL, TEXT, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.post_transaction(TEXT, DECIMAL, TEXT, UUID) TO authenticated;
@@ -0,0 +1,346 @@
+-- Create chart of ledger accounts. Customer deposit accounts are liabilities of
+-- the bank; the internal cash and suspense accounts are the other side of
+-- deposits, withdrawals and migration adjustments.
+CREATE TABLE public.ledger_accounts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  account_class TEXT NOT NULL CHECK (account_class IN ('asset', 'liability', 'equity', 'income', 'expense')),
+  user_id UUID UNIQUE REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create journal entries; each groups a balanced set of lines
+CREATE TABLE public.journal_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  entry_type TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create journal lines; every line is either a debit or a credit
+CREATE TABLE public.journal_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  journal_entry_id UUID NOT NULL REFERENCES public.journal_entries(id),
+  ledger_account_id UUID NOT NULL REFERENCES public.ledger_accounts(id),
+  debit DECIMAL(12,2) NOT NULL DEFAULT 0.00,
+  credit DECIMAL(12,2) NOT NULL DEFAULT 0.00,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((debit > 0 AND credit = 0) OR (credit > 0 AND debit = 0))
+);
+
+CREATE INDEX journal_lines_journal_entry_id_idx ON public.journal_lines (journal_entry_id);
+CREATE INDEX journal_lines_ledger_account_id_idx ON public.journal_lines (ledger_account_id);
+
+-- Seed internal accounts
+INSERT INTO public.ledger_accounts (code, name, account_class) VALUES
+  ('CASH', 'Cash in hand', 'asset'),
+  ('SUSPENSE', 'Suspense', 'liability');
+
+-- Link each transaction to the journal entry it was derived from
+ALTER TABLE public.transactions ADD COLUMN journal_entry_id UUID REFERENCES public.journal_entries(id);
+
+-- Journal lines are never deleted, so a customer with a money history is
+-- closed and anonymised rather than deleted. Refuse deleting their auth user
+-- at their transactions instead of cascading into the ledger.
+ALTER TABLE public.transactions
+  DROP CONSTRAINT transactions_user_id_fkey,
+  ADD CONSTRAINT transactions_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id);
+
+-- Enable Row Level Security
+ALTER TABLE public.ledger_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.journal_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.journal_lines ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for the ledger; it is written only by privileged functions
+CREATE POLICY "Users can view their own ledger account"
+ON public.ledger_accounts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view journal lines on their own ledger account"
+ON public.journal_lines
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.ledger_accounts la
+    WHERE la.id = ledger_account_id AND la.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can view journal entries touching their own ledger account"
+ON public.journal_entries
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.journal_lines jl
+    JOIN public.ledger_accounts la ON la.id = jl.ledger_account_id
+    WHERE jl.journal_entry_id = journal_entries.id AND la.user_id = auth.uid()
+  )
+);
+
+REVOKE INSERT, UPDATE, DELETE ON public.ledger_accounts FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.journal_entries FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.journal_lines FROM anon, authenticated;
+
+-- Create function that rejects journal entries whose debits and credits differ.
+-- It runs as a deferred constraint trigger so the lines of an entry can be
+-- inserted one at a time within a transaction.
+CREATE OR REPLACE FUNCTION public.check_journal_entry_balanced()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_entry_id UUID := COALESCE(NEW.journal_entry_id, OLD.journal_entry_id);
+  v_debits DECIMAL(14,2);
+  v_credits DECIMAL(14,2);
+BEGIN
+  SELECT COALESCE(SUM(debit), 0), COALESCE(SUM(credit), 0)
+  INTO v_debits, v_credits
+  FROM public.journal_lines
+  WHERE journal_entry_id = v_entry_id;
+
+  IF v_debits <> v_credits THEN
+    RAISE EXCEPTION 'Journal entry % is unbalanced (debits %, credits %)', v_entry_id, v_debits, v_credits;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE CONSTRAINT TRIGGER check_journal_lines_balanced
+  AFTER INSERT OR UPDATE OR DELETE ON public.journal_lines
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_journal_entry_balanced();
+
+-- Create function that keeps the ledger append-only
+CREATE OR REPLACE FUNCTION public.prevent_ledger_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Ledger records are append-only; post an offsetting entry instead';
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prevent_journal_entries_mutation
+  BEFORE UPDATE OR DELETE ON public.journal_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_ledger_mutation();
+
+CREATE TRIGGER prevent_journal_lines_mutation
+  BEFORE UPDATE OR DELETE ON public.journal_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_ledger_mutation();
+
+-- Create function returning a ledger account's balance on its normal side
+CREATE OR REPLACE FUNCTION public.ledger_account_balance(p_ledger_account_id UUID)
+RETURNS DECIMAL AS $$
+  SELECT COALESCE(
+    CASE WHEN la.account_class IN ('asset', 'expense')
+      THEN SUM(jl.debit) - SUM(jl.credit)
+      ELSE SUM(jl.credit) - SUM(jl.debit)
+    END,
+    0.00
+  )
+  FROM public.ledger_accounts la
+  LEFT JOIN public.journal_lines jl ON jl.ledger_account_id = la.id
+  WHERE la.id = p_ledger_account_id
+  GROUP BY la.account_class;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Create function returning an internal ledger account by code
+CREATE OR REPLACE FUNCTION public.internal_ledger_account_id(p_code TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  SELECT id INTO v_id
+  FROM public.ledger_accounts
+  WHERE code = p_code AND user_id IS NULL;
+
+  IF v_id IS NULL THEN
+    RAISE EXCEPTION 'Internal ledger account % does not exist', p_code;
+  END IF;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Create function returning a customer's ledger account, opening it on first use
+CREATE OR REPLACE FUNCTION public.customer_ledger_account_id(p_user_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  SELECT id INTO v_id
+  FROM public.ledger_accounts
+  WHERE user_id = p_user_id;
+
+  IF v_id IS NULL THEN
+    INSERT INTO public.ledger_accounts (code, name, account_class, user_id)
+    VALUES ('CUST-' || p_user_id, 'Customer deposits', 'liability', p_user_id)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    SELECT id INTO v_id
+    FROM public.ledger_accounts
+    WHERE user_id = p_user_id;
+  END IF;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create function posting a two-line journal entry and returning its id
+CREATE OR REPLACE FUNCTION public.post_journal_entry(
+  p_entry_type TEXT,
+  p_description TEXT,
+  p_debit_account_id UUID,
+  p_credit_account_id UUID,
+  p_amount DECIMAL,
+  p_created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS UUID AS $$
+DECLARE
+  v_entry_id UUID;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Journal amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.journal_entries (entry_type, description, created_at)
+  VALUES (p_entry_type, p_description, p_created_at)
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO public.journal_lines (journal_entry_id, ledger_account_id, debit, created_at)
+  VALUES (v_entry_id, p_debit_account_id, p_amount, p_created_at);
+
+  INSERT INTO public.journal_lines (journal_entry_id, ledger_account_id, credit, created_at)
+  VALUES (v_entry_id, p_credit_account_id, p_amount, p_created_at);
+
+  RETURN v_entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.ledger_account_balance(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.internal_ledger_account_id(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.customer_ledger_account_id(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_journal_entry(TEXT, TEXT, UUID, UUID, DECIMAL, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Backfill the ledger from existing history: one journal entry per
+-- transaction, then a suspense adjustment wherever the stored balance
+-- disagrees with the replayed history.
+DO $$
+DECLARE
+  v_cash UUID := public.internal_ledger_account_id('CASH');
+  v_suspense UUID := public.internal_ledger_account_id('SUSPENSE');
+  v_customer UUID;
+  v_entry_id UUID;
+  v_difference DECIMAL(12,2);
+  t RECORD;
+  p RECORD;
+BEGIN
+  FOR t IN SELECT * FROM public.transactions ORDER BY created_at, id LOOP
+    v_customer := public.customer_ledger_account_id(t.user_id);
+
+    IF t.transaction_type = 'deposit' THEN
+      v_entry_id := public.post_journal_entry('deposit', t.description, v_cash, v_customer, t.amount, t.created_at);
+    ELSE
+      v_entry_id := public.post_journal_entry('withdraw', t.description, v_customer, v_cash, t.amount, t.created_at);
+    END IF;
+
+    UPDATE public.transactions SET journal_entry_id = v_entry_id WHERE id = t.id;
+  END LOOP;
+
+  FOR p IN SELECT user_id, balance FROM public.profiles LOOP
+    v_customer := public.customer_ledger_account_id(p.user_id);
+    v_difference := p.balance - public.ledger_account_balance(v_customer);
+
+    IF v_difference > 0 THEN
+      PERFORM public.post_journal_entry('migration_adjustment', 'Opening ledger balance', v_suspense, v_customer, v_difference);
+    ELSIF v_difference < 0 THEN
+      PERFORM public.post_journal_entry('migration_adjustment', 'Opening ledger balance', v_customer, v_suspense, -v_difference);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.transactions ALTER COLUMN journal_entry_id SET NOT NULL;
+
+-- Recreate internal posting function on top of the ledger. The journal entry
+-- is the source of truth; profiles.balance and transactions.balance_after are
+-- projections of the customer's ledger account.
+CREATE OR REPLACE FUNCTION public.apply_transaction(
+  p_user_id UUID,
+  p_transaction_type TEXT,
+  p_amount DECIMAL,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+  v_description TEXT;
+  v_customer UUID;
+  v_cash UUID := public.internal_ledger_account_id('CASH');
+  v_entry_id UUID;
+  v_balance DECIMAL(12,2);
+  v_transaction public.transactions;
+BEGIN
+  IF p_transaction_type IS NULL OR p_transaction_type NOT IN ('deposit', 'withdraw') THEN
+    RAISE EXCEPTION 'Unsupported transaction type: %', p_transaction_type USING ERRCODE = '22023';
+  END IF;
+
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM 1
+  FROM public.profiles
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- The profile lock serialises replays, so this lookup cannot race a concurrent post
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_transaction
+    FROM public.transactions
+    WHERE user_id = p_user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_transaction.transaction_type <> p_transaction_type OR v_transaction.amount <> v_amount THEN
+        RAISE EXCEPTION 'Idempotency key was already used for a different request' USING ERRCODE = '22023';
+      END IF;
+      RETURN v_transaction;
+    END IF;
+  END IF;
+
+  v_customer := public.customer_ledger_account_id(p_user_id);
+  v_description := COALESCE(
+    NULLIF(btrim(p_description), ''),
+    CASE WHEN p_transaction_type = 'deposit' THEN 'Deposit transaction' ELSE 'Withdrawal transaction' END
+  );
+
+  IF p_transaction_type = 'withdraw' THEN
+    IF public.ledger_account_balance(v_customer) < v_amount THEN
+      RAISE EXCEPTION 'Insufficient funds' USING ERRCODE = 'P0001';
+    END IF;
+    v_entry_id := public.post_journal_entry('withdraw', v_description, v_customer, v_cash, v_amount);
+  ELSE
+    v_entry_id := public.post_journal_entry('deposit', v_description, v_cash, v_customer, v_amount);
+  END IF;
+
+  v_balance := public.ledger_account_balance(v_customer);
+
+  UPDATE public.profiles
+  SET balance = v_balance
+  WHERE user_id = p_user_id;
+
+  INSERT INTO public.transactions (user_id, amount, transaction_type, description, balance_after, idempotency_key, journal_entry_id)
+  VALUES (p_user_id, v_amount, p_transaction_type, v_description, v_balance, p_idempotency_key, v_entry_id)
+  RETURNING * INTO v_transaction;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,186 @@
+-- Give every profile a 12-digit account number customers can share for transfers
+CREATE SEQUENCE public.account_number_seq START WITH 100000000001;
+
+ALTER TABLE public.profiles
+  ADD COLUMN account_number TEXT NOT NULL UNIQUE DEFAULT nextval('public.account_number_seq')::text;
+
+-- Allow transfer legs in the transaction history and link them to each other
+ALTER TABLE public.transactions DROP CONSTRAINT transactions_transaction_type_check;
+
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_transaction_type_check
+  CHECK (transaction_type IN ('deposit', 'withdraw', 'transfer_out', 'transfer_in'));
+
+ALTER TABLE public.transactions
+  ADD COLUMN counterparty_user_id UUID REFERENCES auth.users(id),
+  ADD COLUMN counterparty_name TEXT,
+  ADD COLUMN related_transaction_id UUID REFERENCES public.transactions(id);
+
+-- Create function that looks up a transfer recipient by account number or phone.
+-- Profiles of other users are hidden by RLS, so only the details needed to
+-- confirm the payee are returned.
+CREATE OR REPLACE FUNCTION public.find_transfer_recipient(p_identifier TEXT)
+RETURNS TABLE (user_id UUID, name TEXT, account_number_masked TEXT) AS $$
+DECLARE
+  v_identifier TEXT := regexp_replace(COALESCE(p_identifier, ''), '\D', '', 'g');
+  v_matches INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_identifier = '' THEN
+    RAISE EXCEPTION 'Enter an account number or phone number' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT count(*) INTO v_matches
+  FROM public.profiles p
+  WHERE p.user_id <> auth.uid()
+    AND (p.account_number = v_identifier OR regexp_replace(p.phone, '\D', '', 'g') = v_identifier);
+
+  IF v_matches = 0 THEN
+    RAISE EXCEPTION 'Recipient not found' USING ERRCODE = 'P0002';
+  ELSIF v_matches > 1 THEN
+    RAISE EXCEPTION 'Several customers share this phone number; use the account number instead' USING ERRCODE = 'P0003';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.user_id, p.name, 'XXXXXXXX' || right(p.account_number, 4)
+  FROM public.profiles p
+  WHERE p.user_id <> auth.uid()
+    AND (p.account_number = v_identifier OR regexp_replace(p.phone, '\D', '', 'g') = v_identifier);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.find_transfer_recipient(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.find_transfer_recipient(TEXT) TO authenticated;
+
+-- Create internal function that moves money between two customers. Both
+-- profiles are locked in a fixed order so opposing transfers cannot deadlock.
+-- Returns the sender's transfer_out row.
+CREATE OR REPLACE FUNCTION public.apply_transfer(
+  p_sender_id UUID,
+  p_recipient_id UUID,
+  p_amount DECIMAL,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+  v_sender_name TEXT;
+  v_recipient_name TEXT;
+  v_sender_account UUID;
+  v_recipient_account UUID;
+  v_description TEXT;
+  v_entry_id UUID;
+  v_sender_balance DECIMAL(12,2);
+  v_recipient_balance DECIMAL(12,2);
+  v_out public.transactions;
+  v_in public.transactions;
+BEGIN
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_sender_id = p_recipient_id THEN
+    RAISE EXCEPTION 'You cannot transfer money to yourself' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM 1
+  FROM public.profiles
+  WHERE user_id IN (p_sender_id, p_recipient_id)
+  ORDER BY user_id
+  FOR UPDATE;
+
+  SELECT name INTO v_sender_name FROM public.profiles WHERE user_id = p_sender_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT name INTO v_recipient_name FROM public.profiles WHERE user_id = p_recipient_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recipient not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_out
+    FROM public.transactions
+    WHERE user_id = p_sender_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_out.transaction_type <> 'transfer_out'
+        OR v_out.amount <> v_amount
+        OR v_out.counterparty_user_id IS DISTINCT FROM p_recipient_id THEN
+        RAISE EXCEPTION 'Idempotency key was already used for a different request' USING ERRCODE = '22023';
+      END IF;
+      RETURN v_out;
+    END IF;
+  END IF;
+
+  v_sender_account := public.customer_ledger_account_id(p_sender_id);
+  v_recipient_account := public.customer_ledger_account_id(p_recipient_id);
+
+  IF public.ledger_account_balance(v_sender_account) < v_amount THEN
+    RAISE EXCEPTION 'Insufficient funds' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_description := COALESCE(NULLIF(btrim(p_description), ''), 'Transfer');
+  v_entry_id := public.post_journal_entry('transfer', v_description, v_sender_account, v_recipient_account, v_amount);
+
+  v_sender_balance := public.ledger_account_balance(v_sender_account);
+  v_recipient_balance := public.ledger_account_balance(v_recipient_account);
+
+  UPDATE public.profiles SET balance = v_sender_balance WHERE user_id = p_sender_id;
+  UPDATE public.profiles SET balance = v_recipient_balance WHERE user_id = p_recipient_id;
+
+  INSERT INTO public.transactions (
+    user_id, amount, transaction_type, description, balance_after, idempotency_key,
+    journal_entry_id, counterparty_user_id, counterparty_name
+  )
+  VALUES (
+    p_sender_id, v_amount, 'transfer_out', v_description, v_sender_balance, p_idempotency_key,
+    v_entry_id, p_recipient_id, v_recipient_name
+  )
+  RETURNING * INTO v_out;
+
+  INSERT INTO public.transactions (
+    user_id, amount, transaction_type, description, balance_after,
+    journal_entry_id, counterparty_user_id, counterparty_name, related_transaction_id
+  )
+  VALUES (
+    p_recipient_id, v_amount, 'transfer_in', v_description, v_recipient_balance,
+    v_entry_id, p_sender_id, v_sender_name, v_out.id
+  )
+  RETURNING * INTO v_in;
+
+  UPDATE public.transactions
+  SET related_transaction_id = v_in.id
+  WHERE id = v_out.id
+  RETURNING * INTO v_out;
+
+  RETURN v_out;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.apply_transfer(UUID, UUID, DECIMAL, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Transfer money from the signed-in user to another customer
+CREATE OR REPLACE FUNCTION public.post_transfer(
+  p_recipient_user_id UUID,
+  p_amount DECIMAL,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN public.apply_transfer(auth.uid(), p_recipient_user_id, p_amount, p_description, p_idempotency_key);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.post_transfer(UUID, DECIMAL, TEXT, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.post_transfer(UUID, DECIMAL, TEXT, UUID) TO authenticated;
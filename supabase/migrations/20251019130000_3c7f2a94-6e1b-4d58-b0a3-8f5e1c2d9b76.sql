@@ -0,0 +1,220 @@
+-- Create single-row table holding the rules for newly added payees
+CREATE TABLE public.beneficiary_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  cooling_period_minutes INTEGER NOT NULL DEFAULT 30 CHECK (cooling_period_minutes >= 0),
+  new_payee_window_hours INTEGER NOT NULL DEFAULT 24 CHECK (new_payee_window_hours >= 0),
+  new_payee_transfer_cap DECIMAL(12,2) NOT NULL DEFAULT 50000.00 CHECK (new_payee_transfer_cap > 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.beneficiary_settings DEFAULT VALUES;
+
+-- Create beneficiaries table for saved payees. Deleting a payee only sets
+-- removed_at, so saving it again keeps its original cooling period and
+-- new-payee window instead of starting fresh ones.
+CREATE TABLE public.beneficiaries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  payee_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  nickname TEXT NOT NULL CHECK (btrim(nickname) <> ''),
+  payee_name TEXT NOT NULL,
+  account_number_masked TEXT NOT NULL,
+  active_from TIMESTAMP WITH TIME ZONE NOT NULL,
+  removed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, payee_user_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.beneficiary_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.beneficiaries ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for beneficiary settings
+CREATE POLICY "Signed-in users can view beneficiary settings"
+ON public.beneficiary_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+REVOKE INSERT, UPDATE, DELETE ON public.beneficiary_settings FROM anon, authenticated;
+
+-- Create RLS policies for beneficiaries. Payees are added and deleted
+-- through add_beneficiary and remove_beneficiary so the cooling period cannot
+-- be bypassed; only the nickname is editable otherwise.
+CREATE POLICY "Users can view their own beneficiaries"
+ON public.beneficiaries
+FOR SELECT
+USING (auth.uid() = user_id AND removed_at IS NULL);
+
+CREATE POLICY "Users can update their own beneficiaries"
+ON public.beneficiaries
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON public.beneficiaries FROM anon, authenticated;
+GRANT UPDATE (nickname) ON public.beneficiaries TO authenticated;
+
+CREATE TRIGGER update_beneficiaries_updated_at
+  BEFORE UPDATE ON public.beneficiaries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Save a payee for the signed-in user, starting its cooling period. A payee
+-- that was deleted is restored with the cooling period it first had.
+CREATE OR REPLACE FUNCTION public.add_beneficiary(p_identifier TEXT, p_nickname TEXT)
+RETURNS public.beneficiaries AS $$
+DECLARE
+  v_recipient RECORD;
+  v_settings public.beneficiary_settings;
+  v_beneficiary public.beneficiaries;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_recipient FROM public.find_transfer_recipient(p_identifier);
+  SELECT * INTO v_settings FROM public.beneficiary_settings;
+
+  SELECT * INTO v_beneficiary
+  FROM public.beneficiaries
+  WHERE user_id = auth.uid() AND payee_user_id = v_recipient.user_id
+  FOR UPDATE;
+
+  IF FOUND AND v_beneficiary.removed_at IS NULL THEN
+    RAISE EXCEPTION 'This payee is already saved' USING ERRCODE = '23505';
+  ELSIF FOUND THEN
+    UPDATE public.beneficiaries
+    SET nickname = COALESCE(NULLIF(btrim(p_nickname), ''), v_recipient.name),
+        payee_name = v_recipient.name,
+        account_number_masked = v_recipient.account_number_masked,
+        removed_at = NULL
+    WHERE id = v_beneficiary.id
+    RETURNING * INTO v_beneficiary;
+
+    RETURN v_beneficiary;
+  END IF;
+
+  INSERT INTO public.beneficiaries (user_id, payee_user_id, nickname, payee_name, account_number_masked, active_from)
+  VALUES (
+    auth.uid(),
+    v_recipient.user_id,
+    COALESCE(NULLIF(btrim(p_nickname), ''), v_recipient.name),
+    v_recipient.name,
+    v_recipient.account_number_masked,
+    now() + make_interval(mins => v_settings.cooling_period_minutes)
+  )
+  RETURNING * INTO v_beneficiary;
+
+  RETURN v_beneficiary;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.add_beneficiary(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.add_beneficiary(TEXT, TEXT) TO authenticated;
+
+-- Delete one of the signed-in user's saved payees
+CREATE OR REPLACE FUNCTION public.remove_beneficiary(p_beneficiary_id UUID)
+RETURNS public.beneficiaries AS $$
+DECLARE
+  v_beneficiary public.beneficiaries;
+BEGIN
+  UPDATE public.beneficiaries
+  SET removed_at = now()
+  WHERE id = p_beneficiary_id AND user_id = auth.uid() AND removed_at IS NULL
+  RETURNING * INTO v_beneficiary;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payee not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_beneficiary;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.remove_beneficiary(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.remove_beneficiary(UUID) TO authenticated;
+
+-- Create internal function enforcing payee rules on a customer-initiated transfer:
+-- no transfers during a payee's cooling period, and a reduced cap on what is
+-- sent over any rolling window while the payee is new or not saved at all.
+-- The window counts transfers made before the payee was saved, so saving one
+-- never frees up more than the cap.
+CREATE OR REPLACE FUNCTION public.check_transfer_policy(
+  p_sender_id UUID,
+  p_recipient_id UUID,
+  p_amount DECIMAL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_settings public.beneficiary_settings;
+  v_beneficiary public.beneficiaries;
+  v_sent DECIMAL(12,2);
+BEGIN
+  SELECT * INTO v_settings FROM public.beneficiary_settings;
+
+  SELECT * INTO v_beneficiary
+  FROM public.beneficiaries
+  WHERE user_id = p_sender_id AND payee_user_id = p_recipient_id AND removed_at IS NULL;
+
+  IF FOUND AND now() < v_beneficiary.active_from THEN
+    RAISE EXCEPTION 'This payee is in its cooling period until %', v_beneficiary.active_from USING ERRCODE = 'P0001';
+  END IF;
+
+  IF FOUND AND now() >= v_beneficiary.created_at + make_interval(hours => v_settings.new_payee_window_hours) THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_sent
+  FROM public.transactions
+  WHERE user_id = p_sender_id
+    AND counterparty_user_id = p_recipient_id
+    AND transaction_type = 'transfer_out'
+    AND created_at >= now() - make_interval(hours => v_settings.new_payee_window_hours);
+
+  IF v_sent + p_amount > v_settings.new_payee_transfer_cap THEN
+    IF v_beneficiary.id IS NULL THEN
+      RAISE EXCEPTION 'Transfers to unsaved recipients are limited to % in any % hours; add them as a payee to send more',
+        v_settings.new_payee_transfer_cap, v_settings.new_payee_window_hours USING ERRCODE = 'P0001';
+    END IF;
+    RAISE EXCEPTION 'Transfers to a newly added payee are limited to % in the first % hours',
+      v_settings.new_payee_transfer_cap, v_settings.new_payee_window_hours USING ERRCODE = 'P0001';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.check_transfer_policy(UUID, UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+-- Transfer money from the signed-in user to another customer, applying payee rules
+CREATE OR REPLACE FUNCTION public.post_transfer(
+  p_recipient_user_id UUID,
+  p_amount DECIMAL,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  -- Lock both profiles up front (in the same order as apply_transfer) so the
+  -- cap check and the posting see the same history
+  PERFORM 1
+  FROM public.profiles
+  WHERE user_id IN (auth.uid(), p_recipient_user_id)
+  ORDER BY user_id
+  FOR UPDATE;
+
+  -- A replay returns the original transfer without re-checking the caps it already counted towards
+  IF p_idempotency_key IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.transactions
+    WHERE user_id = auth.uid() AND idempotency_key = p_idempotency_key
+  ) THEN
+    PERFORM public.check_transfer_policy(auth.uid(), p_recipient_user_id, round(p_amount, 2));
+  END IF;
+
+  RETURN public.apply_transfer(auth.uid(), p_recipient_user_id, p_amount, p_description, p_idempotency_key);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
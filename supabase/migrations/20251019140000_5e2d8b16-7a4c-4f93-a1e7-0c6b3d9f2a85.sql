@@ -0,0 +1,312 @@
+-- Create scheduled_transactions table for one-off and recurring standing instructions
+CREATE TABLE public.scheduled_transactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  transaction_type TEXT NOT NULL CHECK (transaction_type IN ('withdraw', 'transfer_out')),
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  description TEXT,
+  recipient_user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  recipient_name TEXT,
+  frequency TEXT NOT NULL CHECK (frequency IN ('once', 'daily', 'weekly', 'monthly')),
+  day_of_week SMALLINT CHECK (day_of_week BETWEEN 0 AND 6),
+  day_of_month SMALLINT CHECK (day_of_month BETWEEN 1 AND 31),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  max_runs INTEGER CHECK (max_runs > 0),
+  runs_count INTEGER NOT NULL DEFAULT 0,
+  next_run_date DATE,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'completed', 'cancelled', 'failed')),
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((transaction_type = 'transfer_out') = (recipient_user_id IS NOT NULL)),
+  CHECK (frequency <> 'weekly' OR day_of_week IS NOT NULL),
+  CHECK (frequency <> 'monthly' OR day_of_month IS NOT NULL),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX scheduled_transactions_due_idx ON public.scheduled_transactions (next_run_date) WHERE status = 'active';
+
+-- Create scheduled_transaction_runs table recording every execution attempt
+CREATE TABLE public.scheduled_transaction_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  scheduled_transaction_id UUID NOT NULL REFERENCES public.scheduled_transactions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  run_date DATE NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('succeeded', 'failed')),
+  transaction_id UUID REFERENCES public.transactions(id),
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (scheduled_transaction_id, run_date)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.scheduled_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scheduled_transaction_runs ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies; instructions are created and changed through functions
+CREATE POLICY "Users can view their own scheduled transactions"
+ON public.scheduled_transactions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own scheduled transaction runs"
+ON public.scheduled_transaction_runs
+FOR SELECT
+USING (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON public.scheduled_transactions FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.scheduled_transaction_runs FROM anon, authenticated;
+
+CREATE TRIGGER update_scheduled_transactions_updated_at
+  BEFORE UPDATE ON public.scheduled_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create function returning the next occurrence strictly after p_after.
+-- Monthly instructions on days a month does not have run on its last day.
+CREATE OR REPLACE FUNCTION public.scheduled_transaction_next_date(
+  p_frequency TEXT,
+  p_day_of_week SMALLINT,
+  p_day_of_month SMALLINT,
+  p_after DATE
+)
+RETURNS DATE AS $$
+DECLARE
+  v_month DATE;
+  v_candidate DATE;
+BEGIN
+  CASE p_frequency
+    WHEN 'daily' THEN
+      RETURN p_after + 1;
+    WHEN 'weekly' THEN
+      RETURN p_after + 1 + ((p_day_of_week - extract(dow FROM p_after + 1)::int + 7) % 7);
+    WHEN 'monthly' THEN
+      v_month := date_trunc('month', p_after)::date;
+      LOOP
+        v_candidate := v_month + (
+          LEAST(p_day_of_month, extract(day FROM (v_month + interval '1 month - 1 day'))::int) - 1
+        );
+        IF v_candidate > p_after THEN
+          RETURN v_candidate;
+        END IF;
+        v_month := (v_month + interval '1 month')::date;
+      END LOOP;
+    ELSE
+      RETURN NULL;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+-- Create a standing instruction for the signed-in user
+CREATE OR REPLACE FUNCTION public.create_scheduled_transaction(
+  p_transaction_type TEXT,
+  p_amount DECIMAL,
+  p_frequency TEXT,
+  p_start_date DATE,
+  p_description TEXT DEFAULT NULL,
+  p_recipient_user_id UUID DEFAULT NULL,
+  p_day_of_week SMALLINT DEFAULT NULL,
+  p_day_of_month SMALLINT DEFAULT NULL,
+  p_end_date DATE DEFAULT NULL,
+  p_max_runs INTEGER DEFAULT NULL
+)
+RETURNS public.scheduled_transactions AS $$
+DECLARE
+  v_recipient_name TEXT;
+  v_first_run DATE;
+  v_scheduled public.scheduled_transactions;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_start_date IS NULL OR p_start_date < current_date THEN
+    RAISE EXCEPTION 'Start date cannot be in the past' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_transaction_type = 'transfer_out' THEN
+    SELECT nickname INTO v_recipient_name
+    FROM public.beneficiaries
+    WHERE user_id = auth.uid() AND payee_user_id = p_recipient_user_id AND removed_at IS NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Scheduled transfers can only be made to saved payees' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  IF p_frequency = 'once' THEN
+    v_first_run := p_start_date;
+  ELSE
+    v_first_run := public.scheduled_transaction_next_date(p_frequency, p_day_of_week, p_day_of_month, p_start_date - 1);
+  END IF;
+
+  IF p_end_date IS NOT NULL AND v_first_run > p_end_date THEN
+    RAISE EXCEPTION 'The schedule has no runs before its end date' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.scheduled_transactions (
+    user_id, transaction_type, amount, description, recipient_user_id, recipient_name,
+    frequency, day_of_week, day_of_month, start_date, end_date, max_runs, next_run_date
+  )
+  VALUES (
+    auth.uid(), p_transaction_type, round(p_amount, 2), NULLIF(btrim(p_description), ''),
+    p_recipient_user_id, v_recipient_name, p_frequency, p_day_of_week, p_day_of_month,
+    p_start_date, p_end_date, CASE WHEN p_frequency = 'once' THEN 1 ELSE p_max_runs END, v_first_run
+  )
+  RETURNING * INTO v_scheduled;
+
+  RETURN v_scheduled;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.create_scheduled_transaction(TEXT, DECIMAL, TEXT, DATE, TEXT, UUID, SMALLINT, SMALLINT, DATE, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_scheduled_transaction(TEXT, DECIMAL, TEXT, DATE, TEXT, UUID, SMALLINT, SMALLINT, DATE, INTEGER) TO authenticated;
+
+-- Pause, resume or cancel one of the signed-in user's instructions
+CREATE OR REPLACE FUNCTION public.update_scheduled_transaction_status(p_id UUID, p_status TEXT)
+RETURNS public.scheduled_transactions AS $$
+DECLARE
+  v_scheduled public.scheduled_transactions;
+BEGIN
+  SELECT * INTO v_scheduled
+  FROM public.scheduled_transactions
+  WHERE id = p_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Scheduled transaction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT (
+    (v_scheduled.status = 'active' AND p_status IN ('paused', 'cancelled'))
+    OR (v_scheduled.status IN ('paused', 'failed') AND p_status IN ('active', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'Cannot change a % instruction to %', v_scheduled.status, p_status USING ERRCODE = '22023';
+  END IF;
+
+  -- Resuming skips occurrences that fell due while the instruction was not active
+  IF p_status = 'active' THEN
+    WHILE v_scheduled.next_run_date < current_date AND v_scheduled.frequency <> 'once' LOOP
+      v_scheduled.next_run_date := public.scheduled_transaction_next_date(
+        v_scheduled.frequency, v_scheduled.day_of_week, v_scheduled.day_of_month, v_scheduled.next_run_date
+      );
+    END LOOP;
+
+    IF v_scheduled.next_run_date IS NULL
+      OR v_scheduled.next_run_date < current_date
+      OR (v_scheduled.end_date IS NOT NULL AND v_scheduled.next_run_date > v_scheduled.end_date) THEN
+      RAISE EXCEPTION 'This instruction has no remaining runs' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  UPDATE public.scheduled_transactions
+  SET status = p_status,
+      next_run_date = v_scheduled.next_run_date,
+      consecutive_failures = CASE WHEN p_status = 'active' THEN 0 ELSE consecutive_failures END
+  WHERE id = p_id
+  RETURNING * INTO v_scheduled;
+
+  RETURN v_scheduled;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.update_scheduled_transaction_status(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_scheduled_transaction_status(UUID, TEXT) TO authenticated;
+
+-- Execute every instruction that is due on or before p_as_of.
+--
+-- Each occurrence posts through apply_transaction / apply_transfer (the same
+-- functions behind the dashboard) with an idempotency key derived from the
+-- instruction and run date, so re-running the job never double-posts. An
+-- occurrence that fails (for example for insufficient funds) is recorded and
+-- skipped; after three consecutive failures the instruction is marked failed
+-- and must be resumed by the customer. Only occurrences that post count
+-- towards max_runs, so "pay 12 times" means twelve payments.
+CREATE OR REPLACE FUNCTION public.run_due_scheduled_transactions(p_as_of DATE DEFAULT current_date)
+RETURNS TABLE (
+  scheduled_transaction_id UUID,
+  run_date DATE,
+  status TEXT,
+  transaction_id UUID,
+  error TEXT
+) AS $$
+DECLARE
+  v_max_consecutive_failures CONSTANT INTEGER := 3;
+  s public.scheduled_transactions;
+  v_run_date DATE;
+  v_key UUID;
+  v_transaction public.transactions;
+BEGIN
+  FOR s IN
+    SELECT * FROM public.scheduled_transactions st
+    WHERE st.status = 'active' AND st.next_run_date <= p_as_of
+    ORDER BY st.next_run_date, st.created_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    WHILE s.status = 'active' AND s.next_run_date <= p_as_of LOOP
+      v_run_date := s.next_run_date;
+      v_key := md5(s.id::text || ':' || v_run_date::text)::uuid;
+      scheduled_transaction_id := s.id;
+      run_date := v_run_date;
+      transaction_id := NULL;
+      error := NULL;
+
+      BEGIN
+        IF s.transaction_type = 'withdraw' THEN
+          v_transaction := public.apply_transaction(s.user_id, 'withdraw', s.amount, COALESCE(s.description, 'Scheduled withdrawal'), v_key);
+        ELSE
+          PERFORM public.check_transfer_policy(s.user_id, s.recipient_user_id, s.amount);
+          v_transaction := public.apply_transfer(s.user_id, s.recipient_user_id, s.amount, COALESCE(s.description, 'Scheduled transfer'), v_key);
+        END IF;
+
+        status := 'succeeded';
+        transaction_id := v_transaction.id;
+        s.consecutive_failures := 0;
+        s.last_error := NULL;
+      EXCEPTION WHEN OTHERS THEN
+        status := 'failed';
+        error := SQLERRM;
+        s.consecutive_failures := s.consecutive_failures + 1;
+        s.last_error := SQLERRM;
+      END;
+
+      INSERT INTO public.scheduled_transaction_runs (scheduled_transaction_id, user_id, run_date, status, transaction_id, error)
+      VALUES (s.id, s.user_id, v_run_date, status, transaction_id, error)
+      ON CONFLICT ON CONSTRAINT scheduled_transaction_runs_scheduled_transaction_id_run_date_key DO NOTHING;
+
+      IF status = 'succeeded' THEN
+        s.runs_count := s.runs_count + 1;
+      END IF;
+      s.next_run_date := public.scheduled_transaction_next_date(s.frequency, s.day_of_week, s.day_of_month, v_run_date);
+
+      IF s.consecutive_failures >= v_max_consecutive_failures
+        OR (s.frequency = 'once' AND status = 'failed') THEN
+        s.status := 'failed';
+      ELSIF s.next_run_date IS NULL
+        OR (s.end_date IS NOT NULL AND s.next_run_date > s.end_date)
+        OR (s.max_runs IS NOT NULL AND s.runs_count >= s.max_runs) THEN
+        s.status := 'completed';
+        s.next_run_date := NULL;
+      END IF;
+
+      UPDATE public.scheduled_transactions st
+      SET status = s.status,
+          runs_count = s.runs_count,
+          next_run_date = s.next_run_date,
+          consecutive_failures = s.consecutive_failures,
+          last_error = s.last_error,
+          last_run_at = now()
+      WHERE st.id = s.id;
+
+      RETURN NEXT;
+    END LOOP;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The executor is a back-office job: run it with the service role (see README)
+REVOKE EXECUTE ON FUNCTION public.run_due_scheduled_transactions(DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.run_due_scheduled_transactions(DATE) TO service_role;
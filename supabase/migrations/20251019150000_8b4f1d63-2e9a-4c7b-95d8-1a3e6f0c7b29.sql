@@ -0,0 +1,255 @@
+-- Allow reversal rows in the transaction history and link them to the row they offset
+ALTER TABLE public.transactions DROP CONSTRAINT transactions_transaction_type_check;
+
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_transaction_type_check
+  CHECK (transaction_type IN ('deposit', 'withdraw', 'transfer_out', 'transfer_in', 'reversal_in', 'reversal_out'));
+
+ALTER TABLE public.transactions
+  ADD COLUMN reverses_transaction_id UUID REFERENCES public.transactions(id);
+
+-- A transaction can only be reversed once
+CREATE UNIQUE INDEX transactions_reverses_transaction_id_key
+  ON public.transactions (reverses_transaction_id)
+  WHERE reverses_transaction_id IS NOT NULL;
+
+-- Create disputes table
+CREATE TABLE public.disputes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transaction_id UUID NOT NULL UNIQUE REFERENCES public.transactions(id),
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  reason TEXT NOT NULL CHECK (btrim(reason) <> ''),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'under_review', 'resolved')),
+  resolution TEXT CHECK (resolution IN ('reversed', 'rejected')),
+  resolution_note TEXT,
+  reversal_transaction_id UUID REFERENCES public.transactions(id),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((status = 'resolved') = (resolution IS NOT NULL))
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.disputes ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for disputes; they are raised and resolved through functions
+CREATE POLICY "Users can view their own disputes"
+ON public.disputes
+FOR SELECT
+USING (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON public.disputes FROM anon, authenticated;
+
+CREATE TRIGGER update_disputes_updated_at
+  BEFORE UPDATE ON public.disputes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create internal function that reverses a posted transaction.
+--
+-- History is never edited: the original journal entry is offset by a new
+-- entry with every debit and credit swapped, and each customer row derived
+-- from the original entry (both legs of a transfer) gets a linked
+-- reversal_in / reversal_out row. Returns the reversal row of the customer who
+-- owns p_transaction_id.
+CREATE OR REPLACE FUNCTION public.reverse_transaction(p_transaction_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS public.transactions AS $$
+DECLARE
+  v_original public.transactions;
+  v_entry_id UUID;
+  v_description TEXT;
+  v_balance DECIMAL(12,2);
+  v_result public.transactions;
+  v_reversal public.transactions;
+  r RECORD;
+BEGIN
+  SELECT * INTO v_original FROM public.transactions WHERE id = p_transaction_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_original.transaction_type IN ('reversal_in', 'reversal_out') THEN
+    RAISE EXCEPTION 'Reversals cannot themselves be reversed' USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock every customer touched by the original entry, in a fixed order
+  PERFORM 1
+  FROM public.profiles
+  WHERE user_id IN (SELECT t.user_id FROM public.transactions t WHERE t.journal_entry_id = v_original.journal_entry_id)
+  ORDER BY user_id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.transactions
+    WHERE reverses_transaction_id IN (
+      SELECT t.id FROM public.transactions t WHERE t.journal_entry_id = v_original.journal_entry_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Transaction has already been reversed' USING ERRCODE = '22023';
+  END IF;
+
+  -- Customers whose balance goes down must be able to cover it
+  FOR r IN
+    SELECT jl.ledger_account_id, SUM(jl.credit) - SUM(jl.debit) AS amount
+    FROM public.journal_lines jl
+    JOIN public.ledger_accounts la ON la.id = jl.ledger_account_id
+    WHERE jl.journal_entry_id = v_original.journal_entry_id AND la.user_id IS NOT NULL
+    GROUP BY jl.ledger_account_id
+  LOOP
+    IF r.amount > 0 AND public.ledger_account_balance(r.ledger_account_id) < r.amount THEN
+      RAISE EXCEPTION 'Insufficient funds to reverse this transaction' USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+
+  v_description := 'Reversal: ' || COALESCE(NULLIF(btrim(p_reason), ''), v_original.description, 'transaction reversed');
+
+  INSERT INTO public.journal_entries (entry_type, description)
+  VALUES ('reversal', v_description)
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO public.journal_lines (journal_entry_id, ledger_account_id, debit, credit)
+  SELECT v_entry_id, jl.ledger_account_id, jl.credit, jl.debit
+  FROM public.journal_lines jl
+  WHERE jl.journal_entry_id = v_original.journal_entry_id;
+
+  FOR r IN
+    SELECT t.* FROM public.transactions t
+    WHERE t.journal_entry_id = v_original.journal_entry_id
+    ORDER BY t.created_at, t.id
+  LOOP
+    v_balance := public.ledger_account_balance(public.customer_ledger_account_id(r.user_id));
+
+    UPDATE public.profiles SET balance = v_balance WHERE user_id = r.user_id;
+
+    INSERT INTO public.transactions (
+      user_id, amount, transaction_type, description, balance_after, journal_entry_id,
+      counterparty_user_id, counterparty_name, reverses_transaction_id
+    )
+    VALUES (
+      r.user_id,
+      r.amount,
+      CASE WHEN r.transaction_type IN ('deposit', 'transfer_in') THEN 'reversal_out' ELSE 'reversal_in' END,
+      v_description,
+      v_balance,
+      v_entry_id,
+      r.counterparty_user_id,
+      r.counterparty_name,
+      r.id
+    )
+    RETURNING * INTO v_reversal;
+
+    IF r.id = p_transaction_id THEN
+      v_result := v_reversal;
+    END IF;
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.reverse_transaction(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reverse_transaction(UUID, TEXT) TO service_role;
+
+-- Raise a dispute on one of the signed-in user's transactions
+CREATE OR REPLACE FUNCTION public.raise_dispute(p_transaction_id UUID, p_reason TEXT)
+RETURNS public.disputes AS $$
+DECLARE
+  v_transaction public.transactions;
+  v_dispute public.disputes;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_transaction
+  FROM public.transactions
+  WHERE id = p_transaction_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_transaction.transaction_type IN ('reversal_in', 'reversal_out') THEN
+    RAISE EXCEPTION 'Reversals cannot be disputed' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RAISE EXCEPTION 'Please describe the problem with this transaction' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.disputes WHERE transaction_id = p_transaction_id) THEN
+    RAISE EXCEPTION 'This transaction has already been disputed' USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.disputes (transaction_id, user_id, reason)
+  VALUES (p_transaction_id, auth.uid(), btrim(p_reason))
+  RETURNING * INTO v_dispute;
+
+  RETURN v_dispute;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.raise_dispute(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.raise_dispute(UUID, TEXT) TO authenticated;
+
+-- Back office: move an open dispute under review
+CREATE OR REPLACE FUNCTION public.review_dispute(p_dispute_id UUID)
+RETURNS public.disputes AS $$
+DECLARE
+  v_dispute public.disputes;
+BEGIN
+  UPDATE public.disputes
+  SET status = 'under_review'
+  WHERE id = p_dispute_id AND status = 'open'
+  RETURNING * INTO v_dispute;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No open dispute with id %', p_dispute_id USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_dispute;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Back office: resolve a dispute, reversing the transaction when upheld
+CREATE OR REPLACE FUNCTION public.resolve_dispute(p_dispute_id UUID, p_resolution TEXT, p_note TEXT DEFAULT NULL)
+RETURNS public.disputes AS $$
+DECLARE
+  v_dispute public.disputes;
+  v_reversal public.transactions;
+BEGIN
+  SELECT * INTO v_dispute
+  FROM public.disputes
+  WHERE id = p_dispute_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_dispute.status = 'resolved' THEN
+    RAISE EXCEPTION 'No unresolved dispute with id %', p_dispute_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_resolution IS NULL OR p_resolution NOT IN ('reversed', 'rejected') THEN
+    RAISE EXCEPTION 'Resolution must be reversed or rejected' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_resolution = 'reversed' THEN
+    v_reversal := public.reverse_transaction(v_dispute.transaction_id, COALESCE(p_note, 'dispute upheld'));
+  END IF;
+
+  UPDATE public.disputes
+  SET status = 'resolved',
+      resolution = p_resolution,
+      resolution_note = p_note,
+      reversal_transaction_id = v_reversal.id,
+      resolved_at = now()
+  WHERE id = p_dispute_id
+  RETURNING * INTO v_dispute;
+
+  RETURN v_dispute;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.review_dispute(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.resolve_dispute(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.review_dispute(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.resolve_dispute(UUID, TEXT, TEXT) TO service_role;
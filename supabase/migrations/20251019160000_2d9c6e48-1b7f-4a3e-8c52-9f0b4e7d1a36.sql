@@ -0,0 +1,504 @@
+-- Give every transaction a status. Existing rows are final, so they are posted.
+ALTER TABLE public.transactions
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'posted' CHECK (status IN ('pending', 'posted', 'failed', 'reversed')),
+  ADD COLUMN failure_reason TEXT,
+  ADD COLUMN status_changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+-- Pending and failed rows have not been posted to the ledger
+ALTER TABLE public.transactions ALTER COLUMN journal_entry_id DROP NOT NULL;
+
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_posted_journal_entry_check
+  CHECK (status IN ('pending', 'failed') OR journal_entry_id IS NOT NULL);
+
+CREATE INDEX transactions_user_id_status_idx ON public.transactions (user_id, status);
+
+-- Create function enforcing the status state machine:
+-- pending -> posted | failed, posted -> reversed
+CREATE OR REPLACE FUNCTION public.check_transaction_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'pending' AND NEW.status IN ('posted', 'failed'))
+      OR (OLD.status = 'posted' AND NEW.status = 'reversed')
+    ) THEN
+      RAISE EXCEPTION 'Invalid transaction status change from % to %', OLD.status, NEW.status;
+    END IF;
+    NEW.status_changed_at = now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER check_transactions_status_transition
+  BEFORE UPDATE OF status ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_transaction_status_transition();
+
+-- Split the profile balance: the ledger balance is what has been posted, the
+-- available balance additionally deducts withdrawals that are still pending
+ALTER TABLE public.profiles RENAME COLUMN balance TO ledger_balance;
+ALTER TABLE public.profiles ADD COLUMN available_balance DECIMAL(12,2) NOT NULL DEFAULT 0.00;
+UPDATE public.profiles SET available_balance = ledger_balance;
+
+-- Create single-row table of transaction processing settings
+CREATE TABLE public.transaction_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  pending_withdrawal_threshold DECIMAL(12,2) NOT NULL DEFAULT 100000.00 CHECK (pending_withdrawal_threshold > 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.transaction_settings DEFAULT VALUES;
+
+ALTER TABLE public.transaction_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view transaction settings"
+ON public.transaction_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+REVOKE INSERT, UPDATE, DELETE ON public.transaction_settings FROM anon, authenticated;
+
+-- Create function returning the money a customer can spend right now
+CREATE OR REPLACE FUNCTION public.customer_available_balance(p_user_id UUID)
+RETURNS DECIMAL AS $$
+  SELECT public.ledger_account_balance(public.customer_ledger_account_id(p_user_id))
+    - COALESCE((
+      SELECT SUM(amount) FROM public.transactions
+      WHERE user_id = p_user_id AND status = 'pending' AND transaction_type = 'withdraw'
+    ), 0.00);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Create function raising 'Insufficient funds' unless the customer can spend p_amount
+CREATE OR REPLACE FUNCTION public.assert_sufficient_funds(p_user_id UUID, p_amount DECIMAL)
+RETURNS VOID AS $$
+BEGIN
+  IF public.customer_available_balance(p_user_id) < p_amount THEN
+    RAISE EXCEPTION 'Insufficient funds' USING ERRCODE = 'P0001';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create function copying a customer's ledger and available balances onto
+-- their profile; returns the ledger balance
+CREATE OR REPLACE FUNCTION public.refresh_customer_balances(p_user_id UUID)
+RETURNS DECIMAL AS $$
+DECLARE
+  v_ledger_balance DECIMAL(12,2) := public.ledger_account_balance(public.customer_ledger_account_id(p_user_id));
+BEGIN
+  UPDATE public.profiles
+  SET ledger_balance = v_ledger_balance,
+      available_balance = public.customer_available_balance(p_user_id)
+  WHERE user_id = p_user_id;
+
+  RETURN v_ledger_balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.customer_available_balance(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.assert_sufficient_funds(UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_customer_balances(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Recreate internal posting function. Withdrawals at or above the pending
+-- threshold are held as pending: the amount leaves the available balance
+-- immediately but is only posted to the ledger once settled.
+CREATE OR REPLACE FUNCTION public.apply_transaction(
+  p_user_id UUID,
+  p_transaction_type TEXT,
+  p_amount DECIMAL,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+  v_description TEXT;
+  v_customer UUID;
+  v_cash UUID := public.internal_ledger_account_id('CASH');
+  v_threshold DECIMAL(12,2);
+  v_entry_id UUID;
+  v_balance DECIMAL(12,2);
+  v_transaction public.transactions;
+BEGIN
+  IF p_transaction_type IS NULL OR p_transaction_type NOT IN ('deposit', 'withdraw') THEN
+    RAISE EXCEPTION 'Unsupported transaction type: %', p_transaction_type USING ERRCODE = '22023';
+  END IF;
+
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM 1
+  FROM public.profiles
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- The profile lock serialises replays, so this lookup cannot race a concurrent post
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_transaction
+    FROM public.transactions
+    WHERE user_id = p_user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_transaction.transaction_type <> p_transaction_type OR v_transaction.amount <> v_amount THEN
+        RAISE EXCEPTION 'Idempotency key was already used for a different request' USING ERRCODE = '22023';
+      END IF;
+      RETURN v_transaction;
+    END IF;
+  END IF;
+
+  v_customer := public.customer_ledger_account_id(p_user_id);
+  v_description := COALESCE(
+    NULLIF(btrim(p_description), ''),
+    CASE WHEN p_transaction_type = 'deposit' THEN 'Deposit transaction' ELSE 'Withdrawal transaction' END
+  );
+
+  IF p_transaction_type = 'withdraw' THEN
+    PERFORM public.assert_sufficient_funds(p_user_id, v_amount);
+
+    SELECT pending_withdrawal_threshold INTO v_threshold FROM public.transaction_settings;
+
+    IF v_amount >= v_threshold THEN
+      INSERT INTO public.transactions (user_id, amount, transaction_type, description, balance_after, idempotency_key, status)
+      VALUES (p_user_id, v_amount, 'withdraw', v_description, public.ledger_account_balance(v_customer), p_idempotency_key, 'pending')
+      RETURNING * INTO v_transaction;
+
+      PERFORM public.refresh_customer_balances(p_user_id);
+      RETURN v_transaction;
+    END IF;
+
+    v_entry_id := public.post_journal_entry('withdraw', v_description, v_customer, v_cash, v_amount);
+  ELSE
+    v_entry_id := public.post_journal_entry('deposit', v_description, v_cash, v_customer, v_amount);
+  END IF;
+
+  v_balance := public.refresh_customer_balances(p_user_id);
+
+  INSERT INTO public.transactions (user_id, amount, transaction_type, description, balance_after, idempotency_key, journal_entry_id)
+  VALUES (p_user_id, v_amount, p_transaction_type, v_description, v_balance, p_idempotency_key, v_entry_id)
+  RETURNING * INTO v_transaction;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Back office: post a pending withdrawal to the ledger
+CREATE OR REPLACE FUNCTION public.settle_pending_transaction(p_transaction_id UUID)
+RETURNS public.transactions AS $$
+DECLARE
+  v_transaction public.transactions;
+  v_customer UUID;
+  v_entry_id UUID;
+BEGIN
+  SELECT * INTO v_transaction FROM public.transactions WHERE id = p_transaction_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM 1 FROM public.profiles WHERE user_id = v_transaction.user_id FOR UPDATE;
+
+  SELECT * INTO v_transaction FROM public.transactions WHERE id = p_transaction_id FOR UPDATE;
+
+  IF v_transaction.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending transactions can be settled' USING ERRCODE = '22023';
+  END IF;
+
+  v_customer := public.customer_ledger_account_id(v_transaction.user_id);
+  v_entry_id := public.post_journal_entry(
+    'withdraw', v_transaction.description, v_customer, public.internal_ledger_account_id('CASH'), v_transaction.amount
+  );
+
+  UPDATE public.transactions
+  SET status = 'posted',
+      journal_entry_id = v_entry_id,
+      balance_after = public.ledger_account_balance(v_customer)
+  WHERE id = p_transaction_id
+  RETURNING * INTO v_transaction;
+
+  PERFORM public.refresh_customer_balances(v_transaction.user_id);
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Back office: reject a pending withdrawal, releasing the held amount
+CREATE OR REPLACE FUNCTION public.fail_pending_transaction(p_transaction_id UUID, p_reason TEXT)
+RETURNS public.transactions AS $$
+DECLARE
+  v_transaction public.transactions;
+BEGIN
+  SELECT * INTO v_transaction FROM public.transactions WHERE id = p_transaction_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM 1 FROM public.profiles WHERE user_id = v_transaction.user_id FOR UPDATE;
+
+  UPDATE public.transactions
+  SET status = 'failed',
+      failure_reason = COALESCE(NULLIF(btrim(p_reason), ''), 'Declined')
+  WHERE id = p_transaction_id AND status = 'pending'
+  RETURNING * INTO v_transaction;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only pending transactions can be failed' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM public.refresh_customer_balances(v_transaction.user_id);
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.settle_pending_transaction(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fail_pending_transaction(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.settle_pending_transaction(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.fail_pending_transaction(UUID, TEXT) TO service_role;
+
+-- Recreate transfer function against the split balances
+CREATE OR REPLACE FUNCTION public.apply_transfer(
+  p_sender_id UUID,
+  p_recipient_id UUID,
+  p_amount DECIMAL,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+  v_sender_name TEXT;
+  v_recipient_name TEXT;
+  v_description TEXT;
+  v_entry_id UUID;
+  v_sender_balance DECIMAL(12,2);
+  v_recipient_balance DECIMAL(12,2);
+  v_out public.transactions;
+  v_in public.transactions;
+BEGIN
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_sender_id = p_recipient_id THEN
+    RAISE EXCEPTION 'You cannot transfer money to yourself' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM 1
+  FROM public.profiles
+  WHERE user_id IN (p_sender_id, p_recipient_id)
+  ORDER BY user_id
+  FOR UPDATE;
+
+  SELECT name INTO v_sender_name FROM public.profiles WHERE user_id = p_sender_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT name INTO v_recipient_name FROM public.profiles WHERE user_id = p_recipient_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recipient not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_out
+    FROM public.transactions
+    WHERE user_id = p_sender_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_out.transaction_type <> 'transfer_out'
+        OR v_out.amount <> v_amount
+        OR v_out.counterparty_user_id IS DISTINCT FROM p_recipient_id THEN
+        RAISE EXCEPTION 'Idempotency key was already used for a different request' USING ERRCODE = '22023';
+      END IF;
+      RETURN v_out;
+    END IF;
+  END IF;
+
+  PERFORM public.assert_sufficient_funds(p_sender_id, v_amount);
+
+  v_description := COALESCE(NULLIF(btrim(p_description), ''), 'Transfer');
+  v_entry_id := public.post_journal_entry(
+    'transfer', v_description,
+    public.customer_ledger_account_id(p_sender_id), public.customer_ledger_account_id(p_recipient_id),
+    v_amount
+  );
+
+  v_sender_balance := public.refresh_customer_balances(p_sender_id);
+  v_recipient_balance := public.refresh_customer_balances(p_recipient_id);
+
+  INSERT INTO public.transactions (
+    user_id, amount, transaction_type, description, balance_after, idempotency_key,
+    journal_entry_id, counterparty_user_id, counterparty_name
+  )
+  VALUES (
+    p_sender_id, v_amount, 'transfer_out', v_description, v_sender_balance, p_idempotency_key,
+    v_entry_id, p_recipient_id, v_recipient_name
+  )
+  RETURNING * INTO v_out;
+
+  INSERT INTO public.transactions (
+    user_id, amount, transaction_type, description, balance_after,
+    journal_entry_id, counterparty_user_id, counterparty_name, related_transaction_id
+  )
+  VALUES (
+    p_recipient_id, v_amount, 'transfer_in', v_description, v_recipient_balance,
+    v_entry_id, p_sender_id, v_sender_name, v_out.id
+  )
+  RETURNING * INTO v_in;
+
+  UPDATE public.transactions
+  SET related_transaction_id = v_in.id
+  WHERE id = v_out.id
+  RETURNING * INTO v_out;
+
+  RETURN v_out;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Recreate reversal function: only posted transactions can be reversed, and
+-- the offset rows move to the reversed status
+CREATE OR REPLACE FUNCTION public.reverse_transaction(p_transaction_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS public.transactions AS $$
+DECLARE
+  v_original public.transactions;
+  v_entry_id UUID;
+  v_description TEXT;
+  v_balance DECIMAL(12,2);
+  v_result public.transactions;
+  v_reversal public.transactions;
+  r RECORD;
+BEGIN
+  SELECT * INTO v_original FROM public.transactions WHERE id = p_transaction_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_original.transaction_type IN ('reversal_in', 'reversal_out') THEN
+    RAISE EXCEPTION 'Reversals cannot themselves be reversed' USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock every customer touched by the original entry, in a fixed order
+  PERFORM 1
+  FROM public.profiles
+  WHERE user_id IN (SELECT t.user_id FROM public.transactions t WHERE t.journal_entry_id = v_original.journal_entry_id)
+  ORDER BY user_id
+  FOR UPDATE;
+
+  SELECT * INTO v_original FROM public.transactions WHERE id = p_transaction_id;
+
+  IF v_original.status = 'reversed' THEN
+    RAISE EXCEPTION 'Transaction has already been reversed' USING ERRCODE = '22023';
+  ELSIF v_original.status <> 'posted' THEN
+    RAISE EXCEPTION 'Only posted transactions can be reversed' USING ERRCODE = '22023';
+  END IF;
+
+  -- Customers whose balance goes down must be able to cover it
+  FOR r IN
+    SELECT la.user_id, SUM(jl.credit) - SUM(jl.debit) AS amount
+    FROM public.journal_lines jl
+    JOIN public.ledger_accounts la ON la.id = jl.ledger_account_id
+    WHERE jl.journal_entry_id = v_original.journal_entry_id AND la.user_id IS NOT NULL
+    GROUP BY la.user_id
+  LOOP
+    IF r.amount > 0 AND public.customer_available_balance(r.user_id) < r.amount THEN
+      RAISE EXCEPTION 'Insufficient funds to reverse this transaction' USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+
+  v_description := 'Reversal: ' || COALESCE(NULLIF(btrim(p_reason), ''), v_original.description, 'transaction reversed');
+
+  INSERT INTO public.journal_entries (entry_type, description)
+  VALUES ('reversal', v_description)
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO public.journal_lines (journal_entry_id, ledger_account_id, debit, credit)
+  SELECT v_entry_id, jl.ledger_account_id, jl.credit, jl.debit
+  FROM public.journal_lines jl
+  WHERE jl.journal_entry_id = v_original.journal_entry_id;
+
+  FOR r IN
+    SELECT t.* FROM public.transactions t
+    WHERE t.journal_entry_id = v_original.journal_entry_id
+    ORDER BY t.created_at, t.id
+  LOOP
+    v_balance := public.refresh_customer_balances(r.user_id);
+
+    UPDATE public.transactions SET status = 'reversed' WHERE id = r.id;
+
+    INSERT INTO public.transactions (
+      user_id, amount, transaction_type, description, balance_after, journal_entry_id,
+      counterparty_user_id, counterparty_name, reverses_transaction_id
+    )
+    VALUES (
+      r.user_id,
+      r.amount,
+      CASE WHEN r.transaction_type IN ('deposit', 'transfer_in') THEN 'reversal_out' ELSE 'reversal_in' END,
+      v_description,
+      v_balance,
+      v_entry_id,
+      r.counterparty_user_id,
+      r.counterparty_name,
+      r.id
+    )
+    RETURNING * INTO v_reversal;
+
+    IF r.id = p_transaction_id THEN
+      v_result := v_reversal;
+    END IF;
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Recreate raise_dispute: pending and failed transactions have not moved money yet
+CREATE OR REPLACE FUNCTION public.raise_dispute(p_transaction_id UUID, p_reason TEXT)
+RETURNS public.disputes AS $$
+DECLARE
+  v_transaction public.transactions;
+  v_dispute public.disputes;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_transaction
+  FROM public.transactions
+  WHERE id = p_transaction_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_transaction.transaction_type IN ('reversal_in', 'reversal_out') THEN
+    RAISE EXCEPTION 'Reversals cannot be disputed' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_transaction.status <> 'posted' THEN
+    RAISE EXCEPTION 'Only posted transactions can be disputed' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RAISE EXCEPTION 'Please describe the problem with this transaction' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.disputes WHERE transaction_id = p_transaction_id) THEN
+    RAISE EXCEPTION 'This transaction has already been disputed' USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.disputes (transaction_id, user_id, reason)
+  VALUES (p_transaction_id, auth.uid(), btrim(p_reason))
+  RETURNING * INTO v_dispute;
+
+  RETURN v_dispute;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
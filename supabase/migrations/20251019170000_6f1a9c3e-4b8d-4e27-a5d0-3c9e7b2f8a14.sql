@@ -0,0 +1,332 @@
+-- Create per-account-type limits on money a customer sends out. Despite the
+-- column names they cover every debit the customer initiates, cash
+-- withdrawals and transfers alike, so sending money cannot get round them.
+CREATE TABLE public.transaction_limits (
+  account_type TEXT NOT NULL PRIMARY KEY CHECK (account_type IN ('savings', 'current')),
+  max_single_withdrawal DECIMAL(12,2) NOT NULL CHECK (max_single_withdrawal > 0),
+  daily_withdrawal_amount DECIMAL(12,2) NOT NULL CHECK (daily_withdrawal_amount > 0),
+  daily_withdrawal_count INTEGER NOT NULL CHECK (daily_withdrawal_count > 0),
+  monthly_withdrawal_amount DECIMAL(12,2) NOT NULL CHECK (monthly_withdrawal_amount > 0),
+  monthly_withdrawal_count INTEGER NOT NULL CHECK (monthly_withdrawal_count > 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.transaction_limits (
+  account_type, max_single_withdrawal,
+  daily_withdrawal_amount, daily_withdrawal_count,
+  monthly_withdrawal_amount, monthly_withdrawal_count
+)
+VALUES
+  ('savings', 50000.00, 100000.00, 5, 1000000.00, 30),
+  ('current', 200000.00, 500000.00, 20, 5000000.00, 300);
+
+-- Enable Row Level Security
+ALTER TABLE public.transaction_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view transaction limits"
+ON public.transaction_limits
+FOR SELECT
+TO authenticated
+USING (true);
+
+REVOKE INSERT, UPDATE, DELETE ON public.transaction_limits FROM anon, authenticated;
+
+-- The account type now decides a customer's limits, so only the bank may
+-- change it
+REVOKE INSERT (account_type), UPDATE (account_type) ON public.profiles FROM authenticated;
+
+CREATE TRIGGER update_transaction_limits_updated_at
+  BEFORE UPDATE ON public.transaction_limits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create function returning a customer's withdrawal limits alongside what
+-- they have used today and this calendar month across withdrawals and
+-- transfers out. Pending withdrawals count towards the limits; failed and
+-- reversed ones do not.
+CREATE OR REPLACE FUNCTION public.withdrawal_limit_usage(p_user_id UUID)
+RETURNS TABLE (
+  account_type TEXT,
+  max_single_withdrawal DECIMAL,
+  daily_amount_limit DECIMAL,
+  daily_amount_used DECIMAL,
+  daily_count_limit INTEGER,
+  daily_count_used INTEGER,
+  monthly_amount_limit DECIMAL,
+  monthly_amount_used DECIMAL,
+  monthly_count_limit INTEGER,
+  monthly_count_used INTEGER
+) AS $$
+  SELECT
+    l.account_type,
+    l.max_single_withdrawal,
+    l.daily_withdrawal_amount,
+    COALESCE(SUM(t.amount) FILTER (WHERE t.created_at >= date_trunc('day', now())), 0.00),
+    l.daily_withdrawal_count,
+    (COUNT(t.id) FILTER (WHERE t.created_at >= date_trunc('day', now())))::integer,
+    l.monthly_withdrawal_amount,
+    COALESCE(SUM(t.amount), 0.00),
+    l.monthly_withdrawal_count,
+    COUNT(t.id)::integer
+  FROM public.profiles p
+  JOIN public.transaction_limits l ON l.account_type = p.account_type
+  LEFT JOIN public.transactions t
+    ON t.user_id = p.user_id
+    AND t.transaction_type IN ('withdraw', 'transfer_out')
+    AND t.status IN ('pending', 'posted')
+    AND t.created_at >= date_trunc('month', now())
+  WHERE p.user_id = p_user_id
+  GROUP BY l.account_type;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Create internal function raising when a withdrawal or transfer would break a limit
+CREATE OR REPLACE FUNCTION public.check_withdrawal_limits(p_user_id UUID, p_amount DECIMAL)
+RETURNS VOID AS $$
+DECLARE
+  v_usage RECORD;
+BEGIN
+  SELECT * INTO v_usage FROM public.withdrawal_limit_usage(p_user_id);
+
+  -- Account types without configured limits are unrestricted
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF p_amount > v_usage.max_single_withdrawal THEN
+    RAISE EXCEPTION 'Withdrawals and transfers from a % account are limited to % per transaction',
+      v_usage.account_type, v_usage.max_single_withdrawal USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_usage.daily_count_used >= v_usage.daily_count_limit THEN
+    RAISE EXCEPTION 'You have reached the limit of % withdrawals and transfers per day', v_usage.daily_count_limit
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_usage.monthly_count_used >= v_usage.monthly_count_limit THEN
+    RAISE EXCEPTION 'You have reached the limit of % withdrawals and transfers per month', v_usage.monthly_count_limit
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_usage.daily_amount_used + p_amount > v_usage.daily_amount_limit THEN
+    RAISE EXCEPTION 'This exceeds your daily limit; % remaining today',
+      v_usage.daily_amount_limit - v_usage.daily_amount_used USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_usage.monthly_amount_used + p_amount > v_usage.monthly_amount_limit THEN
+    RAISE EXCEPTION 'This exceeds your monthly limit; % remaining this month',
+      v_usage.monthly_amount_limit - v_usage.monthly_amount_used USING ERRCODE = 'P0001';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.withdrawal_limit_usage(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.check_withdrawal_limits(UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+-- Withdrawal limits and usage for the signed-in user
+CREATE OR REPLACE FUNCTION public.get_withdrawal_limits()
+RETURNS TABLE (
+  account_type TEXT,
+  max_single_withdrawal DECIMAL,
+  daily_amount_limit DECIMAL,
+  daily_amount_used DECIMAL,
+  daily_count_limit INTEGER,
+  daily_count_used INTEGER,
+  monthly_amount_limit DECIMAL,
+  monthly_amount_used DECIMAL,
+  monthly_count_limit INTEGER,
+  monthly_count_used INTEGER
+) AS $$
+  SELECT * FROM public.withdrawal_limit_usage(auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_withdrawal_limits() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_withdrawal_limits() TO authenticated;
+
+-- Recreate internal posting function to enforce the withdrawal limits. The
+-- profile lock taken first keeps concurrent withdrawals from both passing the check.
+CREATE OR REPLACE FUNCTION public.apply_transaction(
+  p_user_id UUID,
+  p_transaction_type TEXT,
+  p_amount DECIMAL,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+  v_description TEXT;
+  v_customer UUID;
+  v_cash UUID := public.internal_ledger_account_id('CASH');
+  v_threshold DECIMAL(12,2);
+  v_entry_id UUID;
+  v_balance DECIMAL(12,2);
+  v_transaction public.transactions;
+BEGIN
+  IF p_transaction_type IS NULL OR p_transaction_type NOT IN ('deposit', 'withdraw') THEN
+    RAISE EXCEPTION 'Unsupported transaction type: %', p_transaction_type USING ERRCODE = '22023';
+  END IF;
+
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM 1
+  FROM public.profiles
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- The profile lock serialises replays, so this lookup cannot race a concurrent post
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_transaction
+    FROM public.transactions
+    WHERE user_id = p_user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_transaction.transaction_type <> p_transaction_type OR v_transaction.amount <> v_amount THEN
+        RAISE EXCEPTION 'Idempotency key was already used for a different request' USING ERRCODE = '22023';
+      END IF;
+      RETURN v_transaction;
+    END IF;
+  END IF;
+
+  v_customer := public.customer_ledger_account_id(p_user_id);
+  v_description := COALESCE(
+    NULLIF(btrim(p_description), ''),
+    CASE WHEN p_transaction_type = 'deposit' THEN 'Deposit transaction' ELSE 'Withdrawal transaction' END
+  );
+
+  IF p_transaction_type = 'withdraw' THEN
+    PERFORM public.check_withdrawal_limits(p_user_id, v_amount);
+    PERFORM public.assert_sufficient_funds(p_user_id, v_amount);
+
+    SELECT pending_withdrawal_threshold INTO v_threshold FROM public.transaction_settings;
+
+    IF v_amount >= v_threshold THEN
+      INSERT INTO public.transactions (user_id, amount, transaction_type, description, balance_after, idempotency_key, status)
+      VALUES (p_user_id, v_amount, 'withdraw', v_description, public.ledger_account_balance(v_customer), p_idempotency_key, 'pending')
+      RETURNING * INTO v_transaction;
+
+      PERFORM public.refresh_customer_balances(p_user_id);
+      RETURN v_transaction;
+    END IF;
+
+    v_entry_id := public.post_journal_entry('withdraw', v_description, v_customer, v_cash, v_amount);
+  ELSE
+    v_entry_id := public.post_journal_entry('deposit', v_description, v_cash, v_customer, v_amount);
+  END IF;
+
+  v_balance := public.refresh_customer_balances(p_user_id);
+
+  INSERT INTO public.transactions (user_id, amount, transaction_type, description, balance_after, idempotency_key, journal_entry_id)
+  VALUES (p_user_id, v_amount, p_transaction_type, v_description, v_balance, p_idempotency_key, v_entry_id)
+  RETURNING * INTO v_transaction;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Recreate internal transfer function so transfers count towards and are
+-- held to the same limits as withdrawals
+CREATE OR REPLACE FUNCTION public.apply_transfer(
+  p_sender_id UUID,
+  p_recipient_id UUID,
+  p_amount DECIMAL,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+  v_sender_name TEXT;
+  v_recipient_name TEXT;
+  v_description TEXT;
+  v_entry_id UUID;
+  v_sender_balance DECIMAL(12,2);
+  v_recipient_balance DECIMAL(12,2);
+  v_out public.transactions;
+  v_in public.transactions;
+BEGIN
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_sender_id = p_recipient_id THEN
+    RAISE EXCEPTION 'You cannot transfer money to yourself' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM 1
+  FROM public.profiles
+  WHERE user_id IN (p_sender_id, p_recipient_id)
+  ORDER BY user_id
+  FOR UPDATE;
+
+  SELECT name INTO v_sender_name FROM public.profiles WHERE user_id = p_sender_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT name INTO v_recipient_name FROM public.profiles WHERE user_id = p_recipient_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recipient not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_out
+    FROM public.transactions
+    WHERE user_id = p_sender_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_out.transaction_type <> 'transfer_out'
+        OR v_out.amount <> v_amount
+        OR v_out.counterparty_user_id IS DISTINCT FROM p_recipient_id THEN
+        RAISE EXCEPTION 'Idempotency key was already used for a different request' USING ERRCODE = '22023';
+      END IF;
+      RETURN v_out;
+    END IF;
+  END IF;
+
+  PERFORM public.check_withdrawal_limits(p_sender_id, v_amount);
+  PERFORM public.assert_sufficient_funds(p_sender_id, v_amount);
+
+  v_description := COALESCE(NULLIF(btrim(p_description), ''), 'Transfer');
+  v_entry_id := public.post_journal_entry(
+    'transfer', v_description,
+    public.customer_ledger_account_id(p_sender_id), public.customer_ledger_account_id(p_recipient_id),
+    v_amount
+  );
+
+  v_sender_balance := public.refresh_customer_balances(p_sender_id);
+  v_recipient_balance := public.refresh_customer_balances(p_recipient_id);
+
+  INSERT INTO public.transactions (
+    user_id, amount, transaction_type, description, balance_after, idempotency_key,
+    journal_entry_id, counterparty_user_id, counterparty_name
+  )
+  VALUES (
+    p_sender_id, v_amount, 'transfer_out', v_description, v_sender_balance, p_idempotency_key,
+    v_entry_id, p_recipient_id, v_recipient_name
+  )
+  RETURNING * INTO v_out;
+
+  INSERT INTO public.transactions (
+    user_id, amount, transaction_type, description, balance_after,
+    journal_entry_id, counterparty_user_id, counterparty_name, related_transaction_id
+  )
+  VALUES (
+    p_recipient_id, v_amount, 'transfer_in', v_description, v_recipient_balance,
+    v_entry_id, p_sender_id, v_sender_name, v_out.id
+  )
+  RETURNING * INTO v_in;
+
+  UPDATE public.transactions
+  SET related_transaction_id = v_in.id
+  WHERE id = v_out.id
+  RETURNING * INTO v_out;
+
+  RETURN v_out;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
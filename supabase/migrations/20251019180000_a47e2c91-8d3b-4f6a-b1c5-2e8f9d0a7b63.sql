@@ -0,0 +1,153 @@
+-- Give current accounts an approved overdraft limit. Savings accounts can
+-- never be overdrawn.
+ALTER TABLE public.profiles
+  ADD COLUMN overdraft_limit DECIMAL(12,2) NOT NULL DEFAULT 0.00 CHECK (overdraft_limit >= 0);
+
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_overdraft_current_only_check
+  CHECK (overdraft_limit = 0 OR account_type = 'current');
+
+-- Allow overdraft interest rows in the transaction history
+ALTER TABLE public.transactions DROP CONSTRAINT transactions_transaction_type_check;
+
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_transaction_type_check
+  CHECK (transaction_type IN (
+    'deposit', 'withdraw', 'transfer_out', 'transfer_in', 'reversal_in', 'reversal_out', 'overdraft_interest'
+  ));
+
+-- Interest charged on overdrawn balances is income for the bank
+INSERT INTO public.ledger_accounts (code, name, account_class) VALUES
+  ('OVERDRAFT_INTEREST', 'Overdraft interest income', 'income');
+
+-- Create single-row table of overdraft settings
+CREATE TABLE public.overdraft_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  annual_interest_rate DECIMAL(6,4) NOT NULL DEFAULT 0.1800 CHECK (annual_interest_rate >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.overdraft_settings DEFAULT VALUES;
+
+ALTER TABLE public.overdraft_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view overdraft settings"
+ON public.overdraft_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+REVOKE INSERT, UPDATE, DELETE ON public.overdraft_settings FROM anon, authenticated;
+
+-- Recreate funds check: a customer may spend their available balance plus
+-- any approved overdraft
+CREATE OR REPLACE FUNCTION public.assert_sufficient_funds(p_user_id UUID, p_amount DECIMAL)
+RETURNS VOID AS $$
+DECLARE
+  v_overdraft_limit DECIMAL(12,2);
+BEGIN
+  SELECT overdraft_limit INTO v_overdraft_limit FROM public.profiles WHERE user_id = p_user_id;
+
+  IF public.customer_available_balance(p_user_id) + COALESCE(v_overdraft_limit, 0.00) < p_amount THEN
+    RAISE EXCEPTION 'Insufficient funds' USING ERRCODE = 'P0001';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Back office: approve, change or withdraw a customer's overdraft limit
+CREATE OR REPLACE FUNCTION public.set_overdraft_limit(p_user_id UUID, p_limit DECIMAL)
+RETURNS public.profiles AS $$
+DECLARE
+  v_profile public.profiles;
+BEGIN
+  IF p_limit IS NULL OR p_limit < 0 THEN
+    RAISE EXCEPTION 'Overdraft limit cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_profile FROM public.profiles WHERE user_id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_limit > 0 AND v_profile.account_type <> 'current' THEN
+    RAISE EXCEPTION 'Overdrafts are only available on current accounts' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.profiles
+  SET overdraft_limit = round(p_limit, 2)
+  WHERE user_id = p_user_id
+  RETURNING * INTO v_profile;
+
+  RETURN v_profile;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.set_overdraft_limit(UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_overdraft_limit(UUID, DECIMAL) TO service_role;
+
+-- Back office job: charge one day's interest on every balance that was
+-- overdrawn at the end of p_as_of. The overdrawn amount is taken from the
+-- ledger as of that day, and each customer is charged at most once per day
+-- (the idempotency key is derived from the date), so re-running or
+-- back-filling a date is safe.
+CREATE OR REPLACE FUNCTION public.charge_overdraft_interest(p_as_of DATE DEFAULT current_date)
+RETURNS TABLE (
+  user_id UUID,
+  overdrawn_amount DECIMAL,
+  interest DECIMAL,
+  transaction_id UUID
+) AS $$
+DECLARE
+  v_rate DECIMAL(6,4);
+  v_income UUID := public.internal_ledger_account_id('OVERDRAFT_INTEREST');
+  v_key UUID;
+  v_description TEXT;
+  v_entry_id UUID;
+  v_balance DECIMAL(12,2);
+  v_transaction public.transactions;
+  r RECORD;
+BEGIN
+  SELECT annual_interest_rate INTO v_rate FROM public.overdraft_settings;
+
+  FOR r IN
+    SELECT la.id AS ledger_account_id, la.user_id AS customer_id, SUM(jl.debit) - SUM(jl.credit) AS overdrawn
+    FROM public.ledger_accounts la
+    JOIN public.journal_lines jl ON jl.ledger_account_id = la.id
+    WHERE la.user_id IS NOT NULL AND jl.created_at < (p_as_of + 1)
+    GROUP BY la.id, la.user_id
+    HAVING SUM(jl.debit) > SUM(jl.credit)
+    ORDER BY la.user_id
+  LOOP
+    v_key := md5('overdraft-interest:' || r.customer_id::text || ':' || p_as_of::text)::uuid;
+
+    PERFORM 1 FROM public.profiles p WHERE p.user_id = r.customer_id FOR UPDATE;
+
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.transactions t
+      WHERE t.user_id = r.customer_id AND t.idempotency_key = v_key
+    );
+
+    user_id := r.customer_id;
+    overdrawn_amount := r.overdrawn;
+    interest := round(r.overdrawn * v_rate / 365, 2);
+
+    CONTINUE WHEN interest < 0.01;
+
+    v_description := 'Overdraft interest for ' || to_char(p_as_of, 'DD Mon YYYY');
+    v_entry_id := public.post_journal_entry('overdraft_interest', v_description, r.ledger_account_id, v_income, interest);
+    v_balance := public.refresh_customer_balances(r.customer_id);
+
+    INSERT INTO public.transactions (user_id, amount, transaction_type, description, balance_after, idempotency_key, journal_entry_id)
+    VALUES (r.customer_id, interest, 'overdraft_interest', v_description, v_balance, v_key, v_entry_id)
+    RETURNING * INTO v_transaction;
+
+    transaction_id := v_transaction.id;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.charge_overdraft_interest(DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.charge_overdraft_interest(DATE) TO service_role;
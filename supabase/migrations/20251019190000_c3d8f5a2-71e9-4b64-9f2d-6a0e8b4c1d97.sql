@@ -0,0 +1,1256 @@
+-- Move balances off the profile into accounts so a customer can hold several
+-- accounts (e.g. a savings and a current account) at once. The profile keeps
+-- the customer's personal details; everything that moves money now works on
+-- an account.
+CREATE TABLE public.accounts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  account_number TEXT NOT NULL UNIQUE DEFAULT nextval('public.account_number_seq')::text,
+  account_type TEXT NOT NULL CHECK (account_type IN ('savings', 'current')),
+  nickname TEXT CHECK (btrim(nickname) <> ''),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'frozen', 'closed')),
+  ledger_balance DECIMAL(12,2) NOT NULL DEFAULT 0.00,
+  available_balance DECIMAL(12,2) NOT NULL DEFAULT 0.00,
+  overdraft_limit DECIMAL(12,2) NOT NULL DEFAULT 0.00 CHECK (overdraft_limit >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT accounts_overdraft_current_only_check CHECK (overdraft_limit = 0 OR account_type = 'current')
+);
+
+CREATE INDEX accounts_user_id_idx ON public.accounts (user_id, created_at);
+
+-- Migrate every profile into one account, keeping its number and balances
+INSERT INTO public.accounts (
+  user_id, account_number, account_type, ledger_balance, available_balance, overdraft_limit, created_at
+)
+SELECT user_id, account_number, account_type, ledger_balance, available_balance, overdraft_limit, created_at
+FROM public.profiles;
+
+ALTER TABLE public.profiles DROP CONSTRAINT profiles_overdraft_current_only_check;
+ALTER TABLE public.profiles
+  DROP COLUMN account_number,
+  DROP COLUMN account_type,
+  DROP COLUMN ledger_balance,
+  DROP COLUMN available_balance,
+  DROP COLUMN overdraft_limit;
+
+-- Enable Row Level Security
+ALTER TABLE public.accounts ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for accounts. Accounts are opened through open_account
+-- and balances are written only by the posting functions; customers may
+-- rename their own accounts.
+CREATE POLICY "Users can view their own accounts"
+ON public.accounts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can rename their own accounts"
+ON public.accounts
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON public.accounts FROM anon, authenticated;
+GRANT UPDATE (nickname) ON public.accounts TO authenticated;
+
+CREATE TRIGGER update_accounts_updated_at
+  BEFORE UPDATE ON public.accounts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Key customer ledger accounts by account rather than by customer
+ALTER TABLE public.ledger_accounts ADD COLUMN account_id UUID UNIQUE REFERENCES public.accounts(id);
+
+UPDATE public.ledger_accounts la
+SET account_id = a.id
+FROM public.accounts a
+WHERE la.user_id = a.user_id;
+
+ALTER TABLE public.ledger_accounts DROP CONSTRAINT ledger_accounts_user_id_key;
+CREATE INDEX ledger_accounts_user_id_idx ON public.ledger_accounts (user_id);
+
+ALTER TABLE public.ledger_accounts
+  ADD CONSTRAINT ledger_accounts_customer_account_check CHECK ((user_id IS NULL) = (account_id IS NULL));
+
+-- Point transactions at the account they were posted to. Transfer legs also
+-- record the other side's account, which may belong to the same customer.
+ALTER TABLE public.transactions
+  ADD COLUMN account_id UUID REFERENCES public.accounts(id),
+  ADD COLUMN counterparty_account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL;
+
+UPDATE public.transactions t
+SET account_id = a.id
+FROM public.accounts a
+WHERE a.user_id = t.user_id;
+
+UPDATE public.transactions t
+SET counterparty_account_id = a.id
+FROM public.accounts a
+WHERE a.user_id = t.counterparty_user_id;
+
+ALTER TABLE public.transactions ALTER COLUMN account_id SET NOT NULL;
+
+CREATE INDEX transactions_account_id_created_at_idx ON public.transactions (account_id, created_at DESC);
+
+-- Saved payees are accounts, not customers
+ALTER TABLE public.beneficiaries ADD COLUMN payee_account_id UUID REFERENCES public.accounts(id) ON DELETE CASCADE;
+
+UPDATE public.beneficiaries b
+SET payee_account_id = a.id
+FROM public.accounts a
+WHERE a.user_id = b.payee_user_id;
+
+ALTER TABLE public.beneficiaries ALTER COLUMN payee_account_id SET NOT NULL;
+ALTER TABLE public.beneficiaries DROP CONSTRAINT beneficiaries_user_id_payee_user_id_key;
+ALTER TABLE public.beneficiaries ADD CONSTRAINT beneficiaries_user_id_payee_account_id_key UNIQUE (user_id, payee_account_id);
+
+-- Standing instructions debit a specific account and pay a specific account
+ALTER TABLE public.scheduled_transactions
+  ADD COLUMN account_id UUID REFERENCES public.accounts(id) ON DELETE CASCADE,
+  ADD COLUMN recipient_account_id UUID REFERENCES public.accounts(id) ON DELETE CASCADE;
+
+UPDATE public.scheduled_transactions s
+SET account_id = a.id
+FROM public.accounts a
+WHERE a.user_id = s.user_id;
+
+UPDATE public.scheduled_transactions s
+SET recipient_account_id = a.id
+FROM public.accounts a
+WHERE a.user_id = s.recipient_user_id;
+
+ALTER TABLE public.scheduled_transactions ALTER COLUMN account_id SET NOT NULL;
+ALTER TABLE public.scheduled_transactions
+  ADD CONSTRAINT scheduled_transactions_recipient_account_check
+  CHECK ((transaction_type = 'transfer_out') = (recipient_account_id IS NOT NULL));
+
+-- The customer-keyed helpers are replaced by account-keyed ones below
+DROP FUNCTION public.post_transaction(TEXT, DECIMAL, TEXT, UUID);
+DROP FUNCTION public.post_transfer(UUID, DECIMAL, TEXT, UUID);
+DROP FUNCTION public.apply_transaction(UUID, TEXT, DECIMAL, TEXT, UUID);
+DROP FUNCTION public.apply_transfer(UUID, UUID, DECIMAL, TEXT, UUID);
+DROP FUNCTION public.check_transfer_policy(UUID, UUID, DECIMAL);
+DROP FUNCTION public.assert_sufficient_funds(UUID, DECIMAL);
+DROP FUNCTION public.customer_available_balance(UUID);
+DROP FUNCTION public.refresh_customer_balances(UUID);
+DROP FUNCTION public.customer_ledger_account_id(UUID);
+DROP FUNCTION public.check_withdrawal_limits(UUID, DECIMAL);
+DROP FUNCTION public.get_withdrawal_limits();
+DROP FUNCTION public.withdrawal_limit_usage(UUID);
+DROP FUNCTION public.set_overdraft_limit(UUID, DECIMAL);
+DROP FUNCTION public.find_transfer_recipient(TEXT);
+DROP FUNCTION public.create_scheduled_transaction(TEXT, DECIMAL, TEXT, DATE, TEXT, UUID, SMALLINT, SMALLINT, DATE, INTEGER);
+
+-- Create function returning an account's ledger account, opening it on first use
+CREATE OR REPLACE FUNCTION public.account_ledger_account_id(p_account_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  SELECT id INTO v_id
+  FROM public.ledger_accounts
+  WHERE account_id = p_account_id;
+
+  IF v_id IS NULL THEN
+    INSERT INTO public.ledger_accounts (code, name, account_class, user_id, account_id)
+    SELECT 'ACCT-' || a.account_number, 'Customer deposits', 'liability', a.user_id, a.id
+    FROM public.accounts a
+    WHERE a.id = p_account_id
+    ON CONFLICT (account_id) DO NOTHING;
+
+    SELECT id INTO v_id
+    FROM public.ledger_accounts
+    WHERE account_id = p_account_id;
+  END IF;
+
+  IF v_id IS NULL THEN
+    RAISE EXCEPTION 'Account not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create function returning the money an account can spend right now
+CREATE OR REPLACE FUNCTION public.account_available_balance(p_account_id UUID)
+RETURNS DECIMAL AS $$
+  SELECT public.ledger_account_balance(public.account_ledger_account_id(p_account_id))
+    - COALESCE((
+      SELECT SUM(amount) FROM public.transactions
+      WHERE account_id = p_account_id AND status = 'pending' AND transaction_type = 'withdraw'
+    ), 0.00);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Create function raising 'Insufficient funds' unless the account can spend
+-- p_amount from its available balance plus any approved overdraft
+CREATE OR REPLACE FUNCTION public.assert_sufficient_funds(p_account_id UUID, p_amount DECIMAL)
+RETURNS VOID AS $$
+DECLARE
+  v_overdraft_limit DECIMAL(12,2);
+BEGIN
+  SELECT overdraft_limit INTO v_overdraft_limit FROM public.accounts WHERE id = p_account_id;
+
+  IF public.account_available_balance(p_account_id) + COALESCE(v_overdraft_limit, 0.00) < p_amount THEN
+    RAISE EXCEPTION 'Insufficient funds' USING ERRCODE = 'P0001';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create function copying an account's ledger and available balances onto
+-- the account row; returns the ledger balance
+CREATE OR REPLACE FUNCTION public.refresh_account_balances(p_account_id UUID)
+RETURNS DECIMAL AS $$
+DECLARE
+  v_ledger_balance DECIMAL(12,2) := public.ledger_account_balance(public.account_ledger_account_id(p_account_id));
+BEGIN
+  UPDATE public.accounts
+  SET ledger_balance = v_ledger_balance,
+      available_balance = public.account_available_balance(p_account_id)
+  WHERE id = p_account_id;
+
+  RETURN v_ledger_balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create function locking an account for posting; raises unless it is active
+CREATE OR REPLACE FUNCTION public.lock_active_account(p_account_id UUID)
+RETURNS public.accounts AS $$
+DECLARE
+  v_account public.accounts;
+BEGIN
+  SELECT * INTO v_account FROM public.accounts WHERE id = p_account_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Account not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_account.status <> 'active' THEN
+    RAISE EXCEPTION 'Account % is %', v_account.account_number, v_account.status USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN v_account;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create function returning an account of the signed-in user; raises otherwise
+CREATE OR REPLACE FUNCTION public.own_account(p_account_id UUID)
+RETURNS public.accounts AS $$
+DECLARE
+  v_account public.accounts;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_account FROM public.accounts WHERE id = p_account_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Account not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_account;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.account_ledger_account_id(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.account_available_balance(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.assert_sufficient_funds(UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_account_balances(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.lock_active_account(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.own_account(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Recreate withdrawal limit usage per account
+CREATE OR REPLACE FUNCTION public.withdrawal_limit_usage(p_account_id UUID)
+RETURNS TABLE (
+  account_type TEXT,
+  max_single_withdrawal DECIMAL,
+  daily_amount_limit DECIMAL,
+  daily_amount_used DECIMAL,
+  daily_count_limit INTEGER,
+  daily_count_used INTEGER,
+  monthly_amount_limit DECIMAL,
+  monthly_amount_used DECIMAL,
+  monthly_count_limit INTEGER,
+  monthly_count_used INTEGER
+) AS $$
+  SELECT
+    l.account_type,
+    l.max_single_withdrawal,
+    l.daily_withdrawal_amount,
+    COALESCE(SUM(t.amount) FILTER (WHERE t.created_at >= date_trunc('day', now())), 0.00),
+    l.daily_withdrawal_count,
+    (COUNT(t.id) FILTER (WHERE t.created_at >= date_trunc('day', now())))::integer,
+    l.monthly_withdrawal_amount,
+    COALESCE(SUM(t.amount), 0.00),
+    l.monthly_withdrawal_count,
+    COUNT(t.id)::integer
+  FROM public.accounts a
+  JOIN public.transaction_limits l ON l.account_type = a.account_type
+  LEFT JOIN public.transactions t
+    ON t.account_id = a.id
+    AND t.transaction_type IN ('withdraw', 'transfer_out')
+    AND t.status IN ('pending', 'posted')
+    AND t.created_at >= date_trunc('month', now())
+  WHERE a.id = p_account_id
+  GROUP BY l.account_type;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.check_withdrawal_limits(p_account_id UUID, p_amount DECIMAL)
+RETURNS VOID AS $$
+DECLARE
+  v_usage RECORD;
+BEGIN
+  SELECT * INTO v_usage FROM public.withdrawal_limit_usage(p_account_id);
+
+  -- Account types without configured limits are unrestricted
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF p_amount > v_usage.max_single_withdrawal THEN
+    RAISE EXCEPTION 'Withdrawals and transfers from a % account are limited to % per transaction',
+      v_usage.account_type, v_usage.max_single_withdrawal USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_usage.daily_count_used >= v_usage.daily_count_limit THEN
+    RAISE EXCEPTION 'You have reached the limit of % withdrawals and transfers per day', v_usage.daily_count_limit
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_usage.monthly_count_used >= v_usage.monthly_count_limit THEN
+    RAISE EXCEPTION 'You have reached the limit of % withdrawals and transfers per month', v_usage.monthly_count_limit
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_usage.daily_amount_used + p_amount > v_usage.daily_amount_limit THEN
+    RAISE EXCEPTION 'This exceeds your daily limit; % remaining today',
+      v_usage.daily_amount_limit - v_usage.daily_amount_used USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_usage.monthly_amount_used + p_amount > v_usage.monthly_amount_limit THEN
+    RAISE EXCEPTION 'This exceeds your monthly limit; % remaining this month',
+      v_usage.monthly_amount_limit - v_usage.monthly_amount_used USING ERRCODE = 'P0001';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.withdrawal_limit_usage(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.check_withdrawal_limits(UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+-- Withdrawal limits and usage for one of the signed-in user's accounts
+CREATE OR REPLACE FUNCTION public.get_withdrawal_limits(p_account_id UUID)
+RETURNS TABLE (
+  account_type TEXT,
+  max_single_withdrawal DECIMAL,
+  daily_amount_limit DECIMAL,
+  daily_amount_used DECIMAL,
+  daily_count_limit INTEGER,
+  daily_count_used INTEGER,
+  monthly_amount_limit DECIMAL,
+  monthly_amount_used DECIMAL,
+  monthly_count_limit INTEGER,
+  monthly_count_used INTEGER
+) AS $$
+BEGIN
+  PERFORM public.own_account(p_account_id);
+
+  RETURN QUERY SELECT * FROM public.withdrawal_limit_usage(p_account_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_withdrawal_limits(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_withdrawal_limits(UUID) TO authenticated;
+
+-- Recreate internal posting function against an account
+CREATE OR REPLACE FUNCTION public.apply_transaction(
+  p_account_id UUID,
+  p_transaction_type TEXT,
+  p_amount DECIMAL,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+  v_account public.accounts;
+  v_description TEXT;
+  v_ledger_account UUID;
+  v_cash UUID := public.internal_ledger_account_id('CASH');
+  v_threshold DECIMAL(12,2);
+  v_entry_id UUID;
+  v_balance DECIMAL(12,2);
+  v_transaction public.transactions;
+BEGIN
+  IF p_transaction_type IS NULL OR p_transaction_type NOT IN ('deposit', 'withdraw') THEN
+    RAISE EXCEPTION 'Unsupported transaction type: %', p_transaction_type USING ERRCODE = '22023';
+  END IF;
+
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  v_account := public.lock_active_account(p_account_id);
+
+  -- The account lock serialises replays, so this lookup cannot race a concurrent post
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_transaction
+    FROM public.transactions
+    WHERE user_id = v_account.user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_transaction.transaction_type <> p_transaction_type
+        OR v_transaction.amount <> v_amount
+        OR v_transaction.account_id <> p_account_id THEN
+        RAISE EXCEPTION 'Idempotency key was already used for a different request' USING ERRCODE = '22023';
+      END IF;
+      RETURN v_transaction;
+    END IF;
+  END IF;
+
+  v_ledger_account := public.account_ledger_account_id(p_account_id);
+  v_description := COALESCE(
+    NULLIF(btrim(p_description), ''),
+    CASE WHEN p_transaction_type = 'deposit' THEN 'Deposit transaction' ELSE 'Withdrawal transaction' END
+  );
+
+  IF p_transaction_type = 'withdraw' THEN
+    PERFORM public.check_withdrawal_limits(p_account_id, v_amount);
+    PERFORM public.assert_sufficient_funds(p_account_id, v_amount);
+
+    SELECT pending_withdrawal_threshold INTO v_threshold FROM public.transaction_settings;
+
+    IF v_amount >= v_threshold THEN
+      INSERT INTO public.transactions (
+        user_id, account_id, amount, transaction_type, description, balance_after, idempotency_key, status
+      )
+      VALUES (
+        v_account.user_id, p_account_id, v_amount, 'withdraw', v_description,
+        public.ledger_account_balance(v_ledger_account), p_idempotency_key, 'pending'
+      )
+      RETURNING * INTO v_transaction;
+
+      PERFORM public.refresh_account_balances(p_account_id);
+      RETURN v_transaction;
+    END IF;
+
+    v_entry_id := public.post_journal_entry('withdraw', v_description, v_ledger_account, v_cash, v_amount);
+  ELSE
+    v_entry_id := public.post_journal_entry('deposit', v_description, v_cash, v_ledger_account, v_amount);
+  END IF;
+
+  v_balance := public.refresh_account_balances(p_account_id);
+
+  INSERT INTO public.transactions (
+    user_id, account_id, amount, transaction_type, description, balance_after, idempotency_key, journal_entry_id
+  )
+  VALUES (
+    v_account.user_id, p_account_id, v_amount, p_transaction_type, v_description, v_balance, p_idempotency_key, v_entry_id
+  )
+  RETURNING * INTO v_transaction;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.apply_transaction(UUID, TEXT, DECIMAL, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Post a deposit or withdrawal on one of the signed-in user's accounts
+CREATE OR REPLACE FUNCTION public.post_transaction(
+  p_account_id UUID,
+  p_transaction_type TEXT,
+  p_amount DECIMAL,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+BEGIN
+  PERFORM public.own_account(p_account_id);
+
+  RETURN public.apply_transaction(p_account_id, p_transaction_type, p_amount, p_description, p_idempotency_key);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.post_transaction(UUID, TEXT, DECIMAL, TEXT, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.post_transaction(UUID, TEXT, DECIMAL, TEXT, UUID) TO authenticated;
+
+-- Recreate internal transfer function between two accounts, which may belong
+-- to the same customer. Both accounts are locked in a fixed order so opposing
+-- transfers cannot deadlock. Returns the sender's transfer_out row.
+CREATE OR REPLACE FUNCTION public.apply_transfer(
+  p_from_account_id UUID,
+  p_to_account_id UUID,
+  p_amount DECIMAL,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+  v_from public.accounts;
+  v_to public.accounts;
+  v_sender_name TEXT;
+  v_recipient_name TEXT;
+  v_description TEXT;
+  v_entry_id UUID;
+  v_sender_balance DECIMAL(12,2);
+  v_recipient_balance DECIMAL(12,2);
+  v_out public.transactions;
+  v_in public.transactions;
+BEGIN
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_from_account_id = p_to_account_id THEN
+    RAISE EXCEPTION 'You cannot transfer money to the same account' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM 1
+  FROM public.accounts
+  WHERE id IN (p_from_account_id, p_to_account_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  v_from := public.lock_active_account(p_from_account_id);
+
+  SELECT * INTO v_to FROM public.accounts WHERE id = p_to_account_id;
+  IF NOT FOUND OR v_to.status <> 'active' THEN
+    RAISE EXCEPTION 'Recipient not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_out
+    FROM public.transactions
+    WHERE user_id = v_from.user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_out.transaction_type <> 'transfer_out'
+        OR v_out.amount <> v_amount
+        OR v_out.account_id <> p_from_account_id
+        OR v_out.counterparty_account_id IS DISTINCT FROM p_to_account_id THEN
+        RAISE EXCEPTION 'Idempotency key was already used for a different request' USING ERRCODE = '22023';
+      END IF;
+      RETURN v_out;
+    END IF;
+  END IF;
+
+  PERFORM public.check_withdrawal_limits(p_from_account_id, v_amount);
+  PERFORM public.assert_sufficient_funds(p_from_account_id, v_amount);
+
+  SELECT name INTO v_sender_name FROM public.profiles WHERE user_id = v_from.user_id;
+  SELECT name INTO v_recipient_name FROM public.profiles WHERE user_id = v_to.user_id;
+
+  v_description := COALESCE(NULLIF(btrim(p_description), ''), 'Transfer');
+  v_entry_id := public.post_journal_entry(
+    'transfer', v_description,
+    public.account_ledger_account_id(p_from_account_id), public.account_ledger_account_id(p_to_account_id),
+    v_amount
+  );
+
+  v_sender_balance := public.refresh_account_balances(p_from_account_id);
+  v_recipient_balance := public.refresh_account_balances(p_to_account_id);
+
+  INSERT INTO public.transactions (
+    user_id, account_id, amount, transaction_type, description, balance_after, idempotency_key,
+    journal_entry_id, counterparty_user_id, counterparty_account_id, counterparty_name
+  )
+  VALUES (
+    v_from.user_id, p_from_account_id, v_amount, 'transfer_out', v_description, v_sender_balance, p_idempotency_key,
+    v_entry_id, v_to.user_id, p_to_account_id, v_recipient_name
+  )
+  RETURNING * INTO v_out;
+
+  INSERT INTO public.transactions (
+    user_id, account_id, amount, transaction_type, description, balance_after,
+    journal_entry_id, counterparty_user_id, counterparty_account_id, counterparty_name, related_transaction_id
+  )
+  VALUES (
+    v_to.user_id, p_to_account_id, v_amount, 'transfer_in', v_description, v_recipient_balance,
+    v_entry_id, v_from.user_id, p_from_account_id, v_sender_name, v_out.id
+  )
+  RETURNING * INTO v_in;
+
+  UPDATE public.transactions
+  SET related_transaction_id = v_in.id
+  WHERE id = v_out.id
+  RETURNING * INTO v_out;
+
+  RETURN v_out;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.apply_transfer(UUID, UUID, DECIMAL, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Recreate payee rules keyed by the recipient account. Moving money between
+-- a customer's own accounts is not subject to them.
+CREATE OR REPLACE FUNCTION public.check_transfer_policy(
+  p_sender_id UUID,
+  p_to_account_id UUID,
+  p_amount DECIMAL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_settings public.beneficiary_settings;
+  v_beneficiary public.beneficiaries;
+  v_sent DECIMAL(12,2);
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.accounts WHERE id = p_to_account_id AND user_id = p_sender_id) THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_settings FROM public.beneficiary_settings;
+
+  SELECT * INTO v_beneficiary
+  FROM public.beneficiaries
+  WHERE user_id = p_sender_id AND payee_account_id = p_to_account_id AND removed_at IS NULL;
+
+  IF FOUND AND now() < v_beneficiary.active_from THEN
+    RAISE EXCEPTION 'This payee is in its cooling period until %', v_beneficiary.active_from USING ERRCODE = 'P0001';
+  END IF;
+
+  IF FOUND AND now() >= v_beneficiary.created_at + make_interval(hours => v_settings.new_payee_window_hours) THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_sent
+  FROM public.transactions
+  WHERE user_id = p_sender_id
+    AND counterparty_account_id = p_to_account_id
+    AND transaction_type = 'transfer_out'
+    AND created_at >= now() - make_interval(hours => v_settings.new_payee_window_hours);
+
+  IF v_sent + p_amount > v_settings.new_payee_transfer_cap THEN
+    IF v_beneficiary.id IS NULL THEN
+      RAISE EXCEPTION 'Transfers to unsaved recipients are limited to % in any % hours; add them as a payee to send more',
+        v_settings.new_payee_transfer_cap, v_settings.new_payee_window_hours USING ERRCODE = 'P0001';
+    END IF;
+    RAISE EXCEPTION 'Transfers to a newly added payee are limited to % in the first % hours',
+      v_settings.new_payee_transfer_cap, v_settings.new_payee_window_hours USING ERRCODE = 'P0001';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.check_transfer_policy(UUID, UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+-- Transfer money from one of the signed-in user's accounts, applying payee rules
+CREATE OR REPLACE FUNCTION public.post_transfer(
+  p_from_account_id UUID,
+  p_to_account_id UUID,
+  p_amount DECIMAL,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+BEGIN
+  PERFORM public.own_account(p_from_account_id);
+
+  -- Lock both accounts up front (in the same order as apply_transfer) so the
+  -- cap check and the posting see the same history
+  PERFORM 1
+  FROM public.accounts
+  WHERE id IN (p_from_account_id, p_to_account_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- A replay returns the original transfer without re-checking the caps it already counted towards
+  IF p_idempotency_key IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.transactions
+    WHERE user_id = auth.uid() AND idempotency_key = p_idempotency_key
+  ) THEN
+    PERFORM public.check_transfer_policy(auth.uid(), p_to_account_id, round(p_amount, 2));
+  END IF;
+
+  RETURN public.apply_transfer(p_from_account_id, p_to_account_id, p_amount, p_description, p_idempotency_key);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.post_transfer(UUID, UUID, DECIMAL, TEXT, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.post_transfer(UUID, UUID, DECIMAL, TEXT, UUID) TO authenticated;
+
+-- Recreate recipient lookup. An account number finds that account; a phone
+-- number finds the customer's oldest active account. The signed-in user's own
+-- accounts are never returned.
+CREATE OR REPLACE FUNCTION public.find_transfer_recipient(p_identifier TEXT)
+RETURNS TABLE (user_id UUID, account_id UUID, name TEXT, account_number_masked TEXT) AS $$
+DECLARE
+  v_identifier TEXT := regexp_replace(COALESCE(p_identifier, ''), '\D', '', 'g');
+  v_matches INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_identifier = '' THEN
+    RAISE EXCEPTION 'Enter an account number or phone number' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  SELECT a.user_id, a.id, p.name, 'XXXXXXXX' || right(a.account_number, 4)
+  FROM public.accounts a
+  JOIN public.profiles p ON p.user_id = a.user_id
+  WHERE a.user_id <> auth.uid() AND a.status = 'active' AND a.account_number = v_identifier;
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT count(*) INTO v_matches
+  FROM public.profiles p
+  WHERE p.user_id <> auth.uid() AND regexp_replace(p.phone, '\D', '', 'g') = v_identifier;
+
+  IF v_matches = 0 THEN
+    RAISE EXCEPTION 'Recipient not found' USING ERRCODE = 'P0002';
+  ELSIF v_matches > 1 THEN
+    RAISE EXCEPTION 'Several customers share this phone number; use the account number instead' USING ERRCODE = 'P0003';
+  END IF;
+
+  RETURN QUERY
+  SELECT a.user_id, a.id, p.name, 'XXXXXXXX' || right(a.account_number, 4)
+  FROM public.profiles p
+  JOIN public.accounts a ON a.user_id = p.user_id AND a.status = 'active'
+  WHERE p.user_id <> auth.uid() AND regexp_replace(p.phone, '\D', '', 'g') = v_identifier
+  ORDER BY a.created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recipient not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.find_transfer_recipient(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.find_transfer_recipient(TEXT) TO authenticated;
+
+-- Recreate add_beneficiary to save the looked-up account
+CREATE OR REPLACE FUNCTION public.add_beneficiary(p_identifier TEXT, p_nickname TEXT)
+RETURNS public.beneficiaries AS $$
+DECLARE
+  v_recipient RECORD;
+  v_settings public.beneficiary_settings;
+  v_beneficiary public.beneficiaries;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_recipient FROM public.find_transfer_recipient(p_identifier);
+  SELECT * INTO v_settings FROM public.beneficiary_settings;
+
+  SELECT * INTO v_beneficiary
+  FROM public.beneficiaries
+  WHERE user_id = auth.uid() AND payee_account_id = v_recipient.account_id
+  FOR UPDATE;
+
+  IF FOUND AND v_beneficiary.removed_at IS NULL THEN
+    RAISE EXCEPTION 'This payee is already saved' USING ERRCODE = '23505';
+  ELSIF FOUND THEN
+    UPDATE public.beneficiaries
+    SET nickname = COALESCE(NULLIF(btrim(p_nickname), ''), v_recipient.name),
+        payee_name = v_recipient.name,
+        account_number_masked = v_recipient.account_number_masked,
+        removed_at = NULL
+    WHERE id = v_beneficiary.id
+    RETURNING * INTO v_beneficiary;
+
+    RETURN v_beneficiary;
+  END IF;
+
+  INSERT INTO public.beneficiaries (
+    user_id, payee_user_id, payee_account_id, nickname, payee_name, account_number_masked, active_from
+  )
+  VALUES (
+    auth.uid(),
+    v_recipient.user_id,
+    v_recipient.account_id,
+    COALESCE(NULLIF(btrim(p_nickname), ''), v_recipient.name),
+    v_recipient.name,
+    v_recipient.account_number_masked,
+    now() + make_interval(mins => v_settings.cooling_period_minutes)
+  )
+  RETURNING * INTO v_beneficiary;
+
+  RETURN v_beneficiary;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Open another account for the signed-in user
+CREATE OR REPLACE FUNCTION public.open_account(p_account_type TEXT, p_nickname TEXT DEFAULT NULL)
+RETURNS public.accounts AS $$
+DECLARE
+  v_account public.accounts;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_account_type IS NULL OR p_account_type NOT IN ('savings', 'current') THEN
+    RAISE EXCEPTION 'Unsupported account type: %', p_account_type USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.accounts (user_id, account_type, nickname)
+  VALUES (auth.uid(), p_account_type, NULLIF(btrim(p_nickname), ''))
+  RETURNING * INTO v_account;
+
+  PERFORM public.account_ledger_account_id(v_account.id);
+
+  RETURN v_account;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.open_account(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.open_account(TEXT, TEXT) TO authenticated;
+
+-- Recreate signup handler: the profile holds personal details and the first
+-- account, of the type chosen at signup, receives the opening deposit
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_opening_balance DECIMAL(12,2);
+  v_account_id UUID;
+BEGIN
+  INSERT INTO public.profiles (user_id, name, phone)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data ->> 'name', 'User'),
+    COALESCE(NEW.raw_user_meta_data ->> 'phone', '')
+  );
+
+  INSERT INTO public.accounts (user_id, account_type)
+  VALUES (NEW.id, COALESCE(NEW.raw_user_meta_data ->> 'account_type', 'savings'))
+  RETURNING id INTO v_account_id;
+
+  v_opening_balance := COALESCE(round((NEW.raw_user_meta_data ->> 'initial_balance')::decimal, 2), 0.00);
+
+  IF v_opening_balance > 0 THEN
+    PERFORM public.apply_transaction(v_account_id, 'deposit', v_opening_balance, 'Opening deposit');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Recreate pending settlement against the transaction's account
+CREATE OR REPLACE FUNCTION public.settle_pending_transaction(p_transaction_id UUID)
+RETURNS public.transactions AS $$
+DECLARE
+  v_transaction public.transactions;
+  v_ledger_account UUID;
+  v_entry_id UUID;
+BEGIN
+  SELECT * INTO v_transaction FROM public.transactions WHERE id = p_transaction_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM 1 FROM public.accounts WHERE id = v_transaction.account_id FOR UPDATE;
+
+  SELECT * INTO v_transaction FROM public.transactions WHERE id = p_transaction_id FOR UPDATE;
+
+  IF v_transaction.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending transactions can be settled' USING ERRCODE = '22023';
+  END IF;
+
+  v_ledger_account := public.account_ledger_account_id(v_transaction.account_id);
+  v_entry_id := public.post_journal_entry(
+    'withdraw', v_transaction.description, v_ledger_account, public.internal_ledger_account_id('CASH'), v_transaction.amount
+  );
+
+  UPDATE public.transactions
+  SET status = 'posted',
+      journal_entry_id = v_entry_id,
+      balance_after = public.ledger_account_balance(v_ledger_account)
+  WHERE id = p_transaction_id
+  RETURNING * INTO v_transaction;
+
+  PERFORM public.refresh_account_balances(v_transaction.account_id);
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.fail_pending_transaction(p_transaction_id UUID, p_reason TEXT)
+RETURNS public.transactions AS $$
+DECLARE
+  v_transaction public.transactions;
+BEGIN
+  SELECT * INTO v_transaction FROM public.transactions WHERE id = p_transaction_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM 1 FROM public.accounts WHERE id = v_transaction.account_id FOR UPDATE;
+
+  UPDATE public.transactions
+  SET status = 'failed',
+      failure_reason = COALESCE(NULLIF(btrim(p_reason), ''), 'Declined')
+  WHERE id = p_transaction_id AND status = 'pending'
+  RETURNING * INTO v_transaction;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only pending transactions can be failed' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM public.refresh_account_balances(v_transaction.account_id);
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Recreate reversal against accounts
+CREATE OR REPLACE FUNCTION public.reverse_transaction(p_transaction_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS public.transactions AS $$
+DECLARE
+  v_original public.transactions;
+  v_entry_id UUID;
+  v_description TEXT;
+  v_balance DECIMAL(12,2);
+  v_result public.transactions;
+  v_reversal public.transactions;
+  r RECORD;
+BEGIN
+  SELECT * INTO v_original FROM public.transactions WHERE id = p_transaction_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_original.transaction_type IN ('reversal_in', 'reversal_out') THEN
+    RAISE EXCEPTION 'Reversals cannot themselves be reversed' USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock every account touched by the original entry, in a fixed order
+  PERFORM 1
+  FROM public.accounts
+  WHERE id IN (SELECT t.account_id FROM public.transactions t WHERE t.journal_entry_id = v_original.journal_entry_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO v_original FROM public.transactions WHERE id = p_transaction_id;
+
+  IF v_original.status = 'reversed' THEN
+    RAISE EXCEPTION 'Transaction has already been reversed' USING ERRCODE = '22023';
+  ELSIF v_original.status <> 'posted' THEN
+    RAISE EXCEPTION 'Only posted transactions can be reversed' USING ERRCODE = '22023';
+  END IF;
+
+  -- Accounts whose balance goes down must be able to cover it
+  FOR r IN
+    SELECT la.account_id, SUM(jl.credit) - SUM(jl.debit) AS amount
+    FROM public.journal_lines jl
+    JOIN public.ledger_accounts la ON la.id = jl.ledger_account_id
+    WHERE jl.journal_entry_id = v_original.journal_entry_id AND la.account_id IS NOT NULL
+    GROUP BY la.account_id
+  LOOP
+    IF r.amount > 0 AND public.account_available_balance(r.account_id) < r.amount THEN
+      RAISE EXCEPTION 'Insufficient funds to reverse this transaction' USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+
+  v_description := 'Reversal: ' || COALESCE(NULLIF(btrim(p_reason), ''), v_original.description, 'transaction reversed');
+
+  INSERT INTO public.journal_entries (entry_type, description)
+  VALUES ('reversal', v_description)
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO public.journal_lines (journal_entry_id, ledger_account_id, debit, credit)
+  SELECT v_entry_id, jl.ledger_account_id, jl.credit, jl.debit
+  FROM public.journal_lines jl
+  WHERE jl.journal_entry_id = v_original.journal_entry_id;
+
+  FOR r IN
+    SELECT t.* FROM public.transactions t
+    WHERE t.journal_entry_id = v_original.journal_entry_id
+    ORDER BY t.created_at, t.id
+  LOOP
+    v_balance := public.refresh_account_balances(r.account_id);
+
+    UPDATE public.transactions SET status = 'reversed' WHERE id = r.id;
+
+    INSERT INTO public.transactions (
+      user_id, account_id, amount, transaction_type, description, balance_after, journal_entry_id,
+      counterparty_user_id, counterparty_account_id, counterparty_name, reverses_transaction_id
+    )
+    VALUES (
+      r.user_id,
+      r.account_id,
+      r.amount,
+      CASE WHEN r.transaction_type IN ('deposit', 'transfer_in') THEN 'reversal_out' ELSE 'reversal_in' END,
+      v_description,
+      v_balance,
+      v_entry_id,
+      r.counterparty_user_id,
+      r.counterparty_account_id,
+      r.counterparty_name,
+      r.id
+    )
+    RETURNING * INTO v_reversal;
+
+    IF r.id = p_transaction_id THEN
+      v_result := v_reversal;
+    END IF;
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Recreate overdraft approval per account
+CREATE OR REPLACE FUNCTION public.set_overdraft_limit(p_account_id UUID, p_limit DECIMAL)
+RETURNS public.accounts AS $$
+DECLARE
+  v_account public.accounts;
+BEGIN
+  IF p_limit IS NULL OR p_limit < 0 THEN
+    RAISE EXCEPTION 'Overdraft limit cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_account FROM public.accounts WHERE id = p_account_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Account not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_limit > 0 AND v_account.account_type <> 'current' THEN
+    RAISE EXCEPTION 'Overdrafts are only available on current accounts' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.accounts
+  SET overdraft_limit = round(p_limit, 2)
+  WHERE id = p_account_id
+  RETURNING * INTO v_account;
+
+  RETURN v_account;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.set_overdraft_limit(UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_overdraft_limit(UUID, DECIMAL) TO service_role;
+
+-- Recreate the overdraft interest job per account. The result gains the
+-- account, so the function is dropped rather than replaced.
+DROP FUNCTION public.charge_overdraft_interest(DATE);
+
+CREATE OR REPLACE FUNCTION public.charge_overdraft_interest(p_as_of DATE DEFAULT current_date)
+RETURNS TABLE (
+  account_id UUID,
+  overdrawn_amount DECIMAL,
+  interest DECIMAL,
+  transaction_id UUID
+) AS $$
+DECLARE
+  v_rate DECIMAL(6,4);
+  v_income UUID := public.internal_ledger_account_id('OVERDRAFT_INTEREST');
+  v_key UUID;
+  v_description TEXT;
+  v_entry_id UUID;
+  v_balance DECIMAL(12,2);
+  v_transaction public.transactions;
+  r RECORD;
+BEGIN
+  SELECT annual_interest_rate INTO v_rate FROM public.overdraft_settings;
+
+  FOR r IN
+    SELECT la.id AS ledger_account_id, la.account_id AS customer_account_id, la.user_id AS customer_id,
+      SUM(jl.debit) - SUM(jl.credit) AS overdrawn
+    FROM public.ledger_accounts la
+    JOIN public.journal_lines jl ON jl.ledger_account_id = la.id
+    WHERE la.account_id IS NOT NULL AND jl.created_at < (p_as_of + 1)
+    GROUP BY la.id, la.account_id, la.user_id
+    HAVING SUM(jl.debit) > SUM(jl.credit)
+    ORDER BY la.account_id
+  LOOP
+    v_key := md5('overdraft-interest:' || r.customer_account_id::text || ':' || p_as_of::text)::uuid;
+
+    PERFORM 1 FROM public.accounts a WHERE a.id = r.customer_account_id FOR UPDATE;
+
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.transactions t
+      WHERE t.user_id = r.customer_id AND t.idempotency_key = v_key
+    );
+
+    account_id := r.customer_account_id;
+    overdrawn_amount := r.overdrawn;
+    interest := round(r.overdrawn * v_rate / 365, 2);
+
+    CONTINUE WHEN interest < 0.01;
+
+    v_description := 'Overdraft interest for ' || to_char(p_as_of, 'DD Mon YYYY');
+    v_entry_id := public.post_journal_entry('overdraft_interest', v_description, r.ledger_account_id, v_income, interest);
+    v_balance := public.refresh_account_balances(r.customer_account_id);
+
+    INSERT INTO public.transactions (
+      user_id, account_id, amount, transaction_type, description, balance_after, idempotency_key, journal_entry_id
+    )
+    VALUES (
+      r.customer_id, r.customer_account_id, interest, 'overdraft_interest', v_description, v_balance, v_key, v_entry_id
+    )
+    RETURNING * INTO v_transaction;
+
+    transaction_id := v_transaction.id;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.charge_overdraft_interest(DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.charge_overdraft_interest(DATE) TO service_role;
+
+-- Recreate standing instruction creation with a source account; scheduled
+-- transfers pay one of the customer's saved payees or their own accounts
+CREATE OR REPLACE FUNCTION public.create_scheduled_transaction(
+  p_account_id UUID,
+  p_transaction_type TEXT,
+  p_amount DECIMAL,
+  p_frequency TEXT,
+  p_start_date DATE,
+  p_description TEXT DEFAULT NULL,
+  p_recipient_account_id UUID DEFAULT NULL,
+  p_day_of_week SMALLINT DEFAULT NULL,
+  p_day_of_month SMALLINT DEFAULT NULL,
+  p_end_date DATE DEFAULT NULL,
+  p_max_runs INTEGER DEFAULT NULL
+)
+RETURNS public.scheduled_transactions AS $$
+DECLARE
+  v_recipient_user_id UUID;
+  v_recipient_name TEXT;
+  v_first_run DATE;
+  v_scheduled public.scheduled_transactions;
+BEGIN
+  PERFORM public.own_account(p_account_id);
+
+  IF p_start_date IS NULL OR p_start_date < current_date THEN
+    RAISE EXCEPTION 'Start date cannot be in the past' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_transaction_type = 'transfer_out' THEN
+    SELECT payee_user_id, nickname INTO v_recipient_user_id, v_recipient_name
+    FROM public.beneficiaries
+    WHERE user_id = auth.uid() AND payee_account_id = p_recipient_account_id AND removed_at IS NULL;
+
+    IF NOT FOUND THEN
+      SELECT user_id, COALESCE(nickname, initcap(account_type) || ' ' || right(account_number, 4))
+      INTO v_recipient_user_id, v_recipient_name
+      FROM public.accounts
+      WHERE id = p_recipient_account_id AND user_id = auth.uid() AND id <> p_account_id;
+    END IF;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Scheduled transfers can only be made to saved payees' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  IF p_frequency = 'once' THEN
+    v_first_run := p_start_date;
+  ELSE
+    v_first_run := public.scheduled_transaction_next_date(p_frequency, p_day_of_week, p_day_of_month, p_start_date - 1);
+  END IF;
+
+  IF p_end_date IS NOT NULL AND v_first_run > p_end_date THEN
+    RAISE EXCEPTION 'The schedule has no runs before its end date' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.scheduled_transactions (
+    user_id, account_id, transaction_type, amount, description, recipient_user_id, recipient_account_id, recipient_name,
+    frequency, day_of_week, day_of_month, start_date, end_date, max_runs, next_run_date
+  )
+  VALUES (
+    auth.uid(), p_account_id, p_transaction_type, round(p_amount, 2), NULLIF(btrim(p_description), ''),
+    v_recipient_user_id, p_recipient_account_id, v_recipient_name, p_frequency, p_day_of_week, p_day_of_month,
+    p_start_date, p_end_date, CASE WHEN p_frequency = 'once' THEN 1 ELSE p_max_runs END, v_first_run
+  )
+  RETURNING * INTO v_scheduled;
+
+  RETURN v_scheduled;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.create_scheduled_transaction(UUID, TEXT, DECIMAL, TEXT, DATE, TEXT, UUID, SMALLINT, SMALLINT, DATE, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_scheduled_transaction(UUID, TEXT, DECIMAL, TEXT, DATE, TEXT, UUID, SMALLINT, SMALLINT, DATE, INTEGER) TO authenticated;
+
+-- Recreate the executor to post from each instruction's account
+CREATE OR REPLACE FUNCTION public.run_due_scheduled_transactions(p_as_of DATE DEFAULT current_date)
+RETURNS TABLE (
+  scheduled_transaction_id UUID,
+  run_date DATE,
+  status TEXT,
+  transaction_id UUID,
+  error TEXT
+) AS $$
+DECLARE
+  v_max_consecutive_failures CONSTANT INTEGER := 3;
+  s public.scheduled_transactions;
+  v_run_date DATE;
+  v_key UUID;
+  v_transaction public.transactions;
+BEGIN
+  FOR s IN
+    SELECT * FROM public.scheduled_transactions st
+    WHERE st.status = 'active' AND st.next_run_date <= p_as_of
+    ORDER BY st.next_run_date, st.created_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    WHILE s.status = 'active' AND s.next_run_date <= p_as_of LOOP
+      v_run_date := s.next_run_date;
+      v_key := md5(s.id::text || ':' || v_run_date::text)::uuid;
+      scheduled_transaction_id := s.id;
+      run_date := v_run_date;
+      transaction_id := NULL;
+      error := NULL;
+
+      BEGIN
+        IF s.transaction_type = 'withdraw' THEN
+          v_transaction := public.apply_transaction(s.account_id, 'withdraw', s.amount, COALESCE(s.description, 'Scheduled withdrawal'), v_key);
+        ELSE
+          PERFORM public.check_transfer_policy(s.user_id, s.recipient_account_id, s.amount);
+          v_transaction := public.apply_transfer(s.account_id, s.recipient_account_id, s.amount, COALESCE(s.description, 'Scheduled transfer'), v_key);
+        END IF;
+
+        status := 'succeeded';
+        transaction_id := v_transaction.id;
+        s.consecutive_failures := 0;
+        s.last_error := NULL;
+      EXCEPTION WHEN OTHERS THEN
+        status := 'failed';
+        error := SQLERRM;
+        s.consecutive_failures := s.consecutive_failures + 1;
+        s.last_error := SQLERRM;
+      END;
+
+      INSERT INTO public.scheduled_transaction_runs (scheduled_transaction_id, user_id, run_date, status, transaction_id, error)
+      VALUES (s.id, s.user_id, v_run_date, status, transaction_id, error)
+      ON CONFLICT ON CONSTRAINT scheduled_transaction_runs_scheduled_transaction_id_run_date_key DO NOTHING;
+
+      IF status = 'succeeded' THEN
+        s.runs_count := s.runs_count + 1;
+      END IF;
+      s.next_run_date := public.scheduled_transaction_next_date(s.frequency, s.day_of_week, s.day_of_month, v_run_date);
+
+      IF s.consecutive_failures >= v_max_consecutive_failures
+        OR (s.frequency = 'once' AND status = 'failed') THEN
+        s.status := 'failed';
+      ELSIF s.next_run_date IS NULL
+        OR (s.end_date IS NOT NULL AND s.next_run_date > s.end_date)
+        OR (s.max_runs IS NOT NULL AND s.runs_count >= s.max_runs) THEN
+        s.status := 'completed';
+        s.next_run_date := NULL;
+      END IF;
+
+      UPDATE public.scheduled_transactions st
+      SET status = s.status,
+          runs_count = s.runs_count,
+          next_run_date = s.next_run_date,
+          consecutive_failures = s.consecutive_failures,
+          last_error = s.last_error,
+          last_run_at = now()
+      WHERE st.id = s.id;
+
+      RETURN NEXT;
+    END LOOP;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,488 @@
+-- Fixed deposits: a customer locks money away from one of their accounts for
+-- a chosen tenure at the rate of that tenure's slab. At maturity the
+-- principal and interest are paid back into the linked account; closing early
+-- pays interest for the time actually held, less a penalty.
+CREATE SEQUENCE public.fixed_deposit_number_seq START 1;
+
+CREATE TABLE public.fixed_deposits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  account_id UUID NOT NULL REFERENCES public.accounts(id),
+  deposit_number TEXT NOT NULL UNIQUE DEFAULT 'FD' || lpad(nextval('public.fixed_deposit_number_seq')::text, 8, '0'),
+  principal DECIMAL(12,2) NOT NULL CHECK (principal > 0),
+  annual_rate DECIMAL(6,4) NOT NULL CHECK (annual_rate >= 0),
+  tenure_days INTEGER NOT NULL CHECK (tenure_days > 0),
+  opened_on DATE NOT NULL DEFAULT current_date,
+  maturity_date DATE NOT NULL,
+  maturity_amount DECIMAL(12,2) NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'matured', 'closed_early')),
+  interest_paid DECIMAL(12,2),
+  closed_on DATE,
+  open_transaction_id UUID NOT NULL REFERENCES public.transactions(id),
+  payout_transaction_id UUID REFERENCES public.transactions(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((status = 'active') = (payout_transaction_id IS NULL))
+);
+
+CREATE INDEX fixed_deposits_user_id_idx ON public.fixed_deposits (user_id, created_at DESC);
+CREATE INDEX fixed_deposits_active_maturity_idx ON public.fixed_deposits (maturity_date) WHERE status = 'active';
+
+-- Create interest rate slabs by tenure in days
+CREATE TABLE public.fixed_deposit_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  min_days INTEGER NOT NULL UNIQUE CHECK (min_days > 0),
+  max_days INTEGER NOT NULL CHECK (max_days >= min_days),
+  annual_rate DECIMAL(6,4) NOT NULL CHECK (annual_rate >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.fixed_deposit_rates (min_days, max_days, annual_rate) VALUES
+  (7, 45, 0.0350),
+  (46, 179, 0.0450),
+  (180, 364, 0.0575),
+  (365, 729, 0.0675),
+  (730, 1825, 0.0700),
+  (1826, 3650, 0.0650);
+
+-- Create single-row table of fixed deposit settings. Closing early pays the
+-- rate for the period actually held, reduced by the penalty rate.
+CREATE TABLE public.fixed_deposit_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  min_principal DECIMAL(12,2) NOT NULL DEFAULT 1000.00 CHECK (min_principal > 0),
+  premature_penalty_rate DECIMAL(6,4) NOT NULL DEFAULT 0.0100 CHECK (premature_penalty_rate >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.fixed_deposit_settings DEFAULT VALUES;
+
+-- Enable Row Level Security
+ALTER TABLE public.fixed_deposits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fixed_deposit_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fixed_deposit_settings ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies. Deposits are written only by the functions below.
+CREATE POLICY "Users can view their own fixed deposits"
+ON public.fixed_deposits
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Signed-in users can view fixed deposit rates"
+ON public.fixed_deposit_rates
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Signed-in users can view fixed deposit settings"
+ON public.fixed_deposit_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+REVOKE INSERT, UPDATE, DELETE ON public.fixed_deposits FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.fixed_deposit_rates FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.fixed_deposit_settings FROM anon, authenticated;
+
+CREATE TRIGGER update_fixed_deposits_updated_at
+  BEFORE UPDATE ON public.fixed_deposits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_fixed_deposit_rates_updated_at
+  BEFORE UPDATE ON public.fixed_deposit_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Allow fixed deposit rows in the transaction history
+ALTER TABLE public.transactions DROP CONSTRAINT transactions_transaction_type_check;
+
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_transaction_type_check
+  CHECK (transaction_type IN (
+    'deposit', 'withdraw', 'transfer_out', 'transfer_in', 'reversal_in', 'reversal_out', 'overdraft_interest',
+    'fd_open', 'fd_payout'
+  ));
+
+-- Money held in fixed deposits is still owed to customers; interest paid on
+-- it is an expense for the bank
+INSERT INTO public.ledger_accounts (code, name, account_class) VALUES
+  ('FIXED_DEPOSITS', 'Fixed deposits', 'liability'),
+  ('FD_INTEREST', 'Fixed deposit interest expense', 'expense');
+
+-- Create function returning the annual rate for a tenure; raises when no slab covers it
+CREATE OR REPLACE FUNCTION public.fixed_deposit_rate(p_tenure_days INTEGER)
+RETURNS DECIMAL AS $$
+DECLARE
+  v_rate DECIMAL(6,4);
+BEGIN
+  SELECT annual_rate INTO v_rate
+  FROM public.fixed_deposit_rates
+  WHERE p_tenure_days BETWEEN min_days AND max_days;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No fixed deposit rate for a tenure of % days', p_tenure_days USING ERRCODE = '22023';
+  END IF;
+
+  RETURN v_rate;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Create function returning what a deposit is worth after p_days. Deposits
+-- under 180 days earn simple interest; longer ones compound quarterly.
+-- Mirrored by maturityAmount in src/lib/fixed-deposits.ts.
+CREATE OR REPLACE FUNCTION public.fixed_deposit_maturity_amount(p_principal DECIMAL, p_annual_rate DECIMAL, p_days INTEGER)
+RETURNS DECIMAL AS $$
+  SELECT round(
+    CASE
+      WHEN p_days < 180 THEN p_principal * (1 + p_annual_rate * p_days / 365)
+      ELSE p_principal * power(1 + p_annual_rate / 4, 4 * p_days / 365.0)
+    END,
+    2
+  );
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.fixed_deposit_rate(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fixed_deposit_maturity_amount(DECIMAL, DECIMAL, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Open a fixed deposit funded from one of the signed-in user's accounts. The
+-- account's overdraft cannot be used to fund a deposit.
+CREATE OR REPLACE FUNCTION public.open_fixed_deposit(
+  p_account_id UUID,
+  p_amount DECIMAL,
+  p_tenure_days INTEGER,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.fixed_deposits AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+  v_account public.accounts;
+  v_deposit public.fixed_deposits;
+  v_min_principal DECIMAL(12,2);
+  v_rate DECIMAL(6,4);
+  v_description TEXT;
+  v_entry_id UUID;
+  v_balance DECIMAL(12,2);
+  v_transaction public.transactions;
+BEGIN
+  PERFORM public.own_account(p_account_id);
+
+  SELECT min_principal INTO v_min_principal FROM public.fixed_deposit_settings;
+
+  IF v_amount IS NULL OR v_amount < v_min_principal THEN
+    RAISE EXCEPTION 'Fixed deposits start at %', v_min_principal USING ERRCODE = '22023';
+  END IF;
+
+  v_rate := public.fixed_deposit_rate(p_tenure_days);
+  v_account := public.lock_active_account(p_account_id);
+
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_deposit
+    FROM public.fixed_deposits
+    WHERE open_transaction_id = (
+      SELECT t.id FROM public.transactions t
+      WHERE t.user_id = v_account.user_id AND t.idempotency_key = p_idempotency_key
+    );
+
+    IF FOUND THEN
+      IF v_deposit.principal <> v_amount
+        OR v_deposit.tenure_days <> p_tenure_days
+        OR v_deposit.account_id <> p_account_id THEN
+        RAISE EXCEPTION 'Idempotency key was already used for a different request' USING ERRCODE = '22023';
+      END IF;
+      RETURN v_deposit;
+    END IF;
+  END IF;
+
+  IF public.account_available_balance(p_account_id) < v_amount THEN
+    RAISE EXCEPTION 'Insufficient funds' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_description := 'Fixed deposit for ' || p_tenure_days || ' days';
+  v_entry_id := public.post_journal_entry(
+    'fd_open', v_description,
+    public.account_ledger_account_id(p_account_id), public.internal_ledger_account_id('FIXED_DEPOSITS'),
+    v_amount
+  );
+  v_balance := public.refresh_account_balances(p_account_id);
+
+  INSERT INTO public.transactions (
+    user_id, account_id, amount, transaction_type, description, balance_after, idempotency_key, journal_entry_id
+  )
+  VALUES (
+    v_account.user_id, p_account_id, v_amount, 'fd_open', v_description, v_balance, p_idempotency_key, v_entry_id
+  )
+  RETURNING * INTO v_transaction;
+
+  INSERT INTO public.fixed_deposits (
+    user_id, account_id, principal, annual_rate, tenure_days, maturity_date, maturity_amount, open_transaction_id
+  )
+  VALUES (
+    v_account.user_id, p_account_id, v_amount, v_rate, p_tenure_days, current_date + p_tenure_days,
+    public.fixed_deposit_maturity_amount(v_amount, v_rate, p_tenure_days), v_transaction.id
+  )
+  RETURNING * INTO v_deposit;
+
+  RETURN v_deposit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.open_fixed_deposit(UUID, DECIMAL, INTEGER, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.open_fixed_deposit(UUID, DECIMAL, INTEGER, UUID) TO authenticated;
+
+-- Create function paying a locked, active deposit's principal plus p_interest
+-- into its linked account and marking it p_status. Returns the payout row.
+CREATE OR REPLACE FUNCTION public.pay_out_fixed_deposit(
+  p_deposit public.fixed_deposits,
+  p_interest DECIMAL,
+  p_status TEXT,
+  p_closed_on DATE
+)
+RETURNS public.transactions AS $$
+DECLARE
+  v_customer_ledger UUID := public.account_ledger_account_id(p_deposit.account_id);
+  v_description TEXT;
+  v_entry_id UUID;
+  v_balance DECIMAL(12,2);
+  v_transaction public.transactions;
+BEGIN
+  PERFORM 1 FROM public.accounts WHERE id = p_deposit.account_id FOR UPDATE;
+
+  v_description := CASE
+    WHEN p_status = 'matured' THEN 'Fixed deposit ' || p_deposit.deposit_number || ' matured'
+    ELSE 'Fixed deposit ' || p_deposit.deposit_number || ' closed early'
+  END;
+
+  INSERT INTO public.journal_entries (entry_type, description)
+  VALUES ('fd_payout', v_description)
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO public.journal_lines (journal_entry_id, ledger_account_id, debit)
+  VALUES (v_entry_id, public.internal_ledger_account_id('FIXED_DEPOSITS'), p_deposit.principal);
+
+  IF p_interest > 0 THEN
+    INSERT INTO public.journal_lines (journal_entry_id, ledger_account_id, debit)
+    VALUES (v_entry_id, public.internal_ledger_account_id('FD_INTEREST'), p_interest);
+  END IF;
+
+  INSERT INTO public.journal_lines (journal_entry_id, ledger_account_id, credit)
+  VALUES (v_entry_id, v_customer_ledger, p_deposit.principal + p_interest);
+
+  v_balance := public.refresh_account_balances(p_deposit.account_id);
+
+  INSERT INTO public.transactions (
+    user_id, account_id, amount, transaction_type, description, balance_after, journal_entry_id
+  )
+  VALUES (
+    p_deposit.user_id, p_deposit.account_id, p_deposit.principal + p_interest, 'fd_payout',
+    v_description, v_balance, v_entry_id
+  )
+  RETURNING * INTO v_transaction;
+
+  UPDATE public.fixed_deposits
+  SET status = p_status,
+      interest_paid = p_interest,
+      closed_on = p_closed_on,
+      payout_transaction_id = v_transaction.id
+  WHERE id = p_deposit.id;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.pay_out_fixed_deposit(public.fixed_deposits, DECIMAL, TEXT, DATE) FROM PUBLIC, anon, authenticated;
+
+-- Close one of the signed-in user's deposits before maturity. Interest is
+-- earned at the slab rate for the days actually held (capped at the booked
+-- rate) less the penalty rate; deposits held under the shortest slab earn
+-- nothing.
+CREATE OR REPLACE FUNCTION public.close_fixed_deposit(p_fixed_deposit_id UUID)
+RETURNS public.fixed_deposits AS $$
+DECLARE
+  v_deposit public.fixed_deposits;
+  v_held_days INTEGER;
+  v_rate DECIMAL(6,4) := 0;
+  v_penalty DECIMAL(6,4);
+  v_interest DECIMAL(12,2);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_deposit
+  FROM public.fixed_deposits
+  WHERE id = p_fixed_deposit_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Fixed deposit not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_deposit.status <> 'active' THEN
+    RAISE EXCEPTION 'This fixed deposit has already been paid out' USING ERRCODE = '22023';
+  END IF;
+
+  IF current_date >= v_deposit.maturity_date THEN
+    RAISE EXCEPTION 'This fixed deposit has matured and will be paid out automatically' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT premature_penalty_rate INTO v_penalty FROM public.fixed_deposit_settings;
+
+  v_held_days := current_date - v_deposit.opened_on;
+
+  SELECT LEAST(r.annual_rate, v_deposit.annual_rate) INTO v_rate
+  FROM public.fixed_deposit_rates r
+  WHERE v_held_days BETWEEN r.min_days AND r.max_days;
+
+  v_rate := GREATEST(COALESCE(v_rate, 0) - v_penalty, 0);
+  v_interest := CASE
+    WHEN v_rate > 0 THEN public.fixed_deposit_maturity_amount(v_deposit.principal, v_rate, v_held_days) - v_deposit.principal
+    ELSE 0.00
+  END;
+
+  PERFORM public.pay_out_fixed_deposit(v_deposit, v_interest, 'closed_early', current_date);
+
+  SELECT * INTO v_deposit FROM public.fixed_deposits WHERE id = p_fixed_deposit_id;
+
+  RETURN v_deposit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.close_fixed_deposit(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.close_fixed_deposit(UUID) TO authenticated;
+
+-- Back office job: pay out every active deposit that has matured on or
+-- before p_as_of. Paid deposits are no longer active, so re-running is safe.
+CREATE OR REPLACE FUNCTION public.pay_matured_fixed_deposits(p_as_of DATE DEFAULT current_date)
+RETURNS TABLE (
+  fixed_deposit_id UUID,
+  account_id UUID,
+  payout DECIMAL,
+  transaction_id UUID
+) AS $$
+DECLARE
+  v_deposit public.fixed_deposits;
+  v_transaction public.transactions;
+BEGIN
+  FOR v_deposit IN
+    SELECT fd.* FROM public.fixed_deposits fd
+    WHERE fd.status = 'active' AND fd.maturity_date <= p_as_of
+    ORDER BY fd.maturity_date, fd.id
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_transaction := public.pay_out_fixed_deposit(
+      v_deposit, v_deposit.maturity_amount - v_deposit.principal, 'matured', v_deposit.maturity_date
+    );
+
+    fixed_deposit_id := v_deposit.id;
+    account_id := v_deposit.account_id;
+    payout := v_transaction.amount;
+    transaction_id := v_transaction.id;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.pay_matured_fixed_deposits(DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.pay_matured_fixed_deposits(DATE) TO service_role;
+
+-- Recreate reversal so fixed deposit rows are never reversed; a deposit is
+-- unwound by closing it, which keeps the deposit and the ledger in step
+CREATE OR REPLACE FUNCTION public.reverse_transaction(p_transaction_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS public.transactions AS $$
+DECLARE
+  v_original public.transactions;
+  v_entry_id UUID;
+  v_description TEXT;
+  v_balance DECIMAL(12,2);
+  v_result public.transactions;
+  v_reversal public.transactions;
+  r RECORD;
+BEGIN
+  SELECT * INTO v_original FROM public.transactions WHERE id = p_transaction_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_original.transaction_type IN ('reversal_in', 'reversal_out') THEN
+    RAISE EXCEPTION 'Reversals cannot themselves be reversed' USING ERRCODE = '22023';
+  ELSIF v_original.transaction_type IN ('fd_open', 'fd_payout') THEN
+    RAISE EXCEPTION 'Fixed deposit transactions cannot be reversed' USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock every account touched by the original entry, in a fixed order
+  PERFORM 1
+  FROM public.accounts
+  WHERE id IN (SELECT t.account_id FROM public.transactions t WHERE t.journal_entry_id = v_original.journal_entry_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO v_original FROM public.transactions WHERE id = p_transaction_id;
+
+  IF v_original.status = 'reversed' THEN
+    RAISE EXCEPTION 'Transaction has already been reversed' USING ERRCODE = '22023';
+  ELSIF v_original.status <> 'posted' THEN
+    RAISE EXCEPTION 'Only posted transactions can be reversed' USING ERRCODE = '22023';
+  END IF;
+
+  -- Accounts whose balance goes down must be able to cover it
+  FOR r IN
+    SELECT la.account_id, SUM(jl.credit) - SUM(jl.debit) AS amount
+    FROM public.journal_lines jl
+    JOIN public.ledger_accounts la ON la.id = jl.ledger_account_id
+    WHERE jl.journal_entry_id = v_original.journal_entry_id AND la.account_id IS NOT NULL
+    GROUP BY la.account_id
+  LOOP
+    IF r.amount > 0 AND public.account_available_balance(r.account_id) < r.amount THEN
+      RAISE EXCEPTION 'Insufficient funds to reverse this transaction' USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+
+  v_description := 'Reversal: ' || COALESCE(NULLIF(btrim(p_reason), ''), v_original.description, 'transaction reversed');
+
+  INSERT INTO public.journal_entries (entry_type, description)
+  VALUES ('reversal', v_description)
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO public.journal_lines (journal_entry_id, ledger_account_id, debit, credit)
+  SELECT v_entry_id, jl.ledger_account_id, jl.credit, jl.debit
+  FROM public.journal_lines jl
+  WHERE jl.journal_entry_id = v_original.journal_entry_id;
+
+  FOR r IN
+    SELECT t.* FROM public.transactions t
+    WHERE t.journal_entry_id = v_original.journal_entry_id
+    ORDER BY t.created_at, t.id
+  LOOP
+    v_balance := public.refresh_account_balances(r.account_id);
+
+    UPDATE public.transactions SET status = 'reversed' WHERE id = r.id;
+
+    INSERT INTO public.transactions (
+      user_id, account_id, amount, transaction_type, description, balance_after, journal_entry_id,
+      counterparty_user_id, counterparty_account_id, counterparty_name, reverses_transaction_id
+    )
+    VALUES (
+      r.user_id,
+      r.account_id,
+      r.amount,
+      CASE WHEN r.transaction_type IN ('deposit', 'transfer_in') THEN 'reversal_out' ELSE 'reversal_in' END,
+      v_description,
+      v_balance,
+      v_entry_id,
+      r.counterparty_user_id,
+      r.counterparty_account_id,
+      r.counterparty_name,
+      r.id
+    )
+    RETURNING * INTO v_reversal;
+
+    IF r.id = p_transaction_id THEN
+      v_result := v_reversal;
+    END IF;
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,338 @@
+-- Savings accounts earn interest: it accrues daily on the end-of-day balance
+-- at tiered rates and is credited to the account monthly or quarterly.
+CREATE TABLE public.savings_interest_tiers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  min_balance DECIMAL(12,2) NOT NULL UNIQUE CHECK (min_balance >= 0),
+  annual_rate DECIMAL(6,4) NOT NULL CHECK (annual_rate >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Each tier's rate applies to the part of the balance between its minimum
+-- and the next tier's, so crossing a threshold never lowers the interest
+INSERT INTO public.savings_interest_tiers (min_balance, annual_rate) VALUES
+  (0.00, 0.0275),
+  (100000.00, 0.0325),
+  (500000.00, 0.0400);
+
+-- Create single-row table of savings interest settings
+CREATE TABLE public.savings_interest_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  posting_frequency TEXT NOT NULL DEFAULT 'monthly' CHECK (posting_frequency IN ('monthly', 'quarterly')),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.savings_interest_settings DEFAULT VALUES;
+
+-- Create daily accruals. Interest is kept to four decimal places and only
+-- rounded when a period's accruals are credited together.
+CREATE TABLE public.interest_accruals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  account_id UUID NOT NULL REFERENCES public.accounts(id),
+  accrual_date DATE NOT NULL,
+  balance DECIMAL(12,2) NOT NULL,
+  interest DECIMAL(12,4) NOT NULL CHECK (interest >= 0),
+  transaction_id UUID REFERENCES public.transactions(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (account_id, accrual_date)
+);
+
+CREATE INDEX interest_accruals_unposted_idx ON public.interest_accruals (account_id, accrual_date) WHERE transaction_id IS NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.savings_interest_tiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.savings_interest_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.interest_accruals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view savings interest tiers"
+ON public.savings_interest_tiers
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Signed-in users can view savings interest settings"
+ON public.savings_interest_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can view their own interest accruals"
+ON public.interest_accruals
+FOR SELECT
+USING (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON public.savings_interest_tiers FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.savings_interest_settings FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.interest_accruals FROM anon, authenticated;
+
+CREATE TRIGGER update_savings_interest_tiers_updated_at
+  BEFORE UPDATE ON public.savings_interest_tiers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Allow interest credits in the transaction history
+ALTER TABLE public.transactions DROP CONSTRAINT transactions_transaction_type_check;
+
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_transaction_type_check
+  CHECK (transaction_type IN (
+    'deposit', 'withdraw', 'transfer_out', 'transfer_in', 'reversal_in', 'reversal_out', 'overdraft_interest',
+    'fd_open', 'fd_payout', 'interest'
+  ));
+
+-- Recreate reversal so a reversed interest credit is recorded as money going
+-- out of the account, like a reversed deposit
+CREATE OR REPLACE FUNCTION public.reverse_transaction(p_transaction_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS public.transactions AS $$
+DECLARE
+  v_original public.transactions;
+  v_entry_id UUID;
+  v_description TEXT;
+  v_balance DECIMAL(12,2);
+  v_result public.transactions;
+  v_reversal public.transactions;
+  r RECORD;
+BEGIN
+  SELECT * INTO v_original FROM public.transactions WHERE id = p_transaction_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_original.transaction_type IN ('reversal_in', 'reversal_out') THEN
+    RAISE EXCEPTION 'Reversals cannot themselves be reversed' USING ERRCODE = '22023';
+  ELSIF v_original.transaction_type IN ('fd_open', 'fd_payout') THEN
+    RAISE EXCEPTION 'Fixed deposit transactions cannot be reversed' USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock every account touched by the original entry, in a fixed order
+  PERFORM 1
+  FROM public.accounts
+  WHERE id IN (SELECT t.account_id FROM public.transactions t WHERE t.journal_entry_id = v_original.journal_entry_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO v_original FROM public.transactions WHERE id = p_transaction_id;
+
+  IF v_original.status = 'reversed' THEN
+    RAISE EXCEPTION 'Transaction has already been reversed' USING ERRCODE = '22023';
+  ELSIF v_original.status <> 'posted' THEN
+    RAISE EXCEPTION 'Only posted transactions can be reversed' USING ERRCODE = '22023';
+  END IF;
+
+  -- Accounts whose balance goes down must be able to cover it
+  FOR r IN
+    SELECT la.account_id, SUM(jl.credit) - SUM(jl.debit) AS amount
+    FROM public.journal_lines jl
+    JOIN public.ledger_accounts la ON la.id = jl.ledger_account_id
+    WHERE jl.journal_entry_id = v_original.journal_entry_id AND la.account_id IS NOT NULL
+    GROUP BY la.account_id
+  LOOP
+    IF r.amount > 0 AND public.account_available_balance(r.account_id) < r.amount THEN
+      RAISE EXCEPTION 'Insufficient funds to reverse this transaction' USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+
+  v_description := 'Reversal: ' || COALESCE(NULLIF(btrim(p_reason), ''), v_original.description, 'transaction reversed');
+
+  INSERT INTO public.journal_entries (entry_type, description)
+  VALUES ('reversal', v_description)
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO public.journal_lines (journal_entry_id, ledger_account_id, debit, credit)
+  SELECT v_entry_id, jl.ledger_account_id, jl.credit, jl.debit
+  FROM public.journal_lines jl
+  WHERE jl.journal_entry_id = v_original.journal_entry_id;
+
+  FOR r IN
+    SELECT t.* FROM public.transactions t
+    WHERE t.journal_entry_id = v_original.journal_entry_id
+    ORDER BY t.created_at, t.id
+  LOOP
+    v_balance := public.refresh_account_balances(r.account_id);
+
+    UPDATE public.transactions SET status = 'reversed' WHERE id = r.id;
+
+    INSERT INTO public.transactions (
+      user_id, account_id, amount, transaction_type, description, balance_after, journal_entry_id,
+      counterparty_user_id, counterparty_account_id, counterparty_name, reverses_transaction_id
+    )
+    VALUES (
+      r.user_id,
+      r.account_id,
+      r.amount,
+      CASE WHEN r.transaction_type IN ('deposit', 'transfer_in', 'interest') THEN 'reversal_out' ELSE 'reversal_in' END,
+      v_description,
+      v_balance,
+      v_entry_id,
+      r.counterparty_user_id,
+      r.counterparty_account_id,
+      r.counterparty_name,
+      r.id
+    )
+    RETURNING * INTO v_reversal;
+
+    IF r.id = p_transaction_id THEN
+      v_result := v_reversal;
+    END IF;
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Interest paid on savings is an expense for the bank
+INSERT INTO public.ledger_accounts (code, name, account_class) VALUES
+  ('SAVINGS_INTEREST', 'Savings interest expense', 'expense');
+
+-- Create function returning a year's interest on p_balance across the tiers
+CREATE OR REPLACE FUNCTION public.savings_annual_interest(p_balance DECIMAL)
+RETURNS DECIMAL AS $$
+  SELECT COALESCE(SUM((LEAST(p_balance, COALESCE(t.next_min_balance, p_balance)) - t.min_balance) * t.annual_rate), 0)
+  FROM (
+    SELECT min_balance, annual_rate, lead(min_balance) OVER (ORDER BY min_balance) AS next_min_balance
+    FROM public.savings_interest_tiers
+  ) t
+  WHERE p_balance > t.min_balance;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.savings_annual_interest(DECIMAL) FROM PUBLIC, anon, authenticated;
+
+-- Back office job: accrue one day's interest on every savings account's
+-- balance at the end of p_as_of, taken from the ledger as of that day. An
+-- account accrues at most once per date, so re-running or back-filling a date
+-- is safe.
+CREATE OR REPLACE FUNCTION public.accrue_savings_interest(p_as_of DATE DEFAULT current_date)
+RETURNS TABLE (
+  account_id UUID,
+  balance DECIMAL,
+  interest DECIMAL
+) AS $$
+DECLARE
+  r RECORD;
+BEGIN
+  FOR r IN
+    SELECT a.id AS savings_account_id, a.user_id AS customer_id, SUM(jl.credit) - SUM(jl.debit) AS end_of_day_balance
+    FROM public.accounts a
+    JOIN public.ledger_accounts la ON la.account_id = a.id
+    JOIN public.journal_lines jl ON jl.ledger_account_id = la.id
+    WHERE a.account_type = 'savings' AND a.status <> 'closed' AND jl.created_at < (p_as_of + 1)
+    GROUP BY a.id, a.user_id
+    HAVING SUM(jl.credit) > SUM(jl.debit)
+    ORDER BY a.id
+  LOOP
+    INSERT INTO public.interest_accruals (user_id, account_id, accrual_date, balance, interest)
+    VALUES (
+      r.customer_id, r.savings_account_id, p_as_of, r.end_of_day_balance,
+      round(public.savings_annual_interest(r.end_of_day_balance) / 365, 4)
+    )
+    ON CONFLICT ON CONSTRAINT interest_accruals_account_id_accrual_date_key DO NOTHING
+    RETURNING interest_accruals.account_id, interest_accruals.balance, interest_accruals.interest
+    INTO account_id, balance, interest;
+
+    IF FOUND THEN
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.accrue_savings_interest(DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.accrue_savings_interest(DATE) TO service_role;
+
+-- Back office job: credit every account's unposted accruals up to the end of
+-- the last complete posting period before p_as_of (the previous month, or the
+-- previous quarter when posting quarterly). Posted accruals are linked to the
+-- credit, so re-running is safe. Totals under one paisa are carried forward.
+CREATE OR REPLACE FUNCTION public.post_savings_interest(p_as_of DATE DEFAULT current_date)
+RETURNS TABLE (
+  account_id UUID,
+  period_end DATE,
+  interest DECIMAL,
+  transaction_id UUID
+) AS $$
+DECLARE
+  v_frequency TEXT;
+  v_period_end DATE;
+  v_expense UUID := public.internal_ledger_account_id('SAVINGS_INTEREST');
+  v_description TEXT;
+  v_entry_id UUID;
+  v_total DECIMAL(12,2);
+  v_balance DECIMAL(12,2);
+  v_transaction public.transactions;
+  r RECORD;
+BEGIN
+  SELECT posting_frequency INTO v_frequency FROM public.savings_interest_settings;
+
+  v_period_end := CASE
+    WHEN v_frequency = 'quarterly' THEN date_trunc('quarter', p_as_of)::date - 1
+    ELSE date_trunc('month', p_as_of)::date - 1
+  END;
+  v_description := 'Savings interest to ' || to_char(v_period_end, 'DD Mon YYYY');
+
+  FOR r IN
+    SELECT DISTINCT ia.account_id AS savings_account_id, ia.user_id AS customer_id
+    FROM public.interest_accruals ia
+    WHERE ia.transaction_id IS NULL AND ia.accrual_date <= v_period_end
+    ORDER BY ia.account_id
+  LOOP
+    PERFORM 1 FROM public.accounts a WHERE a.id = r.savings_account_id FOR UPDATE;
+
+    -- Total again under the lock so a concurrent run cannot credit the same accruals
+    SELECT round(SUM(ia.interest), 2) INTO v_total
+    FROM public.interest_accruals ia
+    WHERE ia.account_id = r.savings_account_id AND ia.transaction_id IS NULL AND ia.accrual_date <= v_period_end;
+
+    CONTINUE WHEN v_total IS NULL OR v_total < 0.01;
+
+    v_entry_id := public.post_journal_entry(
+      'interest', v_description, v_expense, public.account_ledger_account_id(r.savings_account_id), v_total
+    );
+    v_balance := public.refresh_account_balances(r.savings_account_id);
+
+    INSERT INTO public.transactions (
+      user_id, account_id, amount, transaction_type, description, balance_after, journal_entry_id
+    )
+    VALUES (
+      r.customer_id, r.savings_account_id, v_total, 'interest', v_description, v_balance, v_entry_id
+    )
+    RETURNING * INTO v_transaction;
+
+    UPDATE public.interest_accruals ia
+    SET transaction_id = v_transaction.id
+    WHERE ia.account_id = r.savings_account_id AND ia.transaction_id IS NULL AND ia.accrual_date <= v_period_end;
+
+    account_id := r.savings_account_id;
+    period_end := v_period_end;
+    interest := v_total;
+    transaction_id := v_transaction.id;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.post_savings_interest(DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.post_savings_interest(DATE) TO service_role;
+
+-- Interest accrued on one of the signed-in user's accounts this month and
+-- this calendar year, whether or not it has been credited yet
+CREATE OR REPLACE FUNCTION public.get_interest_earned(p_account_id UUID)
+RETURNS TABLE (
+  month_to_date DECIMAL,
+  year_to_date DECIMAL
+) AS $$
+BEGIN
+  PERFORM public.own_account(p_account_id);
+
+  RETURN QUERY
+  SELECT
+    round(COALESCE(SUM(ia.interest) FILTER (WHERE ia.accrual_date >= date_trunc('month', current_date)), 0), 2),
+    round(COALESCE(SUM(ia.interest), 0), 2)
+  FROM public.interest_accruals ia
+  WHERE ia.account_id = p_account_id AND ia.accrual_date >= date_trunc('year', current_date);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_interest_earned(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_interest_earned(UUID) TO authenticated;
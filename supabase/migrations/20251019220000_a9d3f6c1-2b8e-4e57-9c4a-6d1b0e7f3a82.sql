@@ -0,0 +1,577 @@
+-- Recurring deposits: a fixed instalment is debited from one of the
+-- customer's accounts every month for a chosen number of months. Each paid
+-- instalment earns interest compounded quarterly until maturity, when the
+-- deposit is paid back into the linked account. Instalments the account
+-- cannot cover are marked missed and retried with a penalty.
+CREATE SEQUENCE public.recurring_deposit_number_seq START 1;
+
+CREATE TABLE public.recurring_deposits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  account_id UUID NOT NULL REFERENCES public.accounts(id),
+  deposit_number TEXT NOT NULL UNIQUE DEFAULT 'RD' || lpad(nextval('public.recurring_deposit_number_seq')::text, 8, '0'),
+  instalment_amount DECIMAL(12,2) NOT NULL CHECK (instalment_amount > 0),
+  months INTEGER NOT NULL CHECK (months > 0),
+  annual_rate DECIMAL(6,4) NOT NULL CHECK (annual_rate >= 0),
+  opened_on DATE NOT NULL DEFAULT current_date,
+  maturity_date DATE NOT NULL,
+  expected_maturity_amount DECIMAL(12,2) NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'matured')),
+  interest_paid DECIMAL(12,2),
+  payout_transaction_id UUID REFERENCES public.transactions(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((status = 'active') = (payout_transaction_id IS NULL))
+);
+
+CREATE INDEX recurring_deposits_user_id_idx ON public.recurring_deposits (user_id, created_at DESC);
+
+-- Create the instalment schedule; one row per month of the deposit
+CREATE TABLE public.recurring_deposit_instalments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  recurring_deposit_id UUID NOT NULL REFERENCES public.recurring_deposits(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  instalment_number INTEGER NOT NULL CHECK (instalment_number > 0),
+  due_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'upcoming' CHECK (status IN ('upcoming', 'paid', 'missed')),
+  paid_on DATE,
+  penalty DECIMAL(12,2) NOT NULL DEFAULT 0.00 CHECK (penalty >= 0),
+  transaction_id UUID REFERENCES public.transactions(id),
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (recurring_deposit_id, instalment_number),
+  CHECK ((status = 'paid') = (transaction_id IS NOT NULL))
+);
+
+CREATE INDEX recurring_deposit_instalments_due_idx
+  ON public.recurring_deposit_instalments (due_date)
+  WHERE status <> 'paid';
+
+-- Create interest rate slabs by number of monthly instalments
+CREATE TABLE public.recurring_deposit_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  min_months INTEGER NOT NULL UNIQUE CHECK (min_months > 0),
+  max_months INTEGER NOT NULL CHECK (max_months >= min_months),
+  annual_rate DECIMAL(6,4) NOT NULL CHECK (annual_rate >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.recurring_deposit_rates (min_months, max_months, annual_rate) VALUES
+  (6, 11, 0.0550),
+  (12, 23, 0.0650),
+  (24, 120, 0.0700);
+
+-- Create single-row table of recurring deposit settings. An instalment paid
+-- after its due date also pays missed_instalment_penalty_rate of the
+-- instalment as a penalty.
+CREATE TABLE public.recurring_deposit_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  min_instalment DECIMAL(12,2) NOT NULL DEFAULT 500.00 CHECK (min_instalment > 0),
+  missed_instalment_penalty_rate DECIMAL(6,4) NOT NULL DEFAULT 0.0150 CHECK (missed_instalment_penalty_rate >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.recurring_deposit_settings DEFAULT VALUES;
+
+-- Enable Row Level Security
+ALTER TABLE public.recurring_deposits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_deposit_instalments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_deposit_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_deposit_settings ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies. Deposits and instalments are written only by the
+-- functions below.
+CREATE POLICY "Users can view their own recurring deposits"
+ON public.recurring_deposits
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own recurring deposit instalments"
+ON public.recurring_deposit_instalments
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Signed-in users can view recurring deposit rates"
+ON public.recurring_deposit_rates
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Signed-in users can view recurring deposit settings"
+ON public.recurring_deposit_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+REVOKE INSERT, UPDATE, DELETE ON public.recurring_deposits FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.recurring_deposit_instalments FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.recurring_deposit_rates FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.recurring_deposit_settings FROM anon, authenticated;
+
+CREATE TRIGGER update_recurring_deposits_updated_at
+  BEFORE UPDATE ON public.recurring_deposits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_recurring_deposit_instalments_updated_at
+  BEFORE UPDATE ON public.recurring_deposit_instalments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_recurring_deposit_rates_updated_at
+  BEFORE UPDATE ON public.recurring_deposit_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Allow recurring deposit rows in the transaction history
+ALTER TABLE public.transactions DROP CONSTRAINT transactions_transaction_type_check;
+
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_transaction_type_check
+  CHECK (transaction_type IN (
+    'deposit', 'withdraw', 'transfer_out', 'transfer_in', 'reversal_in', 'reversal_out', 'overdraft_interest',
+    'fd_open', 'fd_payout', 'interest', 'rd_instalment', 'rd_penalty', 'rd_payout'
+  ));
+
+INSERT INTO public.ledger_accounts (code, name, account_class) VALUES
+  ('RECURRING_DEPOSITS', 'Recurring deposits', 'liability'),
+  ('RD_INTEREST', 'Recurring deposit interest expense', 'expense'),
+  ('RD_PENALTY', 'Recurring deposit penalty income', 'income');
+
+-- Create function returning the annual rate for a number of instalments;
+-- raises when no slab covers it
+CREATE OR REPLACE FUNCTION public.recurring_deposit_rate(p_months INTEGER)
+RETURNS DECIMAL AS $$
+DECLARE
+  v_rate DECIMAL(6,4);
+BEGIN
+  SELECT annual_rate INTO v_rate
+  FROM public.recurring_deposit_rates
+  WHERE p_months BETWEEN min_months AND max_months;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No recurring deposit rate for % months', p_months USING ERRCODE = '22023';
+  END IF;
+
+  RETURN v_rate;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Create function returning what one instalment is worth at maturity: it
+-- compounds quarterly for the months from its due date to maturity.
+-- Mirrored by instalmentMaturityValue in src/lib/recurring-deposits.ts.
+CREATE OR REPLACE FUNCTION public.recurring_deposit_instalment_value(
+  p_amount DECIMAL,
+  p_annual_rate DECIMAL,
+  p_months_held INTEGER
+)
+RETURNS DECIMAL AS $$
+  SELECT round(p_amount * power(1 + p_annual_rate / 4, p_months_held / 3.0), 2);
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.recurring_deposit_rate(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.recurring_deposit_instalment_value(DECIMAL, DECIMAL, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Create function debiting a locked, unpaid instalment from its deposit's
+-- account, plus the missed-instalment penalty when p_paid_on is after the due
+-- date. Raises 'Insufficient funds' when the account cannot cover both; the
+-- account's overdraft is not used. Returns the instalment's transaction.
+CREATE OR REPLACE FUNCTION public.pay_recurring_deposit_instalment(
+  p_instalment public.recurring_deposit_instalments,
+  p_paid_on DATE,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+DECLARE
+  v_deposit public.recurring_deposits;
+  v_customer_ledger UUID;
+  v_penalty_rate DECIMAL(6,4);
+  v_penalty DECIMAL(12,2) := 0.00;
+  v_description TEXT;
+  v_entry_id UUID;
+  v_balance DECIMAL(12,2);
+  v_transaction public.transactions;
+BEGIN
+  SELECT * INTO v_deposit FROM public.recurring_deposits WHERE id = p_instalment.recurring_deposit_id;
+
+  PERFORM public.lock_active_account(v_deposit.account_id);
+  v_customer_ledger := public.account_ledger_account_id(v_deposit.account_id);
+
+  IF p_paid_on > p_instalment.due_date THEN
+    SELECT missed_instalment_penalty_rate INTO v_penalty_rate FROM public.recurring_deposit_settings;
+    v_penalty := round(v_deposit.instalment_amount * v_penalty_rate, 2);
+  END IF;
+
+  IF public.account_available_balance(v_deposit.account_id) < v_deposit.instalment_amount + v_penalty THEN
+    RAISE EXCEPTION 'Insufficient funds' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_description := 'Recurring deposit ' || v_deposit.deposit_number
+    || ' instalment ' || p_instalment.instalment_number || ' of ' || v_deposit.months;
+  v_entry_id := public.post_journal_entry(
+    'rd_instalment', v_description,
+    v_customer_ledger, public.internal_ledger_account_id('RECURRING_DEPOSITS'),
+    v_deposit.instalment_amount
+  );
+  v_balance := public.refresh_account_balances(v_deposit.account_id);
+
+  INSERT INTO public.transactions (
+    user_id, account_id, amount, transaction_type, description, balance_after, idempotency_key, journal_entry_id
+  )
+  VALUES (
+    v_deposit.user_id, v_deposit.account_id, v_deposit.instalment_amount, 'rd_instalment', v_description,
+    v_balance, p_idempotency_key, v_entry_id
+  )
+  RETURNING * INTO v_transaction;
+
+  IF v_penalty > 0 THEN
+    v_description := 'Late instalment penalty for ' || v_deposit.deposit_number;
+    v_entry_id := public.post_journal_entry(
+      'rd_penalty', v_description,
+      v_customer_ledger, public.internal_ledger_account_id('RD_PENALTY'),
+      v_penalty
+    );
+    v_balance := public.refresh_account_balances(v_deposit.account_id);
+
+    INSERT INTO public.transactions (
+      user_id, account_id, amount, transaction_type, description, balance_after, journal_entry_id
+    )
+    VALUES (
+      v_deposit.user_id, v_deposit.account_id, v_penalty, 'rd_penalty', v_description, v_balance, v_entry_id
+    );
+  END IF;
+
+  UPDATE public.recurring_deposit_instalments
+  SET status = 'paid',
+      paid_on = p_paid_on,
+      penalty = v_penalty,
+      transaction_id = v_transaction.id,
+      last_error = NULL
+  WHERE id = p_instalment.id;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.pay_recurring_deposit_instalment(public.recurring_deposit_instalments, DATE, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Open a recurring deposit on one of the signed-in user's accounts. The first
+-- instalment is debited straight away and the rest fall due on the same day
+-- of each following month.
+CREATE OR REPLACE FUNCTION public.open_recurring_deposit(
+  p_account_id UUID,
+  p_instalment_amount DECIMAL,
+  p_months INTEGER,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.recurring_deposits AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_instalment_amount, 2);
+  v_account public.accounts;
+  v_deposit public.recurring_deposits;
+  v_instalment public.recurring_deposit_instalments;
+  v_min_instalment DECIMAL(12,2);
+  v_rate DECIMAL(6,4);
+BEGIN
+  PERFORM public.own_account(p_account_id);
+
+  SELECT min_instalment INTO v_min_instalment FROM public.recurring_deposit_settings;
+
+  IF v_amount IS NULL OR v_amount < v_min_instalment THEN
+    RAISE EXCEPTION 'Recurring deposit instalments start at %', v_min_instalment USING ERRCODE = '22023';
+  END IF;
+
+  v_rate := public.recurring_deposit_rate(p_months);
+  v_account := public.lock_active_account(p_account_id);
+
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT rd.* INTO v_deposit
+    FROM public.recurring_deposits rd
+    JOIN public.recurring_deposit_instalments i ON i.recurring_deposit_id = rd.id
+    JOIN public.transactions t ON t.id = i.transaction_id
+    WHERE t.user_id = v_account.user_id AND t.idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_deposit.instalment_amount <> v_amount
+        OR v_deposit.months <> p_months
+        OR v_deposit.account_id <> p_account_id THEN
+        RAISE EXCEPTION 'Idempotency key was already used for a different request' USING ERRCODE = '22023';
+      END IF;
+      RETURN v_deposit;
+    END IF;
+  END IF;
+
+  INSERT INTO public.recurring_deposits (
+    user_id, account_id, instalment_amount, months, annual_rate, maturity_date, expected_maturity_amount
+  )
+  SELECT
+    v_account.user_id, p_account_id, v_amount, p_months, v_rate,
+    (current_date + make_interval(months => p_months))::date,
+    SUM(public.recurring_deposit_instalment_value(v_amount, v_rate, p_months - n + 1))
+  FROM generate_series(1, p_months) AS n
+  RETURNING * INTO v_deposit;
+
+  INSERT INTO public.recurring_deposit_instalments (recurring_deposit_id, user_id, instalment_number, due_date)
+  SELECT v_deposit.id, v_deposit.user_id, n, (v_deposit.opened_on + make_interval(months => n - 1))::date
+  FROM generate_series(1, p_months) AS n;
+
+  SELECT * INTO v_instalment
+  FROM public.recurring_deposit_instalments
+  WHERE recurring_deposit_id = v_deposit.id AND instalment_number = 1;
+
+  PERFORM public.pay_recurring_deposit_instalment(v_instalment, current_date, p_idempotency_key);
+
+  RETURN v_deposit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.open_recurring_deposit(UUID, DECIMAL, INTEGER, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.open_recurring_deposit(UUID, DECIMAL, INTEGER, UUID) TO authenticated;
+
+-- Back office job: debit every instalment due on or before p_as_of that has
+-- not been paid, including missed ones, until the deposit matures. An
+-- instalment the account cannot cover is marked missed and retried on the
+-- next run; paying it late adds the penalty. Paid instalments are skipped, so
+-- re-running is safe.
+CREATE OR REPLACE FUNCTION public.collect_recurring_deposit_instalments(p_as_of DATE DEFAULT current_date)
+RETURNS TABLE (
+  instalment_id UUID,
+  recurring_deposit_id UUID,
+  due_date DATE,
+  status TEXT,
+  transaction_id UUID,
+  error TEXT
+) AS $$
+DECLARE
+  v_instalment public.recurring_deposit_instalments;
+  v_transaction public.transactions;
+BEGIN
+  FOR v_instalment IN
+    SELECT i.* FROM public.recurring_deposit_instalments i
+    JOIN public.recurring_deposits rd ON rd.id = i.recurring_deposit_id
+    WHERE i.status <> 'paid' AND i.due_date <= p_as_of
+      AND rd.status = 'active' AND rd.maturity_date > p_as_of
+    ORDER BY i.due_date, i.id
+    FOR UPDATE OF i SKIP LOCKED
+  LOOP
+    instalment_id := v_instalment.id;
+    recurring_deposit_id := v_instalment.recurring_deposit_id;
+    due_date := v_instalment.due_date;
+    transaction_id := NULL;
+    error := NULL;
+
+    BEGIN
+      v_transaction := public.pay_recurring_deposit_instalment(
+        v_instalment, p_as_of, md5('rd-instalment:' || v_instalment.id::text)::uuid
+      );
+      status := 'paid';
+      transaction_id := v_transaction.id;
+    EXCEPTION WHEN OTHERS THEN
+      status := 'missed';
+      error := SQLERRM;
+
+      UPDATE public.recurring_deposit_instalments i
+      SET status = 'missed',
+          last_error = SQLERRM
+      WHERE i.id = v_instalment.id;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.collect_recurring_deposit_instalments(DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.collect_recurring_deposit_instalments(DATE) TO service_role;
+
+-- Back office job: pay out every active deposit that has matured on or
+-- before p_as_of. Instalments still unpaid are marked missed and earn
+-- nothing; each paid instalment earns interest from its due date. Paid
+-- deposits are no longer active, so re-running is safe.
+CREATE OR REPLACE FUNCTION public.pay_matured_recurring_deposits(p_as_of DATE DEFAULT current_date)
+RETURNS TABLE (
+  recurring_deposit_id UUID,
+  account_id UUID,
+  payout DECIMAL,
+  transaction_id UUID
+) AS $$
+DECLARE
+  v_deposit public.recurring_deposits;
+  v_principal DECIMAL(12,2);
+  v_value DECIMAL(12,2);
+  v_interest DECIMAL(12,2);
+  v_description TEXT;
+  v_entry_id UUID;
+  v_balance DECIMAL(12,2);
+  v_transaction public.transactions;
+BEGIN
+  FOR v_deposit IN
+    SELECT rd.* FROM public.recurring_deposits rd
+    WHERE rd.status = 'active' AND rd.maturity_date <= p_as_of
+    ORDER BY rd.maturity_date, rd.id
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.recurring_deposit_instalments i
+    SET status = 'missed'
+    WHERE i.recurring_deposit_id = v_deposit.id AND i.status = 'upcoming';
+
+    SELECT
+      COALESCE(SUM(v_deposit.instalment_amount), 0.00),
+      COALESCE(SUM(public.recurring_deposit_instalment_value(
+        v_deposit.instalment_amount, v_deposit.annual_rate, v_deposit.months - i.instalment_number + 1
+      )), 0.00)
+    INTO v_principal, v_value
+    FROM public.recurring_deposit_instalments i
+    WHERE i.recurring_deposit_id = v_deposit.id AND i.status = 'paid';
+
+    -- The first instalment is paid on opening, so there is always something to pay out
+    v_interest := v_value - v_principal;
+    v_description := 'Recurring deposit ' || v_deposit.deposit_number || ' matured';
+
+    PERFORM 1 FROM public.accounts a WHERE a.id = v_deposit.account_id FOR UPDATE;
+
+    INSERT INTO public.journal_entries (entry_type, description)
+    VALUES ('rd_payout', v_description)
+    RETURNING id INTO v_entry_id;
+
+    INSERT INTO public.journal_lines (journal_entry_id, ledger_account_id, debit)
+    VALUES (v_entry_id, public.internal_ledger_account_id('RECURRING_DEPOSITS'), v_principal);
+
+    IF v_interest > 0 THEN
+      INSERT INTO public.journal_lines (journal_entry_id, ledger_account_id, debit)
+      VALUES (v_entry_id, public.internal_ledger_account_id('RD_INTEREST'), v_interest);
+    END IF;
+
+    INSERT INTO public.journal_lines (journal_entry_id, ledger_account_id, credit)
+    VALUES (v_entry_id, public.account_ledger_account_id(v_deposit.account_id), v_value);
+
+    v_balance := public.refresh_account_balances(v_deposit.account_id);
+
+    INSERT INTO public.transactions (
+      user_id, account_id, amount, transaction_type, description, balance_after, journal_entry_id
+    )
+    VALUES (
+      v_deposit.user_id, v_deposit.account_id, v_value, 'rd_payout', v_description, v_balance, v_entry_id
+    )
+    RETURNING * INTO v_transaction;
+
+    UPDATE public.recurring_deposits rd
+    SET status = 'matured',
+        interest_paid = v_interest,
+        payout_transaction_id = v_transaction.id
+    WHERE rd.id = v_deposit.id;
+
+    recurring_deposit_id := v_deposit.id;
+    account_id := v_deposit.account_id;
+    payout := v_value;
+    transaction_id := v_transaction.id;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.pay_matured_recurring_deposits(DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.pay_matured_recurring_deposits(DATE) TO service_role;
+
+-- Recreate reversal so recurring deposit rows, like fixed deposit ones, are
+-- never reversed
+CREATE OR REPLACE FUNCTION public.reverse_transaction(p_transaction_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS public.transactions AS $$
+DECLARE
+  v_original public.transactions;
+  v_entry_id UUID;
+  v_description TEXT;
+  v_balance DECIMAL(12,2);
+  v_result public.transactions;
+  v_reversal public.transactions;
+  r RECORD;
+BEGIN
+  SELECT * INTO v_original FROM public.transactions WHERE id = p_transaction_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_original.transaction_type IN ('reversal_in', 'reversal_out') THEN
+    RAISE EXCEPTION 'Reversals cannot themselves be reversed' USING ERRCODE = '22023';
+  ELSIF v_original.transaction_type IN ('fd_open', 'fd_payout', 'rd_instalment', 'rd_penalty', 'rd_payout') THEN
+    RAISE EXCEPTION 'Deposit transactions cannot be reversed' USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock every account touched by the original entry, in a fixed order
+  PERFORM 1
+  FROM public.accounts
+  WHERE id IN (SELECT t.account_id FROM public.transactions t WHERE t.journal_entry_id = v_original.journal_entry_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO v_original FROM public.transactions WHERE id = p_transaction_id;
+
+  IF v_original.status = 'reversed' THEN
+    RAISE EXCEPTION 'Transaction has already been reversed' USING ERRCODE = '22023';
+  ELSIF v_original.status <> 'posted' THEN
+    RAISE EXCEPTION 'Only posted transactions can be reversed' USING ERRCODE = '22023';
+  END IF;
+
+  -- Accounts whose balance goes down must be able to cover it
+  FOR r IN
+    SELECT la.account_id, SUM(jl.credit) - SUM(jl.debit) AS amount
+    FROM public.journal_lines jl
+    JOIN public.ledger_accounts la ON la.id = jl.ledger_account_id
+    WHERE jl.journal_entry_id = v_original.journal_entry_id AND la.account_id IS NOT NULL
+    GROUP BY la.account_id
+  LOOP
+    IF r.amount > 0 AND public.account_available_balance(r.account_id) < r.amount THEN
+      RAISE EXCEPTION 'Insufficient funds to reverse this transaction' USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+
+  v_description := 'Reversal: ' || COALESCE(NULLIF(btrim(p_reason), ''), v_original.description, 'transaction reversed');
+
+  INSERT INTO public.journal_entries (entry_type, description)
+  VALUES ('reversal', v_description)
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO public.journal_lines (journal_entry_id, ledger_account_id, debit, credit)
+  SELECT v_entry_id, jl.ledger_account_id, jl.credit, jl.debit
+  FROM public.journal_lines jl
+  WHERE jl.journal_entry_id = v_original.journal_entry_id;
+
+  FOR r IN
+    SELECT t.* FROM public.transactions t
+    WHERE t.journal_entry_id = v_original.journal_entry_id
+    ORDER BY t.created_at, t.id
+  LOOP
+    v_balance := public.refresh_account_balances(r.account_id);
+
+    UPDATE public.transactions SET status = 'reversed' WHERE id = r.id;
+
+    INSERT INTO public.transactions (
+      user_id, account_id, amount, transaction_type, description, balance_after, journal_entry_id,
+      counterparty_user_id, counterparty_account_id, counterparty_name, reverses_transaction_id
+    )
+    VALUES (
+      r.user_id,
+      r.account_id,
+      r.amount,
+      CASE WHEN r.transaction_type IN ('deposit', 'transfer_in', 'interest') THEN 'reversal_out' ELSE 'reversal_in' END,
+      v_description,
+      v_balance,
+      v_entry_id,
+      r.counterparty_user_id,
+      r.counterparty_account_id,
+      r.counterparty_name,
+      r.id
+    )
+    RETURNING * INTO v_reversal;
+
+    IF r.id = p_transaction_id THEN
+      v_result := v_reversal;
+    END IF;
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
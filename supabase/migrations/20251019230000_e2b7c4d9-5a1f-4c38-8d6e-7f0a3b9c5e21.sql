@@ -0,0 +1,334 @@
+-- Fees: a monthly job levies minimum average balance penalties, charges for
+-- transactions beyond a free allowance and SMS alert charges, each as a
+-- `fee` transaction with GST added on top.
+CREATE TABLE public.fee_schedule (
+  account_type TEXT NOT NULL PRIMARY KEY CHECK (account_type IN ('savings', 'current')),
+  min_average_balance DECIMAL(12,2) NOT NULL CHECK (min_average_balance >= 0),
+  min_balance_penalty DECIMAL(12,2) NOT NULL CHECK (min_balance_penalty >= 0),
+  free_transactions_per_month INTEGER NOT NULL CHECK (free_transactions_per_month >= 0),
+  transaction_fee DECIMAL(12,2) NOT NULL CHECK (transaction_fee >= 0),
+  sms_alert_fee DECIMAL(12,2) NOT NULL CHECK (sms_alert_fee >= 0),
+  sms_alert_monthly_cap DECIMAL(12,2) NOT NULL CHECK (sms_alert_monthly_cap >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.fee_schedule (
+  account_type, min_average_balance, min_balance_penalty,
+  free_transactions_per_month, transaction_fee,
+  sms_alert_fee, sms_alert_monthly_cap
+)
+VALUES
+  ('savings', 10000.00, 250.00, 5, 20.00, 0.25, 15.00),
+  ('current', 25000.00, 500.00, 25, 15.00, 0.25, 15.00);
+
+-- Create single-row table of fee settings
+CREATE TABLE public.fee_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  gst_rate DECIMAL(6,4) NOT NULL DEFAULT 0.1800 CHECK (gst_rate >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.fee_settings DEFAULT VALUES;
+
+-- Create fees levied. Each kind of fee is levied on an account at most once
+-- per period. A fee is charged only up to the account's available balance,
+-- so amount and gst are what was actually taken; a fee the account could not
+-- pay at all is recorded as waived.
+CREATE TABLE public.fees (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  account_id UUID NOT NULL REFERENCES public.accounts(id),
+  fee_type TEXT NOT NULL CHECK (fee_type IN ('min_balance', 'transaction', 'sms_alert')),
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  quantity INTEGER,
+  description TEXT NOT NULL,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount >= 0),
+  gst DECIMAL(12,2) NOT NULL CHECK (gst >= 0),
+  status TEXT NOT NULL CHECK (status IN ('charged', 'waived')),
+  transaction_id UUID REFERENCES public.transactions(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (account_id, fee_type, period_start),
+  CHECK ((status = 'charged') = (transaction_id IS NOT NULL))
+);
+
+CREATE INDEX fees_user_id_idx ON public.fees (user_id, created_at DESC);
+
+-- SMS alerts are sent, and charged for, unless the customer turns them off
+ALTER TABLE public.profiles ADD COLUMN sms_alerts BOOLEAN NOT NULL DEFAULT true;
+
+GRANT UPDATE (sms_alerts) ON public.profiles TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE public.fee_schedule ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fee_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fees ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view the fee schedule"
+ON public.fee_schedule
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Signed-in users can view fee settings"
+ON public.fee_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can view their own fees"
+ON public.fees
+FOR SELECT
+USING (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON public.fee_schedule FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.fee_settings FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.fees FROM anon, authenticated;
+
+CREATE TRIGGER update_fee_schedule_updated_at
+  BEFORE UPDATE ON public.fee_schedule
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_fee_settings_updated_at
+  BEFORE UPDATE ON public.fee_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Allow fee rows in the transaction history
+ALTER TABLE public.transactions DROP CONSTRAINT transactions_transaction_type_check;
+
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_transaction_type_check
+  CHECK (transaction_type IN (
+    'deposit', 'withdraw', 'transfer_out', 'transfer_in', 'reversal_in', 'reversal_out', 'overdraft_interest',
+    'fd_open', 'fd_payout', 'interest', 'rd_instalment', 'rd_penalty', 'rd_payout', 'fee'
+  ));
+
+-- Fees are income for the bank; the GST collected on them is owed to the
+-- tax authority
+INSERT INTO public.ledger_accounts (code, name, account_class) VALUES
+  ('FEE_INCOME', 'Fee income', 'income'),
+  ('GST_PAYABLE', 'GST payable', 'liability');
+
+-- Create internal function returning an account's average end-of-day ledger
+-- balance over the days from p_from to p_to
+CREATE OR REPLACE FUNCTION public.account_average_balance(p_account_id UUID, p_from DATE, p_to DATE)
+RETURNS DECIMAL AS $$
+  SELECT round(AVG((
+    SELECT COALESCE(SUM(jl.credit) - SUM(jl.debit), 0.00)
+    FROM public.journal_lines jl
+    WHERE jl.ledger_account_id = public.account_ledger_account_id(p_account_id)
+      AND jl.created_at < (d::date + 1)
+  )), 2)
+  FROM generate_series(p_from, p_to, interval '1 day') AS d;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.account_average_balance(UUID, DATE, DATE) FROM PUBLIC, anon, authenticated;
+
+-- Create internal function levying a fee of p_amount plus GST on an account
+-- for a period. Returns NULL when that fee has already been levied for the
+-- period, so callers can re-run safely.
+CREATE OR REPLACE FUNCTION public.levy_fee(
+  p_account_id UUID,
+  p_fee_type TEXT,
+  p_period_start DATE,
+  p_period_end DATE,
+  p_quantity INTEGER,
+  p_amount DECIMAL,
+  p_description TEXT
+)
+RETURNS public.fees AS $$
+DECLARE
+  v_account public.accounts;
+  v_gst_rate DECIMAL(6,4);
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+  v_gst DECIMAL(12,2);
+  v_total DECIMAL(12,2);
+  v_entry_id UUID;
+  v_balance DECIMAL(12,2);
+  v_transaction public.transactions;
+  v_fee public.fees;
+BEGIN
+  SELECT * INTO v_account FROM public.accounts WHERE id = p_account_id FOR UPDATE;
+
+  PERFORM 1 FROM public.fees f
+  WHERE f.account_id = p_account_id AND f.fee_type = p_fee_type AND f.period_start = p_period_start;
+
+  IF FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT gst_rate INTO v_gst_rate FROM public.fee_settings;
+  v_gst := round(v_amount * v_gst_rate, 2);
+  v_total := v_amount + v_gst;
+
+  -- Fees never take an account below zero; take what is available and split
+  -- it between the fee and its GST
+  IF v_total > GREATEST(v_account.available_balance, 0.00) THEN
+    v_total := GREATEST(v_account.available_balance, 0.00);
+    v_amount := round(v_total / (1 + v_gst_rate), 2);
+    v_gst := v_total - v_amount;
+  END IF;
+
+  IF v_total < 0.01 THEN
+    INSERT INTO public.fees (
+      user_id, account_id, fee_type, period_start, period_end, quantity, description, amount, gst, status
+    )
+    VALUES (
+      v_account.user_id, p_account_id, p_fee_type, p_period_start, p_period_end, p_quantity, p_description,
+      0.00, 0.00, 'waived'
+    )
+    RETURNING * INTO v_fee;
+
+    RETURN v_fee;
+  END IF;
+
+  INSERT INTO public.journal_entries (entry_type, description)
+  VALUES ('fee', p_description)
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO public.journal_lines (journal_entry_id, ledger_account_id, debit)
+  VALUES (v_entry_id, public.account_ledger_account_id(p_account_id), v_total);
+
+  INSERT INTO public.journal_lines (journal_entry_id, ledger_account_id, credit)
+  VALUES (v_entry_id, public.internal_ledger_account_id('FEE_INCOME'), v_amount);
+
+  IF v_gst > 0 THEN
+    INSERT INTO public.journal_lines (journal_entry_id, ledger_account_id, credit)
+    VALUES (v_entry_id, public.internal_ledger_account_id('GST_PAYABLE'), v_gst);
+  END IF;
+
+  v_balance := public.refresh_account_balances(p_account_id);
+
+  INSERT INTO public.transactions (
+    user_id, account_id, amount, transaction_type, description, balance_after, journal_entry_id
+  )
+  VALUES (
+    v_account.user_id, p_account_id, v_total, 'fee', p_description || ' (incl. GST ' || v_gst || ')',
+    v_balance, v_entry_id
+  )
+  RETURNING * INTO v_transaction;
+
+  INSERT INTO public.fees (
+    user_id, account_id, fee_type, period_start, period_end, quantity, description, amount, gst, status,
+    transaction_id
+  )
+  VALUES (
+    v_account.user_id, p_account_id, p_fee_type, p_period_start, p_period_end, p_quantity, p_description,
+    v_amount, v_gst, 'charged', v_transaction.id
+  )
+  RETURNING * INTO v_fee;
+
+  RETURN v_fee;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.levy_fee(UUID, TEXT, DATE, DATE, INTEGER, DECIMAL, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Back office job: levy the previous calendar month's fees on every open
+-- account, using the fee schedule for its account type:
+--   * min_balance: a flat penalty when the average end-of-day balance, over
+--     the days the account was open, fell short of the minimum
+--   * transaction: a fee for each withdrawal or transfer beyond the free count
+--   * sms_alert: a fee for each posted transaction alerted by SMS, up to the
+--     monthly cap, while the customer has SMS alerts turned on
+-- Fees already levied for the month are skipped, so re-running is safe.
+CREATE OR REPLACE FUNCTION public.charge_monthly_fees(p_as_of DATE DEFAULT current_date)
+RETURNS TABLE (
+  account_id UUID,
+  fee_type TEXT,
+  amount DECIMAL,
+  gst DECIMAL,
+  transaction_id UUID
+) AS $$
+DECLARE
+  v_period_start DATE := (date_trunc('month', p_as_of) - interval '1 month')::date;
+  v_period_end DATE := date_trunc('month', p_as_of)::date - 1;
+  v_month TEXT := to_char(v_period_start, 'Mon YYYY');
+  v_average DECIMAL(12,2);
+  v_count INTEGER;
+  v_fee public.fees;
+  r RECORD;
+BEGIN
+  FOR r IN
+    SELECT a.id AS fee_account_id, a.created_at::date AS opened_on, s.*, p.sms_alerts
+    FROM public.accounts a
+    JOIN public.fee_schedule s ON s.account_type = a.account_type
+    JOIN public.profiles p ON p.user_id = a.user_id
+    WHERE a.status <> 'closed' AND a.created_at::date <= v_period_end
+    ORDER BY a.id
+  LOOP
+    v_average := public.account_average_balance(r.fee_account_id, GREATEST(v_period_start, r.opened_on), v_period_end);
+
+    IF v_average < r.min_average_balance AND r.min_balance_penalty > 0 THEN
+      v_fee := public.levy_fee(
+        r.fee_account_id, 'min_balance', v_period_start, v_period_end, NULL, r.min_balance_penalty,
+        'Minimum balance charge for ' || v_month
+      );
+
+      IF v_fee.id IS NOT NULL THEN
+        account_id := v_fee.account_id;
+        fee_type := v_fee.fee_type;
+        amount := v_fee.amount;
+        gst := v_fee.gst;
+        transaction_id := v_fee.transaction_id;
+        RETURN NEXT;
+      END IF;
+    END IF;
+
+    SELECT COUNT(*) INTO v_count
+    FROM public.transactions t
+    WHERE t.account_id = r.fee_account_id
+      AND t.transaction_type IN ('withdraw', 'transfer_out')
+      AND t.status IN ('pending', 'posted')
+      AND t.created_at >= v_period_start AND t.created_at < (v_period_end + 1);
+
+    v_count := v_count - r.free_transactions_per_month;
+
+    IF v_count > 0 AND r.transaction_fee > 0 THEN
+      v_fee := public.levy_fee(
+        r.fee_account_id, 'transaction', v_period_start, v_period_end, v_count, v_count * r.transaction_fee,
+        'Transaction charges for ' || v_month || ': ' || v_count || ' beyond the free limit'
+      );
+
+      IF v_fee.id IS NOT NULL THEN
+        account_id := v_fee.account_id;
+        fee_type := v_fee.fee_type;
+        amount := v_fee.amount;
+        gst := v_fee.gst;
+        transaction_id := v_fee.transaction_id;
+        RETURN NEXT;
+      END IF;
+    END IF;
+
+    CONTINUE WHEN NOT r.sms_alerts OR r.sms_alert_fee = 0;
+
+    SELECT COUNT(*) INTO v_count
+    FROM public.transactions t
+    WHERE t.account_id = r.fee_account_id
+      AND t.status IN ('posted', 'reversed')
+      AND t.created_at >= v_period_start AND t.created_at < (v_period_end + 1);
+
+    IF v_count > 0 THEN
+      v_fee := public.levy_fee(
+        r.fee_account_id, 'sms_alert', v_period_start, v_period_end, v_count,
+        LEAST(v_count * r.sms_alert_fee, r.sms_alert_monthly_cap),
+        'SMS alert charges for ' || v_month || ': ' || v_count || ' alerts'
+      );
+
+      IF v_fee.id IS NOT NULL THEN
+        account_id := v_fee.account_id;
+        fee_type := v_fee.fee_type;
+        amount := v_fee.amount;
+        gst := v_fee.gst;
+        transaction_id := v_fee.transaction_id;
+        RETURN NEXT;
+      END IF;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.charge_monthly_fees(DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.charge_monthly_fees(DATE) TO service_role;
@@ -0,0 +1,653 @@
+-- Accounts carry an ISO 4217 currency. Existing accounts are rupee accounts;
+-- customers can also open US dollar and euro accounts.
+ALTER TABLE public.accounts
+  ADD COLUMN currency TEXT NOT NULL DEFAULT 'INR' CHECK (currency IN ('INR', 'USD', 'EUR'));
+
+-- Recreate account opening with a currency. The old two-argument signature is
+-- dropped so calls without a currency are not ambiguous.
+DROP FUNCTION public.open_account(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.open_account(
+  p_account_type TEXT,
+  p_nickname TEXT DEFAULT NULL,
+  p_currency TEXT DEFAULT 'INR'
+)
+RETURNS public.accounts AS $$
+DECLARE
+  v_account public.accounts;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_account_type IS NULL OR p_account_type NOT IN ('savings', 'current') THEN
+    RAISE EXCEPTION 'Unsupported account type: %', p_account_type USING ERRCODE = '22023';
+  END IF;
+
+  IF p_currency IS NULL OR p_currency NOT IN ('INR', 'USD', 'EUR') THEN
+    RAISE EXCEPTION 'Unsupported currency: %', p_currency USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.accounts (user_id, account_type, nickname, currency)
+  VALUES (auth.uid(), p_account_type, NULLIF(btrim(p_nickname), ''), p_currency)
+  RETURNING * INTO v_account;
+
+  PERFORM public.account_ledger_account_id(v_account.id);
+
+  RETURN v_account;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.open_account(TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.open_account(TEXT, TEXT, TEXT) TO authenticated;
+
+-- Recreate transfers so money only moves between accounts in the same
+-- currency
+CREATE OR REPLACE FUNCTION public.apply_transfer(
+  p_from_account_id UUID,
+  p_to_account_id UUID,
+  p_amount DECIMAL,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+  v_from public.accounts;
+  v_to public.accounts;
+  v_sender_name TEXT;
+  v_recipient_name TEXT;
+  v_description TEXT;
+  v_entry_id UUID;
+  v_sender_balance DECIMAL(12,2);
+  v_recipient_balance DECIMAL(12,2);
+  v_out public.transactions;
+  v_in public.transactions;
+BEGIN
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_from_account_id = p_to_account_id THEN
+    RAISE EXCEPTION 'You cannot transfer money to the same account' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM 1
+  FROM public.accounts
+  WHERE id IN (p_from_account_id, p_to_account_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  v_from := public.lock_active_account(p_from_account_id);
+
+  SELECT * INTO v_to FROM public.accounts WHERE id = p_to_account_id;
+  IF NOT FOUND OR v_to.status <> 'active' THEN
+    RAISE EXCEPTION 'Recipient not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_to.currency <> v_from.currency THEN
+    RAISE EXCEPTION 'Transfers must be between accounts in the same currency' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_out
+    FROM public.transactions
+    WHERE user_id = v_from.user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_out.transaction_type <> 'transfer_out'
+        OR v_out.amount <> v_amount
+        OR v_out.account_id <> p_from_account_id
+        OR v_out.counterparty_account_id IS DISTINCT FROM p_to_account_id THEN
+        RAISE EXCEPTION 'Idempotency key was already used for a different request' USING ERRCODE = '22023';
+      END IF;
+      RETURN v_out;
+    END IF;
+  END IF;
+
+  PERFORM public.check_withdrawal_limits(p_from_account_id, v_amount);
+  PERFORM public.assert_sufficient_funds(p_from_account_id, v_amount);
+
+  SELECT name INTO v_sender_name FROM public.profiles WHERE user_id = v_from.user_id;
+  SELECT name INTO v_recipient_name FROM public.profiles WHERE user_id = v_to.user_id;
+
+  v_description := COALESCE(NULLIF(btrim(p_description), ''), 'Transfer');
+  v_entry_id := public.post_journal_entry(
+    'transfer', v_description,
+    public.account_ledger_account_id(p_from_account_id), public.account_ledger_account_id(p_to_account_id),
+    v_amount
+  );
+
+  v_sender_balance := public.refresh_account_balances(p_from_account_id);
+  v_recipient_balance := public.refresh_account_balances(p_to_account_id);
+
+  INSERT INTO public.transactions (
+    user_id, account_id, amount, transaction_type, description, balance_after, idempotency_key,
+    journal_entry_id, counterparty_user_id, counterparty_account_id, counterparty_name
+  )
+  VALUES (
+    v_from.user_id, p_from_account_id, v_amount, 'transfer_out', v_description, v_sender_balance, p_idempotency_key,
+    v_entry_id, v_to.user_id, p_to_account_id, v_recipient_name
+  )
+  RETURNING * INTO v_out;
+
+  INSERT INTO public.transactions (
+    user_id, account_id, amount, transaction_type, description, balance_after,
+    journal_entry_id, counterparty_user_id, counterparty_account_id, counterparty_name, related_transaction_id
+  )
+  VALUES (
+    v_to.user_id, p_to_account_id, v_amount, 'transfer_in', v_description, v_recipient_balance,
+    v_entry_id, v_from.user_id, p_from_account_id, v_sender_name, v_out.id
+  )
+  RETURNING * INTO v_in;
+
+  UPDATE public.transactions
+  SET related_transaction_id = v_in.id
+  WHERE id = v_out.id
+  RETURNING * INTO v_out;
+
+  RETURN v_out;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Limits are amounts of money, so each account type has one row of limits
+-- per currency. Existing limits are the rupee ones.
+ALTER TABLE public.transaction_limits
+  ADD COLUMN currency TEXT NOT NULL DEFAULT 'INR' CHECK (currency IN ('INR', 'USD', 'EUR'));
+
+ALTER TABLE public.transaction_limits ALTER COLUMN currency DROP DEFAULT;
+ALTER TABLE public.transaction_limits DROP CONSTRAINT transaction_limits_pkey;
+ALTER TABLE public.transaction_limits ADD PRIMARY KEY (account_type, currency);
+
+INSERT INTO public.transaction_limits (
+  account_type, currency, max_single_withdrawal,
+  daily_withdrawal_amount, daily_withdrawal_count,
+  monthly_withdrawal_amount, monthly_withdrawal_count
+)
+VALUES
+  ('savings', 'USD', 600.00, 1200.00, 5, 12000.00, 30),
+  ('current', 'USD', 2400.00, 6000.00, 20, 60000.00, 300),
+  ('savings', 'EUR', 550.00, 1100.00, 5, 11000.00, 30),
+  ('current', 'EUR', 2200.00, 5500.00, 20, 55000.00, 300);
+
+-- Recreate withdrawal limit usage with the limits for the account's currency
+CREATE OR REPLACE FUNCTION public.withdrawal_limit_usage(p_account_id UUID)
+RETURNS TABLE (
+  account_type TEXT,
+  max_single_withdrawal DECIMAL,
+  daily_amount_limit DECIMAL,
+  daily_amount_used DECIMAL,
+  daily_count_limit INTEGER,
+  daily_count_used INTEGER,
+  monthly_amount_limit DECIMAL,
+  monthly_amount_used DECIMAL,
+  monthly_count_limit INTEGER,
+  monthly_count_used INTEGER
+) AS $$
+  SELECT
+    l.account_type,
+    l.max_single_withdrawal,
+    l.daily_withdrawal_amount,
+    COALESCE(SUM(t.amount) FILTER (WHERE t.created_at >= date_trunc('day', now())), 0.00),
+    l.daily_withdrawal_count,
+    (COUNT(t.id) FILTER (WHERE t.created_at >= date_trunc('day', now())))::integer,
+    l.monthly_withdrawal_amount,
+    COALESCE(SUM(t.amount), 0.00),
+    l.monthly_withdrawal_count,
+    COUNT(t.id)::integer
+  FROM public.accounts a
+  JOIN public.transaction_limits l ON l.account_type = a.account_type AND l.currency = a.currency
+  LEFT JOIN public.transactions t
+    ON t.account_id = a.id
+    AND t.transaction_type IN ('withdraw', 'transfer_out')
+    AND t.status IN ('pending', 'posted')
+    AND t.created_at >= date_trunc('month', now())
+  WHERE a.id = p_account_id
+  GROUP BY l.account_type, l.currency;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Create table of new-payee transfer caps, one per currency. The rupee cap
+-- moves over from beneficiary_settings.
+CREATE TABLE public.payee_transfer_caps (
+  currency TEXT NOT NULL PRIMARY KEY CHECK (currency IN ('INR', 'USD', 'EUR')),
+  new_payee_transfer_cap DECIMAL(12,2) NOT NULL CHECK (new_payee_transfer_cap > 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.payee_transfer_caps (currency, new_payee_transfer_cap)
+SELECT 'INR', new_payee_transfer_cap FROM public.beneficiary_settings;
+
+INSERT INTO public.payee_transfer_caps (currency, new_payee_transfer_cap)
+VALUES ('USD', 600.00), ('EUR', 550.00);
+
+ALTER TABLE public.beneficiary_settings DROP COLUMN new_payee_transfer_cap;
+
+ALTER TABLE public.payee_transfer_caps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view payee transfer caps"
+ON public.payee_transfer_caps
+FOR SELECT
+TO authenticated
+USING (true);
+
+REVOKE INSERT, UPDATE, DELETE ON public.payee_transfer_caps FROM anon, authenticated;
+
+CREATE TRIGGER update_payee_transfer_caps_updated_at
+  BEFORE UPDATE ON public.payee_transfer_caps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Saved payees record the currency of the payee's account so the app can show
+-- their cap. Every existing account is a rupee account.
+ALTER TABLE public.beneficiaries
+  ADD COLUMN currency TEXT NOT NULL DEFAULT 'INR' CHECK (currency IN ('INR', 'USD', 'EUR'));
+
+ALTER TABLE public.beneficiaries ALTER COLUMN currency DROP DEFAULT;
+
+-- Recreate payee rules with the cap for the recipient account's currency
+CREATE OR REPLACE FUNCTION public.check_transfer_policy(
+  p_sender_id UUID,
+  p_to_account_id UUID,
+  p_amount DECIMAL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_settings public.beneficiary_settings;
+  v_beneficiary public.beneficiaries;
+  v_currency TEXT;
+  v_cap DECIMAL(12,2);
+  v_sent DECIMAL(12,2);
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.accounts WHERE id = p_to_account_id AND user_id = p_sender_id) THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_settings FROM public.beneficiary_settings;
+
+  SELECT a.currency, c.new_payee_transfer_cap INTO v_currency, v_cap
+  FROM public.accounts a
+  LEFT JOIN public.payee_transfer_caps c ON c.currency = a.currency
+  WHERE a.id = p_to_account_id;
+
+  -- apply_transfer reports a missing recipient
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_beneficiary
+  FROM public.beneficiaries
+  WHERE user_id = p_sender_id AND payee_account_id = p_to_account_id AND removed_at IS NULL;
+
+  IF FOUND AND now() < v_beneficiary.active_from THEN
+    RAISE EXCEPTION 'This payee is in its cooling period until %', v_beneficiary.active_from USING ERRCODE = 'P0001';
+  END IF;
+
+  IF FOUND AND now() >= v_beneficiary.created_at + make_interval(hours => v_settings.new_payee_window_hours) THEN
+    RETURN;
+  END IF;
+
+  IF v_cap IS NULL THEN
+    RAISE EXCEPTION 'No new-payee cap is set for %', v_currency USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_sent
+  FROM public.transactions
+  WHERE user_id = p_sender_id
+    AND counterparty_account_id = p_to_account_id
+    AND transaction_type = 'transfer_out'
+    AND created_at >= now() - make_interval(hours => v_settings.new_payee_window_hours);
+
+  IF v_sent + p_amount > v_cap THEN
+    IF v_beneficiary.id IS NULL THEN
+      RAISE EXCEPTION 'Transfers to unsaved recipients are limited to % % in any % hours; add them as a payee to send more',
+        v_cap, v_currency, v_settings.new_payee_window_hours USING ERRCODE = 'P0001';
+    END IF;
+    RAISE EXCEPTION 'Transfers to a newly added payee are limited to % % in the first % hours',
+      v_cap, v_currency, v_settings.new_payee_window_hours USING ERRCODE = 'P0001';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Recreate add_beneficiary to save the payee account's currency
+CREATE OR REPLACE FUNCTION public.add_beneficiary(p_identifier TEXT, p_nickname TEXT)
+RETURNS public.beneficiaries AS $$
+DECLARE
+  v_recipient RECORD;
+  v_settings public.beneficiary_settings;
+  v_beneficiary public.beneficiaries;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_recipient FROM public.find_transfer_recipient(p_identifier);
+  SELECT * INTO v_settings FROM public.beneficiary_settings;
+
+  SELECT * INTO v_beneficiary
+  FROM public.beneficiaries
+  WHERE user_id = auth.uid() AND payee_account_id = v_recipient.account_id
+  FOR UPDATE;
+
+  IF FOUND AND v_beneficiary.removed_at IS NULL THEN
+    RAISE EXCEPTION 'This payee is already saved' USING ERRCODE = '23505';
+  ELSIF FOUND THEN
+    UPDATE public.beneficiaries
+    SET nickname = COALESCE(NULLIF(btrim(p_nickname), ''), v_recipient.name),
+        payee_name = v_recipient.name,
+        account_number_masked = v_recipient.account_number_masked,
+        removed_at = NULL
+    WHERE id = v_beneficiary.id
+    RETURNING * INTO v_beneficiary;
+
+    RETURN v_beneficiary;
+  END IF;
+
+  INSERT INTO public.beneficiaries (
+    user_id, payee_user_id, payee_account_id, currency, nickname, payee_name, account_number_masked, active_from
+  )
+  VALUES (
+    auth.uid(),
+    v_recipient.user_id,
+    v_recipient.account_id,
+    (SELECT currency FROM public.accounts WHERE id = v_recipient.account_id),
+    COALESCE(NULLIF(btrim(p_nickname), ''), v_recipient.name),
+    v_recipient.name,
+    v_recipient.account_number_masked,
+    now() + make_interval(mins => v_settings.cooling_period_minutes)
+  )
+  RETURNING * INTO v_beneficiary;
+
+  RETURN v_beneficiary;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Deposits, savings interest and fees are priced in rupees. Recreate fixed
+-- deposit opening for rupee accounts only.
+CREATE OR REPLACE FUNCTION public.open_fixed_deposit(
+  p_account_id UUID,
+  p_amount DECIMAL,
+  p_tenure_days INTEGER,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.fixed_deposits AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+  v_account public.accounts;
+  v_deposit public.fixed_deposits;
+  v_min_principal DECIMAL(12,2);
+  v_rate DECIMAL(6,4);
+  v_description TEXT;
+  v_entry_id UUID;
+  v_balance DECIMAL(12,2);
+  v_transaction public.transactions;
+BEGIN
+  PERFORM public.own_account(p_account_id);
+
+  SELECT min_principal INTO v_min_principal FROM public.fixed_deposit_settings;
+
+  IF v_amount IS NULL OR v_amount < v_min_principal THEN
+    RAISE EXCEPTION 'Fixed deposits start at %', v_min_principal USING ERRCODE = '22023';
+  END IF;
+
+  v_rate := public.fixed_deposit_rate(p_tenure_days);
+  v_account := public.lock_active_account(p_account_id);
+
+  IF v_account.currency <> 'INR' THEN
+    RAISE EXCEPTION 'Fixed deposits can only be opened from rupee accounts' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_deposit
+    FROM public.fixed_deposits
+    WHERE open_transaction_id = (
+      SELECT t.id FROM public.transactions t
+      WHERE t.user_id = v_account.user_id AND t.idempotency_key = p_idempotency_key
+    );
+
+    IF FOUND THEN
+      IF v_deposit.principal <> v_amount
+        OR v_deposit.tenure_days <> p_tenure_days
+        OR v_deposit.account_id <> p_account_id THEN
+        RAISE EXCEPTION 'Idempotency key was already used for a different request' USING ERRCODE = '22023';
+      END IF;
+      RETURN v_deposit;
+    END IF;
+  END IF;
+
+  IF public.account_available_balance(p_account_id) < v_amount THEN
+    RAISE EXCEPTION 'Insufficient funds' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_description := 'Fixed deposit for ' || p_tenure_days || ' days';
+  v_entry_id := public.post_journal_entry(
+    'fd_open', v_description,
+    public.account_ledger_account_id(p_account_id), public.internal_ledger_account_id('FIXED_DEPOSITS'),
+    v_amount
+  );
+  v_balance := public.refresh_account_balances(p_account_id);
+
+  INSERT INTO public.transactions (
+    user_id, account_id, amount, transaction_type, description, balance_after, idempotency_key, journal_entry_id
+  )
+  VALUES (
+    v_account.user_id, p_account_id, v_amount, 'fd_open', v_description, v_balance, p_idempotency_key, v_entry_id
+  )
+  RETURNING * INTO v_transaction;
+
+  INSERT INTO public.fixed_deposits (
+    user_id, account_id, principal, annual_rate, tenure_days, maturity_date, maturity_amount, open_transaction_id
+  )
+  VALUES (
+    v_account.user_id, p_account_id, v_amount, v_rate, p_tenure_days, current_date + p_tenure_days,
+    public.fixed_deposit_maturity_amount(v_amount, v_rate, p_tenure_days), v_transaction.id
+  )
+  RETURNING * INTO v_deposit;
+
+  RETURN v_deposit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Recreate recurring deposit opening for rupee accounts only
+CREATE OR REPLACE FUNCTION public.open_recurring_deposit(
+  p_account_id UUID,
+  p_instalment_amount DECIMAL,
+  p_months INTEGER,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.recurring_deposits AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_instalment_amount, 2);
+  v_account public.accounts;
+  v_deposit public.recurring_deposits;
+  v_instalment public.recurring_deposit_instalments;
+  v_min_instalment DECIMAL(12,2);
+  v_rate DECIMAL(6,4);
+BEGIN
+  PERFORM public.own_account(p_account_id);
+
+  SELECT min_instalment INTO v_min_instalment FROM public.recurring_deposit_settings;
+
+  IF v_amount IS NULL OR v_amount < v_min_instalment THEN
+    RAISE EXCEPTION 'Recurring deposit instalments start at %', v_min_instalment USING ERRCODE = '22023';
+  END IF;
+
+  v_rate := public.recurring_deposit_rate(p_months);
+  v_account := public.lock_active_account(p_account_id);
+
+  IF v_account.currency <> 'INR' THEN
+    RAISE EXCEPTION 'Recurring deposits can only be opened from rupee accounts' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT rd.* INTO v_deposit
+    FROM public.recurring_deposits rd
+    JOIN public.recurring_deposit_instalments i ON i.recurring_deposit_id = rd.id
+    JOIN public.transactions t ON t.id = i.transaction_id
+    WHERE t.user_id = v_account.user_id AND t.idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_deposit.instalment_amount <> v_amount
+        OR v_deposit.months <> p_months
+        OR v_deposit.account_id <> p_account_id THEN
+        RAISE EXCEPTION 'Idempotency key was already used for a different request' USING ERRCODE = '22023';
+      END IF;
+      RETURN v_deposit;
+    END IF;
+  END IF;
+
+  INSERT INTO public.recurring_deposits (
+    user_id, account_id, instalment_amount, months, annual_rate, maturity_date, expected_maturity_amount
+  )
+  SELECT
+    v_account.user_id, p_account_id, v_amount, p_months, v_rate,
+    (current_date + make_interval(months => p_months))::date,
+    SUM(public.recurring_deposit_instalment_value(v_amount, v_rate, p_months - n + 1))
+  FROM generate_series(1, p_months) AS n
+  RETURNING * INTO v_deposit;
+
+  INSERT INTO public.recurring_deposit_instalments (recurring_deposit_id, user_id, instalment_number, due_date)
+  SELECT v_deposit.id, v_deposit.user_id, n, (v_deposit.opened_on + make_interval(months => n - 1))::date
+  FROM generate_series(1, p_months) AS n;
+
+  SELECT * INTO v_instalment
+  FROM public.recurring_deposit_instalments
+  WHERE recurring_deposit_id = v_deposit.id AND instalment_number = 1;
+
+  PERFORM public.pay_recurring_deposit_instalment(v_instalment, current_date, p_idempotency_key);
+
+  RETURN v_deposit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Recreate savings interest accrual for rupee accounts only
+CREATE OR REPLACE FUNCTION public.accrue_savings_interest(p_as_of DATE DEFAULT current_date)
+RETURNS TABLE (
+  account_id UUID,
+  balance DECIMAL,
+  interest DECIMAL
+) AS $$
+DECLARE
+  r RECORD;
+BEGIN
+  FOR r IN
+    SELECT a.id AS savings_account_id, a.user_id AS customer_id, SUM(jl.credit) - SUM(jl.debit) AS end_of_day_balance
+    FROM public.accounts a
+    JOIN public.ledger_accounts la ON la.account_id = a.id
+    JOIN public.journal_lines jl ON jl.ledger_account_id = la.id
+    WHERE a.account_type = 'savings' AND a.currency = 'INR' AND a.status <> 'closed' AND jl.created_at < (p_as_of + 1)
+    GROUP BY a.id, a.user_id
+    HAVING SUM(jl.credit) > SUM(jl.debit)
+    ORDER BY a.id
+  LOOP
+    INSERT INTO public.interest_accruals (user_id, account_id, accrual_date, balance, interest)
+    VALUES (
+      r.customer_id, r.savings_account_id, p_as_of, r.end_of_day_balance,
+      round(public.savings_annual_interest(r.end_of_day_balance) / 365, 4)
+    )
+    ON CONFLICT ON CONSTRAINT interest_accruals_account_id_accrual_date_key DO NOTHING
+    RETURNING interest_accruals.account_id, interest_accruals.balance, interest_accruals.interest
+    INTO account_id, balance, interest;
+
+    IF FOUND THEN
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Recreate the monthly fee job for rupee accounts only
+CREATE OR REPLACE FUNCTION public.charge_monthly_fees(p_as_of DATE DEFAULT current_date)
+RETURNS TABLE (
+  account_id UUID,
+  fee_type TEXT,
+  amount DECIMAL,
+  gst DECIMAL,
+  transaction_id UUID
+) AS $$
+DECLARE
+  v_period_start DATE := (date_trunc('month', p_as_of) - interval '1 month')::date;
+  v_period_end DATE := date_trunc('month', p_as_of)::date - 1;
+  v_month TEXT := to_char(v_period_start, 'Mon YYYY');
+  v_average DECIMAL(12,2);
+  v_count INTEGER;
+  v_fee public.fees;
+  r RECORD;
+BEGIN
+  FOR r IN
+    SELECT a.id AS fee_account_id, a.created_at::date AS opened_on, s.*, p.sms_alerts
+    FROM public.accounts a
+    JOIN public.fee_schedule s ON s.account_type = a.account_type
+    JOIN public.profiles p ON p.user_id = a.user_id
+    WHERE a.currency = 'INR' AND a.status <> 'closed' AND a.created_at::date <= v_period_end
+    ORDER BY a.id
+  LOOP
+    v_average := public.account_average_balance(r.fee_account_id, GREATEST(v_period_start, r.opened_on), v_period_end);
+
+    IF v_average < r.min_average_balance AND r.min_balance_penalty > 0 THEN
+      v_fee := public.levy_fee(
+        r.fee_account_id, 'min_balance', v_period_start, v_period_end, NULL, r.min_balance_penalty,
+        'Minimum balance charge for ' || v_month
+      );
+
+      IF v_fee.id IS NOT NULL THEN
+        account_id := v_fee.account_id;
+        fee_type := v_fee.fee_type;
+        amount := v_fee.amount;
+        gst := v_fee.gst;
+        transaction_id := v_fee.transaction_id;
+        RETURN NEXT;
+      END IF;
+    END IF;
+
+    SELECT COUNT(*) INTO v_count
+    FROM public.transactions t
+    WHERE t.account_id = r.fee_account_id
+      AND t.transaction_type IN ('withdraw', 'transfer_out')
+      AND t.status IN ('pending', 'posted')
+      AND t.created_at >= v_period_start AND t.created_at < (v_period_end + 1);
+
+    v_count := v_count - r.free_transactions_per_month;
+
+    IF v_count > 0 AND r.transaction_fee > 0 THEN
+      v_fee := public.levy_fee(
+        r.fee_account_id, 'transaction', v_period_start, v_period_end, v_count, v_count * r.transaction_fee,
+        'Transaction charges for ' || v_month || ': ' || v_count || ' beyond the free limit'
+      );
+
+      IF v_fee.id IS NOT NULL THEN
+        account_id := v_fee.account_id;
+        fee_type := v_fee.fee_type;
+        amount := v_fee.amount;
+        gst := v_fee.gst;
+        transaction_id := v_fee.transaction_id;
+        RETURN NEXT;
+      END IF;
+    END IF;
+
+    CONTINUE WHEN NOT r.sms_alerts OR r.sms_alert_fee = 0;
+
+    SELECT COUNT(*) INTO v_count
+    FROM public.transactions t
+    WHERE t.account_id = r.fee_account_id
+      AND t.status IN ('posted', 'reversed')
+      AND t.created_at >= v_period_start AND t.created_at < (v_period_end + 1);
+
+    IF v_count > 0 THEN
+      v_fee := public.levy_fee(
+        r.fee_account_id, 'sms_alert', v_period_start, v_period_end, v_count,
+        LEAST(v_count * r.sms_alert_fee, r.sms_alert_monthly_cap),
+        'SMS alert charges for ' || v_month || ': ' || v_count || ' alerts'
+      );
+
+      IF v_fee.id IS NOT NULL THEN
+        account_id := v_fee.account_id;
+        fee_type := v_fee.fee_type;
+        amount := v_fee.amount;
+        gst := v_fee.gst;
+        transaction_id := v_fee.transaction_id;
+        RETURN NEXT;
+      END IF;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
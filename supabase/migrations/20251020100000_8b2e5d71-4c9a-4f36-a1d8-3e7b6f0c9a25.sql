@@ -0,0 +1,450 @@
+-- Currency conversion between a customer's own accounts. Mid-market rates
+-- are kept in fx_rates (loaded from a CSV file by scripts/load-fx-rates.mjs);
+-- the customer is quoted the mid rate less a spread, and the quote can be
+-- executed until it expires. Each leg is its own journal entry, balanced in
+-- its own currency against a per-currency FX position account.
+CREATE TABLE public.fx_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  base_currency TEXT NOT NULL CHECK (base_currency IN ('INR', 'USD', 'EUR')),
+  quote_currency TEXT NOT NULL CHECK (quote_currency IN ('INR', 'USD', 'EUR')),
+  -- Units of quote_currency for one unit of base_currency
+  mid_rate DECIMAL(18,8) NOT NULL CHECK (mid_rate > 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (base_currency, quote_currency),
+  CHECK (base_currency <> quote_currency)
+);
+
+INSERT INTO public.fx_rates (base_currency, quote_currency, mid_rate) VALUES
+  ('USD', 'INR', 83.25000000),
+  ('EUR', 'INR', 90.10000000),
+  ('EUR', 'USD', 1.08200000);
+
+-- Create single-row table of conversion settings. Customers get the mid rate
+-- less spread (0.0100 is 1%); a quote can be executed for
+-- quote_validity_seconds after it is given.
+CREATE TABLE public.fx_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  spread DECIMAL(6,4) NOT NULL DEFAULT 0.0100 CHECK (spread >= 0 AND spread < 1),
+  quote_validity_seconds INTEGER NOT NULL DEFAULT 60 CHECK (quote_validity_seconds > 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.fx_settings DEFAULT VALUES;
+
+-- Create quotes; an open quote past expires_at can no longer be executed
+CREATE TABLE public.fx_quotes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  from_account_id UUID NOT NULL REFERENCES public.accounts(id),
+  to_account_id UUID NOT NULL REFERENCES public.accounts(id),
+  from_currency TEXT NOT NULL,
+  to_currency TEXT NOT NULL,
+  from_amount DECIMAL(12,2) NOT NULL CHECK (from_amount > 0),
+  mid_rate DECIMAL(18,8) NOT NULL,
+  spread DECIMAL(6,4) NOT NULL,
+  rate DECIMAL(18,8) NOT NULL,
+  to_amount DECIMAL(12,2) NOT NULL CHECK (to_amount > 0),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'executed')),
+  transaction_id UUID REFERENCES public.transactions(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((status = 'executed') = (transaction_id IS NOT NULL))
+);
+
+CREATE INDEX fx_quotes_user_id_idx ON public.fx_quotes (user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.fx_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fx_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fx_quotes ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies. Quotes are written only by the functions below; rates
+-- are loaded with the service role.
+CREATE POLICY "Signed-in users can view exchange rates"
+ON public.fx_rates
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Signed-in users can view exchange settings"
+ON public.fx_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can view their own exchange quotes"
+ON public.fx_quotes
+FOR SELECT
+USING (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON public.fx_rates FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.fx_settings FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.fx_quotes FROM anon, authenticated;
+
+CREATE TRIGGER update_fx_rates_updated_at
+  BEFORE UPDATE ON public.fx_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_fx_settings_updated_at
+  BEFORE UPDATE ON public.fx_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_fx_quotes_updated_at
+  BEFORE UPDATE ON public.fx_quotes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Allow both legs of a conversion in the transaction history
+ALTER TABLE public.transactions DROP CONSTRAINT transactions_transaction_type_check;
+
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_transaction_type_check
+  CHECK (transaction_type IN (
+    'deposit', 'withdraw', 'transfer_out', 'transfer_in', 'reversal_in', 'reversal_out', 'overdraft_interest',
+    'fd_open', 'fd_payout', 'interest', 'rd_instalment', 'rd_penalty', 'rd_payout', 'fee', 'fx_out', 'fx_in'
+  ));
+
+INSERT INTO public.ledger_accounts (code, name, account_class) VALUES
+  ('FX_POSITION_INR', 'Foreign exchange position (INR)', 'equity'),
+  ('FX_POSITION_USD', 'Foreign exchange position (USD)', 'equity'),
+  ('FX_POSITION_EUR', 'Foreign exchange position (EUR)', 'equity');
+
+-- Create function returning the mid rate from one currency to another, from
+-- the pair as loaded or its inverse
+CREATE OR REPLACE FUNCTION public.fx_mid_rate(p_from_currency TEXT, p_to_currency TEXT)
+RETURNS DECIMAL AS $$
+DECLARE
+  v_rate DECIMAL(18,8);
+BEGIN
+  SELECT mid_rate INTO v_rate
+  FROM public.fx_rates
+  WHERE base_currency = p_from_currency AND quote_currency = p_to_currency;
+
+  IF v_rate IS NULL THEN
+    SELECT round(1 / mid_rate, 8) INTO v_rate
+    FROM public.fx_rates
+    WHERE base_currency = p_to_currency AND quote_currency = p_from_currency;
+  END IF;
+
+  IF v_rate IS NULL THEN
+    RAISE EXCEPTION 'No exchange rate from % to %', p_from_currency, p_to_currency USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_rate;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.fx_mid_rate(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Create function quoting a conversion of p_amount out of one of the
+-- caller's accounts into another of their accounts in a different currency
+CREATE OR REPLACE FUNCTION public.create_fx_quote(
+  p_from_account_id UUID,
+  p_to_account_id UUID,
+  p_amount DECIMAL
+)
+RETURNS public.fx_quotes AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+  v_from public.accounts;
+  v_to public.accounts;
+  v_settings public.fx_settings;
+  v_mid_rate DECIMAL(18,8);
+  v_rate DECIMAL(18,8);
+  v_quote public.fx_quotes;
+BEGIN
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  v_from := public.own_account(p_from_account_id);
+  v_to := public.own_account(p_to_account_id);
+
+  IF v_from.status <> 'active' THEN
+    RAISE EXCEPTION 'Account % is %', v_from.account_number, v_from.status USING ERRCODE = 'P0001';
+  ELSIF v_to.status <> 'active' THEN
+    RAISE EXCEPTION 'Account % is %', v_to.account_number, v_to.status USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_from.currency = v_to.currency THEN
+    RAISE EXCEPTION 'Both accounts are in %; use a transfer instead', v_from.currency USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_settings FROM public.fx_settings;
+
+  v_mid_rate := public.fx_mid_rate(v_from.currency, v_to.currency);
+  v_rate := round(v_mid_rate * (1 - v_settings.spread), 8);
+
+  IF round(v_amount * v_rate, 2) <= 0 THEN
+    RAISE EXCEPTION 'Amount is too small to convert' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.fx_quotes (
+    user_id, from_account_id, to_account_id, from_currency, to_currency, from_amount,
+    mid_rate, spread, rate, to_amount, expires_at
+  )
+  VALUES (
+    v_from.user_id, p_from_account_id, p_to_account_id, v_from.currency, v_to.currency, v_amount,
+    v_mid_rate, v_settings.spread, v_rate, round(v_amount * v_rate, 2),
+    now() + make_interval(secs => v_settings.quote_validity_seconds)
+  )
+  RETURNING * INTO v_quote;
+
+  RETURN v_quote;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.create_fx_quote(UUID, UUID, DECIMAL) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_fx_quote(UUID, UUID, DECIMAL) TO authenticated;
+
+-- Recreate withdrawal limit usage so conversions count towards the limits
+CREATE OR REPLACE FUNCTION public.withdrawal_limit_usage(p_account_id UUID)
+RETURNS TABLE (
+  account_type TEXT,
+  max_single_withdrawal DECIMAL,
+  daily_amount_limit DECIMAL,
+  daily_amount_used DECIMAL,
+  daily_count_limit INTEGER,
+  daily_count_used INTEGER,
+  monthly_amount_limit DECIMAL,
+  monthly_amount_used DECIMAL,
+  monthly_count_limit INTEGER,
+  monthly_count_used INTEGER
+) AS $$
+  SELECT
+    l.account_type,
+    l.max_single_withdrawal,
+    l.daily_withdrawal_amount,
+    COALESCE(SUM(t.amount) FILTER (WHERE t.created_at >= date_trunc('day', now())), 0.00),
+    l.daily_withdrawal_count,
+    (COUNT(t.id) FILTER (WHERE t.created_at >= date_trunc('day', now())))::integer,
+    l.monthly_withdrawal_amount,
+    COALESCE(SUM(t.amount), 0.00),
+    l.monthly_withdrawal_count,
+    COUNT(t.id)::integer
+  FROM public.accounts a
+  JOIN public.transaction_limits l ON l.account_type = a.account_type AND l.currency = a.currency
+  LEFT JOIN public.transactions t
+    ON t.account_id = a.id
+    AND t.transaction_type IN ('withdraw', 'transfer_out', 'fx_out')
+    AND t.status IN ('pending', 'posted')
+    AND t.created_at >= date_trunc('month', now())
+  WHERE a.id = p_account_id
+  GROUP BY l.account_type, l.currency;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Create function executing an unexpired quote. Executing a quote twice
+-- returns the original outgoing leg, so retries are safe. The outgoing leg
+-- is held to the account's withdrawal limits.
+CREATE OR REPLACE FUNCTION public.execute_fx_quote(p_quote_id UUID)
+RETURNS public.transactions AS $$
+DECLARE
+  v_quote public.fx_quotes;
+  v_from public.accounts;
+  v_to public.accounts;
+  v_description TEXT;
+  v_out_entry_id UUID;
+  v_in_entry_id UUID;
+  v_from_balance DECIMAL(12,2);
+  v_to_balance DECIMAL(12,2);
+  v_out public.transactions;
+  v_in public.transactions;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_quote
+  FROM public.fx_quotes
+  WHERE id = p_quote_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_quote.status = 'executed' THEN
+    SELECT * INTO v_out FROM public.transactions WHERE id = v_quote.transaction_id;
+    RETURN v_out;
+  END IF;
+
+  IF v_quote.expires_at < now() THEN
+    RAISE EXCEPTION 'Quote has expired; please get a new quote' USING ERRCODE = 'P0001';
+  END IF;
+
+  PERFORM 1
+  FROM public.accounts
+  WHERE id IN (v_quote.from_account_id, v_quote.to_account_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  v_from := public.lock_active_account(v_quote.from_account_id);
+  v_to := public.lock_active_account(v_quote.to_account_id);
+
+  PERFORM public.check_withdrawal_limits(v_quote.from_account_id, v_quote.from_amount);
+  PERFORM public.assert_sufficient_funds(v_quote.from_account_id, v_quote.from_amount);
+
+  v_description := format(
+    'Converted %s %s to %s %s at %s',
+    v_quote.from_currency, to_char(v_quote.from_amount, 'FM999999999990.00'),
+    v_quote.to_currency, to_char(v_quote.to_amount, 'FM999999999990.00'),
+    rtrim(rtrim(v_quote.rate::text, '0'), '.')
+  );
+
+  v_out_entry_id := public.post_journal_entry(
+    'fx', v_description,
+    public.account_ledger_account_id(v_quote.from_account_id),
+    public.internal_ledger_account_id('FX_POSITION_' || v_quote.from_currency),
+    v_quote.from_amount
+  );
+  v_in_entry_id := public.post_journal_entry(
+    'fx', v_description,
+    public.internal_ledger_account_id('FX_POSITION_' || v_quote.to_currency),
+    public.account_ledger_account_id(v_quote.to_account_id),
+    v_quote.to_amount
+  );
+
+  v_from_balance := public.refresh_account_balances(v_quote.from_account_id);
+  v_to_balance := public.refresh_account_balances(v_quote.to_account_id);
+
+  INSERT INTO public.transactions (
+    user_id, account_id, amount, transaction_type, description, balance_after,
+    journal_entry_id, counterparty_user_id, counterparty_account_id
+  )
+  VALUES (
+    v_quote.user_id, v_quote.from_account_id, v_quote.from_amount, 'fx_out', v_description, v_from_balance,
+    v_out_entry_id, v_quote.user_id, v_quote.to_account_id
+  )
+  RETURNING * INTO v_out;
+
+  INSERT INTO public.transactions (
+    user_id, account_id, amount, transaction_type, description, balance_after,
+    journal_entry_id, counterparty_user_id, counterparty_account_id, related_transaction_id
+  )
+  VALUES (
+    v_quote.user_id, v_quote.to_account_id, v_quote.to_amount, 'fx_in', v_description, v_to_balance,
+    v_in_entry_id, v_quote.user_id, v_quote.from_account_id, v_out.id
+  )
+  RETURNING * INTO v_in;
+
+  UPDATE public.transactions
+  SET related_transaction_id = v_in.id
+  WHERE id = v_out.id
+  RETURNING * INTO v_out;
+
+  UPDATE public.fx_quotes
+  SET status = 'executed', transaction_id = v_out.id
+  WHERE id = v_quote.id;
+
+  RETURN v_out;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.execute_fx_quote(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.execute_fx_quote(UUID) TO authenticated;
+
+-- Recreate reversal so the two legs of a conversion, which sit in separate
+-- journal entries, are never reversed one at a time
+CREATE OR REPLACE FUNCTION public.reverse_transaction(p_transaction_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS public.transactions AS $$
+DECLARE
+  v_original public.transactions;
+  v_entry_id UUID;
+  v_description TEXT;
+  v_balance DECIMAL(12,2);
+  v_result public.transactions;
+  v_reversal public.transactions;
+  r RECORD;
+BEGIN
+  SELECT * INTO v_original FROM public.transactions WHERE id = p_transaction_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_original.transaction_type IN ('reversal_in', 'reversal_out') THEN
+    RAISE EXCEPTION 'Reversals cannot themselves be reversed' USING ERRCODE = '22023';
+  ELSIF v_original.transaction_type IN ('fd_open', 'fd_payout', 'rd_instalment', 'rd_penalty', 'rd_payout') THEN
+    RAISE EXCEPTION 'Deposit transactions cannot be reversed' USING ERRCODE = '22023';
+  ELSIF v_original.transaction_type IN ('fx_out', 'fx_in') THEN
+    RAISE EXCEPTION 'Currency conversions cannot be reversed' USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock every account touched by the original entry, in a fixed order
+  PERFORM 1
+  FROM public.accounts
+  WHERE id IN (SELECT t.account_id FROM public.transactions t WHERE t.journal_entry_id = v_original.journal_entry_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO v_original FROM public.transactions WHERE id = p_transaction_id;
+
+  IF v_original.status = 'reversed' THEN
+    RAISE EXCEPTION 'Transaction has already been reversed' USING ERRCODE = '22023';
+  ELSIF v_original.status <> 'posted' THEN
+    RAISE EXCEPTION 'Only posted transactions can be reversed' USING ERRCODE = '22023';
+  END IF;
+
+  -- Accounts whose balance goes down must be able to cover it
+  FOR r IN
+    SELECT la.account_id, SUM(jl.credit) - SUM(jl.debit) AS amount
+    FROM public.journal_lines jl
+    JOIN public.ledger_accounts la ON la.id = jl.ledger_account_id
+    WHERE jl.journal_entry_id = v_original.journal_entry_id AND la.account_id IS NOT NULL
+    GROUP BY la.account_id
+  LOOP
+    IF r.amount > 0 AND public.account_available_balance(r.account_id) < r.amount THEN
+      RAISE EXCEPTION 'Insufficient funds to reverse this transaction' USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+
+  v_description := 'Reversal: ' || COALESCE(NULLIF(btrim(p_reason), ''), v_original.description, 'transaction reversed');
+
+  INSERT INTO public.journal_entries (entry_type, description)
+  VALUES ('reversal', v_description)
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO public.journal_lines (journal_entry_id, ledger_account_id, debit, credit)
+  SELECT v_entry_id, jl.ledger_account_id, jl.credit, jl.debit
+  FROM public.journal_lines jl
+  WHERE jl.journal_entry_id = v_original.journal_entry_id;
+
+  FOR r IN
+    SELECT t.* FROM public.transactions t
+    WHERE t.journal_entry_id = v_original.journal_entry_id
+    ORDER BY t.created_at, t.id
+  LOOP
+    v_balance := public.refresh_account_balances(r.account_id);
+
+    UPDATE public.transactions SET status = 'reversed' WHERE id = r.id;
+
+    INSERT INTO public.transactions (
+      user_id, account_id, amount, transaction_type, description, balance_after, journal_entry_id,
+      counterparty_user_id, counterparty_account_id, counterparty_name, reverses_transaction_id
+    )
+    VALUES (
+      r.user_id,
+      r.account_id,
+      r.amount,
+      CASE WHEN r.transaction_type IN ('deposit', 'transfer_in', 'interest') THEN 'reversal_out' ELSE 'reversal_in' END,
+      v_description,
+      v_balance,
+      v_entry_id,
+      r.counterparty_user_id,
+      r.counterparty_account_id,
+      r.counterparty_name,
+      r.id
+    )
+    RETURNING * INTO v_reversal;
+
+    IF r.id = p_transaction_id THEN
+      v_result := v_reversal;
+    END IF;
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
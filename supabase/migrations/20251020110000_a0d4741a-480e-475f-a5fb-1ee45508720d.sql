@@ -0,0 +1,680 @@
+-- Personal loans: the principal is credited to one of the customer's rupee
+-- accounts and repaid from it in equal monthly instalments (EMIs), each split
+-- into interest on the outstanding principal and principal repaid. Due EMIs
+-- are debited by a job; ones the account cannot cover are marked overdue and
+-- retried. Customers can prepay principal at any time, which shortens the
+-- loan and keeps the EMI unchanged.
+CREATE SEQUENCE public.loan_number_seq START 1;
+
+CREATE TABLE public.loans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  account_id UUID NOT NULL REFERENCES public.accounts(id),
+  loan_number TEXT NOT NULL UNIQUE DEFAULT 'LN' || lpad(nextval('public.loan_number_seq')::text, 8, '0'),
+  principal DECIMAL(12,2) NOT NULL CHECK (principal > 0),
+  annual_rate DECIMAL(6,4) NOT NULL CHECK (annual_rate >= 0),
+  months INTEGER NOT NULL CHECK (months > 0),
+  emi DECIMAL(12,2) NOT NULL CHECK (emi > 0),
+  outstanding_principal DECIMAL(12,2) NOT NULL CHECK (outstanding_principal >= 0),
+  disbursed_on DATE NOT NULL DEFAULT current_date,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'closed')),
+  closed_on DATE,
+  disbursement_transaction_id UUID REFERENCES public.transactions(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((status = 'closed') = (closed_on IS NOT NULL))
+);
+
+CREATE INDEX loans_user_id_idx ON public.loans (user_id, created_at DESC);
+
+-- Create the amortization schedule; one row per EMI. Prepaying replaces the
+-- upcoming rows.
+CREATE TABLE public.loan_instalments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  loan_id UUID NOT NULL REFERENCES public.loans(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  instalment_number INTEGER NOT NULL CHECK (instalment_number > 0),
+  due_date DATE NOT NULL,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  principal DECIMAL(12,2) NOT NULL CHECK (principal >= 0),
+  interest DECIMAL(12,2) NOT NULL CHECK (interest >= 0),
+  closing_principal DECIMAL(12,2) NOT NULL CHECK (closing_principal >= 0),
+  status TEXT NOT NULL DEFAULT 'upcoming' CHECK (status IN ('upcoming', 'paid', 'overdue')),
+  paid_on DATE,
+  transaction_id UUID REFERENCES public.transactions(id),
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (loan_id, instalment_number),
+  CHECK (amount = principal + interest),
+  CHECK ((status = 'paid') = (transaction_id IS NOT NULL))
+);
+
+CREATE INDEX loan_instalments_due_idx
+  ON public.loan_instalments (due_date)
+  WHERE status <> 'paid';
+
+-- Create prepayments of principal outside the schedule
+CREATE TABLE public.loan_prepayments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  loan_id UUID NOT NULL REFERENCES public.loans(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX loan_prepayments_loan_id_idx ON public.loan_prepayments (loan_id, created_at);
+
+-- Create single-row table of loan terms. max_amount caps the outstanding
+-- principal of all of a customer's active loans together.
+CREATE TABLE public.loan_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  annual_rate DECIMAL(6,4) NOT NULL DEFAULT 0.1150 CHECK (annual_rate >= 0),
+  min_amount DECIMAL(12,2) NOT NULL DEFAULT 10000.00 CHECK (min_amount > 0),
+  max_amount DECIMAL(12,2) NOT NULL DEFAULT 500000.00,
+  min_months INTEGER NOT NULL DEFAULT 6 CHECK (min_months > 0),
+  max_months INTEGER NOT NULL DEFAULT 60,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (max_amount >= min_amount),
+  CHECK (max_months >= min_months)
+);
+
+INSERT INTO public.loan_settings DEFAULT VALUES;
+
+-- Enable Row Level Security
+ALTER TABLE public.loans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.loan_instalments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.loan_prepayments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.loan_settings ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies. Loans, instalments and prepayments are written only by
+-- the functions below.
+CREATE POLICY "Users can view their own loans"
+ON public.loans
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own loan instalments"
+ON public.loan_instalments
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own loan prepayments"
+ON public.loan_prepayments
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Signed-in users can view loan settings"
+ON public.loan_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+REVOKE INSERT, UPDATE, DELETE ON public.loans FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.loan_instalments FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.loan_prepayments FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.loan_settings FROM anon, authenticated;
+
+CREATE TRIGGER update_loans_updated_at
+  BEFORE UPDATE ON public.loans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_loan_instalments_updated_at
+  BEFORE UPDATE ON public.loan_instalments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_loan_settings_updated_at
+  BEFORE UPDATE ON public.loan_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Allow loan rows in the transaction history
+ALTER TABLE public.transactions DROP CONSTRAINT transactions_transaction_type_check;
+
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_transaction_type_check
+  CHECK (transaction_type IN (
+    'deposit', 'withdraw', 'transfer_out', 'transfer_in', 'reversal_in', 'reversal_out', 'overdraft_interest',
+    'fd_open', 'fd_payout', 'interest', 'rd_instalment', 'rd_penalty', 'rd_payout', 'fee', 'fx_out', 'fx_in',
+    'loan_disbursal', 'loan_emi', 'loan_prepayment'
+  ));
+
+INSERT INTO public.ledger_accounts (code, name, account_class) VALUES
+  ('LOANS', 'Personal loans', 'asset'),
+  ('LOAN_INTEREST', 'Loan interest income', 'income');
+
+-- Create function returning the EMI that repays p_principal over p_months at
+-- p_annual_rate, compounded monthly. Mirrored by loanEmi in src/lib/loans.ts.
+CREATE OR REPLACE FUNCTION public.loan_emi(p_principal DECIMAL, p_annual_rate DECIMAL, p_months INTEGER)
+RETURNS DECIMAL AS $$
+  SELECT CASE
+    WHEN p_annual_rate = 0 THEN round(p_principal / p_months, 2)
+    ELSE round(
+      p_principal * (p_annual_rate / 12) * power(1 + p_annual_rate / 12, p_months)
+        / (power(1 + p_annual_rate / 12, p_months) - 1),
+      2
+    )
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Create function adding p_count upcoming instalments to a loan's schedule,
+-- numbered from p_first_number, that amortize p_principal at the loan's EMI.
+-- Instalment n falls due n months after disbursement; the last one clears
+-- whatever principal is left.
+CREATE OR REPLACE FUNCTION public.build_loan_schedule(
+  p_loan public.loans,
+  p_first_number INTEGER,
+  p_principal DECIMAL,
+  p_count INTEGER
+)
+RETURNS VOID AS $$
+DECLARE
+  v_balance DECIMAL(12,2) := p_principal;
+  v_interest DECIMAL(12,2);
+  v_principal DECIMAL(12,2);
+BEGIN
+  FOR n IN p_first_number .. p_first_number + p_count - 1 LOOP
+    v_interest := round(v_balance * p_loan.annual_rate / 12, 2);
+    v_principal := CASE
+      WHEN n = p_first_number + p_count - 1 THEN v_balance
+      ELSE LEAST(v_balance, p_loan.emi - v_interest)
+    END;
+    v_balance := v_balance - v_principal;
+
+    INSERT INTO public.loan_instalments (
+      loan_id, user_id, instalment_number, due_date, amount, principal, interest, closing_principal
+    )
+    VALUES (
+      p_loan.id, p_loan.user_id, n, (p_loan.disbursed_on + make_interval(months => n))::date,
+      v_principal + v_interest, v_principal, v_interest, v_balance
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.loan_emi(DECIMAL, DECIMAL, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.build_loan_schedule(public.loans, INTEGER, DECIMAL, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Take out a loan on one of the signed-in user's rupee accounts. The
+-- principal is credited straight away and the first EMI falls due a month
+-- later.
+CREATE OR REPLACE FUNCTION public.apply_for_loan(
+  p_account_id UUID,
+  p_amount DECIMAL,
+  p_months INTEGER,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.loans AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+  v_account public.accounts;
+  v_settings public.loan_settings;
+  v_outstanding DECIMAL(12,2);
+  v_loan public.loans;
+  v_description TEXT;
+  v_entry_id UUID;
+  v_balance DECIMAL(12,2);
+  v_transaction public.transactions;
+BEGIN
+  PERFORM public.own_account(p_account_id);
+
+  SELECT * INTO v_settings FROM public.loan_settings;
+
+  IF v_amount IS NULL OR v_amount < v_settings.min_amount OR v_amount > v_settings.max_amount THEN
+    RAISE EXCEPTION 'Loans are available from % to %', v_settings.min_amount, v_settings.max_amount
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_months IS NULL OR p_months < v_settings.min_months OR p_months > v_settings.max_months THEN
+    RAISE EXCEPTION 'Loan tenure must be between % and % months', v_settings.min_months, v_settings.max_months
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock the customer before the account: the cap covers all of their loans,
+  -- so applications on two different accounts must not run side by side
+  PERFORM 1 FROM public.profiles WHERE user_id = auth.uid() FOR UPDATE;
+
+  v_account := public.lock_active_account(p_account_id);
+
+  IF v_account.currency <> 'INR' THEN
+    RAISE EXCEPTION 'Loans can only be paid into rupee accounts' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT l.* INTO v_loan
+    FROM public.loans l
+    JOIN public.transactions t ON t.id = l.disbursement_transaction_id
+    WHERE t.user_id = v_account.user_id AND t.idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_loan.principal <> v_amount OR v_loan.months <> p_months OR v_loan.account_id <> p_account_id THEN
+        RAISE EXCEPTION 'Idempotency key was already used for a different request' USING ERRCODE = '22023';
+      END IF;
+      RETURN v_loan;
+    END IF;
+  END IF;
+
+  SELECT COALESCE(SUM(outstanding_principal), 0.00) INTO v_outstanding
+  FROM public.loans
+  WHERE user_id = v_account.user_id AND status = 'active';
+
+  IF v_outstanding + v_amount > v_settings.max_amount THEN
+    RAISE EXCEPTION 'You can borrow up to % in total; % is already outstanding', v_settings.max_amount, v_outstanding
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.loans (user_id, account_id, principal, annual_rate, months, emi, outstanding_principal)
+  VALUES (
+    v_account.user_id, p_account_id, v_amount, v_settings.annual_rate, p_months,
+    public.loan_emi(v_amount, v_settings.annual_rate, p_months), v_amount
+  )
+  RETURNING * INTO v_loan;
+
+  PERFORM public.build_loan_schedule(v_loan, 1, v_amount, p_months);
+
+  v_description := 'Loan ' || v_loan.loan_number || ' disbursed';
+  v_entry_id := public.post_journal_entry(
+    'loan_disbursal', v_description,
+    public.internal_ledger_account_id('LOANS'), public.account_ledger_account_id(p_account_id),
+    v_amount
+  );
+  v_balance := public.refresh_account_balances(p_account_id);
+
+  INSERT INTO public.transactions (
+    user_id, account_id, amount, transaction_type, description, balance_after, idempotency_key, journal_entry_id
+  )
+  VALUES (
+    v_account.user_id, p_account_id, v_amount, 'loan_disbursal', v_description, v_balance, p_idempotency_key,
+    v_entry_id
+  )
+  RETURNING * INTO v_transaction;
+
+  UPDATE public.loans
+  SET disbursement_transaction_id = v_transaction.id
+  WHERE id = v_loan.id
+  RETURNING * INTO v_loan;
+
+  RETURN v_loan;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.apply_for_loan(UUID, DECIMAL, INTEGER, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.apply_for_loan(UUID, DECIMAL, INTEGER, UUID) TO authenticated;
+
+-- Create function debiting a locked, unpaid EMI from its loan's account: the
+-- interest goes to income and the principal off the loan. EMIs are paid in
+-- order, so one is refused while an earlier EMI is unpaid. Raises
+-- 'Insufficient funds' when the account cannot cover it; the account's
+-- overdraft is not used. Closes the loan once every EMI is paid. Returns the
+-- EMI's transaction.
+CREATE OR REPLACE FUNCTION public.pay_loan_instalment(
+  p_instalment public.loan_instalments,
+  p_paid_on DATE,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+DECLARE
+  v_loan public.loans;
+  v_description TEXT;
+  v_entry_id UUID;
+  v_balance DECIMAL(12,2);
+  v_transaction public.transactions;
+  v_paid_all BOOLEAN;
+BEGIN
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_instalment.loan_id;
+
+  PERFORM public.lock_active_account(v_loan.account_id);
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_instalment.loan_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.loan_instalments i
+    WHERE i.loan_id = v_loan.id AND i.instalment_number < p_instalment.instalment_number AND i.status <> 'paid'
+  ) THEN
+    RAISE EXCEPTION 'An earlier EMI is still unpaid' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF public.account_available_balance(v_loan.account_id) < p_instalment.amount THEN
+    RAISE EXCEPTION 'Insufficient funds' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_description := 'Loan ' || v_loan.loan_number || ' EMI ' || p_instalment.instalment_number;
+
+  INSERT INTO public.journal_entries (entry_type, description)
+  VALUES ('loan_emi', v_description)
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO public.journal_lines (journal_entry_id, ledger_account_id, debit)
+  VALUES (v_entry_id, public.account_ledger_account_id(v_loan.account_id), p_instalment.amount);
+
+  IF p_instalment.principal > 0 THEN
+    INSERT INTO public.journal_lines (journal_entry_id, ledger_account_id, credit)
+    VALUES (v_entry_id, public.internal_ledger_account_id('LOANS'), p_instalment.principal);
+  END IF;
+
+  IF p_instalment.interest > 0 THEN
+    INSERT INTO public.journal_lines (journal_entry_id, ledger_account_id, credit)
+    VALUES (v_entry_id, public.internal_ledger_account_id('LOAN_INTEREST'), p_instalment.interest);
+  END IF;
+
+  v_balance := public.refresh_account_balances(v_loan.account_id);
+
+  INSERT INTO public.transactions (
+    user_id, account_id, amount, transaction_type, description, balance_after, idempotency_key, journal_entry_id
+  )
+  VALUES (
+    v_loan.user_id, v_loan.account_id, p_instalment.amount, 'loan_emi', v_description, v_balance,
+    p_idempotency_key, v_entry_id
+  )
+  RETURNING * INTO v_transaction;
+
+  UPDATE public.loan_instalments
+  SET status = 'paid',
+      paid_on = p_paid_on,
+      transaction_id = v_transaction.id,
+      last_error = NULL
+  WHERE id = p_instalment.id;
+
+  v_paid_all := NOT EXISTS (
+    SELECT 1 FROM public.loan_instalments i WHERE i.loan_id = v_loan.id AND i.status <> 'paid'
+  );
+
+  UPDATE public.loans
+  SET outstanding_principal = p_instalment.closing_principal,
+      status = CASE WHEN v_paid_all THEN 'closed' ELSE status END,
+      closed_on = CASE WHEN v_paid_all THEN p_paid_on ELSE closed_on END
+  WHERE id = v_loan.id;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.pay_loan_instalment(public.loan_instalments, DATE, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Back office job: debit every EMI due on or before p_as_of, oldest first.
+-- EMIs the account cannot cover are marked overdue and retried on the next
+-- run; a loan's later EMIs wait until its earliest unpaid one is collected.
+CREATE OR REPLACE FUNCTION public.collect_loan_instalments(p_as_of DATE DEFAULT current_date)
+RETURNS TABLE (
+  instalment_id UUID,
+  loan_id UUID,
+  due_date DATE,
+  status TEXT,
+  transaction_id UUID,
+  error TEXT
+) AS $$
+DECLARE
+  v_instalment public.loan_instalments;
+  v_transaction public.transactions;
+BEGIN
+  FOR v_instalment IN
+    SELECT i.* FROM public.loan_instalments i
+    JOIN public.loans l ON l.id = i.loan_id
+    WHERE i.status <> 'paid' AND i.due_date <= p_as_of AND l.status = 'active'
+    ORDER BY i.due_date, i.id
+    FOR UPDATE OF i SKIP LOCKED
+  LOOP
+    instalment_id := v_instalment.id;
+    loan_id := v_instalment.loan_id;
+    due_date := v_instalment.due_date;
+    transaction_id := NULL;
+    error := NULL;
+
+    BEGIN
+      v_transaction := public.pay_loan_instalment(
+        v_instalment, p_as_of, md5('loan-instalment:' || v_instalment.id::text)::uuid
+      );
+      status := 'paid';
+      transaction_id := v_transaction.id;
+    EXCEPTION WHEN OTHERS THEN
+      status := 'overdue';
+      error := SQLERRM;
+
+      UPDATE public.loan_instalments i
+      SET status = 'overdue',
+          last_error = SQLERRM
+      WHERE i.id = v_instalment.id;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.collect_loan_instalments(DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.collect_loan_instalments(DATE) TO service_role;
+
+-- Prepay principal on one of the signed-in user's active loans from its
+-- account. Upcoming EMIs are rebuilt on the lower principal at the same EMI,
+-- so the loan ends sooner; prepaying everything outstanding closes it.
+-- Overdue EMIs must be cleared first.
+CREATE OR REPLACE FUNCTION public.prepay_loan(
+  p_loan_id UUID,
+  p_amount DECIMAL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.loans AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+  v_loan public.loans;
+  v_monthly_rate DECIMAL;
+  v_next_number INTEGER;
+  v_remaining INTEGER;
+  v_count INTEGER;
+  v_description TEXT;
+  v_entry_id UUID;
+  v_balance DECIMAL(12,2);
+  v_transaction public.transactions;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Loan not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM public.lock_active_account(v_loan.account_id);
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id FOR UPDATE;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT t.* INTO v_transaction
+    FROM public.transactions t
+    WHERE t.user_id = v_loan.user_id AND t.idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_transaction.transaction_type <> 'loan_prepayment'
+        OR v_transaction.amount <> v_amount
+        OR NOT EXISTS (
+          SELECT 1 FROM public.loan_prepayments lp
+          WHERE lp.transaction_id = v_transaction.id AND lp.loan_id = p_loan_id
+        ) THEN
+        RAISE EXCEPTION 'Idempotency key was already used for a different request' USING ERRCODE = '22023';
+      END IF;
+      RETURN v_loan;
+    END IF;
+  END IF;
+
+  IF v_loan.status <> 'active' THEN
+    RAISE EXCEPTION 'Loan % is already closed', v_loan.loan_number USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.loan_instalments WHERE loan_id = p_loan_id AND status = 'overdue') THEN
+    RAISE EXCEPTION 'Overdue EMIs must be paid before prepaying' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_amount > v_loan.outstanding_principal THEN
+    RAISE EXCEPTION 'Only % of principal is outstanding', v_loan.outstanding_principal USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM public.assert_sufficient_funds(v_loan.account_id, v_amount);
+
+  v_description := 'Loan ' || v_loan.loan_number || ' prepayment';
+  v_entry_id := public.post_journal_entry(
+    'loan_prepayment', v_description,
+    public.account_ledger_account_id(v_loan.account_id), public.internal_ledger_account_id('LOANS'),
+    v_amount
+  );
+  v_balance := public.refresh_account_balances(v_loan.account_id);
+
+  INSERT INTO public.transactions (
+    user_id, account_id, amount, transaction_type, description, balance_after, idempotency_key, journal_entry_id
+  )
+  VALUES (
+    v_loan.user_id, v_loan.account_id, v_amount, 'loan_prepayment', v_description, v_balance, p_idempotency_key,
+    v_entry_id
+  )
+  RETURNING * INTO v_transaction;
+
+  INSERT INTO public.loan_prepayments (loan_id, user_id, amount, transaction_id)
+  VALUES (p_loan_id, v_loan.user_id, v_amount, v_transaction.id);
+
+  SELECT COALESCE(MAX(instalment_number) FILTER (WHERE status = 'paid'), 0) + 1, COUNT(*) FILTER (WHERE status = 'upcoming')
+  INTO v_next_number, v_remaining
+  FROM public.loan_instalments
+  WHERE loan_id = p_loan_id;
+
+  DELETE FROM public.loan_instalments WHERE loan_id = p_loan_id AND status = 'upcoming';
+
+  UPDATE public.loans
+  SET outstanding_principal = outstanding_principal - v_amount,
+      status = CASE WHEN outstanding_principal = v_amount THEN 'closed' ELSE status END,
+      closed_on = CASE WHEN outstanding_principal = v_amount THEN current_date ELSE closed_on END
+  WHERE id = p_loan_id
+  RETURNING * INTO v_loan;
+
+  IF v_loan.status = 'active' THEN
+    -- Months needed to repay what is left at the same EMI, never more than
+    -- were left before
+    v_monthly_rate := v_loan.annual_rate / 12;
+    v_count := CASE
+      WHEN v_monthly_rate = 0 THEN ceil(v_loan.outstanding_principal / v_loan.emi)
+      ELSE ceil(
+        ln(v_loan.emi / (v_loan.emi - v_monthly_rate * v_loan.outstanding_principal)) / ln(1 + v_monthly_rate)
+      )
+    END;
+
+    PERFORM public.build_loan_schedule(
+      v_loan, v_next_number, v_loan.outstanding_principal, LEAST(GREATEST(v_count, 1), v_remaining)
+    );
+  END IF;
+
+  RETURN v_loan;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.prepay_loan(UUID, DECIMAL, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.prepay_loan(UUID, DECIMAL, UUID) TO authenticated;
+
+-- Recreate reversal so loan rows, which move the loan's schedule along with
+-- the money, are never reversed
+CREATE OR REPLACE FUNCTION public.reverse_transaction(p_transaction_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS public.transactions AS $$
+DECLARE
+  v_original public.transactions;
+  v_entry_id UUID;
+  v_description TEXT;
+  v_balance DECIMAL(12,2);
+  v_result public.transactions;
+  v_reversal public.transactions;
+  r RECORD;
+BEGIN
+  SELECT * INTO v_original FROM public.transactions WHERE id = p_transaction_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_original.transaction_type IN ('reversal_in', 'reversal_out') THEN
+    RAISE EXCEPTION 'Reversals cannot themselves be reversed' USING ERRCODE = '22023';
+  ELSIF v_original.transaction_type IN ('fd_open', 'fd_payout', 'rd_instalment', 'rd_penalty', 'rd_payout') THEN
+    RAISE EXCEPTION 'Deposit transactions cannot be reversed' USING ERRCODE = '22023';
+  ELSIF v_original.transaction_type IN ('fx_out', 'fx_in') THEN
+    RAISE EXCEPTION 'Currency conversions cannot be reversed' USING ERRCODE = '22023';
+  ELSIF v_original.transaction_type IN ('loan_disbursal', 'loan_emi', 'loan_prepayment') THEN
+    RAISE EXCEPTION 'Loan transactions cannot be reversed' USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock every account touched by the original entry, in a fixed order
+  PERFORM 1
+  FROM public.accounts
+  WHERE id IN (SELECT t.account_id FROM public.transactions t WHERE t.journal_entry_id = v_original.journal_entry_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO v_original FROM public.transactions WHERE id = p_transaction_id;
+
+  IF v_original.status = 'reversed' THEN
+    RAISE EXCEPTION 'Transaction has already been reversed' USING ERRCODE = '22023';
+  ELSIF v_original.status <> 'posted' THEN
+    RAISE EXCEPTION 'Only posted transactions can be reversed' USING ERRCODE = '22023';
+  END IF;
+
+  -- Accounts whose balance goes down must be able to cover it
+  FOR r IN
+    SELECT la.account_id, SUM(jl.credit) - SUM(jl.debit) AS amount
+    FROM public.journal_lines jl
+    JOIN public.ledger_accounts la ON la.id = jl.ledger_account_id
+    WHERE jl.journal_entry_id = v_original.journal_entry_id AND la.account_id IS NOT NULL
+    GROUP BY la.account_id
+  LOOP
+    IF r.amount > 0 AND public.account_available_balance(r.account_id) < r.amount THEN
+      RAISE EXCEPTION 'Insufficient funds to reverse this transaction' USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+
+  v_description := 'Reversal: ' || COALESCE(NULLIF(btrim(p_reason), ''), v_original.description, 'transaction reversed');
+
+  INSERT INTO public.journal_entries (entry_type, description)
+  VALUES ('reversal', v_description)
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO public.journal_lines (journal_entry_id, ledger_account_id, debit, credit)
+  SELECT v_entry_id, jl.ledger_account_id, jl.credit, jl.debit
+  FROM public.journal_lines jl
+  WHERE jl.journal_entry_id = v_original.journal_entry_id;
+
+  FOR r IN
+    SELECT t.* FROM public.transactions t
+    WHERE t.journal_entry_id = v_original.journal_entry_id
+    ORDER BY t.created_at, t.id
+  LOOP
+    v_balance := public.refresh_account_balances(r.account_id);
+
+    UPDATE public.transactions SET status = 'reversed' WHERE id = r.id;
+
+    INSERT INTO public.transactions (
+      user_id, account_id, amount, transaction_type, description, balance_after, journal_entry_id,
+      counterparty_user_id, counterparty_account_id, counterparty_name, reverses_transaction_id
+    )
+    VALUES (
+      r.user_id,
+      r.account_id,
+      r.amount,
+      CASE WHEN r.transaction_type IN ('deposit', 'transfer_in', 'interest') THEN 'reversal_out' ELSE 'reversal_in' END,
+      v_description,
+      v_balance,
+      v_entry_id,
+      r.counterparty_user_id,
+      r.counterparty_account_id,
+      r.counterparty_name,
+      r.id
+    )
+    RETURNING * INTO v_reversal;
+
+    IF r.id = p_transaction_id THEN
+      v_result := v_reversal;
+    END IF;
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
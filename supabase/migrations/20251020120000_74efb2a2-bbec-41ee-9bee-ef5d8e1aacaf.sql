@@ -0,0 +1,499 @@
+-- Bill payments: customers save their consumer numbers with billers from a
+-- local catalogue, fetch the current bill from a stand-in biller service and
+-- pay it from a rupee account. Payments are posted by apply_transaction,
+-- like deposits and withdrawals, and credited to a biller settlement account.
+CREATE TABLE public.billers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  category TEXT NOT NULL CHECK (category IN ('electricity', 'mobile', 'broadband')),
+  consumer_number_label TEXT NOT NULL,
+  -- Consumer numbers must match this regular expression
+  consumer_number_pattern TEXT NOT NULL,
+  -- The stand-in biller service bills between these amounts each month
+  min_bill_amount DECIMAL(12,2) NOT NULL CHECK (min_bill_amount > 0),
+  max_bill_amount DECIMAL(12,2) NOT NULL,
+  due_day INTEGER NOT NULL DEFAULT 15 CHECK (due_day BETWEEN 1 AND 28),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (max_bill_amount >= min_bill_amount)
+);
+
+INSERT INTO public.billers (
+  code, name, category, consumer_number_label, consumer_number_pattern, min_bill_amount, max_bill_amount, due_day
+) VALUES
+  ('CITYPOWER', 'City Power Distribution', 'electricity', 'Consumer number', '^[0-9]{10}$', 400.00, 4000.00, 15),
+  ('STATEGRID', 'State Grid Electricity Board', 'electricity', 'Service connection number', '^[0-9]{12}$', 300.00, 3500.00, 20),
+  ('SKYMOBILE', 'SkyMobile Postpaid', 'mobile', 'Mobile number', '^[6-9][0-9]{9}$', 199.00, 999.00, 10),
+  ('AIRWAVE', 'Airwave Postpaid', 'mobile', 'Mobile number', '^[6-9][0-9]{9}$', 249.00, 1199.00, 12),
+  ('FIBERNET', 'FiberNet Broadband', 'broadband', 'Account ID', '^[A-Z0-9]{8,12}$', 499.00, 1499.00, 5);
+
+-- Create consumer numbers saved by customers
+CREATE TABLE public.saved_billers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  biller_id UUID NOT NULL REFERENCES public.billers(id),
+  consumer_number TEXT NOT NULL,
+  nickname TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, biller_id, consumer_number)
+);
+
+-- Create paid bills; each row is the receipt for one bill
+CREATE SEQUENCE public.bill_receipt_number_seq START 1;
+
+CREATE TABLE public.bill_payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  account_id UUID NOT NULL REFERENCES public.accounts(id),
+  biller_id UUID NOT NULL REFERENCES public.billers(id),
+  saved_biller_id UUID REFERENCES public.saved_billers(id) ON DELETE SET NULL,
+  consumer_number TEXT NOT NULL,
+  bill_number TEXT NOT NULL,
+  billing_period TEXT NOT NULL,
+  due_date DATE NOT NULL,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  receipt_number TEXT NOT NULL UNIQUE DEFAULT 'BP' || lpad(nextval('public.bill_receipt_number_seq')::text, 10, '0'),
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX bill_payments_user_id_idx ON public.bill_payments (user_id, created_at DESC);
+CREATE INDEX bill_payments_bill_idx ON public.bill_payments (biller_id, consumer_number, bill_number);
+
+-- Enable Row Level Security
+ALTER TABLE public.billers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.saved_billers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bill_payments ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies. Consumer numbers are saved through save_biller so they
+-- are validated; only the nickname is editable afterwards. Payments are
+-- written only by pay_bill.
+CREATE POLICY "Signed-in users can view billers"
+ON public.billers
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can view their own saved billers"
+ON public.saved_billers
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved billers"
+ON public.saved_billers
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved billers"
+ON public.saved_billers
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own bill payments"
+ON public.bill_payments
+FOR SELECT
+USING (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON public.billers FROM anon, authenticated;
+REVOKE INSERT, UPDATE ON public.saved_billers FROM anon, authenticated;
+GRANT UPDATE (nickname) ON public.saved_billers TO authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.bill_payments FROM anon, authenticated;
+
+CREATE TRIGGER update_billers_updated_at
+  BEFORE UPDATE ON public.billers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_saved_billers_updated_at
+  BEFORE UPDATE ON public.saved_billers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Allow bill payments in the transaction history
+ALTER TABLE public.transactions DROP CONSTRAINT transactions_transaction_type_check;
+
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_transaction_type_check
+  CHECK (transaction_type IN (
+    'deposit', 'withdraw', 'transfer_out', 'transfer_in', 'reversal_in', 'reversal_out', 'overdraft_interest',
+    'fd_open', 'fd_payout', 'interest', 'rd_instalment', 'rd_penalty', 'rd_payout', 'fee', 'fx_out', 'fx_in',
+    'loan_disbursal', 'loan_emi', 'loan_prepayment', 'bill_payment'
+  ));
+
+INSERT INTO public.ledger_accounts (code, name, account_class) VALUES
+  ('BILLER_SETTLEMENT', 'Amounts owed to billers', 'liability');
+
+-- Save a consumer number with a biller for the signed-in user
+CREATE OR REPLACE FUNCTION public.save_biller(p_biller_id UUID, p_consumer_number TEXT, p_nickname TEXT DEFAULT NULL)
+RETURNS public.saved_billers AS $$
+DECLARE
+  v_biller public.billers;
+  v_consumer_number TEXT := upper(btrim(p_consumer_number));
+  v_saved public.saved_billers;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_biller FROM public.billers WHERE id = p_biller_id AND active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Biller not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_consumer_number IS NULL OR v_consumer_number !~ v_biller.consumer_number_pattern THEN
+    RAISE EXCEPTION 'Enter a valid % for %', lower(v_biller.consumer_number_label), v_biller.name
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.saved_billers
+    WHERE user_id = auth.uid() AND biller_id = p_biller_id AND consumer_number = v_consumer_number
+  ) THEN
+    RAISE EXCEPTION 'This biller is already saved' USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.saved_billers (user_id, biller_id, consumer_number, nickname)
+  VALUES (auth.uid(), p_biller_id, v_consumer_number, COALESCE(NULLIF(btrim(p_nickname), ''), v_biller.name))
+  RETURNING * INTO v_saved;
+
+  RETURN v_saved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.save_biller(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_biller(UUID, TEXT, TEXT) TO authenticated;
+
+-- Stand-in for a biller's bill fetch API: the bill for the previous calendar
+-- month, due on the biller's due day this month. The amount is derived from a
+-- hash of the biller, consumer number and month, so fetching it again gives
+-- the same bill.
+CREATE OR REPLACE FUNCTION public.biller_service_fetch_bill(
+  p_biller public.billers,
+  p_consumer_number TEXT,
+  p_as_of DATE DEFAULT current_date
+)
+RETURNS TABLE (
+  bill_number TEXT,
+  billing_period TEXT,
+  due_date DATE,
+  amount DECIMAL
+) AS $$
+DECLARE
+  v_period DATE := (date_trunc('month', p_as_of) - interval '1 month')::date;
+  v_seed BIGINT;
+BEGIN
+  v_seed := ('x' || substr(md5(p_biller.code || ':' || p_consumer_number || ':' || v_period), 1, 15))::bit(60)::bigint;
+
+  bill_number := p_biller.code || to_char(v_period, 'YYYYMM') || right(p_consumer_number, 4);
+  billing_period := to_char(v_period, 'Mon YYYY');
+  due_date := (date_trunc('month', p_as_of) + make_interval(days => p_biller.due_day - 1))::date;
+  amount := p_biller.min_bill_amount
+    + v_seed % (floor(p_biller.max_bill_amount - p_biller.min_bill_amount)::bigint + 1);
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.biller_service_fetch_bill(public.billers, TEXT, DATE) FROM PUBLIC, anon, authenticated;
+
+-- Fetch the current bill for one of the signed-in user's saved billers, and
+-- whether it has already been paid
+CREATE OR REPLACE FUNCTION public.fetch_bill(p_saved_biller_id UUID)
+RETURNS TABLE (
+  bill_number TEXT,
+  billing_period TEXT,
+  due_date DATE,
+  amount DECIMAL,
+  paid BOOLEAN
+) AS $$
+DECLARE
+  v_saved public.saved_billers;
+  v_biller public.billers;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_saved FROM public.saved_billers WHERE id = p_saved_biller_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Biller not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_biller FROM public.billers WHERE id = v_saved.biller_id;
+
+  SELECT b.bill_number, b.billing_period, b.due_date, b.amount
+  INTO bill_number, billing_period, due_date, amount
+  FROM public.biller_service_fetch_bill(v_biller, v_saved.consumer_number) b;
+
+  paid := EXISTS (
+    SELECT 1 FROM public.bill_payments bp
+    JOIN public.transactions t ON t.id = bp.transaction_id
+    WHERE bp.biller_id = v_biller.id
+      AND bp.consumer_number = v_saved.consumer_number
+      AND bp.bill_number = fetch_bill.bill_number
+      AND t.status = 'posted'
+  );
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.fetch_bill(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.fetch_bill(UUID) TO authenticated;
+
+-- Recreate withdrawal limit usage so bill payments count towards the limits
+CREATE OR REPLACE FUNCTION public.withdrawal_limit_usage(p_account_id UUID)
+RETURNS TABLE (
+  account_type TEXT,
+  max_single_withdrawal DECIMAL,
+  daily_amount_limit DECIMAL,
+  daily_amount_used DECIMAL,
+  daily_count_limit INTEGER,
+  daily_count_used INTEGER,
+  monthly_amount_limit DECIMAL,
+  monthly_amount_used DECIMAL,
+  monthly_count_limit INTEGER,
+  monthly_count_used INTEGER
+) AS $$
+  SELECT
+    l.account_type,
+    l.max_single_withdrawal,
+    l.daily_withdrawal_amount,
+    COALESCE(SUM(t.amount) FILTER (WHERE t.created_at >= date_trunc('day', now())), 0.00),
+    l.daily_withdrawal_count,
+    (COUNT(t.id) FILTER (WHERE t.created_at >= date_trunc('day', now())))::integer,
+    l.monthly_withdrawal_amount,
+    COALESCE(SUM(t.amount), 0.00),
+    l.monthly_withdrawal_count,
+    COUNT(t.id)::integer
+  FROM public.accounts a
+  JOIN public.transaction_limits l ON l.account_type = a.account_type AND l.currency = a.currency
+  LEFT JOIN public.transactions t
+    ON t.account_id = a.id
+    AND t.transaction_type IN ('withdraw', 'transfer_out', 'fx_out', 'bill_payment')
+    AND t.status IN ('pending', 'posted')
+    AND t.created_at >= date_trunc('month', now())
+  WHERE a.id = p_account_id
+  GROUP BY l.account_type, l.currency;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Recreate internal posting function with bill payments: like a withdrawal
+-- they need available funds and are held to the withdrawal limits, but they
+-- are not held for review, and the money goes to the biller settlement
+-- account rather than out as cash
+CREATE OR REPLACE FUNCTION public.apply_transaction(
+  p_account_id UUID,
+  p_transaction_type TEXT,
+  p_amount DECIMAL,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+  v_account public.accounts;
+  v_description TEXT;
+  v_ledger_account UUID;
+  v_cash UUID := public.internal_ledger_account_id('CASH');
+  v_threshold DECIMAL(12,2);
+  v_entry_id UUID;
+  v_balance DECIMAL(12,2);
+  v_transaction public.transactions;
+BEGIN
+  IF p_transaction_type IS NULL OR p_transaction_type NOT IN ('deposit', 'withdraw', 'bill_payment') THEN
+    RAISE EXCEPTION 'Unsupported transaction type: %', p_transaction_type USING ERRCODE = '22023';
+  END IF;
+
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  v_account := public.lock_active_account(p_account_id);
+
+  -- The account lock serialises replays, so this lookup cannot race a concurrent post
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_transaction
+    FROM public.transactions
+    WHERE user_id = v_account.user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_transaction.transaction_type <> p_transaction_type
+        OR v_transaction.amount <> v_amount
+        OR v_transaction.account_id <> p_account_id THEN
+        RAISE EXCEPTION 'Idempotency key was already used for a different request' USING ERRCODE = '22023';
+      END IF;
+      RETURN v_transaction;
+    END IF;
+  END IF;
+
+  v_ledger_account := public.account_ledger_account_id(p_account_id);
+  v_description := COALESCE(
+    NULLIF(btrim(p_description), ''),
+    CASE p_transaction_type
+      WHEN 'deposit' THEN 'Deposit transaction'
+      WHEN 'withdraw' THEN 'Withdrawal transaction'
+      ELSE 'Bill payment'
+    END
+  );
+
+  IF p_transaction_type = 'withdraw' THEN
+    PERFORM public.check_withdrawal_limits(p_account_id, v_amount);
+    PERFORM public.assert_sufficient_funds(p_account_id, v_amount);
+
+    SELECT pending_withdrawal_threshold INTO v_threshold FROM public.transaction_settings;
+
+    IF v_amount >= v_threshold THEN
+      INSERT INTO public.transactions (
+        user_id, account_id, amount, transaction_type, description, balance_after, idempotency_key, status
+      )
+      VALUES (
+        v_account.user_id, p_account_id, v_amount, 'withdraw', v_description,
+        public.ledger_account_balance(v_ledger_account), p_idempotency_key, 'pending'
+      )
+      RETURNING * INTO v_transaction;
+
+      PERFORM public.refresh_account_balances(p_account_id);
+      RETURN v_transaction;
+    END IF;
+
+    v_entry_id := public.post_journal_entry('withdraw', v_description, v_ledger_account, v_cash, v_amount);
+  ELSIF p_transaction_type = 'bill_payment' THEN
+    PERFORM public.check_withdrawal_limits(p_account_id, v_amount);
+    PERFORM public.assert_sufficient_funds(p_account_id, v_amount);
+
+    v_entry_id := public.post_journal_entry(
+      'bill_payment', v_description,
+      v_ledger_account, public.internal_ledger_account_id('BILLER_SETTLEMENT'),
+      v_amount
+    );
+  ELSE
+    v_entry_id := public.post_journal_entry('deposit', v_description, v_cash, v_ledger_account, v_amount);
+  END IF;
+
+  v_balance := public.refresh_account_balances(p_account_id);
+
+  INSERT INTO public.transactions (
+    user_id, account_id, amount, transaction_type, description, balance_after, idempotency_key, journal_entry_id
+  )
+  VALUES (
+    v_account.user_id, p_account_id, v_amount, p_transaction_type, v_description, v_balance, p_idempotency_key, v_entry_id
+  )
+  RETURNING * INTO v_transaction;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Recreate the client posting function so bill payments can only be made
+-- through pay_bill, which records what was paid
+CREATE OR REPLACE FUNCTION public.post_transaction(
+  p_account_id UUID,
+  p_transaction_type TEXT,
+  p_amount DECIMAL,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+BEGIN
+  PERFORM public.own_account(p_account_id);
+
+  IF p_transaction_type IS NULL OR p_transaction_type NOT IN ('deposit', 'withdraw') THEN
+    RAISE EXCEPTION 'Unsupported transaction type: %', p_transaction_type USING ERRCODE = '22023';
+  END IF;
+
+  RETURN public.apply_transaction(p_account_id, p_transaction_type, p_amount, p_description, p_idempotency_key);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Pay the current bill for one of the signed-in user's saved billers from one
+-- of their rupee accounts. p_amount must match the fetched bill, so a bill
+-- that changed since it was shown is never paid blind.
+CREATE OR REPLACE FUNCTION public.pay_bill(
+  p_saved_biller_id UUID,
+  p_account_id UUID,
+  p_amount DECIMAL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.bill_payments AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+  v_account public.accounts;
+  v_saved public.saved_billers;
+  v_biller public.billers;
+  v_bill RECORD;
+  v_transaction public.transactions;
+  v_payment public.bill_payments;
+BEGIN
+  v_account := public.own_account(p_account_id);
+
+  IF v_account.currency <> 'INR' THEN
+    RAISE EXCEPTION 'Bills can only be paid from rupee accounts' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_saved
+  FROM public.saved_billers
+  WHERE id = p_saved_biller_id AND user_id = v_account.user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Biller not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT bp.* INTO v_payment
+    FROM public.bill_payments bp
+    JOIN public.transactions t ON t.id = bp.transaction_id
+    WHERE t.user_id = v_account.user_id AND t.idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_payment.amount <> v_amount
+        OR v_payment.account_id <> p_account_id
+        OR v_payment.saved_biller_id IS DISTINCT FROM p_saved_biller_id THEN
+        RAISE EXCEPTION 'Idempotency key was already used for a different request' USING ERRCODE = '22023';
+      END IF;
+      RETURN v_payment;
+    END IF;
+  END IF;
+
+  SELECT * INTO v_biller FROM public.billers WHERE id = v_saved.biller_id;
+
+  IF NOT v_biller.active THEN
+    RAISE EXCEPTION '% is not accepting payments', v_biller.name USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_bill FROM public.fetch_bill(p_saved_biller_id);
+
+  IF v_bill.paid THEN
+    RAISE EXCEPTION 'The % bill has already been paid', v_bill.billing_period USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_amount IS DISTINCT FROM v_bill.amount THEN
+    RAISE EXCEPTION 'The bill amount has changed; please fetch the bill again' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_transaction := public.apply_transaction(
+    p_account_id, 'bill_payment', v_amount,
+    v_biller.name || ' bill for ' || v_bill.billing_period || ' (' || v_saved.consumer_number || ')',
+    p_idempotency_key
+  );
+
+  INSERT INTO public.bill_payments (
+    user_id, account_id, biller_id, saved_biller_id, consumer_number, bill_number, billing_period, due_date,
+    amount, transaction_id
+  )
+  VALUES (
+    v_account.user_id, p_account_id, v_biller.id, p_saved_biller_id, v_saved.consumer_number, v_bill.bill_number,
+    v_bill.billing_period, v_bill.due_date, v_amount, v_transaction.id
+  )
+  RETURNING * INTO v_payment;
+
+  RETURN v_payment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.pay_bill(UUID, UUID, DECIMAL, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.pay_bill(UUID, UUID, DECIMAL, UUID) TO authenticated;
@@ -0,0 +1,411 @@
+-- Payment handles and collect requests: each customer can claim a handle such
+-- as `asha@buddy` that receives money into one of their accounts, send money
+-- to a handle through the transfer path, and ask another customer for money
+-- with a collect request that the payer approves or declines before it
+-- expires.
+CREATE TABLE public.payment_handles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  handle TEXT NOT NULL UNIQUE,
+  account_id UUID NOT NULL REFERENCES public.accounts(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create collect request settings (single row)
+CREATE TABLE public.collect_request_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  default_expiry_hours INTEGER NOT NULL DEFAULT 24 CHECK (default_expiry_hours > 0),
+  max_expiry_hours INTEGER NOT NULL DEFAULT 168 CHECK (max_expiry_hours > 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.collect_request_settings (id) VALUES (true);
+
+-- Create collect requests. Names and handles are copied onto the request so
+-- each party can see who the other is without reading their profile. A
+-- pending request past expires_at is expired: it can no longer be approved
+-- or declined.
+CREATE TABLE public.collect_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  requester_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  requester_account_id UUID NOT NULL REFERENCES public.accounts(id),
+  requester_name TEXT,
+  requester_handle TEXT,
+  payer_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  payer_name TEXT,
+  payer_handle TEXT NOT NULL,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL,
+  note TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'declined', 'cancelled')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  -- The payer's transfer_out row, once approved
+  transaction_id UUID REFERENCES public.transactions(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (requester_user_id <> payer_user_id)
+);
+
+CREATE INDEX collect_requests_requester_idx ON public.collect_requests (requester_user_id, created_at DESC);
+CREATE INDEX collect_requests_payer_idx ON public.collect_requests (payer_user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.payment_handles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.collect_request_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.collect_requests ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies. Handles are looked up through find_transfer_recipient
+-- and claimed through claim_payment_handle; requests change only through the
+-- functions below.
+CREATE POLICY "Users can view their own payment handle"
+ON public.payment_handles
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Signed-in users can view collect request settings"
+ON public.collect_request_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can view collect requests they sent or received"
+ON public.collect_requests
+FOR SELECT
+USING (auth.uid() = requester_user_id OR auth.uid() = payer_user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON public.payment_handles FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.collect_request_settings FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.collect_requests FROM anon, authenticated;
+
+CREATE TRIGGER update_payment_handles_updated_at
+  BEFORE UPDATE ON public.payment_handles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_collect_request_settings_updated_at
+  BEFORE UPDATE ON public.collect_request_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_collect_requests_updated_at
+  BEFORE UPDATE ON public.collect_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The full handle for a typed handle ("Asha", "asha@buddy" and " ASHA@Buddy "
+-- are all asha@buddy), or NULL when it is not a valid handle
+CREATE OR REPLACE FUNCTION public.normalize_payment_handle(p_handle TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_name TEXT := regexp_replace(lower(btrim(COALESCE(p_handle, ''))), '@buddy$', '');
+BEGIN
+  IF v_name !~ '^[a-z0-9][a-z0-9._]{2,29}$' THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN v_name || '@buddy';
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.normalize_payment_handle(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Claim a handle for the signed-in user, receiving into one of their
+-- accounts. Claiming again changes the handle or the account; the old handle
+-- is released.
+CREATE OR REPLACE FUNCTION public.claim_payment_handle(p_handle TEXT, p_account_id UUID)
+RETURNS public.payment_handles AS $$
+DECLARE
+  v_handle TEXT := public.normalize_payment_handle(p_handle);
+  v_account public.accounts;
+  v_claimed public.payment_handles;
+BEGIN
+  v_account := public.own_account(p_account_id);
+
+  IF v_account.status <> 'active' THEN
+    RAISE EXCEPTION 'Handles can only receive into active accounts' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_handle IS NULL THEN
+    RAISE EXCEPTION 'Handles are 3 to 30 letters, numbers, dots or underscores, starting with a letter or number'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.payment_handles WHERE handle = v_handle AND user_id <> v_account.user_id) THEN
+    RAISE EXCEPTION '% is already taken', v_handle USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.payment_handles (user_id, handle, account_id)
+  VALUES (v_account.user_id, v_handle, p_account_id)
+  ON CONFLICT (user_id) DO UPDATE
+  SET handle = EXCLUDED.handle, account_id = EXCLUDED.account_id
+  RETURNING * INTO v_claimed;
+
+  RETURN v_claimed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_payment_handle(TEXT, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_payment_handle(TEXT, UUID) TO authenticated;
+
+-- Recreate recipient lookup with handles. A handle finds the account it
+-- receives into; an account number finds that account; a phone number finds
+-- the customer's oldest active account. The signed-in user's own accounts
+-- are never returned.
+CREATE OR REPLACE FUNCTION public.find_transfer_recipient(p_identifier TEXT)
+RETURNS TABLE (user_id UUID, account_id UUID, name TEXT, account_number_masked TEXT) AS $$
+DECLARE
+  v_identifier TEXT := regexp_replace(COALESCE(p_identifier, ''), '\D', '', 'g');
+  v_matches INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF position('@' IN COALESCE(p_identifier, '')) > 0 THEN
+    RETURN QUERY
+    SELECT a.user_id, a.id, p.name, 'XXXXXXXX' || right(a.account_number, 4)
+    FROM public.payment_handles h
+    JOIN public.accounts a ON a.id = h.account_id AND a.status = 'active'
+    JOIN public.profiles p ON p.user_id = a.user_id
+    WHERE h.user_id <> auth.uid() AND h.handle = public.normalize_payment_handle(p_identifier);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Recipient not found' USING ERRCODE = 'P0002';
+    END IF;
+    RETURN;
+  END IF;
+
+  IF v_identifier = '' THEN
+    RAISE EXCEPTION 'Enter an account number, phone number or handle' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  SELECT a.user_id, a.id, p.name, 'XXXXXXXX' || right(a.account_number, 4)
+  FROM public.accounts a
+  JOIN public.profiles p ON p.user_id = a.user_id
+  WHERE a.user_id <> auth.uid() AND a.status = 'active' AND a.account_number = v_identifier;
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT count(*) INTO v_matches
+  FROM public.profiles p
+  WHERE p.user_id <> auth.uid() AND regexp_replace(p.phone, '\D', '', 'g') = v_identifier;
+
+  IF v_matches = 0 THEN
+    RAISE EXCEPTION 'Recipient not found' USING ERRCODE = 'P0002';
+  ELSIF v_matches > 1 THEN
+    RAISE EXCEPTION 'Several customers share this phone number; use the account number instead' USING ERRCODE = 'P0003';
+  END IF;
+
+  RETURN QUERY
+  SELECT a.user_id, a.id, p.name, 'XXXXXXXX' || right(a.account_number, 4)
+  FROM public.profiles p
+  JOIN public.accounts a ON a.user_id = p.user_id AND a.status = 'active'
+  WHERE p.user_id <> auth.uid() AND regexp_replace(p.phone, '\D', '', 'g') = v_identifier
+  ORDER BY a.created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recipient not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Ask the customer behind a handle to pay into one of the signed-in user's
+-- accounts. p_expires_in_hours defaults to
+-- collect_request_settings.default_expiry_hours.
+CREATE OR REPLACE FUNCTION public.create_collect_request(
+  p_account_id UUID,
+  p_payer_handle TEXT,
+  p_amount DECIMAL,
+  p_note TEXT DEFAULT NULL,
+  p_expires_in_hours INTEGER DEFAULT NULL
+)
+RETURNS public.collect_requests AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+  v_account public.accounts;
+  v_payer public.payment_handles;
+  v_settings public.collect_request_settings;
+  v_expiry_hours INTEGER;
+  v_request public.collect_requests;
+BEGIN
+  v_account := public.own_account(p_account_id);
+
+  IF v_account.status <> 'active' THEN
+    RAISE EXCEPTION 'Money can only be requested into active accounts' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_settings FROM public.collect_request_settings;
+  v_expiry_hours := COALESCE(p_expires_in_hours, v_settings.default_expiry_hours);
+
+  IF v_expiry_hours < 1 OR v_expiry_hours > v_settings.max_expiry_hours THEN
+    RAISE EXCEPTION 'Requests can stay open for 1 to % hours', v_settings.max_expiry_hours USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_payer FROM public.payment_handles WHERE handle = public.normalize_payment_handle(p_payer_handle);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No customer has the handle %', btrim(p_payer_handle) USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_payer.user_id = v_account.user_id THEN
+    RAISE EXCEPTION 'You cannot request money from yourself' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.collect_requests (
+    requester_user_id, requester_account_id, requester_name, requester_handle,
+    payer_user_id, payer_name, payer_handle, amount, currency, note, expires_at
+  )
+  SELECT
+    v_account.user_id, p_account_id,
+    (SELECT name FROM public.profiles WHERE user_id = v_account.user_id),
+    (SELECT handle FROM public.payment_handles WHERE user_id = v_account.user_id),
+    v_payer.user_id,
+    (SELECT name FROM public.profiles WHERE user_id = v_payer.user_id),
+    v_payer.handle, v_amount, v_account.currency, NULLIF(btrim(p_note), ''),
+    now() + make_interval(hours => v_expiry_hours)
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.create_collect_request(UUID, TEXT, DECIMAL, TEXT, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_collect_request(UUID, TEXT, DECIMAL, TEXT, INTEGER) TO authenticated;
+
+-- Lock a pending, unexpired collect request for one of its parties to act on
+CREATE OR REPLACE FUNCTION public.lock_pending_collect_request(p_request_id UUID)
+RETURNS public.collect_requests AS $$
+DECLARE
+  v_request public.collect_requests;
+BEGIN
+  SELECT * INTO v_request
+  FROM public.collect_requests
+  WHERE id = p_request_id AND auth.uid() IN (requester_user_id, payer_user_id)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been %', v_request.status USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_request.expires_at <= now() THEN
+    RAISE EXCEPTION 'This request has expired' USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN v_request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.lock_pending_collect_request(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Approve a collect request sent to the signed-in user, paying it from one of
+-- their accounts through post_transfer, so payee rules apply as for any other
+-- transfer
+CREATE OR REPLACE FUNCTION public.approve_collect_request(
+  p_request_id UUID,
+  p_account_id UUID,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.collect_requests AS $$
+DECLARE
+  v_request public.collect_requests;
+  v_transaction public.transactions;
+BEGIN
+  PERFORM public.own_account(p_account_id);
+
+  -- A replay returns the request the first call approved
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT r.* INTO v_request
+    FROM public.collect_requests r
+    JOIN public.transactions t ON t.id = r.transaction_id
+    WHERE r.id = p_request_id AND t.user_id = auth.uid() AND t.idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      RETURN v_request;
+    END IF;
+  END IF;
+
+  v_request := public.lock_pending_collect_request(p_request_id);
+
+  IF v_request.payer_user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the payer can approve a request' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_transaction := public.post_transfer(
+    p_account_id, v_request.requester_account_id, v_request.amount,
+    COALESCE(v_request.note, 'Collect request') || ' (' || COALESCE(v_request.requester_handle, v_request.requester_name, 'request') || ')',
+    p_idempotency_key
+  );
+
+  UPDATE public.collect_requests
+  SET status = 'approved', responded_at = now(), transaction_id = v_transaction.id
+  WHERE id = p_request_id
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.approve_collect_request(UUID, UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.approve_collect_request(UUID, UUID, UUID) TO authenticated;
+
+-- Decline a collect request sent to the signed-in user
+CREATE OR REPLACE FUNCTION public.decline_collect_request(p_request_id UUID)
+RETURNS public.collect_requests AS $$
+DECLARE
+  v_request public.collect_requests;
+BEGIN
+  v_request := public.lock_pending_collect_request(p_request_id);
+
+  IF v_request.payer_user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the payer can decline a request' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE public.collect_requests
+  SET status = 'declined', responded_at = now()
+  WHERE id = p_request_id
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.decline_collect_request(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.decline_collect_request(UUID) TO authenticated;
+
+-- Withdraw a collect request the signed-in user sent
+CREATE OR REPLACE FUNCTION public.cancel_collect_request(p_request_id UUID)
+RETURNS public.collect_requests AS $$
+DECLARE
+  v_request public.collect_requests;
+BEGIN
+  v_request := public.lock_pending_collect_request(p_request_id);
+
+  IF v_request.requester_user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the requester can cancel a request' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE public.collect_requests
+  SET status = 'cancelled', responded_at = now()
+  WHERE id = p_request_id
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_collect_request(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_collect_request(UUID) TO authenticated;
@@ -0,0 +1,278 @@
+-- Payment links: a customer creates a link for a fixed amount and purpose
+-- that other signed-in customers open at /pay/<token> and pay in one step.
+-- A link expires, can be revoked, and accepts either one payment or many.
+CREATE TABLE public.payment_link_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  default_expiry_hours INTEGER NOT NULL DEFAULT 168 CHECK (default_expiry_hours > 0),
+  max_expiry_hours INTEGER NOT NULL DEFAULT 720 CHECK (max_expiry_hours > 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.payment_link_settings (id) VALUES (true);
+
+-- Create payment links. A single-use link becomes 'paid' with its first
+-- payment; an active link past expires_at is expired and takes no payments.
+CREATE TABLE public.payment_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES public.accounts(id),
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL,
+  purpose TEXT NOT NULL,
+  multi_use BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paid', 'revoked')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX payment_links_user_id_idx ON public.payment_links (user_id, created_at DESC);
+
+-- Create payments made against links. Names are copied so the link's
+-- creator can see who paid without reading their profile.
+CREATE TABLE public.payment_link_payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  link_id UUID NOT NULL REFERENCES public.payment_links(id) ON DELETE CASCADE,
+  payer_user_id UUID NOT NULL REFERENCES auth.users(id),
+  payer_name TEXT,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  -- The payer's transfer_out row
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX payment_link_payments_link_id_idx ON public.payment_link_payments (link_id, created_at DESC);
+CREATE INDEX payment_link_payments_payer_idx ON public.payment_link_payments (payer_user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.payment_link_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_link_payments ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies. Payers open a link through get_payment_link rather
+-- than reading payment_links, so tokens cannot be listed.
+CREATE POLICY "Signed-in users can view payment link settings"
+ON public.payment_link_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can view their own payment links"
+ON public.payment_links
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view payments they made or received through links"
+ON public.payment_link_payments
+FOR SELECT
+USING (
+  auth.uid() = payer_user_id
+  OR EXISTS (SELECT 1 FROM public.payment_links l WHERE l.id = link_id AND l.user_id = auth.uid())
+);
+
+REVOKE INSERT, UPDATE, DELETE ON public.payment_link_settings FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.payment_links FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.payment_link_payments FROM anon, authenticated;
+
+CREATE TRIGGER update_payment_link_settings_updated_at
+  BEFORE UPDATE ON public.payment_link_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_payment_links_updated_at
+  BEFORE UPDATE ON public.payment_links
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create a payment link into one of the signed-in user's accounts.
+-- p_expires_in_hours defaults to payment_link_settings.default_expiry_hours.
+CREATE OR REPLACE FUNCTION public.create_payment_link(
+  p_account_id UUID,
+  p_amount DECIMAL,
+  p_purpose TEXT,
+  p_multi_use BOOLEAN DEFAULT false,
+  p_expires_in_hours INTEGER DEFAULT NULL
+)
+RETURNS public.payment_links AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+  v_purpose TEXT := NULLIF(btrim(p_purpose), '');
+  v_account public.accounts;
+  v_settings public.payment_link_settings;
+  v_expiry_hours INTEGER;
+  v_link public.payment_links;
+BEGIN
+  v_account := public.own_account(p_account_id);
+
+  IF v_account.status <> 'active' THEN
+    RAISE EXCEPTION 'Payment links can only pay into active accounts' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_purpose IS NULL THEN
+    RAISE EXCEPTION 'Enter what the payment is for' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_settings FROM public.payment_link_settings;
+  v_expiry_hours := COALESCE(p_expires_in_hours, v_settings.default_expiry_hours);
+
+  IF v_expiry_hours < 1 OR v_expiry_hours > v_settings.max_expiry_hours THEN
+    RAISE EXCEPTION 'Payment links can stay open for 1 to % hours', v_settings.max_expiry_hours USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.payment_links (user_id, account_id, amount, currency, purpose, multi_use, expires_at)
+  VALUES (
+    v_account.user_id, p_account_id, v_amount, v_account.currency, left(v_purpose, 140), COALESCE(p_multi_use, false),
+    now() + make_interval(hours => v_expiry_hours)
+  )
+  RETURNING * INTO v_link;
+
+  RETURN v_link;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.create_payment_link(UUID, DECIMAL, TEXT, BOOLEAN, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_payment_link(UUID, DECIMAL, TEXT, BOOLEAN, INTEGER) TO authenticated;
+
+-- What the signed-in user needs to pay a link: who it pays, how much and
+-- whether it can still be paid. Never returns the receiving account.
+CREATE OR REPLACE FUNCTION public.get_payment_link(p_token TEXT)
+RETURNS TABLE (
+  id UUID,
+  amount DECIMAL,
+  currency TEXT,
+  purpose TEXT,
+  multi_use BOOLEAN,
+  status TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  creator_name TEXT,
+  creator_handle TEXT,
+  own_link BOOLEAN,
+  paid_by_me BOOLEAN
+) AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    l.id, l.amount, l.currency, l.purpose, l.multi_use,
+    CASE WHEN l.status = 'active' AND l.expires_at <= now() THEN 'expired' ELSE l.status END,
+    l.expires_at, p.name, h.handle, l.user_id = auth.uid(),
+    EXISTS (SELECT 1 FROM public.payment_link_payments lp WHERE lp.link_id = l.id AND lp.payer_user_id = auth.uid())
+  FROM public.payment_links l
+  LEFT JOIN public.profiles p ON p.user_id = l.user_id
+  LEFT JOIN public.payment_handles h ON h.user_id = l.user_id
+  WHERE l.token = p_token;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment link not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_payment_link(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_payment_link(TEXT) TO authenticated;
+
+-- Pay a link from one of the signed-in user's accounts through post_transfer,
+-- so payee rules apply as for any other transfer
+CREATE OR REPLACE FUNCTION public.pay_payment_link(
+  p_token TEXT,
+  p_account_id UUID,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS public.payment_link_payments AS $$
+DECLARE
+  v_account public.accounts;
+  v_link public.payment_links;
+  v_transaction public.transactions;
+  v_payment public.payment_link_payments;
+BEGIN
+  v_account := public.own_account(p_account_id);
+
+  SELECT * INTO v_link FROM public.payment_links WHERE token = p_token FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment link not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- A replay returns the payment the first call made
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT lp.* INTO v_payment
+    FROM public.payment_link_payments lp
+    JOIN public.transactions t ON t.id = lp.transaction_id
+    WHERE lp.link_id = v_link.id AND t.user_id = v_account.user_id AND t.idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      RETURN v_payment;
+    END IF;
+  END IF;
+
+  IF v_link.user_id = v_account.user_id THEN
+    RAISE EXCEPTION 'You cannot pay your own payment link' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_link.status = 'revoked' THEN
+    RAISE EXCEPTION 'This payment link has been revoked' USING ERRCODE = 'P0001';
+  ELSIF v_link.status = 'paid' THEN
+    RAISE EXCEPTION 'This payment link has already been paid' USING ERRCODE = 'P0001';
+  ELSIF v_link.expires_at <= now() THEN
+    RAISE EXCEPTION 'This payment link has expired' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_transaction := public.post_transfer(p_account_id, v_link.account_id, v_link.amount, v_link.purpose, p_idempotency_key);
+
+  INSERT INTO public.payment_link_payments (link_id, payer_user_id, payer_name, amount, transaction_id)
+  VALUES (
+    v_link.id, v_account.user_id, (SELECT name FROM public.profiles WHERE user_id = v_account.user_id),
+    v_link.amount, v_transaction.id
+  )
+  RETURNING * INTO v_payment;
+
+  IF NOT v_link.multi_use THEN
+    UPDATE public.payment_links SET status = 'paid' WHERE id = v_link.id;
+  END IF;
+
+  RETURN v_payment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.pay_payment_link(TEXT, UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.pay_payment_link(TEXT, UUID, UUID) TO authenticated;
+
+-- Revoke one of the signed-in user's active payment links
+CREATE OR REPLACE FUNCTION public.revoke_payment_link(p_link_id UUID)
+RETURNS public.payment_links AS $$
+DECLARE
+  v_link public.payment_links;
+BEGIN
+  SELECT * INTO v_link
+  FROM public.payment_links
+  WHERE id = p_link_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment link not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_link.status <> 'active' THEN
+    RAISE EXCEPTION 'This payment link is already %', v_link.status USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE public.payment_links
+  SET status = 'revoked', revoked_at = now()
+  WHERE id = p_link_id
+  RETURNING * INTO v_link;
+
+  RETURN v_link;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.revoke_payment_link(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.revoke_payment_link(UUID) TO authenticated;
@@ -0,0 +1,521 @@
+-- Split bills: customers form groups, record shared expenses split equally,
+-- by percentage or by exact amounts, and settle what they owe each other.
+-- Settling up sends the debtor a collect request; a settlement counts towards
+-- the group's balances once that request is approved. Members are added by
+-- payment handle, so every member can be sent a collect request.
+CREATE TABLE public.split_groups (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (length(btrim(name)) BETWEEN 1 AND 60),
+  currency TEXT NOT NULL DEFAULT 'INR' CHECK (currency IN ('INR', 'USD', 'EUR')),
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create group members. The name and handle are copied from when the member
+-- joined so the rest of the group can see who they are.
+CREATE TABLE public.split_group_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  group_id UUID NOT NULL REFERENCES public.split_groups(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  name TEXT,
+  handle TEXT NOT NULL,
+  added_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (group_id, user_id)
+);
+
+CREATE INDEX split_group_members_user_idx ON public.split_group_members (user_id);
+
+-- Create expenses, each paid by one member and shared between some members
+CREATE TABLE public.split_expenses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  group_id UUID NOT NULL REFERENCES public.split_groups(id) ON DELETE CASCADE,
+  description TEXT NOT NULL,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  paid_by_user_id UUID NOT NULL REFERENCES auth.users(id),
+  split_type TEXT NOT NULL CHECK (split_type IN ('equal', 'percentage', 'exact')),
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX split_expenses_group_idx ON public.split_expenses (group_id, created_at DESC);
+
+-- Create expense shares. The shares of an expense add up to its amount;
+-- percentage is kept for percentage splits.
+CREATE TABLE public.split_expense_shares (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  expense_id UUID NOT NULL REFERENCES public.split_expenses(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  amount DECIMAL(12,2) NOT NULL CHECK (amount >= 0),
+  percentage DECIMAL(5,2),
+  UNIQUE (expense_id, user_id)
+);
+
+-- Create settlements: a debtor paying a creditor through a collect request
+CREATE TABLE public.split_settlements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  group_id UUID NOT NULL REFERENCES public.split_groups(id) ON DELETE CASCADE,
+  from_user_id UUID NOT NULL REFERENCES auth.users(id),
+  to_user_id UUID NOT NULL REFERENCES auth.users(id),
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  collect_request_id UUID NOT NULL UNIQUE REFERENCES public.collect_requests(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX split_settlements_group_idx ON public.split_settlements (group_id, created_at DESC);
+
+-- Whether the signed-in user belongs to a group
+CREATE OR REPLACE FUNCTION public.is_split_group_member(p_group_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.split_group_members
+    WHERE group_id = p_group_id AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.is_split_group_member(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_split_group_member(UUID) TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE public.split_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.split_group_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.split_expenses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.split_expense_shares ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.split_settlements ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies. Members see everything in their groups; changes go
+-- through the functions below.
+CREATE POLICY "Members can view their groups"
+ON public.split_groups
+FOR SELECT
+USING (public.is_split_group_member(id));
+
+CREATE POLICY "Members can view their groups' members"
+ON public.split_group_members
+FOR SELECT
+USING (public.is_split_group_member(group_id));
+
+CREATE POLICY "Members can view their groups' expenses"
+ON public.split_expenses
+FOR SELECT
+USING (public.is_split_group_member(group_id));
+
+CREATE POLICY "Members can view their groups' expense shares"
+ON public.split_expense_shares
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.split_expenses e
+  WHERE e.id = expense_id AND public.is_split_group_member(e.group_id)
+));
+
+CREATE POLICY "Members can view their groups' settlements"
+ON public.split_settlements
+FOR SELECT
+USING (public.is_split_group_member(group_id));
+
+REVOKE INSERT, UPDATE, DELETE ON public.split_groups FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.split_group_members FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.split_expenses FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.split_expense_shares FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.split_settlements FROM anon, authenticated;
+
+CREATE TRIGGER update_split_groups_updated_at
+  BEFORE UPDATE ON public.split_groups
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Raise unless the signed-in user belongs to a group, returning the group
+CREATE OR REPLACE FUNCTION public.member_split_group(p_group_id UUID)
+RETURNS public.split_groups AS $$
+DECLARE
+  v_group public.split_groups;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_group FROM public.split_groups WHERE id = p_group_id;
+
+  IF NOT FOUND OR NOT public.is_split_group_member(p_group_id) THEN
+    RAISE EXCEPTION 'Group not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_group;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.member_split_group(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Start a group with the signed-in user as its first member. Members need a
+-- payment handle so they can be asked to settle up.
+CREATE OR REPLACE FUNCTION public.create_split_group(p_name TEXT, p_currency TEXT DEFAULT 'INR')
+RETURNS public.split_groups AS $$
+DECLARE
+  v_handle public.payment_handles;
+  v_group public.split_groups;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_handle FROM public.payment_handles WHERE user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Claim a payment handle before starting a group' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF length(btrim(COALESCE(p_name, ''))) NOT BETWEEN 1 AND 60 THEN
+    RAISE EXCEPTION 'Group names are 1 to 60 characters' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_currency NOT IN ('INR', 'USD', 'EUR') THEN
+    RAISE EXCEPTION 'Unsupported currency %', p_currency USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.split_groups (name, currency, created_by)
+  VALUES (btrim(p_name), p_currency, auth.uid())
+  RETURNING * INTO v_group;
+
+  INSERT INTO public.split_group_members (group_id, user_id, name, handle, added_by)
+  VALUES (
+    v_group.id, auth.uid(), (SELECT name FROM public.profiles WHERE user_id = auth.uid()),
+    v_handle.handle, auth.uid()
+  );
+
+  RETURN v_group;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.create_split_group(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_split_group(TEXT, TEXT) TO authenticated;
+
+-- Add the customer behind a handle to a group the signed-in user belongs to
+CREATE OR REPLACE FUNCTION public.add_split_group_member(p_group_id UUID, p_handle TEXT)
+RETURNS public.split_group_members AS $$
+DECLARE
+  v_handle public.payment_handles;
+  v_member public.split_group_members;
+BEGIN
+  PERFORM public.member_split_group(p_group_id);
+
+  SELECT * INTO v_handle FROM public.payment_handles WHERE handle = public.normalize_payment_handle(p_handle);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No customer has the handle %', btrim(p_handle) USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.split_group_members WHERE group_id = p_group_id AND user_id = v_handle.user_id) THEN
+    RAISE EXCEPTION '% is already in this group', v_handle.handle USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.split_group_members (group_id, user_id, name, handle, added_by)
+  VALUES (
+    p_group_id, v_handle.user_id, (SELECT name FROM public.profiles WHERE user_id = v_handle.user_id),
+    v_handle.handle, auth.uid()
+  )
+  RETURNING * INTO v_member;
+
+  RETURN v_member;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.add_split_group_member(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.add_split_group_member(UUID, TEXT) TO authenticated;
+
+-- Record an expense paid by one member and shared between p_member_ids.
+-- p_values holds each member's percentage for a percentage split or amount
+-- for an exact split, in the order of p_member_ids; an equal split ignores
+-- it. Rounding leftovers go to the first members of an equal split and to the
+-- largest share of a percentage split, so shares always add up to the amount.
+CREATE OR REPLACE FUNCTION public.add_split_expense(
+  p_group_id UUID,
+  p_description TEXT,
+  p_amount DECIMAL,
+  p_paid_by_user_id UUID,
+  p_split_type TEXT,
+  p_member_ids UUID[],
+  p_values DECIMAL[] DEFAULT NULL
+)
+RETURNS public.split_expenses AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+  v_count INTEGER := COALESCE(array_length(p_member_ids, 1), 0);
+  v_expense public.split_expenses;
+  v_cents BIGINT;
+  v_total DECIMAL;
+  v_share DECIMAL(12,2);
+  i INTEGER;
+BEGIN
+  PERFORM public.member_split_group(p_group_id);
+
+  IF length(btrim(COALESCE(p_description, ''))) = 0 THEN
+    RAISE EXCEPTION 'Describe the expense' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_split_type NOT IN ('equal', 'percentage', 'exact') THEN
+    RAISE EXCEPTION 'Unsupported split type %', p_split_type USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.split_group_members WHERE group_id = p_group_id AND user_id = p_paid_by_user_id) THEN
+    RAISE EXCEPTION 'The payer must be a member of the group' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'Choose who shares the expense' USING ERRCODE = '22023';
+  END IF;
+
+  IF (SELECT count(DISTINCT m) FROM unnest(p_member_ids) AS m) <> v_count THEN
+    RAISE EXCEPTION 'Each member can only be listed once' USING ERRCODE = '22023';
+  END IF;
+
+  IF (
+    SELECT count(*) FROM public.split_group_members
+    WHERE group_id = p_group_id AND user_id = ANY (p_member_ids)
+  ) <> v_count THEN
+    RAISE EXCEPTION 'Everyone sharing the expense must be a member of the group' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_split_type <> 'equal' THEN
+    IF COALESCE(array_length(p_values, 1), 0) <> v_count
+      OR EXISTS (SELECT 1 FROM unnest(p_values) AS v WHERE v IS NULL OR v < 0) THEN
+      RAISE EXCEPTION 'Give a share of 0 or more for each member' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT SUM(v) INTO v_total FROM unnest(p_values) AS v;
+
+    IF p_split_type = 'percentage' AND v_total <> 100 THEN
+      RAISE EXCEPTION 'Percentages add up to %, not 100', v_total USING ERRCODE = '22023';
+    ELSIF p_split_type = 'exact' AND v_total <> v_amount THEN
+      RAISE EXCEPTION 'Shares add up to %, not %', v_total, v_amount USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  INSERT INTO public.split_expenses (group_id, description, amount, paid_by_user_id, split_type, created_by)
+  VALUES (p_group_id, btrim(p_description), v_amount, p_paid_by_user_id, p_split_type, auth.uid())
+  RETURNING * INTO v_expense;
+
+  v_cents := (v_amount * 100)::BIGINT;
+
+  FOR i IN 1..v_count LOOP
+    IF p_split_type = 'equal' THEN
+      v_share := (v_cents / v_count + CASE WHEN i <= v_cents % v_count THEN 1 ELSE 0 END) / 100.0;
+    ELSIF p_split_type = 'percentage' THEN
+      v_share := round(v_amount * p_values[i] / 100, 2);
+    ELSE
+      v_share := p_values[i];
+    END IF;
+
+    INSERT INTO public.split_expense_shares (expense_id, user_id, amount, percentage)
+    VALUES (
+      v_expense.id, p_member_ids[i], v_share,
+      CASE WHEN p_split_type = 'percentage' THEN p_values[i] END
+    );
+  END LOOP;
+
+  IF p_split_type = 'percentage' THEN
+    UPDATE public.split_expense_shares
+    SET amount = amount + (v_amount - (SELECT SUM(amount) FROM public.split_expense_shares WHERE expense_id = v_expense.id))
+    WHERE id = (
+      SELECT id FROM public.split_expense_shares
+      WHERE expense_id = v_expense.id
+      ORDER BY amount DESC
+      LIMIT 1
+    );
+  END IF;
+
+  RETURN v_expense;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.add_split_expense(UUID, TEXT, DECIMAL, UUID, TEXT, UUID[], DECIMAL[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.add_split_expense(UUID, TEXT, DECIMAL, UUID, TEXT, UUID[], DECIMAL[]) TO authenticated;
+
+-- Remove an expense the signed-in user recorded
+CREATE OR REPLACE FUNCTION public.delete_split_expense(p_expense_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.split_expenses
+  WHERE id = p_expense_id AND created_by = auth.uid() AND public.is_split_group_member(group_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Expense not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.delete_split_expense(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.delete_split_expense(UUID) TO authenticated;
+
+-- Each member's position in a group. balance is what the group owes the
+-- member (negative when the member owes the group), counting approved
+-- settlements. requested_in and requested_out are settlement requests still
+-- waiting on the debtor; unrequested is the balance nobody has asked to
+-- settle yet, which the app simplifies into who pays whom.
+CREATE OR REPLACE FUNCTION public.get_split_group_balances(p_group_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  name TEXT,
+  handle TEXT,
+  paid DECIMAL,
+  share DECIMAL,
+  balance DECIMAL,
+  requested_in DECIMAL,
+  requested_out DECIMAL,
+  unrequested DECIMAL
+) AS $$
+BEGIN
+  PERFORM public.member_split_group(p_group_id);
+
+  RETURN QUERY
+  WITH totals AS (
+    SELECT
+      m.user_id AS member_id,
+      m.name AS member_name,
+      m.handle AS member_handle,
+      COALESCE((
+        SELECT SUM(e.amount) FROM public.split_expenses e
+        WHERE e.group_id = p_group_id AND e.paid_by_user_id = m.user_id
+      ), 0.00) AS paid_total,
+      COALESCE((
+        SELECT SUM(s.amount) FROM public.split_expense_shares s
+        JOIN public.split_expenses e ON e.id = s.expense_id
+        WHERE e.group_id = p_group_id AND s.user_id = m.user_id
+      ), 0.00) AS share_total,
+      (
+        SELECT COALESCE(SUM(st.amount) FILTER (WHERE st.from_user_id = m.user_id), 0.00)
+          - COALESCE(SUM(st.amount) FILTER (WHERE st.to_user_id = m.user_id), 0.00)
+        FROM public.split_settlements st
+        JOIN public.collect_requests r ON r.id = st.collect_request_id
+        WHERE st.group_id = p_group_id AND r.status = 'approved'
+      ) AS settled_net,
+      COALESCE((
+        SELECT SUM(st.amount) FROM public.split_settlements st
+        JOIN public.collect_requests r ON r.id = st.collect_request_id
+        WHERE st.group_id = p_group_id AND st.to_user_id = m.user_id
+          AND r.status = 'pending' AND r.expires_at > now()
+      ), 0.00) AS pending_in,
+      COALESCE((
+        SELECT SUM(st.amount) FROM public.split_settlements st
+        JOIN public.collect_requests r ON r.id = st.collect_request_id
+        WHERE st.group_id = p_group_id AND st.from_user_id = m.user_id
+          AND r.status = 'pending' AND r.expires_at > now()
+      ), 0.00) AS pending_out
+    FROM public.split_group_members m
+    WHERE m.group_id = p_group_id
+  )
+  SELECT
+    t.member_id, t.member_name, t.member_handle, t.paid_total, t.share_total,
+    t.paid_total - t.share_total + t.settled_net,
+    t.pending_in, t.pending_out,
+    t.paid_total - t.share_total + t.settled_net - t.pending_in + t.pending_out
+  FROM totals t
+  ORDER BY t.member_name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_split_group_balances(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_split_group_balances(UUID) TO authenticated;
+
+-- A group's settlements with the status of each collect request, which only
+-- the two parties can read directly
+CREATE OR REPLACE FUNCTION public.get_split_settlements(p_group_id UUID)
+RETURNS TABLE (
+  id UUID,
+  from_user_id UUID,
+  to_user_id UUID,
+  amount DECIMAL,
+  status TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  PERFORM public.member_split_group(p_group_id);
+
+  RETURN QUERY
+  SELECT st.id, st.from_user_id, st.to_user_id, st.amount, r.status, r.expires_at, st.created_at
+  FROM public.split_settlements st
+  JOIN public.collect_requests r ON r.id = st.collect_request_id
+  WHERE st.group_id = p_group_id
+  ORDER BY st.created_at DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_split_settlements(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_split_settlements(UUID) TO authenticated;
+
+-- Settle up: ask a member who owes the signed-in user to pay into one of
+-- their accounts with a collect request. The amount can be at most what is
+-- still unrequested on both sides.
+CREATE OR REPLACE FUNCTION public.request_split_settlement(
+  p_group_id UUID,
+  p_debtor_user_id UUID,
+  p_account_id UUID,
+  p_amount DECIMAL
+)
+RETURNS public.split_settlements AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+  v_group public.split_groups;
+  v_account public.accounts;
+  v_creditor_unrequested DECIMAL;
+  v_debtor_unrequested DECIMAL;
+  v_debtor_handle TEXT;
+  v_request public.collect_requests;
+  v_settlement public.split_settlements;
+BEGIN
+  v_group := public.member_split_group(p_group_id);
+  v_account := public.own_account(p_account_id);
+
+  IF v_account.currency <> v_group.currency THEN
+    RAISE EXCEPTION 'This group settles in %; choose a % account', v_group.currency, v_group.currency
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  -- Serialize settle-ups in a group so two requests cannot claim the same debt
+  PERFORM 1 FROM public.split_groups WHERE id = p_group_id FOR UPDATE;
+
+  SELECT b.unrequested INTO v_creditor_unrequested
+  FROM public.get_split_group_balances(p_group_id) b
+  WHERE b.user_id = auth.uid();
+
+  SELECT b.unrequested INTO v_debtor_unrequested
+  FROM public.get_split_group_balances(p_group_id) b
+  WHERE b.user_id = p_debtor_user_id AND b.user_id <> auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Member not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_amount > v_creditor_unrequested OR v_amount > -v_debtor_unrequested THEN
+    RAISE EXCEPTION 'You can ask this member for at most %',
+      greatest(least(v_creditor_unrequested, -v_debtor_unrequested), 0.00)
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT handle INTO v_debtor_handle FROM public.payment_handles WHERE user_id = p_debtor_user_id;
+
+  v_request := public.create_collect_request(p_account_id, v_debtor_handle, v_amount, 'Settle up: ' || v_group.name);
+
+  INSERT INTO public.split_settlements (group_id, from_user_id, to_user_id, amount, collect_request_id)
+  VALUES (p_group_id, p_debtor_user_id, auth.uid(), v_amount, v_request.id)
+  RETURNING * INTO v_settlement;
+
+  RETURN v_settlement;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.request_split_settlement(UUID, UUID, UUID, DECIMAL) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.request_split_settlement(UUID, UUID, UUID, DECIMAL) TO authenticated;
@@ -0,0 +1,349 @@
+-- Savings goals: customers set money aside in named goals with a target
+-- amount and date. Money in a goal stays in its account's ledger balance but
+-- is no longer available to spend, so every existing funds check leaves it
+-- alone. Goals can top themselves up weekly through a back office job.
+CREATE TABLE public.savings_goals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  account_id UUID NOT NULL REFERENCES public.accounts(id),
+  name TEXT NOT NULL CHECK (length(btrim(name)) BETWEEN 1 AND 60),
+  target_amount DECIMAL(12,2) NOT NULL CHECK (target_amount > 0),
+  target_date DATE NOT NULL,
+  saved_amount DECIMAL(12,2) NOT NULL DEFAULT 0.00 CHECK (saved_amount >= 0),
+  weekly_amount DECIMAL(12,2) CHECK (weekly_amount > 0),
+  next_contribution_on DATE,
+  last_contribution_error TEXT,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'closed')),
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((weekly_amount IS NULL) = (next_contribution_on IS NULL)),
+  CHECK ((status = 'closed') = (closed_at IS NOT NULL)),
+  CHECK (status = 'active' OR saved_amount = 0)
+);
+
+CREATE INDEX savings_goals_account_idx ON public.savings_goals (account_id) WHERE status = 'active';
+CREATE INDEX savings_goals_contribution_idx ON public.savings_goals (next_contribution_on) WHERE status = 'active';
+
+-- Create goal movements: money moved in (positive) or out (negative)
+CREATE TABLE public.savings_goal_movements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  goal_id UUID NOT NULL REFERENCES public.savings_goals(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  amount DECIMAL(12,2) NOT NULL CHECK (amount <> 0),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'weekly')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX savings_goal_movements_goal_idx ON public.savings_goal_movements (goal_id, created_at DESC);
+
+-- The money set aside in an account's goals, copied onto the account row
+ALTER TABLE public.accounts ADD COLUMN set_aside_balance DECIMAL(12,2) NOT NULL DEFAULT 0.00;
+
+-- Enable Row Level Security
+ALTER TABLE public.savings_goals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.savings_goal_movements ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies; goals change only through the functions below
+CREATE POLICY "Users can view their own savings goals"
+ON public.savings_goals
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own savings goal movements"
+ON public.savings_goal_movements
+FOR SELECT
+USING (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON public.savings_goals FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.savings_goal_movements FROM anon, authenticated;
+
+CREATE TRIGGER update_savings_goals_updated_at
+  BEFORE UPDATE ON public.savings_goals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create function returning the money set aside in an account's open goals
+CREATE OR REPLACE FUNCTION public.account_set_aside_balance(p_account_id UUID)
+RETURNS DECIMAL AS $$
+  SELECT COALESCE(SUM(saved_amount), 0.00)
+  FROM public.savings_goals
+  WHERE account_id = p_account_id AND status = 'active';
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Recreate the spendable balance without the money set aside in goals
+CREATE OR REPLACE FUNCTION public.account_available_balance(p_account_id UUID)
+RETURNS DECIMAL AS $$
+  SELECT public.ledger_account_balance(public.account_ledger_account_id(p_account_id))
+    - COALESCE((
+      SELECT SUM(amount) FROM public.transactions
+      WHERE account_id = p_account_id AND status = 'pending' AND transaction_type = 'withdraw'
+    ), 0.00)
+    - public.account_set_aside_balance(p_account_id);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Recreate balance refresh to copy the set-aside balance as well
+CREATE OR REPLACE FUNCTION public.refresh_account_balances(p_account_id UUID)
+RETURNS DECIMAL AS $$
+DECLARE
+  v_ledger_balance DECIMAL(12,2) := public.ledger_account_balance(public.account_ledger_account_id(p_account_id));
+BEGIN
+  UPDATE public.accounts
+  SET ledger_balance = v_ledger_balance,
+      available_balance = public.account_available_balance(p_account_id),
+      set_aside_balance = public.account_set_aside_balance(p_account_id)
+  WHERE id = p_account_id;
+
+  RETURN v_ledger_balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.account_set_aside_balance(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.account_available_balance(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_account_balances(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Create function moving money into (positive p_amount) or out of a locked,
+-- open goal. Money moved in must come from the account's available balance;
+-- the overdraft is not used.
+CREATE OR REPLACE FUNCTION public.move_savings_goal_money(
+  p_goal public.savings_goals,
+  p_amount DECIMAL,
+  p_source TEXT
+)
+RETURNS public.savings_goals AS $$
+DECLARE
+  v_goal public.savings_goals;
+BEGIN
+  PERFORM public.lock_active_account(p_goal.account_id);
+
+  IF p_amount > 0 AND public.account_available_balance(p_goal.account_id) < p_amount THEN
+    RAISE EXCEPTION 'Insufficient funds' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_amount < 0 AND p_goal.saved_amount < -p_amount THEN
+    RAISE EXCEPTION 'This goal only holds %', p_goal.saved_amount USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE public.savings_goals
+  SET saved_amount = saved_amount + p_amount
+  WHERE id = p_goal.id
+  RETURNING * INTO v_goal;
+
+  INSERT INTO public.savings_goal_movements (goal_id, user_id, amount, source)
+  VALUES (p_goal.id, p_goal.user_id, p_amount, p_source);
+
+  PERFORM public.refresh_account_balances(p_goal.account_id);
+
+  RETURN v_goal;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.move_savings_goal_money(public.savings_goals, DECIMAL, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Create function locking one of the signed-in user's open goals
+CREATE OR REPLACE FUNCTION public.lock_own_savings_goal(p_goal_id UUID)
+RETURNS public.savings_goals AS $$
+DECLARE
+  v_goal public.savings_goals;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_goal FROM public.savings_goals WHERE id = p_goal_id AND user_id = auth.uid() FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Goal not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_goal.status <> 'active' THEN
+    RAISE EXCEPTION 'This goal is closed' USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN v_goal;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.lock_own_savings_goal(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Create a goal on one of the signed-in user's accounts, optionally topped up
+-- every week starting a week from today
+CREATE OR REPLACE FUNCTION public.create_savings_goal(
+  p_account_id UUID,
+  p_name TEXT,
+  p_target_amount DECIMAL,
+  p_target_date DATE,
+  p_weekly_amount DECIMAL DEFAULT NULL
+)
+RETURNS public.savings_goals AS $$
+DECLARE
+  v_account public.accounts;
+  v_target_amount DECIMAL(12,2) := round(p_target_amount, 2);
+  v_weekly_amount DECIMAL(12,2) := round(p_weekly_amount, 2);
+  v_goal public.savings_goals;
+BEGIN
+  v_account := public.own_account(p_account_id);
+
+  IF v_account.status <> 'active' THEN
+    RAISE EXCEPTION 'Goals can only be created on active accounts' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF length(btrim(COALESCE(p_name, ''))) NOT BETWEEN 1 AND 60 THEN
+    RAISE EXCEPTION 'Goal names are 1 to 60 characters' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_target_amount IS NULL OR v_target_amount <= 0 THEN
+    RAISE EXCEPTION 'Target amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_target_date IS NULL OR p_target_date <= current_date THEN
+    RAISE EXCEPTION 'Target date must be in the future' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_weekly_amount IS NOT NULL AND v_weekly_amount <= 0 THEN
+    RAISE EXCEPTION 'Weekly amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.savings_goals (
+    user_id, account_id, name, target_amount, target_date, weekly_amount, next_contribution_on
+  )
+  VALUES (
+    v_account.user_id, p_account_id, btrim(p_name), v_target_amount, p_target_date, v_weekly_amount,
+    CASE WHEN v_weekly_amount IS NOT NULL THEN current_date + 7 END
+  )
+  RETURNING * INTO v_goal;
+
+  RETURN v_goal;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.create_savings_goal(UUID, TEXT, DECIMAL, DATE, DECIMAL) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_savings_goal(UUID, TEXT, DECIMAL, DATE, DECIMAL) TO authenticated;
+
+-- Set a goal's weekly contribution, starting a week from today, or turn it
+-- off by leaving p_weekly_amount out
+CREATE OR REPLACE FUNCTION public.set_savings_goal_weekly_amount(p_goal_id UUID, p_weekly_amount DECIMAL DEFAULT NULL)
+RETURNS public.savings_goals AS $$
+DECLARE
+  v_weekly_amount DECIMAL(12,2) := round(p_weekly_amount, 2);
+  v_goal public.savings_goals;
+BEGIN
+  v_goal := public.lock_own_savings_goal(p_goal_id);
+
+  IF v_weekly_amount IS NOT NULL AND v_weekly_amount <= 0 THEN
+    RAISE EXCEPTION 'Weekly amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.savings_goals
+  SET weekly_amount = v_weekly_amount,
+      next_contribution_on = CASE WHEN v_weekly_amount IS NOT NULL THEN current_date + 7 END,
+      last_contribution_error = NULL
+  WHERE id = p_goal_id
+  RETURNING * INTO v_goal;
+
+  RETURN v_goal;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.set_savings_goal_weekly_amount(UUID, DECIMAL) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_savings_goal_weekly_amount(UUID, DECIMAL) TO authenticated;
+
+-- Move money between one of the signed-in user's goals and its account:
+-- positive p_amount sets money aside, negative releases it
+CREATE OR REPLACE FUNCTION public.transfer_savings_goal(p_goal_id UUID, p_amount DECIMAL)
+RETURNS public.savings_goals AS $$
+DECLARE
+  v_amount DECIMAL(12,2) := round(p_amount, 2);
+BEGIN
+  IF v_amount IS NULL OR v_amount = 0 THEN
+    RAISE EXCEPTION 'Amount must not be 0' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN public.move_savings_goal_money(public.lock_own_savings_goal(p_goal_id), v_amount, 'manual');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.transfer_savings_goal(UUID, DECIMAL) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.transfer_savings_goal(UUID, DECIMAL) TO authenticated;
+
+-- Close one of the signed-in user's goals, releasing what it holds back to
+-- the account's available balance
+CREATE OR REPLACE FUNCTION public.close_savings_goal(p_goal_id UUID)
+RETURNS public.savings_goals AS $$
+DECLARE
+  v_goal public.savings_goals;
+BEGIN
+  v_goal := public.lock_own_savings_goal(p_goal_id);
+
+  IF v_goal.saved_amount > 0 THEN
+    v_goal := public.move_savings_goal_money(v_goal, -v_goal.saved_amount, 'manual');
+  END IF;
+
+  UPDATE public.savings_goals
+  SET status = 'closed',
+      closed_at = now(),
+      weekly_amount = NULL,
+      next_contribution_on = NULL
+  WHERE id = p_goal_id
+  RETURNING * INTO v_goal;
+
+  RETURN v_goal;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.close_savings_goal(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.close_savings_goal(UUID) TO authenticated;
+
+-- Back office job: make every weekly contribution due on or before p_as_of.
+-- A contribution never takes a goal past its target. One the account cannot
+-- cover is skipped and its error kept on the goal; either way the next
+-- contribution is due a week after p_as_of at the latest, so missed weeks are
+-- not made up.
+CREATE OR REPLACE FUNCTION public.run_savings_goal_contributions(p_as_of DATE DEFAULT current_date)
+RETURNS TABLE (
+  goal_id UUID,
+  contribution_date DATE,
+  amount DECIMAL,
+  status TEXT,
+  error TEXT
+) AS $$
+DECLARE
+  v_goal public.savings_goals;
+  v_amount DECIMAL(12,2);
+BEGIN
+  FOR v_goal IN
+    SELECT g.* FROM public.savings_goals g
+    WHERE g.status = 'active' AND g.next_contribution_on <= p_as_of
+    ORDER BY g.next_contribution_on, g.id
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    goal_id := v_goal.id;
+    contribution_date := v_goal.next_contribution_on;
+    v_amount := least(v_goal.weekly_amount, v_goal.target_amount - v_goal.saved_amount);
+    amount := greatest(v_amount, 0.00);
+    error := NULL;
+
+    IF v_amount <= 0 THEN
+      status := 'target_reached';
+    ELSE
+      BEGIN
+        PERFORM public.move_savings_goal_money(v_goal, v_amount, 'weekly');
+        status := 'contributed';
+      EXCEPTION WHEN OTHERS THEN
+        status := 'skipped';
+        error := SQLERRM;
+      END;
+    END IF;
+
+    UPDATE public.savings_goals g
+    SET next_contribution_on = v_goal.next_contribution_on + 7 * ((p_as_of - v_goal.next_contribution_on) / 7 + 1),
+        last_contribution_error = error
+    WHERE g.id = v_goal.id;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.run_savings_goal_contributions(DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.run_savings_goal_contributions(DATE) TO service_role;
@@ -0,0 +1,72 @@
+-- Limits on a US dollar account are the dollar ones, not rupee amounts.
+-- Run with `supabase test db`.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data)
+VALUES
+  ('00000000-0000-4000-8000-000000000001', 'usd-sender@example.com', '{"name": "Dollar Sender", "phone": "9000000001"}'),
+  ('00000000-0000-4000-8000-000000000002', 'usd-payee@example.com', '{"name": "Dollar Payee", "phone": "9000000002"}');
+
+INSERT INTO public.accounts (id, user_id, account_type, currency)
+VALUES
+  ('00000000-0000-4000-8000-0000000000a1', '00000000-0000-4000-8000-000000000001', 'savings', 'USD'),
+  ('00000000-0000-4000-8000-0000000000a2', '00000000-0000-4000-8000-000000000002', 'savings', 'USD');
+
+DO $$ BEGIN PERFORM public.apply_transaction('00000000-0000-4000-8000-0000000000a1', 'deposit', 5000); END $$;
+
+SELECT is(
+  (SELECT max_single_withdrawal FROM public.withdrawal_limit_usage('00000000-0000-4000-8000-0000000000a1')),
+  600.00::decimal,
+  'a dollar savings account gets the dollar per-transaction limit'
+);
+
+SELECT is(
+  (SELECT daily_amount_limit FROM public.withdrawal_limit_usage('00000000-0000-4000-8000-0000000000a1')),
+  1200.00::decimal,
+  'a dollar savings account gets the dollar daily limit'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.apply_transaction('00000000-0000-4000-8000-0000000000a1', 'withdraw', 700) $$,
+  'P0001',
+  'Withdrawals and transfers from a savings account are limited to 600.00 per transaction',
+  'a dollar withdrawal over the dollar limit is refused'
+);
+
+SELECT lives_ok(
+  $$ SELECT public.apply_transaction('00000000-0000-4000-8000-0000000000a1', 'withdraw', 500) $$,
+  'a dollar withdrawal within the dollar limit goes through'
+);
+
+DO $$ BEGIN PERFORM public.apply_transaction('00000000-0000-4000-8000-0000000000a1', 'withdraw', 500); END $$;
+
+SELECT throws_ok(
+  $$ SELECT public.apply_transaction('00000000-0000-4000-8000-0000000000a1', 'withdraw', 300) $$,
+  'P0001',
+  'This exceeds your daily limit; 200.00 remaining today',
+  'dollar withdrawals count towards the dollar daily limit'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.check_transfer_policy(
+    '00000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-0000000000a2', 601
+  ) $$,
+  'P0001',
+  'Transfers to unsaved recipients are limited to 600.00 USD in any 24 hours; add them as a payee to send more',
+  'an unsaved dollar recipient gets the dollar cap'
+);
+
+SELECT lives_ok(
+  $$ SELECT public.check_transfer_policy(
+    '00000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-0000000000a2', 600
+  ) $$,
+  'a transfer up to the dollar cap is allowed'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;